@@ -3,12 +3,19 @@
  */
 
 import { Mutex } from "async-mutex";
-import { behaviorState, ProfileTarget } from "./state.js";
+import {
+  behaviorState as defaultBehaviorState,
+  BehaviorStateManager,
+  ProfileTarget,
+} from "./state.js";
 import { computeProfileHash } from "./hash.js";
 import { audit } from "../monitoring/audit.js";
 import { BehaviorGenerator } from "../utils/behavior-generator.js";
 import { ClaudeConfigManager } from "../utils/claude-config.js";
+import { TemplateVariables } from "../utils/profile-template.js";
 import { ILogger, SilentLogger } from "../utils/logger.js";
+import { ProfileSigning } from "../security/profile-signing.js";
+import { ApplyHistory } from "./history.js";
 
 export interface ApplyResult {
   status: "applied" | "noop" | "rolled_back" | "error";
@@ -22,18 +29,32 @@ export interface ApplyOptions {
   force?: boolean;
   dryRun?: boolean;
   logger?: ILogger;
+  /** Session-scoped state; defaults to the process-wide behaviorState */
+  state?: BehaviorStateManager;
+  /** Values for the profile's `{{variables}}` */
+  variables?: TemplateVariables;
+  /** Persistent history to record the applied behavior in */
+  history?: ApplyHistory;
 }
 
 class ProfileApplicator {
   private mutex = new Mutex();
   private configManager: ClaudeConfigManager;
   private logger: ILogger;
+  private signing?: ProfileSigning;
 
   constructor(logger?: ILogger) {
     this.logger = logger || new SilentLogger();
     this.configManager = new ClaudeConfigManager(this.logger);
   }
 
+  /**
+   * Check profile signatures before applying them
+   */
+  setProfileSigning(signing?: ProfileSigning): void {
+    this.signing = signing;
+  }
+
   /**
    * Safely apply Claude configuration profile
    */
@@ -42,11 +63,15 @@ class ProfileApplicator {
     actor: string,
     options: ApplyOptions = {},
   ): Promise<ApplyResult> {
+    const behaviorState = options.state || defaultBehaviorState;
+
     return await this.mutex.runExclusive(async () => {
       const start = Date.now();
 
       try {
-        const target = await this.resolveProfile(profile);
+        const target = await this.resolveProfile(profile, options.variables);
+
+        await this.signing?.check(target.source);
 
         const hash = await computeProfileHash(target);
 
@@ -91,6 +116,12 @@ class ProfileApplicator {
           }
 
           behaviorState.atomicSwapBehavior(behavior, { profile, hash });
+          await this.recordHistory(options.history, {
+            profile,
+            hash,
+            actor,
+            behavior,
+          });
 
           const result: ApplyResult = {
             status: "applied",
@@ -159,10 +190,27 @@ class ProfileApplicator {
     });
   }
 
+  /**
+   * Add an applied profile to the history; a history that cannot be written
+   * does not undo the apply
+   */
+  private async recordHistory(
+    history: ApplyHistory | undefined,
+    entry: Parameters<ApplyHistory["record"]>[0],
+  ): Promise<void> {
+    try {
+      await history?.record(entry);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to record '${entry.profile}' in the apply history: ${(error as Error).message}`,
+      );
+    }
+  }
+
   /**
    * Get current application status
    */
-  getStatus(): {
+  getStatus(behaviorState: BehaviorStateManager = defaultBehaviorState): {
     currentProfile: string | null;
     currentHash: string | null;
     lastAppliedAt: Date | null;
@@ -180,7 +228,10 @@ class ProfileApplicator {
   /**
    * Check if profile needs to be applied (hash changed)
    */
-  async needsApply(profile: string): Promise<boolean> {
+  async needsApply(
+    profile: string,
+    behaviorState: BehaviorStateManager = defaultBehaviorState,
+  ): Promise<boolean> {
     try {
       const target = await this.resolveProfile(profile);
       const hash = await computeProfileHash(target);
@@ -193,11 +244,17 @@ class ProfileApplicator {
   /**
    * Resolve profile name to target configuration
    */
-  private async resolveProfile(profile: string): Promise<ProfileTarget> {
+  private async resolveProfile(
+    profile: string,
+    variables?: TemplateVariables,
+  ): Promise<ProfileTarget> {
+    // Included fragments and variables are part of the hash, so changing
+    // either re-applies
+    const config = await this.configManager.loadClaudeConfig(profile);
     return {
       source: profile,
-      includes: [],
-      options: {},
+      includes: config?.includes || [],
+      options: variables ? { variables } : {},
     };
   }
 
@@ -216,7 +273,10 @@ class ProfileApplicator {
       );
     }
 
-    const behavior = BehaviorGenerator.generateInstructions(config);
+    const behavior = BehaviorGenerator.generateInstructions(
+      config,
+      options.variables,
+    );
 
     if (options.logger) {
       options.logger.debug(`Generated behavior: ${behavior.length} characters`);
@@ -242,15 +302,25 @@ export async function applyClaudeConfig(
 /**
  * Get current application status
  */
-export function getApplyStatus() {
-  return applicator.getStatus();
+export function getApplyStatus(state?: BehaviorStateManager) {
+  return applicator.getStatus(state);
 }
 
 /**
  * Check if profile needs to be applied
  */
-export async function needsApply(profile: string): Promise<boolean> {
-  return applicator.needsApply(profile);
+export async function needsApply(
+  profile: string,
+  state?: BehaviorStateManager,
+): Promise<boolean> {
+  return applicator.needsApply(profile, state);
+}
+
+/**
+ * Set the profile signing policy for applicator
+ */
+export function setApplyProfileSigning(signing?: ProfileSigning): void {
+  applicator.setProfileSigning(signing);
 }
 
 /**
@@ -39,9 +39,13 @@ export async function computeProfileHash(
     }
 
     if (target.options) {
-      const optionsStr = JSON.stringify(
-        target.options,
-        Object.keys(target.options).sort(),
+      // Sort keys at every level; nested options such as variables count too
+      const optionsStr = JSON.stringify(target.options, (_key, value) =>
+        value && typeof value === "object" && !Array.isArray(value)
+          ? Object.fromEntries(
+              Object.entries(value).sort(([a], [b]) => a.localeCompare(b)),
+            )
+          : value,
       );
       hasher.update(`options:${optionsStr}`);
     }
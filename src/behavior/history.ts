@@ -0,0 +1,221 @@
+/**
+ * Persistent, bounded history of applied profiles. Each entry keeps the
+ * generated behavior, so a rollback restores exactly what was active.
+ * Stored as JSON in a state directory shared by the hub and the CLI; the
+ * behavior can hold resolved secrets, so the file is only readable by its
+ * owner. Rollbacks only restore entries recorded in the same session.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import { Mutex } from "async-mutex";
+import { BehaviorStateManager } from "./state.js";
+import { StackLayer } from "./profile-stack.js";
+import { audit } from "../monitoring/audit.js";
+import { YamlConfig } from "../config/yaml-config.js";
+
+export const DEFAULT_STATE_DIR = ".omni-state";
+export const DEFAULT_HISTORY_SIZE = 50;
+const HISTORY_FILE = "apply-history.json";
+
+export interface ApplyHistoryEntry {
+  /** Increasing id; never reused */
+  id: number;
+  action: "apply" | "rollback";
+  profile: string;
+  hash: string;
+  actor: string;
+  timestamp: string;
+  behavior: string;
+  /** Layers, when a profile stack was applied */
+  layers?: StackLayer[];
+  /** For rollbacks, the entry that was restored */
+  restoredFrom?: number;
+  /** Hub session the entry was recorded in; unset for the CLI */
+  session?: string;
+}
+
+export interface ApplyHistoryOptions {
+  /** Directory holding the history file */
+  stateDir?: string;
+  /** Entries kept; older ones are dropped */
+  maxEntries?: number;
+}
+
+/**
+ * History settings from `profileManagement.history`, with the state
+ * directory resolved against the config file's directory
+ */
+export function getApplyHistoryOptions(
+  config: YamlConfig,
+  configDir: string,
+): ApplyHistoryOptions {
+  const history = config.profileManagement?.history;
+  return {
+    stateDir: path.resolve(configDir, history?.stateDir || DEFAULT_STATE_DIR),
+    maxEntries: history?.maxEntries,
+  };
+}
+
+export class ApplyHistoryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ApplyHistoryError";
+  }
+}
+
+export class ApplyHistory {
+  private filePath!: string;
+  private maxEntries!: number;
+  private mutex = new Mutex();
+
+  constructor(options: ApplyHistoryOptions = {}) {
+    this.configure(options);
+  }
+
+  /**
+   * Apply `profileManagement.history` settings; called again on hot reload
+   */
+  configure(options: ApplyHistoryOptions): void {
+    this.filePath = path.join(
+      path.resolve(options.stateDir || DEFAULT_STATE_DIR),
+      HISTORY_FILE,
+    );
+    this.maxEntries = Math.max(1, options.maxEntries ?? DEFAULT_HISTORY_SIZE);
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Entries, oldest first
+   */
+  async list(): Promise<ApplyHistoryEntry[]> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf-8"));
+      return Array.isArray(data?.entries) ? data.entries : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw new ApplyHistoryError(
+        `Cannot read apply history ${this.filePath}: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Append an applied profile, dropping the oldest entries over the limit
+   */
+  async record(
+    entry: Omit<ApplyHistoryEntry, "id" | "timestamp" | "action">,
+  ): Promise<ApplyHistoryEntry> {
+    return this.append({ ...entry, action: "apply" });
+  }
+
+  /**
+   * Entry a rollback restores: the given id, or the newest entry whose
+   * behavior differs from the current one, among the session's entries
+   */
+  async findRollbackTarget(
+    currentHash: string | null,
+    id?: number,
+    session?: string,
+  ): Promise<ApplyHistoryEntry> {
+    const entries = (await this.list()).filter(
+      (entry) => entry.session === session,
+    );
+    if (id !== undefined) {
+      const entry = entries.find((candidate) => candidate.id === id);
+      if (!entry) {
+        throw new ApplyHistoryError(
+          `No apply history entry #${id}; see the history for available entries`,
+        );
+      }
+      return entry;
+    }
+    const entry = [...entries]
+      .reverse()
+      .find((candidate) => candidate.hash !== currentHash);
+    if (!entry) {
+      throw new ApplyHistoryError("No earlier applied profile to roll back to");
+    }
+    return entry;
+  }
+
+  /**
+   * Restore an entry's behavior into a state, record the rollback and
+   * audit it
+   */
+  async rollback(
+    state: BehaviorStateManager,
+    actor: string,
+    id?: number,
+    session?: string,
+  ): Promise<ApplyHistoryEntry> {
+    const start = Date.now();
+    const target = await this.findRollbackTarget(
+      state.getCurrentHash(),
+      id,
+      session,
+    );
+    const previous = state.getState();
+
+    state.atomicSwapBehavior(target.behavior, {
+      profile: target.profile,
+      hash: target.hash,
+    });
+    const entry = await this.append({
+      action: "rollback",
+      profile: target.profile,
+      hash: target.hash,
+      actor,
+      behavior: target.behavior,
+      layers: target.layers,
+      restoredFrom: target.id,
+      ...(session !== undefined && { session }),
+    });
+
+    audit.logRollback({
+      actor,
+      profile: target.profile,
+      hash: target.hash,
+      durationMs: Date.now() - start,
+      metadata: {
+        restoredFrom: target.id,
+        previousProfile: previous.currentProfileId,
+        previousHash: previous.currentHash,
+      },
+    });
+    return entry;
+  }
+
+  private async append(
+    entry: Omit<ApplyHistoryEntry, "id" | "timestamp">,
+  ): Promise<ApplyHistoryEntry> {
+    return this.mutex.runExclusive(async () => {
+      const entries = await this.list();
+      const recorded: ApplyHistoryEntry = {
+        id: (entries[entries.length - 1]?.id ?? 0) + 1,
+        timestamp: new Date().toISOString(),
+        ...entry,
+      };
+      const kept = [...entries, recorded].slice(-this.maxEntries);
+
+      // Write-then-rename so a reader never sees a partial file
+      await fs.mkdir(path.dirname(this.filePath), {
+        recursive: true,
+        mode: 0o700,
+      });
+      const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(
+        tmpPath,
+        JSON.stringify({ version: 1, entries: kept }, null, 2),
+        { mode: 0o600 },
+      );
+      await fs.rename(tmpPath, this.filePath);
+      return recorded;
+    });
+  }
+}
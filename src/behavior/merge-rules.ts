@@ -23,6 +23,22 @@ export interface MergeOptions {
   profileName?: string;
 }
 
+export interface ProfileLayer {
+  name: string;
+  profile: ProfileMergeResult;
+}
+
+export interface LayerEntry {
+  layer: string;
+  value: unknown;
+}
+
+export interface LayeredMergeResult {
+  profile: ProfileMergeResult;
+  /** Layer each entry of a section came from, in merged order */
+  sources: Record<string, LayerEntry[]>;
+}
+
 export enum MergeStrategy {
   /** Complete replacement (default) */
   REPLACE = "replace",
@@ -110,6 +126,58 @@ export class ProfileMerger {
     return result;
   }
 
+  /**
+   * Merge an ordered stack of layers, bottom first. A layer replaces only
+   * the sections it defines; allowToolsAppend is unioned and the other
+   * append-allowed sections are appended across layers.
+   */
+  static mergeLayers(layers: ProfileLayer[]): LayeredMergeResult {
+    const options: MergeOptions = {
+      appendSections: [...APPEND_ALLOWED_SECTIONS],
+      preserveToolsAppend: true,
+    };
+    let profile: ProfileMergeResult = {};
+    const sources: Record<string, LayerEntry[]> = {};
+
+    for (const layer of layers) {
+      const defined: ProfileMergeResult = Object.fromEntries(
+        Object.entries(layer.profile).filter(
+          ([, value]) => value !== undefined,
+        ),
+      );
+
+      for (const [key, value] of Object.entries(defined)) {
+        const entries = (Array.isArray(value) ? value : [value]).map(
+          (item) => ({ layer: layer.name, value: item }),
+        );
+        const strategy = this.determineStrategy(key, options);
+        const accumulates =
+          strategy !== MergeStrategy.REPLACE &&
+          Array.isArray(value) &&
+          Array.isArray(profile[key]);
+        const previous = accumulates ? sources[key] || [] : [];
+        sources[key] = [
+          ...previous,
+          ...(strategy === MergeStrategy.UNION
+            ? entries.filter(
+                (entry) => !previous.some((p) => p.value === entry.value),
+              )
+            : entries),
+        ];
+      }
+
+      profile = {
+        ...profile,
+        ...this.merge(profile, defined, {
+          ...options,
+          profileName: layer.name,
+        }),
+      };
+    }
+
+    return { profile, sources };
+  }
+
   /**
    * Determine merge strategy for a given section
    */
@@ -0,0 +1,152 @@
+/**
+ * Profile stacking: several loaded profiles applied as ordered layers,
+ * bottom first (e.g. base-org + typescript + code-reviewer). Layers refer
+ * to profiles in a session's activeProfiles by name and are merged with
+ * ProfileMerger.mergeLayers, so later layers replace the sections they
+ * define and append-allowed sections accumulate.
+ */
+
+import { ClaudeConfig, PROFILE_SOURCE_FIELDS } from "../utils/claude-config.js";
+import { TemplateVariables } from "../utils/profile-template.js";
+import { LayerEntry, ProfileMerger } from "./merge-rules.js";
+
+export interface StackLayer {
+  name: string;
+  enabled: boolean;
+}
+
+export interface StackedProfile {
+  /** Merged profile, named after the stack */
+  config: ClaudeConfig;
+  /** Layer each entry of a section came from */
+  sources: Record<string, LayerEntry[]>;
+  /** Enabled layers whose profile is not loaded; they are left out */
+  missing: string[];
+}
+
+export class ProfileStackError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileStackError";
+  }
+}
+
+/**
+ * Name a stack is applied under: its enabled layers joined with "+"
+ */
+export function getStackName(layers: StackLayer[]): string {
+  return layers
+    .filter((layer) => layer.enabled)
+    .map((layer) => layer.name)
+    .join("+");
+}
+
+/**
+ * Merge the enabled layers of a stack. Variable defaults of upper layers
+ * win over lower ones.
+ */
+export function mergeStack(
+  layers: StackLayer[],
+  profiles: Map<string, ClaudeConfig>,
+): StackedProfile {
+  const enabled = layers.filter((layer) => layer.enabled);
+  const loaded = enabled.filter((layer) => profiles.has(layer.name));
+
+  const { profile, sources } = ProfileMerger.mergeLayers(
+    loaded.map((layer) => ({
+      name: layer.name,
+      profile: Object.fromEntries(
+        Object.entries(profiles.get(layer.name)!).filter(
+          ([key]) =>
+            !key.startsWith("_") &&
+            !key.startsWith("$") &&
+            !PROFILE_SOURCE_FIELDS.has(key) &&
+            // Merged separately below: later layers override defaults
+            key !== "variables",
+        ),
+      ),
+    })),
+  );
+  const variables: TemplateVariables = Object.assign(
+    {},
+    ...loaded.map((layer) => profiles.get(layer.name)!.variables),
+  );
+
+  return {
+    config: { ...profile, variables, profileName: getStackName(layers) },
+    sources,
+    missing: enabled
+      .filter((layer) => !profiles.has(layer.name))
+      .map((layer) => layer.name),
+  };
+}
+
+/**
+ * Add a layer on top of the stack
+ */
+export function pushLayer(layers: StackLayer[], name: string): StackLayer[] {
+  if (layers.some((layer) => layer.name === name)) {
+    throw new ProfileStackError(`Profile '${name}' is already a layer`);
+  }
+  return [...layers, { name, enabled: true }];
+}
+
+/**
+ * Remove the named layer, or the top one
+ */
+export function popLayer(layers: StackLayer[], name?: string): StackLayer[] {
+  const target = name ?? layers[layers.length - 1]?.name;
+  findLayer(layers, target);
+  return assertEnabled(layers.filter((layer) => layer.name !== target));
+}
+
+/**
+ * Put the layers in a new order, bottom first; every layer must be named
+ * exactly once
+ */
+export function reorderLayers(
+  layers: StackLayer[],
+  order: string[],
+): StackLayer[] {
+  if (order.length !== layers.length || new Set(order).size !== order.length) {
+    throw new ProfileStackError(
+      `The new order must name each layer once: ${layers.map((layer) => layer.name).join(", ")}`,
+    );
+  }
+  return order.map((name) => findLayer(layers, name));
+}
+
+/**
+ * Enable or disable a layer without removing it
+ */
+export function setLayerEnabled(
+  layers: StackLayer[],
+  name: string,
+  enabled: boolean,
+): StackLayer[] {
+  findLayer(layers, name);
+  return assertEnabled(
+    layers.map((layer) =>
+      layer.name === name ? { ...layer, enabled } : layer,
+    ),
+  );
+}
+
+function findLayer(layers: StackLayer[], name: string | undefined) {
+  const layer = layers.find((candidate) => candidate.name === name);
+  if (!layer) {
+    throw new ProfileStackError(
+      name ? `Profile '${name}' is not a layer` : "The profile stack is empty",
+    );
+  }
+  return layer;
+}
+
+function assertEnabled(layers: StackLayer[]): StackLayer[] {
+  if (!layers.some((layer) => layer.enabled)) {
+    throw new ProfileStackError(
+      "A profile stack needs at least one enabled layer; apply a single profile instead",
+    );
+  }
+  return layers;
+}
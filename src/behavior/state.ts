@@ -1,5 +1,6 @@
 /**
- * Global state management for behavior application
+ * State management for behavior application.
+ * `behaviorState` is the process-wide (stdio) instance; each HTTP session owns its own.
  */
 
 export interface BehaviorState {
@@ -16,7 +17,7 @@ export interface ProfileTarget {
   options?: Record<string, unknown>;
 }
 
-class BehaviorStateManager {
+export class BehaviorStateManager {
   private state: BehaviorState = {
     currentProfileId: null,
     currentHash: null,
@@ -0,0 +1,71 @@
+/**
+ * Tool visibility from a profile's allowToolsAppend section.
+ * Entries are globs (`serena__*`); a leading "!" denies (`!*delete*`).
+ * Deny wins over allow, and without allow entries every tool that is not
+ * denied stays visible.
+ */
+
+import { minimatch } from "minimatch";
+import { ClaudeConfig } from "../utils/claude-config.js";
+import { ProfileMerger } from "./merge-rules.js";
+
+export interface ToolFilter {
+  allow: string[];
+  deny: string[];
+}
+
+/**
+ * Collect a profile's tool patterns, unioning its own list with the one
+ * declared in its inheritance section
+ */
+export function getProfileToolPatterns(
+  profile?: ClaudeConfig | null,
+): string[] {
+  if (!profile) {
+    return [];
+  }
+
+  const inheritance = profile.inheritance as
+    | { allowToolsAppend?: string[] | string }
+    | undefined;
+  const inherited = inheritance?.allowToolsAppend;
+
+  return (
+    ProfileMerger.merge(
+      {
+        allowToolsAppend: Array.isArray(inherited)
+          ? inherited
+          : inherited
+            ? [inherited]
+            : [],
+      },
+      { allowToolsAppend: profile.allowToolsAppend || [] },
+      { preserveToolsAppend: true },
+    ).allowToolsAppend || []
+  );
+}
+
+export function createToolFilter(patterns: string[]): ToolFilter {
+  const filter: ToolFilter = { allow: [], deny: [] };
+  for (const raw of patterns) {
+    const pattern = raw.trim();
+    if (pattern.startsWith("!")) {
+      if (pattern.length > 1) {
+        filter.deny.push(pattern.slice(1));
+      }
+    } else if (pattern) {
+      filter.allow.push(pattern);
+    }
+  }
+  return filter;
+}
+
+export function isToolAllowed(filter: ToolFilter, name: string): boolean {
+  if (filter.deny.some((pattern) => minimatch(name, pattern))) {
+    return false;
+  }
+  return (
+    filter.allow.length === 0 ||
+    filter.allow.some((pattern) => minimatch(name, pattern))
+  );
+}
@@ -9,6 +9,21 @@ import { runConfigDoctor, FailFastValidator } from "../validation/fail-fast.js";
 import { PathResolver } from "../utils/path-resolver.js";
 import { Logger } from "../utils/logger.js";
 import chalk from "chalk";
+import * as path from "path";
+import { YamlConfig, YamlConfigManager } from "../config/yaml-config.js";
+import {
+  AccessDecision,
+  AccessPolicy,
+  AccessRequest,
+  LOCAL_TOOL_PERMISSIONS,
+  getToolPermission,
+} from "../security/access-policy.js";
+import { RBACManager } from "../security/rbac.js";
+import { loadPolicyFile } from "../security/policy-file.js";
+import {
+  NAMESPACE_SEPARATOR,
+  getNamespacePrefix,
+} from "../mcp-proxy/namespacing.js";
 
 program
   .name("omni-config-doctor")
@@ -197,6 +212,183 @@ program
     }
   });
 
+export interface PolicyTestQuery {
+  identity: string;
+  tool?: string;
+  resource?: string;
+  profile?: string;
+  server?: string;
+}
+
+export interface PolicyTestResult extends AccessDecision {
+  identity: string;
+  roles: string[];
+  request: AccessRequest;
+  enforced: boolean;
+}
+
+/**
+ * Evaluate one request against the access control, RBAC and policy file
+ * settings of a configuration without starting the hub
+ */
+export async function testAccessPolicy(
+  config: YamlConfig,
+  configPath: string,
+  query: PolicyTestQuery,
+): Promise<PolicyTestResult> {
+  const targets = [query.tool, query.resource, query.profile].filter(Boolean);
+  if (targets.length !== 1) {
+    throw new Error("Specify exactly one of --tool, --resource or --profile");
+  }
+
+  const security = config.security || {};
+  const rbac = new RBACManager();
+  rbac.applyConfig(security.rbac || {});
+  const policy = new AccessPolicy(security.accessControl || {}, rbac, {
+    logEvent: async () => {},
+  });
+  if (security.accessControl?.policyFile) {
+    policy.setPolicy(
+      await loadPolicyFile(
+        security.accessControl.policyFile,
+        path.dirname(configPath),
+      ),
+    );
+  }
+
+  const identity = policy.getIdentity(query.identity);
+  if (!identity) {
+    throw new Error(`Unknown identity '${query.identity}'`);
+  }
+
+  let request: AccessRequest;
+  if (query.profile) {
+    request = {
+      method: "tools/call",
+      target: "apply_claude_config",
+      permission: LOCAL_TOOL_PERMISSIONS.apply_claude_config,
+      profile: query.profile,
+    };
+  } else if (query.tool) {
+    request = {
+      method: "tools/call",
+      target: query.tool,
+      server: query.server || findServer(config, query.tool, "tool"),
+      permission: getToolPermission(query.tool),
+    };
+  } else {
+    request = {
+      method: "resources/read",
+      target: query.resource!,
+      server: query.server || findServer(config, query.resource!, "resource"),
+      permission: { resource: "resources", action: "read" },
+    };
+  }
+
+  return {
+    identity: identity.id,
+    roles: rbac.getEffectiveRoles(identity.id),
+    request,
+    enforced: policy.isEnabled(),
+    ...policy.decide(identity.id, request),
+  };
+}
+
+/**
+ * External server whose namespace prefix an exposed name carries
+ */
+function findServer(
+  config: YamlConfig,
+  name: string,
+  kind: "tool" | "resource",
+): string | undefined {
+  const servers = config.externalServers?.servers || [];
+  return servers.find((server) => {
+    const namespacing =
+      server.namespacing || config.externalServers?.namespacing;
+    if (kind === "tool" && Object.values(server.rename || {}).includes(name)) {
+      return true;
+    }
+    if (namespacing === "none") {
+      return false;
+    }
+    const separator = kind === "tool" ? NAMESPACE_SEPARATOR : "://";
+    return name.startsWith(`${getNamespacePrefix(server)}${separator}`);
+  })?.name;
+}
+
+const policyCommand = program
+  .command("policy")
+  .description("Inspect the access control policy");
+
+policyCommand
+  .command("test")
+  .description("Dry-run an access decision and show the rule that made it")
+  .requiredOption("--as <identity>", "Identity to evaluate as")
+  .option("--tool <name>", "Tool to call")
+  .option("--resource <uri>", "Resource URI to read")
+  .option("--profile <name>", "Profile to apply")
+  .option("--server <name>", "External server providing the tool or resource")
+  .option("-c, --config <path>", "Configuration file path")
+  .option("--json", "Output results in JSON format")
+  .action(async (options) => {
+    try {
+      let configPath = options.config;
+      if (!configPath) {
+        const pathResolver = PathResolver.getInstance();
+        configPath = pathResolver.getAbsoluteYamlConfigPath();
+      }
+
+      const config = await new YamlConfigManager(configPath).loadYamlConfig();
+      const result = await testAccessPolicy(config, configPath, {
+        identity: options.as,
+        tool: options.tool,
+        resource: options.resource,
+        profile: options.profile,
+        server: options.server,
+      });
+
+      if (options.json) {
+        console.log(JSON.stringify(result, null, 2));
+      } else {
+        const target = result.request.profile
+          ? `profile ${result.request.profile}`
+          : `${result.request.method === "tools/call" ? "tool" : "resource"} ${result.request.target}`;
+        const rule =
+          result.source === "policy"
+            ? `policy rule '${result.rule}'`
+            : result.source === "role"
+              ? `role '${result.rule}'`
+              : `no policy rule or role grants ${result.request.permission.resource}:${result.request.permission.action}`;
+
+        console.log(
+          result.allowed
+            ? chalk.green.bold(`ALLOW ${result.identity} -> ${target}`)
+            : chalk.red.bold(`DENY ${result.identity} -> ${target}`),
+        );
+        console.log(`   Rule: ${rule}`);
+        console.log(
+          chalk.gray(`   Roles: ${result.roles.join(", ") || "none"}`),
+        );
+        if (result.request.server) {
+          console.log(chalk.gray(`   Server: ${result.request.server}`));
+        }
+        if (!result.enforced) {
+          console.log(
+            chalk.yellow(
+              "   Note: security.accessControl is disabled, so this decision is not enforced",
+            ),
+          );
+        }
+      }
+
+      process.exit(result.allowed ? 0 : 1);
+    } catch (error) {
+      console.error(chalk.red(`CRITICAL Policy test failed: ${error}`));
+      process.exit(1);
+    }
+  });
+
 export async function run(args: string[]): Promise<void> {
   const originalArgv = process.argv;
   const originalExit = process.exit;
@@ -21,8 +21,27 @@ import { ClaudeConfigManager } from "../utils/claude-config.js";
 import { BehaviorGenerator } from "../utils/behavior-generator.js";
 import { Logger } from "../utils/logger.js";
 import { FileScanner } from "../utils/file-scanner.js";
-import { YamlConfigManager } from "../config/yaml-config.js";
+import { YamlConfig, YamlConfigManager } from "../config/yaml-config.js";
 import { PathResolver } from "../utils/path-resolver.js";
+import { computeStringHash } from "../behavior/hash.js";
+import {
+  ApplyHistory,
+  ApplyHistoryEntry,
+  ApplyHistoryError,
+  getApplyHistoryOptions,
+} from "../behavior/history.js";
+import { BehaviorStateManager } from "../behavior/state.js";
+import { ProfileInheritanceManager } from "../utils/profile-inheritance.js";
+import {
+  RemoteProfileResolver,
+  getRemoteProfileOptions,
+} from "../utils/remote-profiles.js";
+import {
+  PROFILE_DIFF_FORMATS,
+  ProfileDiffFormat,
+  formatProfileDiff,
+  unifiedDiff,
+} from "../utils/profile-diff.js";
 
 interface ManualApplyOptions {
   interactive: boolean;
@@ -64,6 +83,7 @@ class ManualApplyManager {
   private logger: Logger;
   private fileScanner: FileScanner;
   private appliedProfiles: ApplyResult[] = [];
+  private history?: ApplyHistory;
 
   constructor() {
     this.configManager = new ClaudeConfigManager();
@@ -212,29 +232,66 @@ class ManualApplyManager {
   }
 
   /**
-   * Compare profiles and show differences
+   * Compare two profiles section by section after inheritance resolution,
+   * or a profile's behavior against the last applied one
    */
   async runProfileComparison(
     profile1Path: string,
     profile2Path?: string,
+    format: ProfileDiffFormat = "text",
   ): Promise<void> {
     try {
-      console.log(chalk.blue.bold("\nREPORT Profile Comparison\n"));
+      if (!PROFILE_DIFF_FORMATS.includes(format)) {
+        console.error(
+          chalk.red(
+            `ERROR Unknown format '${format}'; use ${PROFILE_DIFF_FORMATS.join(", ")}`,
+          ),
+        );
+        process.exit(1);
+      }
+      if (format !== "json") {
+        console.log(chalk.blue.bold("\nREPORT Profile Comparison\n"));
+      }
 
-      const profile1 = await this.analyzeProfile(profile1Path);
-      let profile2: ProfileInfo | null = null;
+      const profile1 = await this.resolveForComparison(profile1Path);
+      const name1 = path.basename(profile1Path);
 
       if (profile2Path) {
-        profile2 = await this.analyzeProfile(profile2Path);
-      } else {
-        console.log(
-          chalk.yellow(
-            "Comparing with currently applied profile configuration...\n",
+        const profile2 = await this.resolveForComparison(profile2Path);
+        this.printDiff(
+          formatProfileDiff(
+            profile1,
+            profile2,
+            { from: name1, to: path.basename(profile2Path) },
+            format,
           ),
+          format,
         );
+        return;
       }
 
-      await this.displayProfileComparison(profile1, profile2);
+      // Only the generated behavior of past applies is kept
+      const entries = await (await this.getHistory()).list();
+      const current = entries[entries.length - 1];
+      if (!current) {
+        console.log(
+          chalk.yellow("INFO  No applied profile to compare with.\n"),
+        );
+        return;
+      }
+      const fromName = `applied (${current.profile})`;
+      const diff = unifiedDiff(
+        current.behavior,
+        BehaviorGenerator.generateInstructions(profile1),
+        fromName,
+        name1,
+      );
+      this.printDiff(
+        format === "json"
+          ? JSON.stringify({ from: fromName, to: name1, diff }, null, 2)
+          : diff || `No differences between '${fromName}' and '${name1}'.`,
+        format,
+      );
     } catch (error) {
       console.error(chalk.red("CRITICAL Profile comparison failed:"), error);
       process.exit(1);
@@ -242,27 +299,29 @@ class ManualApplyManager {
   }
 
   /**
-   * Undo last applied profile
+   * Undo the last profile application by rolling back to the profile
+   * applied before it
    */
   async runUndoApply(): Promise<void> {
     try {
       console.log(chalk.blue.bold("\nUNDO  Undo Profile Application\n"));
 
-      if (this.appliedProfiles.length === 0) {
+      const history = await this.getHistory();
+      const current = await this.getLastCliEntry();
+      if (!current) {
         console.log(
           chalk.yellow("INFO  No recent profile applications to undo.\n"),
         );
         return;
       }
 
-      const lastApply = this.appliedProfiles[this.appliedProfiles.length - 1];
-
+      const target = await history.findRollbackTarget(current.hash);
       console.log(chalk.cyan("Last applied profile:"));
-      console.log(`   Profile: ${lastApply.profile}`);
-      console.log(`   Applied: ${new Date().toLocaleString()}`);
-      if (lastApply.backupPath) {
-        console.log(`   Backup: ${lastApply.backupPath}`);
-      }
+      console.log(`   Profile: ${current.profile}`);
+      console.log(
+        `   Applied: ${new Date(current.timestamp).toLocaleString()} by ${current.actor}`,
+      );
+      console.log(`   Restores: #${target.id} ${target.profile}`);
 
       const { confirmUndo } = await inquirer.prompt([
         {
@@ -278,16 +337,177 @@ class ManualApplyManager {
         return;
       }
 
-      await this.performUndo(lastApply);
+      const restored = await this.performRollback(target.id);
       console.log(
-        chalk.green("SUCCESS Profile application undone successfully.\n"),
+        chalk.green(
+          `SUCCESS Recorded the undo in the apply history (entry #${restored.id}).`,
+        ),
       );
+      this.printHubRollbackHint();
     } catch (error) {
+      if (error instanceof ApplyHistoryError) {
+        console.log(chalk.yellow(`INFO  ${error.message}\n`));
+        return;
+      }
       console.error(chalk.red("CRITICAL Undo operation failed:"), error);
       process.exit(1);
     }
   }
 
+  /**
+   * List the persistent apply history, newest first
+   */
+  async runHistory(limit?: number): Promise<void> {
+    try {
+      const history = await this.getHistory();
+      const entries = (await history.list()).reverse().slice(0, limit);
+
+      console.log(chalk.blue.bold("\nHISTORY Profile Apply History\n"));
+      if (entries.length === 0) {
+        console.log(chalk.yellow("INFO  No profile applications recorded.\n"));
+        return;
+      }
+      entries.forEach((entry, index) =>
+        console.log(this.formatHistoryEntry(entry, index === 0)),
+      );
+      console.log(chalk.gray(`\nStored in ${history.getFilePath()}`));
+      console.log(
+        chalk.gray("Restore an entry with: omni-manual-apply rollback <id>\n"),
+      );
+    } catch (error) {
+      console.error(chalk.red("CRITICAL Reading apply history failed:"), error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Roll back to a history entry
+   */
+  async runRollback(id: number): Promise<void> {
+    try {
+      const restored = await this.performRollback(id);
+      console.log(
+        chalk.green(
+          `SUCCESS Recorded a rollback to '${restored.profile}' in the apply history (entry #${id}, recorded as #${restored.id})`,
+        ),
+      );
+      this.printHubRollbackHint();
+    } catch (error) {
+      console.error(chalk.red("CRITICAL Rollback failed:"), error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Show the currently applied profile from the apply history
+   */
+  async runStatus(): Promise<void> {
+    console.log(chalk.blue.bold("REPORT Current Status\n"));
+
+    const entries = await (await this.getHistory()).list();
+    const current = entries[entries.length - 1];
+    if (!current) {
+      console.log("Current applied profile: none recorded");
+    } else {
+      console.log(`Current applied profile: ${current.profile}`);
+      console.log(
+        `Last application: ${new Date(current.timestamp).toLocaleString()} by ${current.actor} (${current.action} #${current.id})`,
+      );
+    }
+    console.log(`History entries: ${entries.length}`);
+    console.log();
+  }
+
+  /**
+   * The CLI has no connection to a running hub, so its rollbacks only edit
+   * the history
+   */
+  private printHubRollbackHint(): void {
+    console.log(
+      chalk.yellow(
+        "INFO  A running hub keeps its current behavior; call the rollback_profile tool there to restore it.\n",
+      ),
+    );
+  }
+
+  /**
+   * Record a rollback to a history entry of the CLI's own applies
+   */
+  private async performRollback(id?: number): Promise<ApplyHistoryEntry> {
+    const history = await this.getHistory();
+    const current = await this.getLastCliEntry();
+
+    // The behavior this CLI last saw applied is its newest history entry
+    const state = new BehaviorStateManager();
+    if (current) {
+      state.atomicSwapBehavior(current.behavior, {
+        profile: current.profile,
+        hash: current.hash,
+      });
+    }
+    return history.rollback(state, this.getActor(), id);
+  }
+
+  /**
+   * Newest entry recorded by the CLI; hub entries belong to hub sessions
+   */
+  private async getLastCliEntry(): Promise<ApplyHistoryEntry | undefined> {
+    const entries = await (await this.getHistory()).list();
+    return entries.filter((entry) => entry.session === undefined).pop();
+  }
+
+  private formatHistoryEntry(
+    entry: ApplyHistoryEntry,
+    isCurrent: boolean,
+  ): string {
+    const action =
+      entry.action === "rollback"
+        ? chalk.yellow(`rollback to #${entry.restoredFrom}`)
+        : "apply";
+    return [
+      chalk.cyan(`#${entry.id}`.padEnd(5)),
+      new Date(entry.timestamp).toLocaleString(),
+      entry.profile,
+      action,
+      chalk.gray(`by ${entry.actor}`),
+      chalk.gray(entry.hash.slice(0, 12)),
+      isCurrent ? chalk.green("(current)") : "",
+    ]
+      .filter(Boolean)
+      .join("  ");
+  }
+
+  /**
+   * Apply history in the state directory configured in omni-config.yaml
+   */
+  private async getHistory(): Promise<ApplyHistory> {
+    if (!this.history) {
+      this.history = new ApplyHistory(
+        getApplyHistoryOptions(
+          await this.loadYamlConfig(),
+          path.dirname(this.yamlConfigManager.getConfigPath()),
+        ),
+      );
+    }
+    return this.history;
+  }
+
+  /**
+   * The hub's YAML config, or the defaults when it cannot be read
+   */
+  private async loadYamlConfig(): Promise<YamlConfig> {
+    try {
+      return await this.yamlConfigManager.loadYamlConfig();
+    } catch (error) {
+      this.logger.debug("Using default settings:", error);
+      return this.yamlConfigManager.getConfig();
+    }
+  }
+
+  private getActor(): string {
+    return process.env.USER || process.env.USERNAME || "cli";
+  }
+
   /**
    * Scan for available CLAUDE.md profiles
    */
@@ -375,10 +595,16 @@ class ManualApplyManager {
   /**
    * Validate profile content and return warnings
    */
-  private validateProfileContent(config: Record<string, unknown>, content: string): string[] {
+  private validateProfileContent(
+    config: Record<string, unknown>,
+    content: string,
+  ): string[] {
     const warnings: string[] = [];
 
-    if (!Array.isArray(config.instructions) || config.instructions.length === 0) {
+    if (
+      !Array.isArray(config.instructions) ||
+      config.instructions.length === 0
+    ) {
       warnings.push("No instructions defined");
     }
 
@@ -615,7 +841,13 @@ class ManualApplyManager {
         BehaviorGenerator.generateInstructions(config);
       result.appliedBehavior = behaviorInstructions;
 
-      await this.sleep(100); // Simulate processing time
+      const history = await this.getHistory();
+      await history.record({
+        profile: profile.name,
+        hash: computeStringHash(behaviorInstructions),
+        actor: this.getActor(),
+        behavior: behaviorInstructions,
+      });
 
       result.success = true;
       result.duration = Date.now() - startTime;
@@ -649,53 +881,53 @@ class ManualApplyManager {
   }
 
   /**
-   * Display profile comparison
+   * Load a profile with its inheritance chain resolved
    */
-  private async displayProfileComparison(
-    profile1: ProfileInfo,
-    profile2: ProfileInfo | null,
-  ): Promise<void> {
-    console.log(chalk.blue("Profile 1:"), profile1.name);
-    console.log(`  Size: ${this.formatFileSize(profile1.size)}`);
-    console.log(`  Sections: ${profile1.sections.length}`);
-    console.log(`  Summary: ${profile1.summary}`);
-
-    if (profile2) {
-      console.log(chalk.blue("\nProfile 2:"), profile2.name);
-      console.log(`  Size: ${this.formatFileSize(profile2.size)}`);
-      console.log(`  Sections: ${profile2.sections.length}`);
-      console.log(`  Summary: ${profile2.summary}`);
-
-      console.log(chalk.yellow("\nDifferences:"));
-
-      const sizeDiff = profile1.size - profile2.size;
-      if (sizeDiff !== 0) {
-        const diffStr =
-          sizeDiff > 0
-            ? `+${this.formatFileSize(sizeDiff)}`
-            : this.formatFileSize(sizeDiff);
-        console.log(`  Size: ${diffStr}`);
-      }
-
-      const sectionDiff = profile1.sections.filter(
-        (s) => !profile2.sections.includes(s),
+  private async resolveForComparison(profilePath: string) {
+    if (!this.configManager.getRemoteProfiles()) {
+      const config = await this.loadYamlConfig();
+      this.configManager.setRemoteProfiles(
+        new RemoteProfileResolver(
+          getRemoteProfileOptions(
+            config,
+            path.dirname(this.yamlConfigManager.getConfigPath()),
+          ),
+          this.logger,
+        ),
       );
-      const sectionDiff2 = profile2.sections.filter(
-        (s) => !profile1.sections.includes(s),
+    }
+    const resolution = await new ProfileInheritanceManager(
+      this.configManager,
+      this.logger,
+    ).resolveProfile(profilePath);
+    if (resolution.errors.length > 0) {
+      throw new Error(
+        `Cannot resolve ${profilePath}: ${resolution.errors.join(", ")}`,
       );
+    }
+    return resolution.config;
+  }
 
-      if (sectionDiff.length > 0) {
-        console.log(
-          `  Sections only in ${profile1.name}: ${sectionDiff.join(", ")}`,
-        );
-      }
-      if (sectionDiff2.length > 0) {
-        console.log(
-          `  Sections only in ${profile2.name}: ${sectionDiff2.join(", ")}`,
-        );
+  private printDiff(output: string, format: ProfileDiffFormat): void {
+    if (format === "json") {
+      console.log(output);
+      return;
+    }
+    for (const line of output.split("\n")) {
+      if (/^(\+\+\+|---) /.test(line)) {
+        console.log(chalk.bold(line));
+      } else if (/^\s*\+/.test(line)) {
+        console.log(chalk.green(line));
+      } else if (/^\s*-/.test(line)) {
+        console.log(chalk.red(line));
+      } else if (/^\s*~/.test(line)) {
+        console.log(chalk.yellow(line));
+      } else if (line.startsWith("@@")) {
+        console.log(chalk.cyan(line));
+      } else {
+        console.log(line);
       }
     }
-
     console.log(); // Blank line
   }
 
@@ -732,54 +964,18 @@ class ManualApplyManager {
     }
 
     console.log(chalk.blue("\nNext steps:"));
-    console.log("  • Use --undo to revert the last application");
+    console.log("  • Use undo to revert the last application");
+    console.log("  • Use history and rollback <id> to restore an earlier one");
     console.log("  • Check logs for detailed information");
     console.log("  • Run --status to verify current state\n");
   }
 
-  /**
-   * Perform undo operation
-   */
-  private async performUndo(applyResult: ApplyResult): Promise<void> {
-    if (
-      applyResult.backupPath &&
-      (await this.fileExists(applyResult.backupPath))
-    ) {
-      const _backupData = JSON.parse(
-        await fs.readFile(applyResult.backupPath, "utf-8"),
-      );
-      console.log(chalk.blue("Restoring from backup..."));
-    } else {
-      console.log(
-        chalk.yellow("No backup available, performing manual undo..."),
-      );
-    }
-
-    const index = this.appliedProfiles.findIndex((r) => r === applyResult);
-    if (index > -1) {
-      this.appliedProfiles.splice(index, 1);
-    }
-  }
-
   private formatFileSize(bytes: number): string {
     const sizes = ["B", "KB", "MB", "GB"];
     if (bytes === 0) return "0 B";
     const i = Math.floor(Math.log(bytes) / Math.log(1024));
     return Math.round((bytes / Math.pow(1024, i)) * 100) / 100 + " " + sizes[i];
   }
-
-  private async sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
-  }
-
-  private async fileExists(filePath: string): Promise<boolean> {
-    try {
-      await fs.access(filePath);
-      return true;
-    } catch {
-      return false;
-    }
-  }
 }
 
 program
@@ -813,32 +1009,57 @@ program
 program
   .command("compare <profile1> [profile2]")
   .alias("diff")
-  .description("Compare profiles and show differences")
-  .action(async (profile1, profile2) => {
+  .description(
+    "Compare profiles section by section, or a profile with the applied behavior",
+  )
+  .option("--format <format>", "Output: text, unified or json", "text")
+  .action(async (profile1, profile2, options) => {
     const manager = new ManualApplyManager();
-    await manager.runProfileComparison(profile1, profile2);
+    await manager.runProfileComparison(profile1, profile2, options.format);
   });
 
 program
   .command("undo")
   .alias("u")
-  .description("Undo the last profile application")
+  .description("Roll back to the profile applied before the last one")
   .action(async () => {
     const manager = new ManualApplyManager();
     await manager.runUndoApply();
   });
 
+program
+  .command("history")
+  .alias("h")
+  .description("List recorded profile applications, newest first")
+  .option("-n, --limit <count>", "Show only the latest entries", parseInt)
+  .action(async (options) => {
+    const manager = new ManualApplyManager();
+    await manager.runHistory(options.limit);
+  });
+
+program
+  .command("rollback <id>")
+  .alias("r")
+  .description(
+    "Record a rollback to an apply history entry; a running hub is not changed",
+  )
+  .action(async (id) => {
+    const entry = Number(id);
+    if (!Number.isInteger(entry)) {
+      console.error(chalk.red(`ERROR Invalid history entry id: ${id}`));
+      process.exit(1);
+    }
+    const manager = new ManualApplyManager();
+    await manager.runRollback(entry);
+  });
+
 program
   .command("status")
   .alias("s")
   .description("Show current profile application status")
   .action(async () => {
-    console.log(chalk.blue.bold("REPORT Current Status\n"));
-
-    console.log("Current applied profile: Not implemented yet");
-    console.log("Last application: Not implemented yet");
-    console.log("Available backups: Not implemented yet");
-    console.log();
+    const manager = new ManualApplyManager();
+    await manager.runStatus();
   });
 
 export async function run(args: string[]): Promise<void> {
@@ -4,6 +4,11 @@ import { Command } from "commander";
 import * as fs from "fs";
 import * as path from "path";
 import * as crypto from "crypto";
+import {
+  ProfileSigning,
+  embedSignature,
+  signProfileContent,
+} from "../security/profile-signing.js";
 
 const program = new Command();
 
@@ -115,28 +120,99 @@ class ProfileAdminCLI {
     console.log(`Profile '${name}' removed successfully`);
   }
 
-  public verifyProfile(name: string): void {
+  /**
+   * Path of a registered profile, or of a profile file given directly
+   */
+  private resolveProfileFile(name: string): string {
     const profile = this.profiles.get(name);
-
-    if (!profile) {
-      console.error(`Error: Profile '${name}' not found`);
+    const profilePath = profile ? profile.path : path.resolve(name);
+
+    if (!fs.existsSync(profilePath)) {
+      console.error(
+        profile
+          ? `Error: Profile file not found: ${profilePath}`
+          : `Error: Profile '${name}' not found`,
+      );
       process.exit(1);
     }
+    return profilePath;
+  }
 
-    if (!fs.existsSync(profile.path)) {
-      console.error(`Error: Profile file not found: ${profile.path}`);
-      process.exit(1);
+  public async verifyProfile(name: string, keysDir?: string): Promise<void> {
+    const profile = this.profiles.get(name);
+    const profilePath = this.resolveProfileFile(name);
+
+    if (profile) {
+      const currentChecksum = this.calculateChecksum(profilePath);
+
+      if (profile.checksum === currentChecksum) {
+        console.log(`Profile '${name}' integrity verified`);
+        console.log(`   Checksum: ${currentChecksum.substring(0, 16)}...`);
+      } else {
+        console.error(`Warning: Profile '${name}' has been modified`);
+        console.error(`   Expected: ${profile.checksum?.substring(0, 16)}...`);
+        console.error(`   Actual:   ${currentChecksum.substring(0, 16)}...`);
+      }
+    }
+
+    if (!keysDir) {
+      return;
+    }
+
+    const result = await new ProfileSigning("enforce", keysDir).verify(
+      profilePath,
+    );
+    if (result.isValid) {
+      console.log(
+        `Profile '${name}' signature verified (${result.source}, key '${result.metadata?.keyId}')`,
+      );
+      return;
     }
+    console.error(
+      result.source === "none"
+        ? `Error: Profile '${name}' is not signed`
+        : `Error: Profile '${name}' signature is invalid: ${result.error}`,
+    );
+    process.exit(1);
+  }
 
-    const currentChecksum = this.calculateChecksum(profile.path);
+  public signProfile(
+    name: string,
+    keyPath: string,
+    options: { keyId?: string; embed?: boolean },
+  ): void {
+    const profilePath = this.resolveProfileFile(name);
 
-    if (profile.checksum === currentChecksum) {
-      console.log(`Profile '${name}' integrity verified`);
-      console.log(`   Checksum: ${currentChecksum.substring(0, 16)}...`);
+    if (!fs.existsSync(keyPath)) {
+      console.error(`Error: Key file not found: ${keyPath}`);
+      process.exit(1);
+    }
+
+    const keyId =
+      options.keyId || path.basename(keyPath).replace(/\.(pem|key)$/, "");
+    const content = fs.readFileSync(profilePath, "utf-8");
+    const signature = signProfileContent(
+      content,
+      fs.readFileSync(keyPath, "utf-8"),
+      keyId,
+    );
+
+    if (options.embed) {
+      fs.writeFileSync(profilePath, embedSignature(content, signature));
+      const profile = this.profiles.get(name);
+      if (profile) {
+        profile.checksum = this.calculateChecksum(profilePath);
+        profile.updatedAt = new Date().toISOString();
+        this.saveProfiles();
+      }
+      console.log(`Profile '${name}' signed with key '${keyId}' (embedded)`);
     } else {
-      console.error(`Warning: Profile '${name}' has been modified`);
-      console.error(`   Expected: ${profile.checksum?.substring(0, 16)}...`);
-      console.error(`   Actual:   ${currentChecksum.substring(0, 16)}...`);
+      fs.writeFileSync(
+        `${profilePath}.sig`,
+        JSON.stringify(signature, null, 2),
+      );
+      console.log(`Profile '${name}' signed with key '${keyId}'`);
+      console.log(`   Signature: ${profilePath}.sig`);
     }
   }
 
@@ -242,10 +318,31 @@ program
 
 program
   .command("verify <name>")
-  .description("Verify profile integrity")
-  .action((name) => {
+  .description("Verify profile integrity and, with --keys, its signature")
+  .option(
+    "-k, --keys <dir>",
+    "Directory of trusted <keyId>.pub keys to check the signature against",
+  )
+  .action(async (name, options) => {
     const cli = new ProfileAdminCLI();
-    cli.verifyProfile(name);
+    await cli.verifyProfile(name, options.keys);
+  });
+
+program
+  .command("sign <name>")
+  .description("Sign a profile (registered name or file path)")
+  .requiredOption("-k, --key <path>", "Private key (PEM) to sign with")
+  .option("--key-id <id>", "Key id recorded in the signature")
+  .option(
+    "--embed",
+    "Embed the signature in the profile instead of writing <profile>.sig",
+  )
+  .action((name, options) => {
+    const cli = new ProfileAdminCLI();
+    cli.signProfile(name, options.key, {
+      keyId: options.keyId,
+      embed: options.embed,
+    });
   });
 
 program
@@ -284,7 +381,7 @@ export async function run(args: string[]): Promise<void> {
     }) as typeof process.exit;
 
     process.argv = ["node", "profile-admin", ...args];
-    program.parse(process.argv);
+    await program.parseAsync(process.argv);
   } catch (error) {
     if (
       error instanceof Error &&
@@ -0,0 +1,523 @@
+/**
+ * Hot reload of omni-config.yaml and the profile files it loads.
+ * A changed config is validated with SchemaValidator before anything is
+ * touched; only external servers whose settings changed are restarted, and
+ * sessions that have a changed profile applied get fresh behavior
+ * instructions, rendered with their variables and secrets like an apply. A
+ * reload that fails leaves the previous configuration live.
+ */
+
+import * as fsSync from "fs";
+import * as path from "path";
+import { EventEmitter } from "events";
+import { Mutex } from "async-mutex";
+import { YamlConfig, YamlConfigManager } from "./yaml-config.js";
+import { ConfigLoader } from "./loader.js";
+import { MCPProxyManager } from "../mcp-proxy/manager.js";
+import {
+  ClientSession,
+  DEFAULT_SESSION_ID,
+  SessionManager,
+  getAppliedProfile,
+  isProfileApplied,
+} from "../server/sessions.js";
+import { ClaudeConfig, ClaudeConfigManager } from "../utils/claude-config.js";
+import { BehaviorGenerator } from "../utils/behavior-generator.js";
+import { ProfileTemplateError } from "../utils/profile-template.js";
+import { SecretManager } from "../security/secret-manager.js";
+import { computeStringHash } from "../behavior/hash.js";
+import {
+  ConfigChange,
+  ExternalServerChange,
+} from "../validation/schema-validator.js";
+import { ILogger, SilentLogger } from "../utils/logger.js";
+
+export const DEFAULT_RELOAD_DEBOUNCE_MS = 300;
+
+export interface ReloadResult {
+  status: "applied" | "unchanged" | "failed";
+  /** File whose change triggered the reload */
+  file: string;
+  changes: ConfigChange[];
+  serverChanges: ExternalServerChange[];
+  /** Profiles whose content changed */
+  profiles: string[];
+  errors: string[];
+}
+
+/** Re-applies settings derived from the YAML config, such as security */
+export type ConfigApplier = (config: YamlConfig) => Promise<void> | void;
+
+type LoadedProfile = ClaudeConfig & {
+  _autoApply?: boolean;
+  _filePath?: string;
+};
+
+/** Profile changes of a config reload, applied once the reload succeeded */
+interface StagedProfiles {
+  updated: Array<{
+    name: string;
+    previous: ClaudeConfig | undefined;
+    config: LoadedProfile;
+  }>;
+  removed: string[];
+}
+
+export class ConfigReloader extends EventEmitter {
+  private yamlConfigManager: YamlConfigManager;
+  private configLoader: ConfigLoader;
+  private claudeConfigManager: ClaudeConfigManager;
+  private proxyManager: MCPProxyManager;
+  private sessions: SessionManager;
+  private applyConfig?: ConfigApplier;
+  private secretManager?: SecretManager;
+  private logger: ILogger;
+  private mutex = new Mutex();
+  private watchers: Map<string, fsSync.FSWatcher> = new Map();
+  private watchedFiles: Set<string> = new Set();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private debounceMs = DEFAULT_RELOAD_DEBOUNCE_MS;
+
+  constructor(
+    yamlConfigManager: YamlConfigManager,
+    configLoader: ConfigLoader,
+    claudeConfigManager: ClaudeConfigManager,
+    proxyManager: MCPProxyManager,
+    sessions: SessionManager,
+    applyConfig?: ConfigApplier,
+    logger?: ILogger,
+    secretManager?: SecretManager,
+  ) {
+    super();
+    this.yamlConfigManager = yamlConfigManager;
+    this.configLoader = configLoader;
+    this.claudeConfigManager = claudeConfigManager;
+    this.proxyManager = proxyManager;
+    this.sessions = sessions;
+    this.applyConfig = applyConfig;
+    this.secretManager = secretManager;
+    this.logger = logger || new SilentLogger();
+  }
+
+  /**
+   * Reconcile external servers through another proxy manager
+   */
+  setProxyManager(proxyManager: MCPProxyManager): void {
+    this.proxyManager = proxyManager;
+  }
+
+  /**
+   * Watch the config file and every loaded profile file
+   */
+  start(debounceMs: number = DEFAULT_RELOAD_DEBOUNCE_MS): void {
+    this.debounceMs = debounceMs;
+    this.refreshWatches();
+    this.logger.info(
+      `[HOT-RELOAD] Watching ${this.watchedFiles.size} files for changes`,
+    );
+  }
+
+  stop(): void {
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+    this.watchedFiles.clear();
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  getWatchedFiles(): string[] {
+    return [...this.watchedFiles];
+  }
+
+  /**
+   * Reload after `file` changed: the YAML config or a profile file
+   */
+  async reloadFile(file: string): Promise<ReloadResult> {
+    return path.resolve(file) ===
+      path.resolve(this.yamlConfigManager.getConfigPath())
+      ? this.reloadConfig()
+      : this.reloadProfile(file);
+  }
+
+  /**
+   * Validate and apply omni-config.yaml, restoring the previous
+   * configuration if any step fails
+   */
+  async reloadConfig(): Promise<ReloadResult> {
+    return this.mutex.runExclusive(async () => {
+      const configPath = this.yamlConfigManager.getConfigPath();
+      const result = this.createResult(configPath);
+
+      let dryRun;
+      try {
+        dryRun = await this.yamlConfigManager.dryRun(configPath);
+      } catch (error) {
+        return this.fail(result, [(error as Error).message]);
+      }
+      if (!dryRun.valid) {
+        return this.fail(
+          result,
+          dryRun.errors.map((error) => `${error.field}: ${error.message}`),
+        );
+      }
+      result.changes = dryRun.changes;
+
+      const previous = this.yamlConfigManager.getConfig();
+      let staged: StagedProfiles;
+      try {
+        const config = await this.yamlConfigManager.loadYamlConfig(configPath);
+        if (JSON.stringify(config) === JSON.stringify(previous)) {
+          return this.finish(result);
+        }
+
+        await this.applyConfig?.(config);
+        staged = await this.stageProfiles(previous, result.errors);
+        result.serverChanges = await this.proxyManager.reloadFromYamlConfig();
+      } catch (error) {
+        await this.rollback(previous);
+        return this.fail(result, [(error as Error).message]);
+      }
+
+      // Sessions only see the new profiles once nothing can roll back
+      result.profiles = await this.commitProfiles(staged, result.errors);
+      result.status = "applied";
+      return this.finish(result);
+    });
+  }
+
+  /**
+   * Reload a profile file, or the profiles including a changed fragment,
+   * and re-apply them where they are active
+   */
+  async reloadProfile(file: string): Promise<ReloadResult> {
+    return this.mutex.runExclusive(async () => {
+      const filePath = path.resolve(file);
+      const result = this.createResult(filePath);
+      const affected = [...this.getBaseProfiles()].filter(
+        ([, profile]) =>
+          this.getProfilePath(profile) === filePath ||
+          profile.includes?.includes(filePath),
+      );
+
+      for (const [name, profile] of affected) {
+        const previous = profile as LoadedProfile;
+        const profilePath = this.getProfilePath(previous) as string;
+        let config: ClaudeConfig | null;
+        try {
+          config = await this.claudeConfigManager.loadClaudeConfig(profilePath);
+        } catch (error) {
+          return this.fail(result, [(error as Error).message]);
+        }
+        if (!config) {
+          return this.fail(result, [`Cannot load profile from ${profilePath}`]);
+        }
+
+        const reloaded: LoadedProfile = {
+          ...config,
+          _autoApply: previous._autoApply,
+          _filePath: previous._filePath,
+        };
+        try {
+          if (await this.prepareProfile(previous, reloaded)) {
+            await this.updateProfile(name, previous, reloaded);
+            result.profiles.push(name);
+          }
+        } catch (error) {
+          return this.fail(result, [(error as Error).message]);
+        }
+      }
+
+      if (result.profiles.length > 0) {
+        result.status = "applied";
+      }
+      return this.finish(result);
+    });
+  }
+
+  /**
+   * Load the autoLoad profiles of a changed config without touching any
+   * session; a refused profile keeps its previous version
+   */
+  private async stageProfiles(
+    previous: YamlConfig,
+    errors: string[],
+  ): Promise<StagedProfiles> {
+    const staged: StagedProfiles = { updated: [], removed: [] };
+    const base = this.getBaseProfiles();
+    const loaded = await this.configLoader.loadInitialConfig();
+
+    for (const [name, config] of loaded) {
+      try {
+        if (await this.prepareProfile(base.get(name), config)) {
+          staged.updated.push({ name, previous: base.get(name), config });
+        }
+      } catch (error) {
+        errors.push(`${name}: ${(error as Error).message}`);
+      }
+    }
+
+    const defaultSession = this.sessions.getDefaultSession();
+    for (const profile of previous.autoLoad?.profiles || []) {
+      if (
+        !loaded.has(profile.name) &&
+        !isProfileApplied(defaultSession, profile.name) &&
+        base.has(profile.name)
+      ) {
+        staged.removed.push(profile.name);
+      }
+    }
+
+    return staged;
+  }
+
+  /**
+   * Apply staged profile changes to the sessions; returns changed names
+   */
+  private async commitProfiles(
+    staged: StagedProfiles,
+    errors: string[],
+  ): Promise<string[]> {
+    const changed: string[] = [];
+    for (const { name, previous, config } of staged.updated) {
+      try {
+        await this.updateProfile(name, previous, config);
+        changed.push(name);
+      } catch (error) {
+        errors.push(`${name}: ${(error as Error).message}`);
+      }
+    }
+
+    const base = this.getBaseProfiles();
+    for (const name of staged.removed) {
+      base.delete(name);
+      changed.push(name);
+    }
+    return changed;
+  }
+
+  /**
+   * Check a reloaded profile before it is swapped in. Returns false when
+   * the content is unchanged; throws when its signature is refused.
+   */
+  private async prepareProfile(
+    previous: ClaudeConfig | undefined,
+    config: LoadedProfile,
+  ): Promise<boolean> {
+    if (
+      previous &&
+      (previous.resolvedContent ?? previous.content) ===
+        (config.resolvedContent ?? config.content) &&
+      // Same text from different fragments still changes what is watched
+      String(previous.includes) === String(config.includes)
+    ) {
+      return false;
+    }
+
+    const filePath = this.getProfilePath(config);
+    if (filePath) {
+      await this.claudeConfigManager.verifySignature(filePath);
+    }
+    return true;
+  }
+
+  /**
+   * Swap in a changed profile and re-apply it in sessions using it
+   */
+  private async updateProfile(
+    name: string,
+    previous: ClaudeConfig | undefined,
+    config: LoadedProfile,
+  ): Promise<void> {
+    const sessions = this.sessions.replaceProfile(name, previous, config);
+    const defaultSession = this.sessions.getDefaultSession();
+    // Profiles auto-applied at startup are active without an apply call
+    if (
+      config._autoApply &&
+      defaultSession.lastAppliedProfile === null &&
+      defaultSession.appliedBehaviorInstructions &&
+      !sessions.includes(defaultSession)
+    ) {
+      sessions.push(defaultSession);
+    }
+
+    for (const session of sessions) {
+      await this.reapply(session, name, config);
+    }
+    this.sessions.notifyProfileChanged(name);
+    this.logger.info(
+      `[HOT-RELOAD] Profile '${name}' reloaded; re-applied in ${sessions.length} sessions`,
+    );
+  }
+
+  /**
+   * Render the changed profile for a session; a session whose variables no
+   * longer resolve keeps its previous behavior
+   */
+  private async reapply(
+    session: ClientSession,
+    name: string,
+    config: ClaudeConfig,
+  ): Promise<void> {
+    // A changed stack layer re-applies the whole stack
+    if (session.profileStack) {
+      name = session.lastAppliedProfile ?? name;
+      config = getAppliedProfile(session) ?? config;
+    }
+    let instructions: string;
+    try {
+      instructions = await BehaviorGenerator.renderInstructions(
+        name,
+        config,
+        session.appliedVariables,
+        this.secretManager,
+      );
+    } catch (error) {
+      if (!(error instanceof ProfileTemplateError)) {
+        throw error;
+      }
+      this.logger.warn(
+        `[HOT-RELOAD] Kept previous behavior of '${name}' in session ${session.id === DEFAULT_SESSION_ID ? "stdio" : session.id}: ${error.message}`,
+      );
+      return;
+    }
+    session.appliedBehaviorInstructions = instructions;
+    session.behaviorState.atomicSwapBehavior(instructions, {
+      profile: name,
+      hash: computeStringHash(instructions),
+    });
+    this.logger.debug(
+      `[HOT-RELOAD] Re-applied '${name}' in session ${session.id === DEFAULT_SESSION_ID ? "stdio" : session.id}`,
+    );
+  }
+
+  /**
+   * Restore the previous config; sessions and profiles are untouched until
+   * a reload succeeds, so they need no restoring
+   */
+  private async rollback(previous: YamlConfig): Promise<void> {
+    this.yamlConfigManager.restoreConfig(previous);
+    try {
+      await this.applyConfig?.(previous);
+      await this.proxyManager.reloadFromYamlConfig();
+    } catch (error) {
+      this.logger.error(
+        "[HOT-RELOAD] Failed to restore previous config:",
+        error,
+      );
+    }
+  }
+
+  private getBaseProfiles(): Map<string, ClaudeConfig> {
+    return this.sessions.getDefaultSession().activeProfiles;
+  }
+
+  private getProfilePath(profile: ClaudeConfig): string | undefined {
+    const filePath =
+      (profile as LoadedProfile)._filePath || profile.filePath || undefined;
+    return filePath ? path.resolve(filePath) : undefined;
+  }
+
+  private createResult(file: string): ReloadResult {
+    return {
+      status: "unchanged",
+      file,
+      changes: [],
+      serverChanges: [],
+      profiles: [],
+      errors: [],
+    };
+  }
+
+  private finish(result: ReloadResult): ReloadResult {
+    if (result.status === "applied") {
+      this.logger.info(
+        `[HOT-RELOAD] Reloaded ${result.file}: ${result.changes.length} config changes, ${result.serverChanges.length} server changes, ${result.profiles.length} profiles`,
+      );
+      this.refreshWatches();
+    }
+    this.emit("reloaded", result);
+    return result;
+  }
+
+  private fail(result: ReloadResult, errors: string[]): ReloadResult {
+    result.status = "failed";
+    result.errors.push(...errors);
+    this.logger.error(
+      `[HOT-RELOAD] Reload of ${result.file} failed; keeping the previous configuration: ${errors.join("; ")}`,
+    );
+    this.emit("reload-failed", result);
+    return result;
+  }
+
+  /**
+   * Watch the directories holding the config, profile and included files;
+   * watching directories keeps working when editors replace files on save
+   */
+  private refreshWatches(): void {
+    const files = new Set([
+      path.resolve(this.yamlConfigManager.getConfigPath()),
+    ]);
+    for (const profile of this.getBaseProfiles().values()) {
+      const filePath = this.getProfilePath(profile);
+      if (filePath) {
+        files.add(filePath);
+      }
+      for (const include of profile.includes || []) {
+        files.add(include);
+      }
+    }
+    this.watchedFiles = files;
+
+    const directories = new Set([...files].map((file) => path.dirname(file)));
+    for (const [directory, watcher] of this.watchers) {
+      if (!directories.has(directory)) {
+        watcher.close();
+        this.watchers.delete(directory);
+      }
+    }
+    for (const directory of directories) {
+      if (this.watchers.has(directory)) {
+        continue;
+      }
+      try {
+        const watcher = fsSync.watch(directory, (_event, filename) => {
+          if (filename) {
+            this.schedule(path.join(directory, filename.toString()));
+          }
+        });
+        watcher.on("error", (error) =>
+          this.logger.warn(
+            `[HOT-RELOAD] Watcher error on ${directory}:`,
+            error,
+          ),
+        );
+        watcher.unref();
+        this.watchers.set(directory, watcher);
+      } catch (error) {
+        this.logger.warn(`[HOT-RELOAD] Cannot watch ${directory}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Debounce bursts of events from a single save
+   */
+  private schedule(file: string): void {
+    if (!this.watchedFiles.has(file)) {
+      return;
+    }
+    clearTimeout(this.timers.get(file));
+    const timer = setTimeout(() => {
+      this.timers.delete(file);
+      this.reloadFile(file).catch((error) =>
+        this.logger.error(`[HOT-RELOAD] Reload of ${file} failed:`, error),
+      );
+    }, this.debounceMs);
+    timer.unref();
+    this.timers.set(file, timer);
+  }
+}
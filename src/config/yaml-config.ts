@@ -4,6 +4,23 @@ import * as yaml from "js-yaml";
 import { fileURLToPath } from "url";
 import { minimatch } from "minimatch";
 import { ILogger, SilentLogger } from "../utils/logger.js";
+import { NamespacingMode } from "../mcp-proxy/namespacing.js";
+import {
+  ExternalServerTransport,
+  ExternalServerAuthConfig,
+} from "../mcp-proxy/transport.js";
+import type {
+  ExternalServerReplica,
+  ExternalServerStartPolicy,
+} from "../mcp-proxy/client.js";
+import type { DeepPartial, ResilienceConfig } from "../mcp-proxy/resilience.js";
+import type { ResilienceSettings } from "../mcp-proxy/enhanced-manager.js";
+import { HubServerOptions } from "../server/server-options.js";
+import { AccessControlConfig } from "../security/access-policy.js";
+import { RBACConfig } from "../security/rbac.js";
+import { RequestLimitsConfig } from "../security/request-limits.js";
+import { ProfileSigningMode } from "../security/profile-signing.js";
+import { SecretManagerConfig } from "../security/secret-manager.js";
 import { PathResolver } from "../utils/path-resolver.js";
 import {
   SchemaValidator,
@@ -19,10 +36,29 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
 export interface ExternalServerConfig {
   name: string;
-  command: string;
+  transport?: ExternalServerTransport;
+  command?: string;
   args?: string[];
   env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  auth?: ExternalServerAuthConfig;
   description?: string;
+  namespacing?: NamespacingMode;
+  alias?: string;
+  rename?: Record<string, string>;
+  /** Interchangeable instances: a number of identical ones, or one entry per endpoint */
+  replicas?: number | ExternalServerReplica[];
+  /** Overrides of `externalServers.resilience.serverDefaults` */
+  resilience?: DeepPartial<ResilienceConfig>;
+  /** `eager` (default), `lazy` or `on-demand`; see ExternalServerStartPolicy */
+  startPolicy?: ExternalServerStartPolicy;
+  /**
+   * Stop an idle stdio server's process after this long; lazy servers
+   * default to the resilience `connection.idleTimeoutMs`, eager ones run
+   * until stopped
+   */
+  idleTimeoutMs?: number;
 }
 
 export interface YamlConfig {
@@ -55,6 +91,21 @@ export interface YamlConfig {
     allowDuplicateNames?: boolean;
     autoNamePattern?: string;
     defaultProfile?: string;
+    /** Persistent apply history used by rollback_profile */
+    history?: {
+      /** Directory for the history file, relative to this file */
+      stateDir?: string;
+      maxEntries?: number;
+    };
+    /** Base profiles inherited from github:, npm: and https: references */
+    remoteProfiles?: {
+      /** Lockfile of fetched profiles, relative to this file */
+      lockFile?: string;
+      /** Directory of cached profile contents, relative to this file */
+      cacheDir?: string;
+      /** Resolve from the cache only */
+      offline?: boolean;
+    };
   };
   logging?: {
     level?: "debug" | "info" | "warn" | "error";
@@ -64,11 +115,31 @@ export interface YamlConfig {
   externalServers?: {
     enabled?: boolean;
     servers?: ExternalServerConfig[];
+    namespacing?: NamespacingMode;
     autoConnect?: boolean;
     retry?: {
       maxAttempts?: number;
       delayMs?: number;
     };
+    /** Run servers through the enhanced, resilient proxy manager */
+    resilience?: ResilienceSettings;
+  };
+  server?: HubServerOptions;
+  /** Reload this file and profile files when they change on disk */
+  hotReload?: {
+    enabled?: boolean;
+    debounceMs?: number;
+  };
+  security?: {
+    accessControl?: AccessControlConfig;
+    rbac?: RBACConfig;
+    rateLimit?: RequestLimitsConfig;
+    /** Signature check before apply_claude_config activates a profile */
+    profileSigning?: ProfileSigningMode;
+    /** Directory of trusted `<keyId>.pub` keys, relative to this file */
+    trustedKeys?: string;
+    /** Providers for `{{secret:...}}` profile variables */
+    secrets?: SecretManagerConfig;
   };
 }
 
@@ -290,6 +361,28 @@ export class YamlConfigManager {
       };
     }
 
+    if (userConfig.server) {
+      merged.server = {
+        ...defaultConfig.server,
+        ...userConfig.server,
+        http: {
+          ...defaultConfig.server?.http,
+          ...userConfig.server.http,
+        },
+      };
+    }
+
+    if (userConfig.hotReload) {
+      merged.hotReload = {
+        ...defaultConfig.hotReload,
+        ...userConfig.hotReload,
+      };
+    }
+
+    if (userConfig.security) {
+      merged.security = { ...defaultConfig.security, ...userConfig.security };
+    }
+
     return merged;
   }
 
@@ -300,6 +393,20 @@ export class YamlConfigManager {
     return this.config;
   }
 
+  /**
+   * Put back a configuration returned by getConfig, e.g. after a failed reload
+   */
+  restoreConfig(config: YamlConfig): void {
+    this.config = config;
+  }
+
+  /**
+   * Path of the YAML file this manager loads
+   */
+  getConfigPath(): string {
+    return this.configPath || this.findYamlConfigFile();
+  }
+
   /**
    * Check if logging should be output based on level
    */
@@ -1,17 +1,55 @@
 #!/usr/bin/env node
 
+import * as path from "path";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { ClaudeConfigManager, ClaudeConfig } from "./utils/claude-config.js";
 import { ConfigLoader } from "./config/loader.js";
 import { ToolHandlers } from "./tools/handlers.js";
 import { ResourceHandlers } from "./resources/handlers.js";
+import { PromptHandlers } from "./prompts/handlers.js";
 import { BehaviorGenerator } from "./utils/behavior-generator.js";
-import { YamlConfigManager } from "./config/yaml-config.js";
+import { ProfileTemplateError } from "./utils/profile-template.js";
+import { YamlConfig, YamlConfigManager } from "./config/yaml-config.js";
+import { ConfigReloader, ReloadResult } from "./config/hot-reload.js";
 import { MCPProxyManager } from "./mcp-proxy/manager.js";
+import {
+  EnhancedMCPProxyManager,
+  isResilienceEnabled,
+  toEnhancedManagerConfig,
+  toStatsServerConfig,
+} from "./mcp-proxy/enhanced-manager.js";
+import {
+  CapabilityCache,
+  DEFAULT_CAPABILITY_CACHE_FILE,
+} from "./mcp-proxy/capability-cache.js";
 import { PathResolver } from "./utils/path-resolver.js";
 import { Logger, ILogger } from "./utils/logger.js";
 import { ProcessErrorHandler } from "./utils/process-error-handler.js";
+import { HttpTransportServer } from "./server/http-transport.js";
+import {
+  ClientSession,
+  SessionManager,
+  SessionPeerInfo,
+} from "./server/sessions.js";
+import { AccessPolicy } from "./security/access-policy.js";
+import { loadPolicyFile } from "./security/policy-file.js";
+import { RequestLimiter } from "./security/request-limits.js";
+import { ProfileSigning } from "./security/profile-signing.js";
+import { SecretManager } from "./security/secret-manager.js";
+import { setApplyProfileSigning } from "./behavior/apply.js";
+import { ApplyHistory, getApplyHistoryOptions } from "./behavior/history.js";
+import {
+  RemoteProfileResolver,
+  getRemoteProfileOptions,
+} from "./utils/remote-profiles.js";
+import { MetricsCollector } from "./monitoring/metrics-collector.js";
+import { MonitoringServer } from "./monitoring/monitoring-server.js";
+import {
+  HubServerOptions,
+  parseServerArgs,
+  resolveServerOptions,
+} from "./server/server-options.js";
 
 export class OmniMCPServer {
   private server: Server;
@@ -20,28 +58,36 @@ export class OmniMCPServer {
   private configLoader: ConfigLoader;
   private toolHandlers: ToolHandlers;
   private resourceHandlers: ResourceHandlers;
+  private promptHandlers: PromptHandlers;
   private proxyManager: MCPProxyManager;
   private yamlConfigManager: YamlConfigManager;
   private logger: ILogger;
-  private appliedBehaviorInstructions: string | null = null;
+  private sessionManager: SessionManager;
+  private httpTransport?: HttpTransportServer;
+  private accessPolicy: AccessPolicy;
+  private requestLimiter: RequestLimiter;
+  private metricsCollector?: MetricsCollector;
+  private statsServer?: MonitoringServer;
+  private configReloader: ConfigReloader;
+  private secretManager: SecretManager;
+  private applyHistory: ApplyHistory;
+  private remoteProfiles: RemoteProfileResolver;
 
   constructor(logger?: ILogger) {
     this.logger = logger || Logger.getInstance();
 
-    this.server = new Server(
-      {
-        name: "omni-mcp-hub",
-        version: "1.0.0",
-      },
-      {
-        capabilities: {
-          resources: {},
-          tools: {},
-        },
-      },
-    );
+    this.server = this.createServer();
+    this.sessionManager = new SessionManager(this.activeProfiles, this.logger);
+    this.accessPolicy = new AccessPolicy({}, undefined, undefined, this.logger);
+    this.requestLimiter = new RequestLimiter({}, undefined, this.logger);
+    this.requestLimiter.setIdentities(this.accessPolicy);
+    this.secretManager = new SecretManager();
+    this.applyHistory = new ApplyHistory();
+
+    this.remoteProfiles = new RemoteProfileResolver({}, this.logger);
 
     this.claudeConfigManager = new ClaudeConfigManager();
+    this.claudeConfigManager.setRemoteProfiles(this.remoteProfiles);
     const pathResolver = PathResolver.getInstance();
     const yamlConfigPath = pathResolver.getAbsoluteYamlConfigPath();
     this.logger.debug(`Resolved YAML config path: ${yamlConfigPath}`);
@@ -59,6 +105,16 @@ export class OmniMCPServer {
       this.yamlConfigManager,
       this.logger,
     );
+    this.configReloader = new ConfigReloader(
+      this.yamlConfigManager,
+      this.configLoader,
+      this.claudeConfigManager,
+      this.proxyManager,
+      this.sessionManager,
+      (config) => this.applySecurityConfig(config),
+      this.logger,
+      this.secretManager,
+    );
     this.toolHandlers = new ToolHandlers(
       this.server,
       this.claudeConfigManager,
@@ -66,15 +122,65 @@ export class OmniMCPServer {
       this.proxyManager,
       this.logger,
       this, // Pass OmniMCPServer instance to access behavior instructions
+      this.sessionManager,
+      this.accessPolicy,
+      this.requestLimiter,
+      this.secretManager,
+      this.applyHistory,
     );
     this.resourceHandlers = new ResourceHandlers(
       this.server,
       this.activeProfiles,
       this.proxyManager,
       this.logger,
+      this.sessionManager,
+      this.accessPolicy,
+      this.requestLimiter,
+      this.secretManager,
+    );
+    this.promptHandlers = new PromptHandlers(
+      this.server,
+      this.sessionManager,
+      this.proxyManager,
+      this.logger,
+      this.accessPolicy,
+      this.requestLimiter,
+    );
+  }
+
+  /**
+   * Create an MCP server instance advertising the hub's capabilities
+   */
+  private createServer(): Server {
+    return new Server(
+      {
+        name: "omni-mcp-hub",
+        version: "1.0.0",
+      },
+      {
+        capabilities: {
+          resources: { subscribe: true },
+          tools: {},
+          prompts: {},
+          completions: {},
+        },
+      },
     );
   }
 
+  /**
+   * Create the server backing a single HTTP session; its session state is
+   * created once the client has initialized
+   */
+  private createSessionServer(sessionId: string): Server {
+    this.logger.debug(`[HTTP] Creating server for session ${sessionId}`);
+    const server = this.createServer();
+    this.toolHandlers.setupHandlers(server);
+    this.resourceHandlers.setupHandlers(server);
+    this.promptHandlers.setupHandlers(server);
+    return server;
+  }
+
   /**
    * Initialize the server with handlers and configuration
    */
@@ -87,6 +193,12 @@ export class OmniMCPServer {
     await this.loadInitialConfiguration();
     this.logger.info("[INIT] Initial configuration loaded");
 
+    await this.applySecurityConfig(this.yamlConfigManager.getConfig());
+    this.configureApplyHistory();
+    this.configureRemoteProfiles();
+    await this.selectProxyManager();
+    this.configureCapabilityCache();
+
     this.logger.info("[INIT] Applying autoApply profiles...");
     await this.applyAutoApplyProfiles();
     this.logger.info("[INIT] AutoApply profiles applied");
@@ -106,6 +218,9 @@ export class OmniMCPServer {
       );
       this.sendToolsChangedNotification();
     });
+    this.proxyManager.on("promptsChanged", () =>
+      this.broadcastNotification("notifications/prompts/list_changed", {}),
+    );
     this.logger.debug("[INIT] Tools changed notification set up");
 
     this.logger.debug("[INIT] Setting up tool handlers...");
@@ -116,9 +231,168 @@ export class OmniMCPServer {
     this.resourceHandlers.setupHandlers();
     this.logger.debug("[INIT] Resource handlers set up");
 
+    this.logger.debug("[INIT] Setting up prompt handlers...");
+    this.promptHandlers.setupHandlers();
+    this.logger.debug("[INIT] Prompt handlers set up");
+
+    const hotReload = this.yamlConfigManager.getConfig().hotReload;
+    if (hotReload?.enabled !== false) {
+      this.configReloader.on("reloaded", (result: ReloadResult) =>
+        this.onConfigReloaded(result),
+      );
+      this.configReloader.start(hotReload?.debounceMs);
+    }
+
     this.logger.info("[INIT] Server initialization complete");
   }
 
+  /**
+   * Apply the security section of omni-config.yaml; called again on hot reload
+   */
+  private async applySecurityConfig(config: YamlConfig): Promise<void> {
+    const security = config.security;
+    const configDir = path.dirname(
+      PathResolver.getInstance().getAbsoluteYamlConfigPath(),
+    );
+    // A policy file that fails to load leaves the access settings untouched
+    const policyFile = security?.accessControl?.policyFile;
+    const policy = policyFile
+      ? await loadPolicyFile(policyFile, configDir)
+      : undefined;
+    this.accessPolicy.getRBACManager().applyConfig(security?.rbac || {});
+    this.accessPolicy.configure(security?.accessControl || {});
+    this.accessPolicy.setPolicy(policy);
+    if (policyFile) {
+      this.logger.info(`[INIT] Access policy loaded from ${policyFile}`);
+    }
+    this.requestLimiter.configure(security?.rateLimit || {});
+    this.secretManager.configure(security?.secrets || {});
+    const profileSigning = new ProfileSigning(
+      security?.profileSigning || "off",
+      path.resolve(configDir, security?.trustedKeys || "keys"),
+      this.logger,
+    );
+    this.claudeConfigManager.setProfileSigning(profileSigning);
+    setApplyProfileSigning(profileSigning);
+    if (profileSigning.isEnabled()) {
+      this.logger.info(
+        `[INIT] Profile signing '${profileSigning.getMode()}' with ${profileSigning.getTrustedKeyIds().length} trusted keys`,
+      );
+    }
+  }
+
+  /**
+   * Point the apply history at the configured state directory
+   */
+  private configureApplyHistory(): void {
+    const configDir = path.dirname(
+      PathResolver.getInstance().getAbsoluteYamlConfigPath(),
+    );
+    this.applyHistory.configure(
+      getApplyHistoryOptions(this.yamlConfigManager.getConfig(), configDir),
+    );
+  }
+
+  private configureRemoteProfiles(): void {
+    const configDir = path.dirname(
+      PathResolver.getInstance().getAbsoluteYamlConfigPath(),
+    );
+    this.remoteProfiles.configure(
+      getRemoteProfileOptions(this.yamlConfigManager.getConfig(), configDir),
+    );
+  }
+
+  /**
+   * Use the enhanced proxy manager when `externalServers.resilience` is
+   * configured; runs before any external server is started
+   */
+  private async selectProxyManager(): Promise<void> {
+    const settings =
+      this.yamlConfigManager.getConfig().externalServers?.resilience;
+    if (!settings || !isResilienceEnabled(settings)) {
+      return;
+    }
+
+    const proxyManager = new EnhancedMCPProxyManager(
+      this.yamlConfigManager,
+      this.logger,
+      toEnhancedManagerConfig(settings),
+    );
+    this.proxyManager = proxyManager;
+    this.toolHandlers.setProxyManager(proxyManager);
+    this.resourceHandlers.setProxyManager(proxyManager);
+    this.promptHandlers.setProxyManager(proxyManager);
+    this.configReloader.setProxyManager(proxyManager);
+    this.sessionManager.on("session-removed", (session: ClientSession) =>
+      proxyManager.releaseSession(session.id),
+    );
+    this.logger.info("[INIT] Using the enhanced proxy manager");
+
+    if (settings.statsServer) {
+      try {
+        this.statsServer = new MonitoringServer(
+          this.ensureMetricsCollector(),
+          toStatsServerConfig(settings.statsServer),
+          this.logger,
+        );
+        this.statsServer.registerStatsSource("externalServers", () =>
+          proxyManager.getOperationalInsights(),
+        );
+        await this.statsServer.start();
+      } catch (error) {
+        this.logger.error("[INIT] Failed to start the stats server:", error);
+        this.statsServer = undefined;
+      }
+    }
+  }
+
+  /**
+   * Metrics are only collected while an exporter serves them: the stats
+   * server, or `/metrics` on the HTTP transport
+   */
+  private ensureMetricsCollector(): MetricsCollector {
+    if (!this.metricsCollector) {
+      this.metricsCollector = new MetricsCollector({}, this.logger);
+      this.requestLimiter.setMetrics(this.metricsCollector);
+    }
+    return this.metricsCollector;
+  }
+
+  /**
+   * Keep the capabilities of external servers next to the config file so
+   * lazy servers can advertise them without starting
+   */
+  private configureCapabilityCache(): void {
+    const configDir = path.dirname(
+      PathResolver.getInstance().getAbsoluteYamlConfigPath(),
+    );
+    this.proxyManager.setCapabilityCache(
+      new CapabilityCache(
+        path.resolve(configDir, DEFAULT_CAPABILITY_CACHE_FILE),
+        this.logger,
+      ),
+    );
+  }
+
+  /**
+   * Apply reloaded resilience settings; switching managers needs a restart
+   */
+  private configureProxyManager(): void {
+    const settings =
+      this.yamlConfigManager.getConfig().externalServers?.resilience;
+    const enhanced = this.proxyManager instanceof EnhancedMCPProxyManager;
+    if (enhanced !== isResilienceEnabled(settings)) {
+      this.logger.warn(
+        "[HOT-RELOAD] externalServers.resilience was turned on or off; restart the hub to switch proxy managers",
+      );
+    } else if (
+      settings &&
+      this.proxyManager instanceof EnhancedMCPProxyManager
+    ) {
+      this.proxyManager.updateConfig(toEnhancedManagerConfig(settings));
+    }
+  }
+
   /**
    * Load initial configuration from .mcp-config.json
    */
@@ -143,15 +417,38 @@ export class OmniMCPServer {
           _autoApply?: boolean;
         };
         if (configWithMetadata._autoApply === true) {
+          if (config.filePath) {
+            try {
+              await this.claudeConfigManager.verifySignature(config.filePath);
+            } catch (error) {
+              this.logger.error(
+                `[INIT] Not auto-applying profile '${name}': ${(error as Error).message}`,
+              );
+              continue;
+            }
+          }
           this.logger.info(`[INIT] Auto-applying profile '${name}'...`);
 
-          const { BehaviorGenerator } = await import(
-            "./utils/behavior-generator.js"
-          );
-          const behaviorInstructions =
-            BehaviorGenerator.generateInstructions(config);
-
-          this.appliedBehaviorInstructions = behaviorInstructions;
+          let behaviorInstructions: string;
+          try {
+            behaviorInstructions = await BehaviorGenerator.renderInstructions(
+              name,
+              config,
+              {},
+              this.secretManager,
+            );
+          } catch (error) {
+            if (!(error instanceof ProfileTemplateError)) {
+              throw error;
+            }
+            this.logger.error(
+              `[INIT] Not auto-applying profile '${name}': ${error.message}`,
+            );
+            continue;
+          }
+
+          this.sessionManager.getDefaultSession().appliedBehaviorInstructions =
+            behaviorInstructions;
 
           this.logger.info(
             `[INIT] Applied behavior instructions for profile '${name}':`,
@@ -200,15 +497,47 @@ export class OmniMCPServer {
   }
 
   /**
-   * Start the MCP server
+   * Start the MCP server on stdio or Streamable HTTP.
+   * Command line options take precedence over the `server` section of the YAML config.
    */
-  async run(): Promise<void> {
+  async run(overrides: HubServerOptions = {}): Promise<void> {
     this.logger.info(
       "[STARTUP] Skipping configuration validation - proceeding with initialization",
     );
 
     await this.initialize();
 
+    const options = resolveServerOptions(
+      this.yamlConfigManager.getConfig().server,
+      overrides,
+    );
+
+    if (options.transport === "http") {
+      const metricsCollector = this.ensureMetricsCollector();
+      this.httpTransport = new HttpTransportServer(
+        (sessionId) => this.createSessionServer(sessionId),
+        options.http,
+        this.logger,
+        () => this.sessionManager.listSessions(false),
+        () => metricsCollector.exportPrometheusMetrics(),
+      );
+      // Session state exists only once the client's initialize succeeded
+      this.httpTransport.on(
+        "session-created",
+        (sessionId: string, peer: SessionPeerInfo) => {
+          this.sessionManager.createSession(sessionId, peer);
+        },
+      );
+      this.httpTransport.on("session-closed", (sessionId: string) => {
+        this.sessionManager.removeSession(sessionId);
+      });
+      const { host, port } = await this.httpTransport.start();
+      this.logger.info(
+        `Omni MCP Hub server with CLAUDE.md support running on http://${host}:${port}${options.http?.path}`,
+      );
+      return;
+    }
+
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
     this.logger.info(
@@ -224,38 +553,81 @@ export class OmniMCPServer {
     return this.server;
   }
 
+  getSessionManager(): SessionManager {
+    return this.sessionManager;
+  }
+
+  getAccessPolicy(): AccessPolicy {
+    return this.accessPolicy;
+  }
+
   /**
-   * Get currently applied behavior instructions
+   * HTTP front end, when running with `--transport http`
+   */
+  getHttpTransport(): HttpTransportServer | undefined {
+    return this.httpTransport;
+  }
+
+  /**
+   * Get behavior instructions applied to the default (stdio) session
    */
   getAppliedBehaviorInstructions(): string | null {
-    return this.appliedBehaviorInstructions;
+    return this.sessionManager.getDefaultSession().appliedBehaviorInstructions;
   }
 
   /**
-   * Set currently applied behavior instructions
+   * Set behavior instructions applied to the default (stdio) session
    */
   setAppliedBehaviorInstructions(instructions: string): void {
-    this.appliedBehaviorInstructions = instructions;
+    this.sessionManager.getDefaultSession().appliedBehaviorInstructions =
+      instructions;
     this.logger.info("[BEHAVIOR] Applied behavior instructions updated");
   }
 
   /**
-   * Send tools changed notification to MCP client
+   * Send tools changed notification to every connected MCP client
    */
   private sendToolsChangedNotification(): void {
-    try {
-      this.server.notification({
-        method: "notifications/tools/list_changed",
-        params: {},
-      });
-      this.logger.debug(
-        "[NOTIFY] Successfully sent tools/list_changed notification",
-      );
-    } catch (error) {
-      this.logger.debug(
-        "[NOTIFY] Failed to send tools/list_changed notification:",
-        error,
-      );
+    this.broadcastNotification("notifications/tools/list_changed", {});
+  }
+
+  /**
+   * Reloaded profiles can change which proxied tools a session may call
+   */
+  private onConfigReloaded(result: ReloadResult): void {
+    this.configureApplyHistory();
+    this.configureRemoteProfiles();
+    this.configureProxyManager();
+    if (result.profiles.length > 0) {
+      this.sendToolsChangedNotification();
+    }
+  }
+
+  /**
+   * Send a notification to every connected MCP client
+   */
+  private broadcastNotification(
+    method: string,
+    params: Record<string, unknown>,
+  ): void {
+    const servers = this.httpTransport
+      ? this.httpTransport.getSessionServers()
+      : [this.server];
+
+    for (const server of servers) {
+      Promise.resolve()
+        .then(() => server.notification({ method, params }))
+        .then(() =>
+          this.logger.debug(
+            `[NOTIFY] Successfully sent ${method} notification`,
+          ),
+        )
+        .catch((error) =>
+          this.logger.debug(
+            `[NOTIFY] Failed to send ${method} notification:`,
+            error,
+          ),
+        );
     }
   }
 
@@ -263,12 +635,35 @@ export class OmniMCPServer {
     return BehaviorGenerator.generateInstructions(config);
   }
 
+  /**
+   * Stop accepting HTTP sessions, close open ones, then release external servers
+   */
+  async shutdown(): Promise<void> {
+    if (this.httpTransport) {
+      try {
+        await this.httpTransport.stop();
+      } catch (error) {
+        this.logger.error("[CLEANUP] Error stopping HTTP transport:", error);
+      }
+    }
+    this.cleanup();
+  }
+
   cleanup(): void {
     this.logger.info("[CLEANUP] Starting server cleanup...");
 
     try {
+      this.configReloader.stop();
+      this.resourceHandlers.stop();
       this.proxyManager.stopHealthChecks();
-      this.proxyManager.disconnectAll();
+      if (this.proxyManager instanceof EnhancedMCPProxyManager) {
+        void this.proxyManager.cleanup();
+      } else {
+        this.proxyManager.disconnectAll();
+      }
+      void this.statsServer?.stop();
+      this.requestLimiter.destroy();
+      this.metricsCollector?.stop();
       this.logger.info("[CLEANUP] Server cleanup completed");
     } catch (error) {
       this.logger.error("[CLEANUP] Error during cleanup:", error);
@@ -286,15 +681,19 @@ if (process.env.NODE_ENV !== "test") {
 
   const _metricsInterval = processErrorHandler.startMetricsCollection(60000);
 
+  processErrorHandler.onShutdown(() => server.shutdown());
+
   process.on("beforeExit", () => {
     processErrorHandler.stopMetricsCollection();
     server.cleanup();
   });
 }
 
-server.run().catch((error) => {
-  logger.error("Server startup error:", error);
-  if (process.env.NODE_ENV !== "test") {
-    process.exit(1);
-  }
-});
+Promise.resolve()
+  .then(() => server.run(parseServerArgs(process.argv.slice(2))))
+  .catch((error) => {
+    logger.error("Server startup error:", error);
+    if (process.env.NODE_ENV !== "test") {
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,148 @@
+/**
+ * Tools, resources, resource templates and prompts each external server
+ * reported on its last successful connect, so they can be listed before the
+ * server is running. Stored as JSON in the hub's state directory, with upstream (not namespaced)
+ * names so alias and namespacing changes still apply. Entries are keyed by a
+ * hash of how the server is launched, so changing its command, arguments or
+ * environment starts from an empty entry.
+ */
+
+import { promises as fs } from "fs";
+import * as path from "path";
+import * as crypto from "crypto";
+import { Mutex } from "async-mutex";
+import {
+  Prompt,
+  Resource,
+  ResourceTemplate,
+  Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { ILogger, SilentLogger } from "../utils/logger.js";
+import { getTransportType } from "./transport.js";
+import type { ExternalServerConfig } from "./client.js";
+
+export const DEFAULT_CAPABILITY_CACHE_FILE = ".omni-state/capabilities.json";
+const CACHE_VERSION = 3;
+
+export interface CachedCapabilities {
+  /** Server the entry was saved for */
+  server: string;
+  tools: Tool[];
+  resources: Resource[];
+  resourceTemplates: ResourceTemplate[];
+  prompts: Prompt[];
+  /** When the server reported them */
+  savedAt: string;
+}
+
+/**
+ * Cache key of a server: a hash of its command, arguments and environment,
+ * or of its URL for remote servers
+ */
+export function getCapabilityCacheKey(config: ExternalServerConfig): string {
+  const launch = {
+    transport: getTransportType(config),
+    command: config.command,
+    args: config.args,
+    env: config.env,
+    url: config.url,
+  };
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(launch))
+    .digest("hex")
+    .slice(0, 16);
+}
+
+export class CapabilityCache {
+  private filePath: string;
+  private logger: ILogger;
+  private mutex = new Mutex();
+
+  constructor(
+    filePath: string = DEFAULT_CAPABILITY_CACHE_FILE,
+    logger?: ILogger,
+  ) {
+    this.filePath = path.resolve(filePath);
+    this.logger = logger || new SilentLogger();
+  }
+
+  getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * Capabilities last saved under a key, if any
+   */
+  async get(key: string): Promise<CachedCapabilities | undefined> {
+    return (await this.read())[key];
+  }
+
+  /**
+   * Save what a server reported; failures are logged, not thrown, since the
+   * cache only speeds up later starts
+   */
+  async set(
+    key: string,
+    capabilities: Omit<CachedCapabilities, "savedAt">,
+  ): Promise<void> {
+    await this.update(key, (servers) => {
+      servers[key] = { ...capabilities, savedAt: new Date().toISOString() };
+    });
+  }
+
+  /**
+   * Forget a server's capabilities, e.g. when it reports that they changed
+   */
+  async delete(key: string): Promise<void> {
+    await this.update(key, (servers) => {
+      delete servers[key];
+    });
+  }
+
+  private async update(
+    key: string,
+    change: (servers: Record<string, CachedCapabilities>) => void,
+  ): Promise<void> {
+    await this.mutex.runExclusive(async () => {
+      try {
+        const servers = await this.read();
+        change(servers);
+
+        // Write-then-rename so a reader never sees a partial file
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        const tmpPath = `${this.filePath}.${process.pid}.tmp`;
+        await fs.writeFile(
+          tmpPath,
+          JSON.stringify({ version: CACHE_VERSION, servers }, null, 2),
+        );
+        await fs.rename(tmpPath, this.filePath);
+      } catch (error) {
+        this.logger.warn(
+          `[CAPABILITY-CACHE] Cannot update cache entry ${key}:`,
+          error,
+        );
+      }
+    });
+  }
+
+  private async read(): Promise<Record<string, CachedCapabilities>> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, "utf-8"));
+      // Entries of other versions are dropped and refilled on the next start
+      return data?.version === CACHE_VERSION &&
+        data.servers &&
+        typeof data.servers === "object"
+        ? data.servers
+        : {};
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        this.logger.warn(
+          `[CAPABILITY-CACHE] Ignoring unreadable ${this.filePath}:`,
+          error,
+        );
+      }
+      return {};
+    }
+  }
+}
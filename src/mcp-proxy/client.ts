@@ -1,32 +1,114 @@
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
-import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
-import { ChildProcess } from "child_process";
-import * as path from "path";
 import {
   Tool,
   Resource,
+  Prompt,
+  ResourceTemplate,
   CallToolResult,
   ReadResourceResult,
+  GetPromptResult,
+  CompleteRequest,
+  CompleteResult,
+  ResourceUpdatedNotificationSchema,
+  ToolListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  PromptListChangedNotificationSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { ILogger, SilentLogger } from "../utils/logger.js";
+import {
+  NamespacingMode,
+  toExposedToolName,
+  toExposedResourceUri,
+  toUpstreamToolName,
+  toUpstreamResourceUri,
+  toExposedPromptName,
+  toUpstreamPromptName,
+} from "./namespacing.js";
+import {
+  ExternalServerTransport,
+  ExternalServerAuthConfig,
+  createClientTransport,
+  getTransportType,
+} from "./transport.js";
+import type { DeepPartial, ResilienceConfig } from "./resilience.js";
+import { CapabilityCache, getCapabilityCacheKey } from "./capability-cache.js";
+
+/**
+ * When a server's process is started: at boot (`eager`), on its first call
+ * while cached capabilities are advertised (`lazy`), or for each burst of
+ * calls, stopping again as soon as it is idle (`on-demand`)
+ */
+export type ExternalServerStartPolicy = "eager" | "lazy" | "on-demand";
 
 export interface ExternalServerConfig {
   name: string;
-  command: string;
+  transport?: ExternalServerTransport;
+  command?: string;
   args?: string[];
   env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  auth?: ExternalServerAuthConfig;
   description?: string;
+  namespacing?: NamespacingMode;
+  alias?: string;
+  rename?: Record<string, string>;
+  /** Interchangeable instances: a number of identical ones, or one entry per endpoint */
+  replicas?: number | ExternalServerReplica[];
+  /** Overrides of the enhanced manager's `serverDefaults` for this server */
+  resilience?: DeepPartial<ResilienceConfig>;
+  startPolicy?: ExternalServerStartPolicy;
+  /** Stop a stdio server's process after this long without calls; restarted on the next call */
+  idleTimeoutMs?: number;
 }
 
+/** Connection settings of one replica, overriding the server's own */
+export type ExternalServerReplica = Partial<
+  Pick<
+    ExternalServerConfig,
+    "transport" | "command" | "args" | "env" | "url" | "headers" | "auth"
+  >
+>;
+
 export class MCPProxyClient {
   private client: Client;
-  private transport: StdioClientTransport;
-  private process: ChildProcess | null = null;
   private config: ExternalServerConfig;
+  /** Calls will be served, starting the server first if needed */
   private connected: boolean = false;
+  /** The upstream connection is open */
+  private running: boolean = false;
+  private starting?: Promise<void>;
+  private stopping?: Promise<void>;
+  private activeCalls = 0;
+  private idleTimer?: NodeJS.Timeout;
+  /** Upstream URIs subscribed to; the server is not stopped while any remain */
+  private subscriptions: Set<string> = new Set();
   private tools: Tool[] = [];
   private resources: Resource[] = [];
+  private resourceTemplates: ResourceTemplate[] = [];
+  private prompts: Prompt[] = [];
+  /**
+   * When the lists being served were reported, while the server has not
+   * confirmed them since: loaded from the cache, or left by a server that
+   * exited unexpectedly
+   */
+  private staleSince?: string;
+  /** When the running server last reported its lists */
+  private fetchedAt?: string;
+  private toolNames: Map<string, string> = new Map();
+  private resourceUris: Map<string, string> = new Map();
+  private resourceTemplateUris: Map<string, string> = new Map();
+  private promptNames: Map<string, string> = new Map();
   private logger: ILogger;
+  /** Called with the exposed URI when a subscribed resource changes upstream */
+  onResourceUpdated?: (uri: string) => void;
+  /** Called when the tools or resources served change after connecting */
+  onCapabilitiesChanged?: () => void;
+  /**
+   * Where capabilities are saved on every start, and where lazy servers
+   * advertise them from before starting; set before connecting
+   */
+  capabilityCache?: CapabilityCache;
 
   constructor(config: ExternalServerConfig, logger?: ILogger) {
     this.config = config;
@@ -40,58 +122,131 @@ export class MCPProxyClient {
         capabilities: {},
       },
     );
-    const cleanEnv: Record<string, string> = {};
-    for (const [key, value] of Object.entries({
-      ...process.env,
-      ...(config.env || {}),
-    })) {
-      if (value !== undefined) {
-        cleanEnv[key] = value;
-      }
+    for (const schema of [
+      ToolListChangedNotificationSchema,
+      ResourceListChangedNotificationSchema,
+      PromptListChangedNotificationSchema,
+    ]) {
+      this.client.setNotificationHandler(schema, () =>
+        this.refreshCapabilities(),
+      );
+    }
+    this.client.setNotificationHandler(
+      ResourceUpdatedNotificationSchema,
+      (notification) => {
+        this.onResourceUpdated?.(
+          toExposedResourceUri(this.config, notification.params.uri),
+        );
+      },
+    );
+  }
+
+  /**
+   * Make the server's tools and resources available. With cached
+   * capabilities this returns without waiting for the server: lazy and
+   * on-demand servers start on their first call, eager ones in the
+   * background, and the cached lists stay served if that start fails.
+   */
+  async connect(): Promise<void> {
+    if (this.connected) {
+      return;
     }
 
-    const resolvedArgs = (config.args || []).map((arg) => {
-      if (arg.endsWith(".js") && !arg.startsWith("/")) {
-        const resolved = path.resolve(process.cwd(), arg);
+    if (await this.loadCachedCapabilities()) {
+      this.connected = true;
+      if ((this.config.startPolicy ?? "eager") !== "eager") {
         this.logger.debug(
-          `Resolved external server arg: ${arg} -> ${resolved}`,
+          `Deferred start of ${this.config.name} until its first call`,
         );
-        return resolved;
+        return;
       }
-      return arg;
-    });
 
-    this.transport = new StdioClientTransport({
-      command: config.command,
-      args: resolvedArgs,
-      env: cleanEnv,
-    });
+      this.start().then(
+        () => this.scheduleIdleStop(),
+        (error) => {
+          this.logger.warn(
+            `Failed to start ${this.config.name}; serving its cached capabilities:`,
+            error,
+          );
+        },
+      );
+      return;
+    }
+
+    await this.start();
+    this.connected = true;
+    this.scheduleIdleStop();
   }
 
-  async connect(): Promise<void> {
-    if (this.connected) {
-      return;
+  private start(): Promise<void> {
+    if (!this.starting) {
+      this.starting = this.open().finally(() => {
+        this.starting = undefined;
+      });
     }
+    return this.starting;
+  }
 
+  private async open(): Promise<void> {
+    // A restart waits for an idle stop to release the previous transport
+    await this.stopping;
     try {
-      await this.client.connect(this.transport);
-      this.connected = true;
+      const transport = createClientTransport(this.config, this.logger);
+      await this.client.connect(transport);
+      this.running = true;
+      this.client.onclose = () => {
+        if (this.running) {
+          this.logger.debug(
+            `Connection to ${this.config.name} closed by transport`,
+          );
+          this.onUnexpectedClose();
+        }
+        this.running = false;
+      };
       this.logger.debug(
         `Connected to external MCP server: ${this.config.name}`,
       );
 
+      const wasStale = this.isStale();
       await this.fetchCapabilities();
+      if (wasStale && !this.isStale()) {
+        this.onCapabilitiesChanged?.();
+      }
     } catch (error) {
       this.logger.debug(`Failed to connect to ${this.config.name}:`, error);
       throw error;
     }
   }
 
+  /**
+   * With a cache the lists stay served, marked stale, until a call restarts
+   * the server; without one the server counts as disconnected
+   */
+  private onUnexpectedClose(): void {
+    if (!this.capabilityCache || !this.fetchedAt) {
+      this.connected = false;
+      return;
+    }
+
+    this.staleSince = this.fetchedAt;
+    this.onCapabilitiesChanged?.();
+  }
+
   async disconnect(): Promise<void> {
+    this.clearIdleTimer();
+    this.subscriptions.clear();
+    // Let a background start finish so its connection is closed below
+    await this.starting?.catch(() => undefined);
     if (!this.connected) {
       return;
     }
 
+    this.connected = false;
+    if (!this.running) {
+      return;
+    }
+
+    this.running = false;
     try {
       await this.client.close();
       this.logger.debug(
@@ -99,90 +254,448 @@ export class MCPProxyClient {
       );
     } catch (error) {
       this.logger.debug(`Error disconnecting from ${this.config.name}:`, error);
-    } finally {
-      this.connected = false;
     }
   }
 
+  /**
+   * Fetch each list the server declares a capability for; a list that
+   * fails is left empty without dropping the others
+   */
   private async fetchCapabilities(): Promise<void> {
+    const capabilities = this.client.getServerCapabilities();
+    const tools = await this.listCapability(
+      "tools",
+      capabilities?.tools,
+      async () => (await this.client.listTools()).tools,
+    );
+    const resources = await this.listCapability(
+      "resources",
+      capabilities?.resources,
+      async () => (await this.client.listResources()).resources,
+    );
+    const resourceTemplates = capabilities?.resources
+      ? await this.listResourceTemplates()
+      : [];
+    const prompts = await this.listCapability(
+      "prompts",
+      capabilities?.prompts,
+      async () => (await this.client.listPrompts()).prompts,
+    );
+
+    this.setTools(tools);
+    this.setResources(resources);
+    this.setResourceTemplates(resourceTemplates);
+    this.setPrompts(prompts);
+    this.staleSince = undefined;
+    this.fetchedAt = new Date().toISOString();
+    this.logger.debug(
+      `Loaded ${this.tools.length} tools, ${this.resources.length} resources, ${this.resourceTemplates.length} resource templates and ${this.prompts.length} prompts from ${this.config.name}`,
+    );
+
     try {
-      const toolsResponse = await this.client.listTools();
-      this.tools = toolsResponse.tools.map((tool) => ({
-        ...tool,
-        name: `${this.config.name}__${tool.name}`, // Prefix with server name to avoid conflicts
-      }));
-
-      const resourcesResponse = await this.client.listResources();
-      this.resources = resourcesResponse.resources.map((resource) => ({
-        ...resource,
-        uri: `${this.config.name}://${resource.uri}`, // Prefix URI with server name
-      }));
+      await this.capabilityCache?.set(getCapabilityCacheKey(this.config), {
+        server: this.config.name,
+        tools,
+        resources,
+        resourceTemplates,
+        prompts,
+      });
+    } catch (error) {
+      this.logger.debug(
+        `Error caching capabilities of ${this.config.name}:`,
+        error,
+      );
+    }
+  }
 
+  /**
+   * One capability list; empty when the server does not declare the
+   * capability or listing it fails
+   */
+  private async listCapability<T>(
+    kind: string,
+    declared: unknown,
+    list: () => Promise<T[]>,
+  ): Promise<T[]> {
+    if (!declared) {
+      return [];
+    }
+    try {
+      return await list();
+    } catch (error) {
       this.logger.debug(
-        `Loaded ${this.tools.length} tools and ${this.resources.length} resources from ${this.config.name}`,
+        `Error fetching ${kind} from ${this.config.name}:`,
+        error,
       );
+      return [];
+    }
+  }
+
+  /**
+   * Resource templates; servers may list resources without supporting
+   * templates
+   */
+  private async listResourceTemplates(): Promise<ResourceTemplate[]> {
+    try {
+      return (await this.client.listResourceTemplates()).resourceTemplates;
     } catch (error) {
       this.logger.debug(
-        `Error fetching capabilities from ${this.config.name}:`,
+        `No resource templates from ${this.config.name}:`,
         error,
       );
+      return [];
     }
   }
 
+  /**
+   * The server reported a list_changed notification: drop the cached entry
+   * and ask again
+   */
+  private async refreshCapabilities(): Promise<void> {
+    this.logger.debug(`Capabilities of ${this.config.name} changed`);
+    await this.capabilityCache?.delete(getCapabilityCacheKey(this.config));
+    await this.fetchCapabilities();
+    this.onCapabilitiesChanged?.();
+  }
+
+  /**
+   * Serve the capabilities saved on the last start; false when none are
+   */
+  private async loadCachedCapabilities(): Promise<boolean> {
+    const cached = await this.capabilityCache?.get(
+      getCapabilityCacheKey(this.config),
+    );
+    if (!cached) {
+      return false;
+    }
+
+    this.setTools(cached.tools);
+    this.setResources(cached.resources);
+    this.setResourceTemplates(cached.resourceTemplates);
+    this.setPrompts(cached.prompts);
+    this.staleSince = cached.savedAt;
+    this.logger.debug(
+      `Loaded ${this.tools.length} cached tools, ${this.resources.length} cached resources, ${this.resourceTemplates.length} cached resource templates and ${this.prompts.length} cached prompts of ${this.config.name} (saved ${cached.savedAt})`,
+    );
+    return true;
+  }
+
+  private setTools(tools: Tool[]): void {
+    this.toolNames.clear();
+    this.tools = tools.map((tool) => {
+      const exposedName = toExposedToolName(this.config, tool.name);
+      this.toolNames.set(exposedName, tool.name);
+      return { ...tool, name: exposedName };
+    });
+  }
+
+  private setResources(resources: Resource[]): void {
+    this.resourceUris.clear();
+    this.resources = resources.map((resource) => {
+      const exposedUri = toExposedResourceUri(this.config, resource.uri);
+      this.resourceUris.set(exposedUri, resource.uri);
+      return { ...resource, uri: exposedUri };
+    });
+  }
+
+  private setResourceTemplates(resourceTemplates: ResourceTemplate[]): void {
+    this.resourceTemplateUris.clear();
+    this.resourceTemplates = resourceTemplates.map((template) => {
+      const exposedUri = toExposedResourceUri(
+        this.config,
+        template.uriTemplate,
+      );
+      this.resourceTemplateUris.set(exposedUri, template.uriTemplate);
+      return { ...template, uriTemplate: exposedUri };
+    });
+  }
+
+  private setPrompts(prompts: Prompt[]): void {
+    this.promptNames.clear();
+    this.prompts = prompts.map((prompt) => {
+      const exposedName = toExposedPromptName(this.config, prompt.name);
+      this.promptNames.set(exposedName, prompt.name);
+      return { ...prompt, name: exposedName };
+    });
+  }
+
+  /**
+   * Tools of the server; while they are stale their annotations carry
+   * `stale: true` and `cachedAt`, the time the server reported them
+   */
   getTools(): Tool[] {
-    return this.tools;
+    if (!this.staleSince) {
+      return this.tools;
+    }
+
+    const cachedAt = this.staleSince;
+    return this.tools.map((tool) => ({
+      ...tool,
+      annotations: { ...tool.annotations, stale: true, cachedAt },
+    }));
   }
 
   getResources(): Resource[] {
     return this.resources;
   }
 
+  getResourceTemplates(): ResourceTemplate[] {
+    return this.resourceTemplates;
+  }
+
+  getPrompts(): Prompt[] {
+    return this.prompts;
+  }
+
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+  ): Promise<GetPromptResult> {
+    const originalName =
+      this.promptNames.get(name) ?? toUpstreamPromptName(this.config, name);
+
+    return this.withServer(async () => {
+      try {
+        return await this.client.getPrompt({
+          name: originalName,
+          arguments: args,
+        });
+      } catch (error) {
+        this.logger.debug(
+          `Error getting prompt ${originalName} from ${this.config.name}:`,
+          error,
+        );
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Complete a prompt or resource template argument; servers without
+   * completion support offer no values
+   */
+  async complete(params: CompleteRequest["params"]): Promise<CompleteResult> {
+    const ref =
+      params.ref.type === "ref/prompt"
+        ? {
+            ...params.ref,
+            name:
+              this.promptNames.get(params.ref.name) ??
+              toUpstreamPromptName(this.config, params.ref.name),
+          }
+        : {
+            ...params.ref,
+            uri:
+              this.resourceTemplateUris.get(params.ref.uri) ??
+              toUpstreamResourceUri(this.config, params.ref.uri),
+          };
+
+    return this.withServer(async () => {
+      if (!this.client.getServerCapabilities()?.completions) {
+        return { completion: { values: [] } };
+      }
+      return this.client.complete({ ...params, ref });
+    });
+  }
+
   async callTool(name: string, args: unknown): Promise<CallToolResult> {
+    const originalName =
+      this.toolNames.get(name) ?? toUpstreamToolName(this.config, name);
+
+    return this.withServer(async () => {
+      try {
+        const result = await this.client.callTool({
+          name: originalName,
+          arguments: args as { [x: string]: unknown },
+        });
+        return result as CallToolResult;
+      } catch (error) {
+        this.logger.debug(
+          `Error calling tool ${originalName} on ${this.config.name}:`,
+          error,
+        );
+        throw error;
+      }
+    });
+  }
+
+  async readResource(uri: string): Promise<ReadResourceResult> {
+    const originalUri = this.getUpstreamUri(uri);
+
+    return this.withServer(async () => {
+      try {
+        const result = await this.client.readResource({ uri: originalUri });
+        return result;
+      } catch (error) {
+        this.logger.debug(
+          `Error reading resource ${originalUri} from ${this.config.name}:`,
+          error,
+        );
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Subscribe to updates of a resource; returns false when the upstream
+   * server does not support subscriptions
+   */
+  async subscribeResource(uri: string): Promise<boolean> {
+    return this.withServer(async () => {
+      if (!this.client.getServerCapabilities()?.resources?.subscribe) {
+        return false;
+      }
+
+      const originalUri = this.getUpstreamUri(uri);
+      await this.client.subscribeResource({ uri: originalUri });
+      this.subscriptions.add(originalUri);
+      return true;
+    });
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    const originalUri = this.getUpstreamUri(uri);
+    if (
+      !this.subscriptions.delete(originalUri) ||
+      !this.running ||
+      !this.client.getServerCapabilities()?.resources?.subscribe
+    ) {
+      return;
+    }
+
+    await this.client.unsubscribeResource({ uri: originalUri });
+    this.scheduleIdleStop();
+  }
+
+  /**
+   * Whether calls will be served; a lazy or idle server is started by its
+   * next call
+   */
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Whether the lists served have not been confirmed by the running server
+   */
+  isStale(): boolean {
+    return this.staleSince !== undefined;
+  }
+
+  /**
+   * Whether the server itself is running
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * Change how long the server may stay idle; a running idle timer is
+   * restarted with the new value
+   */
+  setIdleTimeoutMs(idleTimeoutMs: number | undefined): void {
+    this.config = { ...this.config, idleTimeoutMs };
+    this.clearIdleTimer();
+    this.scheduleIdleStop();
+  }
+
+  /**
+   * Run an operation against the server, starting it first if it is not
+   * running
+   */
+  private async withServer<T>(operation: () => Promise<T>): Promise<T> {
     if (!this.connected) {
       throw new Error(`Not connected to ${this.config.name}`);
     }
 
-    const originalName = name.replace(`${this.config.name}__`, "");
-
+    this.activeCalls++;
+    this.clearIdleTimer();
     try {
-      const result = await this.client.callTool({
-        name: originalName,
-        arguments: args as { [x: string]: unknown },
-      });
-      return result as CallToolResult;
-    } catch (error) {
-      this.logger.debug(
-        `Error calling tool ${originalName} on ${this.config.name}:`,
-        error,
-      );
-      throw error;
+      if (!this.running) {
+        this.logger.debug(`Starting ${this.config.name} for a call`);
+        await this.start();
+      }
+      return await operation();
+    } finally {
+      this.activeCalls--;
+      this.scheduleIdleStop();
     }
   }
 
-  async readResource(uri: string): Promise<ReadResourceResult> {
-    if (!this.connected) {
-      throw new Error(`Not connected to ${this.config.name}`);
+  /**
+   * How long a server may stay idle before its process is stopped; only
+   * stdio servers own a process worth stopping
+   */
+  private getIdleTimeoutMs(): number | undefined {
+    if (this.getTransportType() !== "stdio") {
+      return undefined;
+    }
+    if (this.config.startPolicy === "on-demand") {
+      return 0;
+    }
+    return this.config.idleTimeoutMs || undefined;
+  }
+
+  private scheduleIdleStop(): void {
+    const idleTimeoutMs = this.getIdleTimeoutMs();
+    if (
+      idleTimeoutMs === undefined ||
+      !this.running ||
+      this.activeCalls > 0 ||
+      this.subscriptions.size > 0
+    ) {
+      return;
     }
 
-    const originalUri = uri.replace(`${this.config.name}://`, "");
+    this.clearIdleTimer();
+    this.idleTimer = setTimeout(() => {
+      this.idleTimer = undefined;
+      void this.stopIdle(idleTimeoutMs);
+    }, idleTimeoutMs);
+    this.idleTimer.unref();
+  }
 
-    try {
-      const result = await this.client.readResource({ uri: originalUri });
-      return result;
-    } catch (error) {
-      this.logger.debug(
-        `Error reading resource ${originalUri} from ${this.config.name}:`,
-        error,
-      );
-      throw error;
+  private clearIdleTimer(): void {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = undefined;
     }
   }
 
-  isConnected(): boolean {
-    return this.connected;
+  /**
+   * Stop the process but keep advertising its capabilities
+   */
+  private async stopIdle(idleTimeoutMs: number): Promise<void> {
+    if (!this.running || this.activeCalls > 0 || this.starting) {
+      return;
+    }
+
+    this.logger.debug(
+      `Stopping ${this.config.name} after ${idleTimeoutMs}ms without calls`,
+    );
+    this.running = false;
+    this.stopping = this.client
+      .close()
+      .catch((error) => {
+        this.logger.debug(`Error stopping ${this.config.name}:`, error);
+      })
+      .finally(() => {
+        this.stopping = undefined;
+      });
+    await this.stopping;
+  }
+
+  private getUpstreamUri(uri: string): string {
+    return (
+      this.resourceUris.get(uri) ?? toUpstreamResourceUri(this.config, uri)
+    );
   }
 
   getServerName(): string {
     return this.config.name;
   }
+
+  getTransportType(): ExternalServerTransport {
+    return getTransportType(this.config);
+  }
 }
@@ -17,10 +17,18 @@ import {
   LoadBalancingStrategy,
   FailoverStrategy,
 } from "./resilience-manager.js";
-import { ExternalServerConfig } from "./client.js";
-import { ResilienceConfig, HealthCheckStrategy } from "./resilience.js";
+import { ExternalServerConfig, MCPProxyClient } from "./client.js";
+import type { CapabilityCache } from "./capability-cache.js";
+import {
+  ResilienceConfig,
+  HealthCheckStrategy,
+  ConnectionState,
+  DeepPartial,
+  mergeConfig,
+} from "./resilience.js";
 import { YamlConfigManager } from "../config/yaml-config.js";
 import { ILogger, SilentLogger } from "../utils/logger.js";
+import type { MonitoringServerConfig } from "../monitoring/monitoring-server.js";
 import {
   CallToolResult,
   ReadResourceResult,
@@ -29,9 +37,9 @@ import {
 export interface EnhancedManagerConfig {
   enableLegacyMode: boolean;
 
-  resilience: Partial<SystemResilienceConfig>;
+  resilience: DeepPartial<SystemResilienceConfig>;
 
-  serverDefaults: Partial<ResilienceConfig>;
+  serverDefaults: DeepPartial<ResilienceConfig>;
 
   features: {
     loadBalancing: boolean;
@@ -49,6 +57,71 @@ export interface EnhancedManagerConfig {
   };
 }
 
+/**
+ * The `externalServers.resilience` section of omni-config.yaml: system
+ * settings at the top level, next to the manager's own options
+ */
+export interface ResilienceSettings
+  extends DeepPartial<SystemResilienceConfig> {
+  /** Use the enhanced manager; on when the section is present */
+  enabled?: boolean;
+  enableLegacyMode?: boolean;
+  serverDefaults?: DeepPartial<ResilienceConfig>;
+  features?: Partial<EnhancedManagerConfig["features"]>;
+  migration?: Partial<EnhancedManagerConfig["migration"]>;
+  /** Serve the monitoring endpoints, with these insights under /stats */
+  statsServer?: {
+    port?: number;
+    /** Defaults to 127.0.0.1; other hosts need an authToken */
+    host?: string;
+    authToken?: string;
+  };
+}
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+/**
+ * Monitoring server options for the `statsServer` settings: bound to the
+ * loopback interface unless a host is given, and only with an auth token
+ * when that host is reachable from other machines
+ */
+export function toStatsServerConfig(
+  settings: NonNullable<ResilienceSettings["statsServer"]>,
+): Partial<MonitoringServerConfig> {
+  const config = { ...settings, host: settings.host ?? "127.0.0.1" };
+  if (!LOOPBACK_HOSTS.has(config.host) && !config.authToken) {
+    throw new Error(
+      `statsServer.authToken is required to serve stats on ${config.host}`,
+    );
+  }
+  return config;
+}
+
+/**
+ * Whether omni-config.yaml asks for the enhanced manager
+ */
+export function isResilienceEnabled(settings?: ResilienceSettings): boolean {
+  return settings !== undefined && settings.enabled !== false;
+}
+
+/**
+ * Map the YAML section onto the manager configuration
+ */
+export function toEnhancedManagerConfig(
+  settings: ResilienceSettings,
+): DeepPartial<EnhancedManagerConfig> {
+  const {
+    enabled: _enabled,
+    statsServer: _statsServer,
+    enableLegacyMode,
+    serverDefaults,
+    features,
+    migration,
+    ...resilience
+  } = settings;
+  return { enableLegacyMode, resilience, serverDefaults, features, migration };
+}
+
 const DEFAULT_ENHANCED_CONFIG: EnhancedManagerConfig = {
   enableLegacyMode: false,
 
@@ -117,16 +190,17 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
 
   private legacyServers = new Set<string>();
   private enhancedServers = new Set<string>();
+  private enhancedConfigs = new Map<string, ExternalServerConfig>();
   private migrationDecision = new Map<string, boolean>(); // true = enhanced, false = legacy
 
   constructor(
     yamlConfigManager?: YamlConfigManager,
     logger?: ILogger,
-    config: Partial<EnhancedManagerConfig> = {},
+    config: DeepPartial<EnhancedManagerConfig> = {},
   ) {
     super(yamlConfigManager, logger);
     this.enhancedLogger = logger || new SilentLogger();
-    this.config = { ...DEFAULT_ENHANCED_CONFIG, ...config };
+    this.config = mergeConfig(DEFAULT_ENHANCED_CONFIG, config);
 
     this.resilienceManager = new ResilienceManager(
       this.config.resilience,
@@ -151,13 +225,33 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
 
     this.resilienceManager.on("serverAdded", (serverName) => {
       this.enhancedServers.add(serverName);
+      this.updateAggregatedCapabilities();
       this.emit("serverAdded", serverName);
     });
 
     this.resilienceManager.on("serverRemoved", (serverName) => {
       this.enhancedServers.delete(serverName);
+      this.updateAggregatedCapabilities();
       this.emit("serverRemoved", serverName);
     });
+
+    // Capabilities come from a connected replica; re-aggregate when one
+    // connects or drops
+    this.resilienceManager.on(
+      "connectionStateChange",
+      (_replica, newState: ConnectionState, oldState: ConnectionState) => {
+        if (
+          newState === ConnectionState.CONNECTED ||
+          oldState === ConnectionState.CONNECTED
+        ) {
+          this.updateAggregatedCapabilities();
+        }
+      },
+    );
+    // ...or when a replica reports new lists
+    this.resilienceManager.on("capabilitiesChanged", () => {
+      this.updateAggregatedCapabilities();
+    });
   }
 
   /**
@@ -181,8 +275,9 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
     try {
       await this.resilienceManager.addServer(
         config,
-        this.config.serverDefaults,
+        mergeConfig(this.config.serverDefaults, config.resilience),
       );
+      this.enhancedConfigs.set(config.name, config);
       this.migrationDecision.set(config.name, true);
       this.enhancedLogger.info(
         `[ENHANCED-MGR] Enhanced server added successfully: ${config.name}`,
@@ -239,6 +334,7 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
       );
       await this.resilienceManager.removeServer(name);
       this.enhancedServers.delete(name);
+      this.enhancedConfigs.delete(name);
     } else {
       this.enhancedLogger.info(
         `[ENHANCED-MGR] Removing legacy server: ${name}`,
@@ -253,8 +349,13 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
 
   /**
    * Enhanced tool calling with resilience
+   * @param sessionId Session to keep on the same replica of the server
    */
-  async callTool(toolName: string, args: unknown): Promise<CallToolResult> {
+  async callTool(
+    toolName: string,
+    args: unknown,
+    sessionId?: string,
+  ): Promise<CallToolResult> {
     const serverName = this.findToolServer(toolName);
 
     if (!serverName) {
@@ -271,6 +372,7 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
         toolName,
         args,
         serverName,
+        sessionId,
       )) as CallToolResult;
     } else {
       this.enhancedLogger.debug(
@@ -283,7 +385,10 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
   /**
    * Enhanced resource reading with resilience
    */
-  async readResource(uri: string): Promise<ReadResourceResult> {
+  async readResource(
+    uri: string,
+    sessionId?: string,
+  ): Promise<ReadResourceResult> {
     const serverName = this.findResourceServer(uri);
 
     if (!serverName) {
@@ -299,6 +404,7 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
       return (await this.resilienceManager.readResource(
         uri,
         serverName,
+        sessionId,
       )) as ReadResourceResult;
     } else {
       this.enhancedLogger.debug(
@@ -316,11 +422,13 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
     const enhancedHealth = new Map<string, boolean>();
 
     if (this.config.features.healthChecking) {
+      // A server with replicas is healthy while any replica is
       const serverStats = this.resilienceManager.getServerStats();
       for (const stats of serverStats) {
         enhancedHealth.set(
           stats.serverName,
-          stats.healthCheckStatus === "healthy",
+          enhancedHealth.get(stats.serverName) === true ||
+            stats.healthCheckStatus === "healthy",
         );
       }
     }
@@ -384,7 +492,9 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
     if (serverName) {
       const isEnhanced = this.migrationDecision.get(serverName);
       if (isEnhanced) {
-        return this.resilienceManager.getServerStats(serverName)[0] || null;
+        // One entry per replica for servers declared with replicas
+        const stats = this.resilienceManager.getServerStats(serverName);
+        return stats.length > 1 ? stats : stats[0] || null;
       }
     }
 
@@ -488,11 +598,23 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
     }
   }
 
+  /**
+   * Release the replicas a closed session was pinned to
+   */
+  releaseSession(sessionId: string): void {
+    this.resilienceManager.releaseSession(sessionId);
+  }
+
+  setCapabilityCache(cache?: CapabilityCache): void {
+    super.setCapabilityCache(cache);
+    this.resilienceManager.setCapabilityCache(cache);
+  }
+
   /**
    * Update configuration
    */
-  updateConfig(newConfig: Partial<EnhancedManagerConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+  updateConfig(newConfig: DeepPartial<EnhancedManagerConfig>): void {
+    this.config = mergeConfig(this.config, newConfig);
 
     if (newConfig.resilience) {
       this.resilienceManager.updateConfig(newConfig.resilience);
@@ -526,29 +648,49 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
   }
 
   private findToolServer(toolName: string): string | null {
-    const aggregatedTools = this.getAggregatedTools();
-    const tool = aggregatedTools.find((t) => t.name === toolName);
-
-    if (tool && typeof tool === "object" && "serverName" in tool) {
-      return (tool as unknown as { serverName: string }).serverName;
-    }
-
-    return null;
+    return this.getToolServer(toolName) ?? null;
   }
 
   private findResourceServer(uri: string): string | null {
-    const aggregatedResources = this.getAggregatedResources();
-    const resource = aggregatedResources.find((r) => r.uri === uri);
+    return this.getResourceServer(uri) ?? null;
+  }
+
+  private getServerInfo(serverName: string): ExternalServerConfig | null {
+    return (
+      this.enhancedConfigs.get(serverName) ??
+      this.getServerConfig(serverName) ??
+      null
+    );
+  }
 
-    if (resource && typeof resource === "object" && "serverName" in resource) {
-      return (resource as unknown as { serverName: string }).serverName;
+  /**
+   * Legacy clients plus a connected replica of each enhanced server
+   */
+  protected getCapabilityClients(): Map<string, MCPProxyClient> {
+    const clients = new Map(super.getCapabilityClients());
+    for (const [name, client] of this.resilienceManager.getClients()) {
+      clients.set(name, client);
     }
+    return clients;
+  }
 
-    return null;
+  protected getRunningServerConfigs(): ExternalServerConfig[] {
+    return [
+      ...super.getRunningServerConfigs(),
+      ...this.enhancedConfigs.values(),
+    ];
   }
 
-  private getServerInfo(_serverName: string): ExternalServerConfig | null {
-    return null;
+  /**
+   * Stop legacy and enhanced servers
+   */
+  async disconnectAll(): Promise<void> {
+    await Promise.all(
+      Array.from(this.enhancedConfigs.keys()).map((name) =>
+        this.removeServer(name),
+      ),
+    );
+    await super.disconnectAll();
   }
 
   /**
@@ -560,10 +702,7 @@ export class EnhancedMCPProxyManager extends MCPProxyManager {
     await this.resilienceManager.shutdown();
 
     try {
-      const baseManager = this as MCPProxyManager & { cleanup?: () => void };
-      if (typeof baseManager.cleanup === "function") {
-        baseManager.cleanup();
-      }
+      await super.disconnectAll();
     } catch (error) {
       this.enhancedLogger.warn("[ENHANCED-MGR] Legacy cleanup error:", error);
     }
@@ -1,11 +1,23 @@
 import { MCPProxyClient, ExternalServerConfig } from "./client.js";
+import { CapabilityCollision, matchesUriTemplate } from "./namespacing.js";
+import { expandReplicas } from "./replicas.js";
+import type { CapabilityCache } from "./capability-cache.js";
 import {
   Tool,
   Resource,
+  ResourceTemplate,
+  Prompt,
   CallToolResult,
   ReadResourceResult,
+  GetPromptResult,
+  CompleteRequest,
+  CompleteResult,
 } from "@modelcontextprotocol/sdk/types.js";
 import { YamlConfigManager } from "../config/yaml-config.js";
+import {
+  ExternalServerChange,
+  diffExternalServers,
+} from "../validation/schema-validator.js";
 import { ILogger, SilentLogger } from "../utils/logger.js";
 import { ErrorHandler } from "../utils/error-handler.js";
 import { EventEmitter } from "events";
@@ -14,16 +26,29 @@ import { promisify } from "util";
 
 export class MCPProxyManager extends EventEmitter {
   private clients: Map<string, MCPProxyClient> = new Map();
+  private serverConfigs: Map<string, ExternalServerConfig> = new Map();
   private aggregatedTools: Map<string, { client: MCPProxyClient; tool: Tool }> =
     new Map();
   private aggregatedResources: Map<
     string,
     { client: MCPProxyClient; resource: Resource }
   > = new Map();
+  private aggregatedResourceTemplates: Map<
+    string,
+    { client: MCPProxyClient; template: ResourceTemplate }
+  > = new Map();
+  private aggregatedPrompts: Map<
+    string,
+    { client: MCPProxyClient; prompt: Prompt }
+  > = new Map();
+  private collisions: CapabilityCollision[] = [];
   private yamlConfigManager?: YamlConfigManager;
   private logger: ILogger;
   private errorHandler: ErrorHandler;
   private healthCheckInterval?: NodeJS.Timeout;
+  /** Proxied resources clients are subscribed to, kept across reconnects */
+  private subscribedResources: Set<string> = new Set();
+  protected capabilityCache?: CapabilityCache;
 
   constructor(yamlConfigManager?: YamlConfigManager, logger?: ILogger) {
     super();
@@ -32,6 +57,14 @@ export class MCPProxyManager extends EventEmitter {
     this.errorHandler = ErrorHandler.getInstance(this.logger);
   }
 
+  /**
+   * Cache that lazy servers advertise their capabilities from; applies to
+   * servers added afterwards
+   */
+  setCapabilityCache(cache?: CapabilityCache): void {
+    this.capabilityCache = cache;
+  }
+
   async addServer(config: ExternalServerConfig): Promise<void> {
     this.logger.info(`[PROXY-MGR] Adding server: ${config.name}`);
 
@@ -43,7 +76,15 @@ export class MCPProxyManager extends EventEmitter {
     await this.ensureServerDependencies(config);
 
     this.logger.info(`[PROXY-MGR] Creating MCPProxyClient for ${config.name}`);
-    const client = new MCPProxyClient(config, this.logger);
+    // Without the resilience layer only the first replica is used
+    const replicas = expandReplicas(config);
+    if (replicas.length > 1) {
+      this.logger.warn(
+        `[PROXY-MGR] ${config.name} has ${replicas.length} replicas but only ${replicas[0].id} is used; enable externalServers.resilience to balance between them`,
+      );
+    }
+    const client = new MCPProxyClient(replicas[0].config, this.logger);
+    client.capabilityCache = this.capabilityCache;
 
     try {
       this.logger.info(`[PROXY-MGR] Connecting client for ${config.name}...`);
@@ -51,11 +92,15 @@ export class MCPProxyManager extends EventEmitter {
       this.logger.info(`[PROXY-MGR] Client connected for ${config.name}`);
 
       this.clients.set(config.name, client);
+      this.serverConfigs.set(config.name, config);
       this.logger.info(`[PROXY-MGR] Client stored for ${config.name}`);
+      client.onResourceUpdated = (uri) => this.emit("resourceUpdated", uri);
+      client.onCapabilitiesChanged = () => this.updateAggregatedCapabilities();
 
       this.logger.info(`[PROXY-MGR] Updating aggregated capabilities...`);
       this.updateAggregatedCapabilities();
       this.logger.info(`[PROXY-MGR] Aggregated capabilities updated`);
+      await this.resubscribe(config.name);
 
       this.logger.info(
         `[PROXY-MGR] Successfully added MCP server: ${config.name}`,
@@ -78,6 +123,7 @@ export class MCPProxyManager extends EventEmitter {
 
     await client.disconnect();
     this.clients.delete(name);
+    this.serverConfigs.delete(name);
 
     this.updateAggregatedCapabilities();
 
@@ -135,16 +181,59 @@ export class MCPProxyManager extends EventEmitter {
     }
   }
 
-  private updateAggregatedCapabilities(): void {
+  /**
+   * Connected clients whose tools and resources are aggregated, by server
+   */
+  protected getCapabilityClients(): Map<string, MCPProxyClient> {
+    return this.clients;
+  }
+
+  /**
+   * Configurations of the servers currently running, compared on reload
+   */
+  protected getRunningServerConfigs(): ExternalServerConfig[] {
+    return Array.from(this.serverConfigs.values());
+  }
+
+  /**
+   * Configuration a running server was started with
+   */
+  protected getServerConfig(name: string): ExternalServerConfig | undefined {
+    return this.serverConfigs.get(name);
+  }
+
+  protected updateAggregatedCapabilities(): void {
     this.logger.info(`[PROXY-MGR] Starting capability aggregation...`);
 
     this.aggregatedTools.clear();
     this.aggregatedResources.clear();
+    this.aggregatedResourceTemplates.clear();
+    this.aggregatedPrompts.clear();
     this.logger.info(`[PROXY-MGR] Cleared existing aggregations`);
 
-    this.logger.info(`[PROXY-MGR] Processing ${this.clients.size} clients`);
+    const collisions = new Map<string, CapabilityCollision>();
+    const recordCollision = (
+      kind: CapabilityCollision["kind"],
+      name: string,
+      owner: string,
+      shadowed: string,
+    ): void => {
+      const key = `${kind}:${name}`;
+      const existing = collisions.get(key);
+      if (existing) {
+        existing.shadowed.push(shadowed);
+      } else {
+        collisions.set(key, { kind, name, owner, shadowed: [shadowed] });
+      }
+      this.logger.warn(
+        `[PROXY-MGR] ${kind} '${name}' from ${shadowed} collides with ${owner}; keeping ${owner}`,
+      );
+    };
 
-    for (const [serverName, client] of this.clients) {
+    const clients = this.getCapabilityClients();
+    this.logger.info(`[PROXY-MGR] Processing ${clients.size} clients`);
+
+    for (const [serverName, client] of clients) {
       this.logger.info(`[PROXY-MGR] Processing server: ${serverName}`);
       this.logger.info(
         `[PROXY-MGR] Server ${serverName} connected: ${client.isConnected()}`,
@@ -163,6 +252,16 @@ export class MCPProxyManager extends EventEmitter {
       );
 
       for (const tool of tools) {
+        const existing = this.aggregatedTools.get(tool.name);
+        if (existing) {
+          recordCollision(
+            "tool",
+            tool.name,
+            existing.client.getServerName(),
+            serverName,
+          );
+          continue;
+        }
         this.logger.info(
           `[PROXY-MGR] Adding tool: ${tool.name} from ${serverName}`,
         );
@@ -175,15 +274,60 @@ export class MCPProxyManager extends EventEmitter {
       );
 
       for (const resource of resources) {
+        const existing = this.aggregatedResources.get(resource.uri);
+        if (existing) {
+          recordCollision(
+            "resource",
+            resource.uri,
+            existing.client.getServerName(),
+            serverName,
+          );
+          continue;
+        }
         this.logger.info(
           `[PROXY-MGR] Adding resource: ${resource.uri} from ${serverName}`,
         );
         this.aggregatedResources.set(resource.uri, { client, resource });
       }
+
+      for (const template of client.getResourceTemplates()) {
+        const existing = this.aggregatedResourceTemplates.get(
+          template.uriTemplate,
+        );
+        if (existing) {
+          recordCollision(
+            "resourceTemplate",
+            template.uriTemplate,
+            existing.client.getServerName(),
+            serverName,
+          );
+          continue;
+        }
+        this.aggregatedResourceTemplates.set(template.uriTemplate, {
+          client,
+          template,
+        });
+      }
+
+      for (const prompt of client.getPrompts()) {
+        const existing = this.aggregatedPrompts.get(prompt.name);
+        if (existing) {
+          recordCollision(
+            "prompt",
+            prompt.name,
+            existing.client.getServerName(),
+            serverName,
+          );
+          continue;
+        }
+        this.aggregatedPrompts.set(prompt.name, { client, prompt });
+      }
     }
 
+    this.collisions = Array.from(collisions.values());
+
     this.logger.info(
-      `[PROXY-MGR] Aggregated ${this.aggregatedTools.size} tools and ${this.aggregatedResources.size} resources from ${this.clients.size} servers`,
+      `[PROXY-MGR] Aggregated ${this.aggregatedTools.size} tools and ${this.aggregatedResources.size} resources from ${clients.size} servers`,
     );
 
     this.logger.info(`[PROXY-MGR] Final aggregated tools:`);
@@ -191,10 +335,19 @@ export class MCPProxyManager extends EventEmitter {
       this.logger.info(`[PROXY-MGR] - ${name}: ${entry.tool.description}`);
     }
 
-    this.emit("toolsChanged");
+    this.emit("toolsChanged", { collisions: this.collisions });
+    this.emit("promptsChanged");
     this.logger.info(`[PROXY-MGR] Emitted toolsChanged event`);
   }
 
+  /**
+   * Name/URI collisions detected during the last aggregation.
+   * The first registered server keeps the name; later ones are shadowed.
+   */
+  getCollisions(): CapabilityCollision[] {
+    return this.collisions;
+  }
+
   getAggregatedTools(): Tool[] {
     return Array.from(this.aggregatedTools.values()).map((entry) => entry.tool);
   }
@@ -205,7 +358,74 @@ export class MCPProxyManager extends EventEmitter {
     );
   }
 
-  async callTool(name: string, args: unknown): Promise<CallToolResult> {
+  getAggregatedResourceTemplates(): ResourceTemplate[] {
+    return Array.from(this.aggregatedResourceTemplates.values()).map(
+      (entry) => entry.template,
+    );
+  }
+
+  getAggregatedPrompts(): Prompt[] {
+    return Array.from(this.aggregatedPrompts.values()).map(
+      (entry) => entry.prompt,
+    );
+  }
+
+  /**
+   * Name of the external server that provides a proxied tool
+   */
+  getToolServer(name: string): string | undefined {
+    return this.aggregatedTools.get(name)?.client.getServerName();
+  }
+
+  /**
+   * Name of the external server that provides a proxied resource
+   */
+  getResourceServer(uri: string): string | undefined {
+    return this.findResourceClient(uri)?.getServerName();
+  }
+
+  /**
+   * Name of the external server that provides a proxied resource template
+   */
+  getResourceTemplateServer(uriTemplate: string): string | undefined {
+    return this.aggregatedResourceTemplates
+      .get(uriTemplate)
+      ?.client.getServerName();
+  }
+
+  /**
+   * Name of the external server that provides a proxied prompt
+   */
+  getPromptServer(name: string): string | undefined {
+    return this.aggregatedPrompts.get(name)?.client.getServerName();
+  }
+
+  /**
+   * Client serving a URI: a listed resource, or one matching a server's
+   * resource template
+   */
+  private findResourceClient(uri: string): MCPProxyClient | undefined {
+    const entry = this.aggregatedResources.get(uri);
+    if (entry) {
+      return entry.client;
+    }
+    for (const [uriTemplate, { client }] of this.aggregatedResourceTemplates) {
+      if (matchesUriTemplate(uriTemplate, uri)) {
+        return client;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Call a proxied tool; `_sessionId` lets resilient subclasses keep a
+   * session on one replica
+   */
+  async callTool(
+    name: string,
+    args: unknown,
+    _sessionId?: string,
+  ): Promise<CallToolResult> {
     const entry = this.aggregatedTools.get(name);
     if (!entry) {
       throw new Error(`Tool ${name} not found in any connected MCP server`);
@@ -222,25 +442,100 @@ export class MCPProxyManager extends EventEmitter {
     );
   }
 
-  async readResource(uri: string): Promise<ReadResourceResult> {
-    const entry = this.aggregatedResources.get(uri);
-    if (!entry) {
+  async readResource(
+    uri: string,
+    _sessionId?: string,
+  ): Promise<ReadResourceResult> {
+    const client = this.findResourceClient(uri);
+    if (!client) {
       throw new Error(`Resource ${uri} not found in any connected MCP server`);
     }
 
+    return this.errorHandler.withErrorHandling(() => client.readResource(uri), {
+      operation: "external_resource_read",
+      resourceUri: uri,
+      serverName: client.getServerName(),
+    });
+  }
+
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+  ): Promise<GetPromptResult> {
+    const entry = this.aggregatedPrompts.get(name);
+    if (!entry) {
+      throw new Error(`Prompt ${name} not found in any connected MCP server`);
+    }
+
     return this.errorHandler.withErrorHandling(
-      () => entry.client.readResource(uri),
+      () => entry.client.getPrompt(name, args),
       {
-        operation: "external_resource_read",
-        resourceUri: uri,
+        operation: "external_prompt_get",
+        promptName: name,
         serverName: entry.client.getServerName(),
       },
     );
   }
 
+  /**
+   * Forward a completion request to the server providing the referenced
+   * prompt or resource template; unknown references complete to nothing
+   */
+  async complete(params: CompleteRequest["params"]): Promise<CompleteResult> {
+    const client =
+      params.ref.type === "ref/prompt"
+        ? this.aggregatedPrompts.get(params.ref.name)?.client
+        : this.aggregatedResourceTemplates.get(params.ref.uri)?.client;
+    if (!client) {
+      return { completion: { values: [] } };
+    }
+
+    return client.complete(params);
+  }
+
+  /**
+   * Forward a resource subscription to the server providing the resource.
+   * Returns false when that server does not support subscriptions.
+   */
+  async subscribeResource(uri: string): Promise<boolean> {
+    const client = this.findResourceClient(uri);
+    if (!client) {
+      throw new Error(`Resource ${uri} not found in any connected MCP server`);
+    }
+
+    this.subscribedResources.add(uri);
+    return client.subscribeResource(uri);
+  }
+
+  async unsubscribeResource(uri: string): Promise<void> {
+    this.subscribedResources.delete(uri);
+    await this.findResourceClient(uri)?.unsubscribeResource(uri);
+  }
+
+  /**
+   * Restore subscriptions on a server that was (re)started
+   */
+  private async resubscribe(serverName: string): Promise<void> {
+    for (const uri of this.subscribedResources) {
+      const client = this.findResourceClient(uri);
+      if (!client || client.getServerName() !== serverName) {
+        continue;
+      }
+      try {
+        await client.subscribeResource(uri);
+      } catch (error) {
+        this.logger.debug(
+          `[PROXY-MGR] Failed to resubscribe to ${uri} on ${serverName}:`,
+          error,
+        );
+      }
+    }
+  }
+
   getConnectedServers(): string[] {
-    return Array.from(this.clients.keys()).filter((name) => {
-      const client = this.clients.get(name);
+    const clients = this.getCapabilityClients();
+    return Array.from(clients.keys()).filter((name) => {
+      const client = clients.get(name);
       return client && client.isConnected();
     });
   }
@@ -252,8 +547,12 @@ export class MCPProxyManager extends EventEmitter {
 
     await Promise.all(disconnectPromises);
     this.clients.clear();
+    this.serverConfigs.clear();
     this.aggregatedTools.clear();
     this.aggregatedResources.clear();
+    this.aggregatedResourceTemplates.clear();
+    this.aggregatedPrompts.clear();
+    this.collisions = [];
 
     this.logger.debug("Disconnected from all MCP servers");
   }
@@ -341,7 +640,13 @@ export class MCPProxyManager extends EventEmitter {
         `[PROXY-MGR] Found ${externalServers.servers.length} external servers in config`,
       );
 
-      for (const serverConfig of externalServers.servers) {
+      const defaultNamespacing = externalServers.namespacing;
+
+      for (const rawServerConfig of externalServers.servers) {
+        const serverConfig =
+          defaultNamespacing && !rawServerConfig.namespacing
+            ? { ...rawServerConfig, namespacing: defaultNamespacing }
+            : rawServerConfig;
         try {
           this.logger.info(
             `[PROXY-MGR] Processing server config:`,
@@ -366,6 +671,54 @@ export class MCPProxyManager extends EventEmitter {
     }
   }
 
+  /**
+   * Bring running servers in line with the reloaded YAML configuration:
+   * removed servers are stopped, added ones started and reconfigured ones
+   * restarted. Servers whose configuration is unchanged keep running.
+   */
+  async reloadFromYamlConfig(): Promise<ExternalServerChange[]> {
+    if (!this.yamlConfigManager) {
+      return [];
+    }
+
+    const externalServers = this.yamlConfigManager.getConfig().externalServers;
+    const desired = externalServers?.enabled
+      ? (externalServers.servers || []).map((server) =>
+          externalServers.namespacing && !server.namespacing
+            ? { ...server, namespacing: externalServers.namespacing }
+            : server,
+        )
+      : [];
+
+    const serverChanges = diffExternalServers(
+      this.getRunningServerConfigs(),
+      desired,
+    );
+    for (const change of serverChanges) {
+      this.logger.info(
+        `[PROXY-MGR] Reload: ${change.type} server ${change.serverName}`,
+      );
+      if (change.type !== "added") {
+        await this.removeServer(change.serverName);
+      }
+      if (change.type !== "removed") {
+        const config = desired.find(
+          (server) => server.name === change.serverName,
+        )!;
+        try {
+          await this.addServer(config);
+        } catch (error) {
+          this.logger.error(
+            `[PROXY-MGR] Failed to start reloaded server ${config.name}:`,
+            error,
+          );
+        }
+      }
+    }
+
+    return serverChanges;
+  }
+
   startHealthChecks(intervalMs: number = 30000): void {
     this.logger.info(
       `[PROXY-MGR] Starting health checks (interval: ${intervalMs}ms)`,
@@ -466,9 +819,13 @@ export class MCPProxyManager extends EventEmitter {
 
         healthDetails[serverName] = {
           connected: isConnected,
+          transport: this.serverConfigs.get(serverName)?.transport || "stdio",
           response_time_ms: responseTime,
           tools_count: client.getTools().length,
           resources_count: client.getResources().length,
+          collisions: this.collisions.filter(
+            (c) => c.owner === serverName || c.shadowed.includes(serverName),
+          ),
           last_check: new Date().toISOString(),
         };
       } catch (error) {
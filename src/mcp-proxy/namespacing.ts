@@ -0,0 +1,147 @@
+/**
+ * Naming rules for tools, resources and prompts proxied from external MCP
+ * servers.
+ *
+ * - `prefix` (default): `<alias|name>__<tool>`, `<alias|name>__<prompt>` and
+ *   `<alias|name>://<uri>` (resource templates included)
+ * - `none`: upstream names are exposed as-is (collisions are likely)
+ *
+ * Independently of the mode, the `rename` option maps individual upstream
+ * tools to exposed names, which are used exactly as given.
+ */
+
+export type NamespacingMode = "prefix" | "none";
+
+export const NAMESPACE_SEPARATOR = "__";
+
+export interface NamespaceOptions {
+  name: string;
+  namespacing?: NamespacingMode;
+  alias?: string;
+  rename?: Record<string, string>;
+}
+
+export interface CapabilityCollision {
+  kind: "tool" | "resource" | "prompt" | "resourceTemplate";
+  name: string;
+  owner: string;
+  shadowed: string[];
+}
+
+/**
+ * Prefix used for a server's tools, resources and prompts
+ */
+export function getNamespacePrefix(options: NamespaceOptions): string {
+  return options.alias || options.name;
+}
+
+/**
+ * Name under which an upstream tool is exposed by the hub
+ */
+export function toExposedToolName(
+  options: NamespaceOptions,
+  toolName: string,
+): string {
+  const renamed = options.rename?.[toolName];
+  if (renamed) {
+    return renamed;
+  }
+
+  if (options.namespacing === "none") {
+    return toolName;
+  }
+
+  return `${getNamespacePrefix(options)}${NAMESPACE_SEPARATOR}${toolName}`;
+}
+
+/**
+ * URI under which an upstream resource is exposed by the hub
+ */
+export function toExposedResourceUri(
+  options: NamespaceOptions,
+  uri: string,
+): string {
+  if (options.namespacing === "none") {
+    return uri;
+  }
+
+  return `${getNamespacePrefix(options)}://${uri}`;
+}
+
+/**
+ * Best-effort reverse mapping for names that were never listed by the server
+ */
+export function toUpstreamToolName(
+  options: NamespaceOptions,
+  exposedName: string,
+): string {
+  for (const [original, renamed] of Object.entries(options.rename || {})) {
+    if (renamed === exposedName) {
+      return original;
+    }
+  }
+
+  const prefix = `${getNamespacePrefix(options)}${NAMESPACE_SEPARATOR}`;
+  if (options.namespacing !== "none" && exposedName.startsWith(prefix)) {
+    return exposedName.slice(prefix.length);
+  }
+
+  return exposedName;
+}
+
+/**
+ * Best-effort reverse mapping for resource URIs
+ */
+export function toUpstreamResourceUri(
+  options: NamespaceOptions,
+  exposedUri: string,
+): string {
+  const prefix = `${getNamespacePrefix(options)}://`;
+  if (options.namespacing !== "none" && exposedUri.startsWith(prefix)) {
+    return exposedUri.slice(prefix.length);
+  }
+
+  return exposedUri;
+}
+
+/**
+ * Name under which an upstream prompt is exposed; `rename` only applies to
+ * tools
+ */
+export function toExposedPromptName(
+  options: NamespaceOptions,
+  promptName: string,
+): string {
+  if (options.namespacing === "none") {
+    return promptName;
+  }
+
+  return `${getNamespacePrefix(options)}${NAMESPACE_SEPARATOR}${promptName}`;
+}
+
+/**
+ * Best-effort reverse mapping for prompt names
+ */
+export function toUpstreamPromptName(
+  options: NamespaceOptions,
+  exposedName: string,
+): string {
+  const prefix = `${getNamespacePrefix(options)}${NAMESPACE_SEPARATOR}`;
+  if (options.namespacing !== "none" && exposedName.startsWith(prefix)) {
+    return exposedName.slice(prefix.length);
+  }
+
+  return exposedName;
+}
+
+/**
+ * Whether a URI could have been produced by an RFC 6570 URI template;
+ * every expression matches any text
+ */
+export function matchesUriTemplate(uriTemplate: string, uri: string): boolean {
+  const pattern = uriTemplate
+    .split(/\{[^}]*\}/)
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}$`).test(uri);
+}
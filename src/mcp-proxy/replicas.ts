@@ -0,0 +1,58 @@
+/**
+ * Replica groups: an external server declared with `replicas` runs as
+ * several interchangeable instances exposing the same tools, so the
+ * ResilienceManager can balance and fail over calls between them.
+ *
+ * ```yaml
+ * servers:
+ *   - name: search
+ *     command: search-server
+ *     replicas: 3            # three identical processes
+ *   - name: docs
+ *     transport: http
+ *     replicas:              # one entry per endpoint
+ *       - url: https://docs-a.internal/mcp
+ *       - url: https://docs-b.internal/mcp
+ * ```
+ */
+
+import { ExternalServerConfig } from "./client.js";
+
+export interface ServerReplica {
+  /** `<server>#<n>` for replicated servers, the server name otherwise */
+  id: string;
+  /** Name of the server the replica belongs to */
+  group: string;
+  /** Connection settings; named after the group so tools keep their names */
+  config: ExternalServerConfig;
+}
+
+/**
+ * Id of the n-th replica of a server, counted from 1
+ */
+export function getReplicaId(group: string, index: number): string {
+  return `${group}#${index}`;
+}
+
+/**
+ * The instances a server config describes; one for servers without
+ * `replicas`
+ */
+export function expandReplicas(config: ExternalServerConfig): ServerReplica[] {
+  const { replicas, ...base } = config;
+  const overrides = Array.isArray(replicas)
+    ? replicas
+    : Array.from({ length: Math.max(1, replicas ?? 1) }, () => ({}));
+  if (overrides.length === 0) {
+    throw new Error(`Server ${config.name} declares an empty replica list`);
+  }
+
+  return overrides.map((override, index) => ({
+    id:
+      overrides.length === 1
+        ? config.name
+        : getReplicaId(config.name, index + 1),
+    group: config.name,
+    config: { ...base, ...override, name: config.name },
+  }));
+}
@@ -3,7 +3,8 @@
  *
  * System-level resilience orchestration:
  * - Coordinates multiple resilient connections
- * - Implements load balancing and failover strategies
+ * - Implements load balancing and failover strategies within replica groups
+ * - Routes each session to the same replica of a group
  * - Provides system-wide health monitoring
  * - Manages resource allocation and throttling
  * - Implements intelligent recovery strategies
@@ -11,13 +12,18 @@
  */
 
 import { EventEmitter } from "events";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
 import { ILogger, SilentLogger } from "../utils/logger.js";
-import { ExternalServerConfig } from "./client.js";
+import { ExternalServerConfig, MCPProxyClient } from "./client.js";
+import { ServerReplica, expandReplicas } from "./replicas.js";
+import type { CapabilityCache } from "./capability-cache.js";
 import {
   ResilientMCPConnection,
   ConnectionState,
   ConnectionStats,
+  DeepPartial,
   ResilienceConfig,
+  mergeConfig,
 } from "./resilience.js";
 
 export enum LoadBalancingStrategy {
@@ -41,6 +47,8 @@ export interface SystemResilienceConfig {
     healthThreshold: number; // 0-1, minimum health score to participate
     maxConcurrentRequests: number;
     requestTimeoutMs: number;
+    /** Keep routing a session to the replica it first used (default true) */
+    stickySessions?: boolean;
   };
 
   failover: {
@@ -82,6 +90,7 @@ const DEFAULT_SYSTEM_CONFIG: SystemResilienceConfig = {
     healthThreshold: 0.7,
     maxConcurrentRequests: 100,
     requestTimeoutMs: 30000,
+    stickySessions: true,
   },
 
   failover: {
@@ -134,6 +143,11 @@ export interface SystemMetrics {
   alerts: SystemAlert[];
 }
 
+export interface ReplicaStats extends ConnectionStats {
+  /** Replica id; equals serverName for servers without replicas */
+  replica: string;
+}
+
 export interface SystemAlert {
   id: string;
   severity: "info" | "warning" | "error" | "critical";
@@ -144,6 +158,42 @@ export interface SystemAlert {
   details?: Record<string, unknown>;
 }
 
+const CONNECTION_ERROR_CODES = new Set([
+  "ECONNREFUSED",
+  "ECONNRESET",
+  "EPIPE",
+  "ETIMEDOUT",
+  "ENOTFOUND",
+]);
+
+const CONNECTION_ERROR_MESSAGES = [
+  "not connected",
+  "connection closed",
+  "circuit breaker is open",
+];
+
+/**
+ * Whether an error means the replica could not serve the call, as opposed to
+ * an error the server returned for it; only those are failed over
+ */
+function isConnectionError(error: unknown): boolean {
+  if (error instanceof McpError) {
+    return (
+      error.code === ErrorCode.ConnectionClosed ||
+      error.code === ErrorCode.RequestTimeout
+    );
+  }
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  const code = (error as Error & { code?: unknown }).code;
+  if (typeof code === "string" && CONNECTION_ERROR_CODES.has(code)) {
+    return true;
+  }
+  const message = error.message.toLowerCase();
+  return CONNECTION_ERROR_MESSAGES.some((pattern) => message.includes(pattern));
+}
+
 interface QueuedRequest {
   id: string;
   serverName?: string; // Preferred server
@@ -155,21 +205,30 @@ interface QueuedRequest {
 }
 
 export class ResilienceManager extends EventEmitter {
+  /** Connections by replica id */
   private connections = new Map<string, ResilientMCPConnection>();
+  /** Replica ids by server name */
+  private groups = new Map<string, string[]>();
+  /** Replica id by session and server name */
+  private stickyRoutes = new Map<string, string>();
   private config: SystemResilienceConfig;
   private logger: ILogger;
   private requestQueue: QueuedRequest[] = [];
-  private loadBalancerIndex = 0;
+  private loadBalancerIndex = new Map<string, number>();
   private systemMetrics: SystemMetrics;
   private metricsInterval?: NodeJS.Timeout;
   private recoveryInterval?: NodeJS.Timeout;
   private alerts = new Map<string, SystemAlert>();
   private activeRecoveries = new Set<string>();
   private requestCounter = 0;
+  private capabilityCache?: CapabilityCache;
 
-  constructor(config: Partial<SystemResilienceConfig> = {}, logger?: ILogger) {
+  constructor(
+    config: DeepPartial<SystemResilienceConfig> = {},
+    logger?: ILogger,
+  ) {
     super();
-    this.config = { ...DEFAULT_SYSTEM_CONFIG, ...config };
+    this.config = mergeConfig(DEFAULT_SYSTEM_CONFIG, config);
     this.logger = logger || new SilentLogger();
 
     this.systemMetrics = {
@@ -194,21 +253,31 @@ export class ResilienceManager extends EventEmitter {
   }
 
   /**
-   * Add a new server with resilience features
+   * Cache lazy servers advertise their capabilities from; applies to
+   * servers added afterwards
+   */
+  setCapabilityCache(cache?: CapabilityCache): void {
+    this.capabilityCache = cache;
+  }
+
+  /**
+   * Add a new server with resilience features; a server with `replicas`
+   * gets one connection per replica
    */
   async addServer(
     serverConfig: ExternalServerConfig,
-    resilienceConfig?: Partial<ResilienceConfig>,
+    resilienceConfig?: DeepPartial<ResilienceConfig>,
   ): Promise<void> {
-    if (this.connections.has(serverConfig.name)) {
+    if (this.groups.has(serverConfig.name)) {
       this.logger.warn(
         `[RESILIENCE-MGR] Server ${serverConfig.name} already exists`,
       );
       return;
     }
 
+    const replicas = expandReplicas(serverConfig);
     if (
-      this.connections.size >=
+      this.connections.size + replicas.length >
       this.config.resourceManagement.maxTotalConnections
     ) {
       throw new Error(
@@ -217,50 +286,76 @@ export class ResilienceManager extends EventEmitter {
     }
 
     this.logger.info(
-      `[RESILIENCE-MGR] Adding resilient server: ${serverConfig.name}`,
+      `[RESILIENCE-MGR] Adding resilient server: ${serverConfig.name} (${replicas.length} replica(s))`,
     );
 
+    this.groups.set(
+      serverConfig.name,
+      replicas.map((replica) => replica.id),
+    );
+    const connected = await Promise.all(
+      replicas.map((replica) => this.addReplica(replica, resilienceConfig)),
+    );
+
+    if (connected.some(Boolean)) {
+      this.logger.info(
+        `[RESILIENCE-MGR] Successfully added resilient server: ${serverConfig.name}`,
+      );
+      this.emit("serverAdded", serverConfig.name);
+    }
+  }
+
+  /**
+   * Create and connect one replica's connection; false when it could not
+   * connect yet
+   */
+  private async addReplica(
+    replica: ServerReplica,
+    resilienceConfig?: DeepPartial<ResilienceConfig>,
+  ): Promise<boolean> {
     const connection = new ResilientMCPConnection(
-      serverConfig,
+      replica.config,
       resilienceConfig,
       this.logger,
+      this.capabilityCache,
     );
 
     connection.on(
       "stateChange",
       (newState: ConnectionState, oldState: ConnectionState) => {
-        this.handleConnectionStateChange(serverConfig.name, newState, oldState);
+        this.handleConnectionStateChange(replica.id, newState, oldState);
       },
     );
+    connection.on("capabilitiesChanged", () => {
+      this.emit("capabilitiesChanged", replica.group);
+    });
 
-    this.connections.set(serverConfig.name, connection);
+    this.connections.set(replica.id, connection);
 
     try {
       await connection.connect();
-      this.logger.info(
-        `[RESILIENCE-MGR] Successfully added resilient server: ${serverConfig.name}`,
-      );
-      this.emit("serverAdded", serverConfig.name);
+      return true;
     } catch (error) {
       this.logger.error(
-        `[RESILIENCE-MGR] Failed to connect to ${serverConfig.name}:`,
+        `[RESILIENCE-MGR] Failed to connect to ${replica.id}:`,
         error,
       );
       this.createAlert(
         "error",
-        `Failed to connect to server ${serverConfig.name}`,
-        serverConfig.name,
+        `Failed to connect to server ${replica.id}`,
+        replica.id,
         { error: (error as Error).message },
       );
+      return false;
     }
   }
 
   /**
-   * Remove a server gracefully
+   * Remove a server and all its replicas gracefully
    */
   async removeServer(serverName: string): Promise<void> {
-    const connection = this.connections.get(serverName);
-    if (!connection) {
+    const replicaIds = this.groups.get(serverName);
+    if (!replicaIds) {
       this.logger.warn(`[RESILIENCE-MGR] Server ${serverName} not found`);
       return;
     }
@@ -268,10 +363,21 @@ export class ResilienceManager extends EventEmitter {
     this.logger.info(`[RESILIENCE-MGR] Removing server: ${serverName}`);
 
     try {
-      await connection.disconnect();
-      this.connections.delete(serverName);
-      this.alerts.delete(serverName);
-      this.activeRecoveries.delete(serverName);
+      await Promise.all(
+        replicaIds.map((id) => this.connections.get(id)?.disconnect()),
+      );
+      for (const id of replicaIds) {
+        this.connections.delete(id);
+        this.alerts.delete(id);
+        this.activeRecoveries.delete(id);
+      }
+      this.groups.delete(serverName);
+      this.loadBalancerIndex.delete(serverName);
+      for (const [key, id] of this.stickyRoutes) {
+        if (replicaIds.includes(id)) {
+          this.stickyRoutes.delete(key);
+        }
+      }
       this.logger.info(
         `[RESILIENCE-MGR] Successfully removed server: ${serverName}`,
       );
@@ -285,31 +391,62 @@ export class ResilienceManager extends EventEmitter {
   }
 
   /**
-   * Execute tool call with load balancing and failover
+   * Replica ids of a server, or an empty list for unknown servers
+   */
+  getReplicas(serverName: string): string[] {
+    return [...(this.groups.get(serverName) ?? [])];
+  }
+
+  /**
+   * A connected replica's client per server, for listing its capabilities;
+   * replicas expose the same ones
+   */
+  getClients(): Map<string, MCPProxyClient> {
+    const clients = new Map<string, MCPProxyClient>();
+    for (const [serverName, replicaIds] of this.groups) {
+      const connected = replicaIds
+        .map((id) => this.connections.get(id)!)
+        .find((connection) => connection.isConnected());
+      if (connected) {
+        clients.set(serverName, connected.getClient());
+      }
+    }
+    return clients;
+  }
+
+  /**
+   * Execute tool call on a replica of the server, with load balancing and
+   * failover between its replicas
+   * @param sessionId Session to keep on the same replica
    */
   async callTool(
     toolName: string,
     args: unknown,
-    preferredServer?: string,
+    serverName?: string,
+    sessionId?: string,
   ): Promise<unknown> {
     return this.executeWithLoadBalancing(
       async (connection) => connection.callTool(toolName, args),
       `callTool:${toolName}`,
-      preferredServer,
+      serverName,
+      sessionId,
     );
   }
 
   /**
-   * Read resource with load balancing and failover
+   * Read resource from a replica of the server, with load balancing and
+   * failover between its replicas
    */
   async readResource(
     resourceUri: string,
-    preferredServer?: string,
+    serverName?: string,
+    sessionId?: string,
   ): Promise<unknown> {
     return this.executeWithLoadBalancing(
       async (connection) => connection.readResource(resourceUri),
       `readResource:${resourceUri}`,
-      preferredServer,
+      serverName,
+      sessionId,
     );
   }
 
@@ -319,7 +456,8 @@ export class ResilienceManager extends EventEmitter {
   private async executeWithLoadBalancing<T>(
     operation: (connection: ResilientMCPConnection) => Promise<T>,
     operationId: string,
-    preferredServer?: string,
+    serverName?: string,
+    sessionId?: string,
   ): Promise<T> {
     if (
       this.requestQueue.length >= this.config.resourceManagement.maxQueueSize
@@ -331,14 +469,9 @@ export class ResilienceManager extends EventEmitter {
       const requestId = `req_${++this.requestCounter}`;
       const queuedRequest: QueuedRequest = {
         id: requestId,
-        serverName: preferredServer,
-        operation: async () => {
-          const connection = await this.selectServer(preferredServer);
-          if (!connection) {
-            throw new Error("No healthy servers available");
-          }
-          return operation(connection);
-        },
+        serverName,
+        operation: () =>
+          this.executeOnReplica(operation, operationId, serverName, sessionId),
         resolve: resolve as (value: unknown) => void,
         reject,
         timestamp: new Date(),
@@ -350,6 +483,64 @@ export class ResilienceManager extends EventEmitter {
     });
   }
 
+  /**
+   * Run an operation on a replica of a server; when the replica cannot be
+   * reached and automatic failover is on, retry on the server's other replicas
+   */
+  private async executeOnReplica<T>(
+    operation: (connection: ResilientMCPConnection) => Promise<T>,
+    operationId: string,
+    serverName?: string,
+    sessionId?: string,
+  ): Promise<T> {
+    const group = serverName ?? this.getOnlyGroup();
+    const tried = new Set<string>();
+    let lastError: unknown;
+
+    for (;;) {
+      const selected = this.selectServer(group, sessionId, tried);
+      if (!selected) {
+        throw (
+          lastError ?? new Error(`No healthy replicas of ${group} available`)
+        );
+      }
+
+      const [replicaId, connection] = selected;
+      try {
+        return await operation(connection);
+      } catch (error) {
+        if (!isConnectionError(error)) {
+          throw error;
+        }
+        lastError = error;
+        tried.add(replicaId);
+        this.unpinSession(group, sessionId);
+        const { enableAutoFailover, strategy } = this.config.failover;
+        if (!enableAutoFailover || strategy === FailoverStrategy.MANUAL_ONLY) {
+          throw error;
+        }
+        this.logger.warn(
+          `[RESILIENCE-MGR] ${operationId} failed on ${replicaId}, failing over:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Server to use when a call names none; only unambiguous with one server
+   */
+  private getOnlyGroup(): string {
+    if (this.groups.size !== 1) {
+      throw new Error(
+        this.groups.size === 0
+          ? "No healthy servers available"
+          : "Name the server to call; requests are balanced only between replicas of one server",
+      );
+    }
+    return this.groups.keys().next().value!;
+  }
+
   /**
    * Process queued requests with concurrency control
    */
@@ -392,80 +583,122 @@ export class ResilienceManager extends EventEmitter {
   }
 
   /**
-   * Intelligent server selection with load balancing
+   * Pick a replica of a server: the session's pinned replica while it is
+   * available, otherwise one chosen by the load balancing strategy
    */
-  private async selectServer(
-    preferredServer?: string,
-  ): Promise<ResilientMCPConnection | null> {
-    const availableConnections = Array.from(this.connections.entries()).filter(
-      ([, connection]) => {
+  private selectServer(
+    serverName: string,
+    sessionId?: string,
+    exclude: Set<string> = new Set(),
+  ): [string, ResilientMCPConnection] | null {
+    const availableConnections = (this.groups.get(serverName) ?? [])
+      .filter((id) => !exclude.has(id))
+      .map((id): [string, ResilientMCPConnection] => [
+        id,
+        this.connections.get(id)!,
+      ])
+      .filter(([, connection]) => {
+        // Replicas not health checked yet since connecting take calls too
         const stats = connection.getStats();
         return (
           connection.isConnected() &&
-          connection.isHealthy() &&
+          stats.healthCheckStatus !== "unhealthy" &&
           stats.currentOperations <
             this.config.loadBalancing.maxConcurrentRequests
         );
-      },
-    );
+      });
 
     if (availableConnections.length === 0) {
       return null;
     }
 
-    if (preferredServer) {
-      const preferredConnection = availableConnections.find(
-        ([name]) => name === preferredServer,
+    const sticky =
+      sessionId !== undefined &&
+      this.config.loadBalancing.stickySessions !== false;
+    const routeKey = `${sessionId}\n${serverName}`;
+    if (sticky) {
+      const pinned = availableConnections.find(
+        ([id]) => id === this.stickyRoutes.get(routeKey),
       );
-      if (preferredConnection) {
-        return preferredConnection[1];
+      if (pinned) {
+        return pinned;
+      }
+    }
+
+    const selected = this.selectByStrategy(serverName, availableConnections);
+    if (sticky) {
+      this.stickyRoutes.set(routeKey, selected[0]);
+    }
+    return selected;
+  }
+
+  private unpinSession(serverName: string, sessionId?: string): void {
+    if (sessionId !== undefined) {
+      this.stickyRoutes.delete(`${sessionId}\n${serverName}`);
+    }
+  }
+
+  /**
+   * Forget the replicas a closed session was pinned to
+   */
+  releaseSession(sessionId: string): void {
+    const prefix = `${sessionId}\n`;
+    for (const routeKey of this.stickyRoutes.keys()) {
+      if (routeKey.startsWith(prefix)) {
+        this.stickyRoutes.delete(routeKey);
       }
     }
+  }
 
+  private selectByStrategy(
+    serverName: string,
+    connections: [string, ResilientMCPConnection][],
+  ): [string, ResilientMCPConnection] {
     switch (this.config.loadBalancing.strategy) {
       case LoadBalancingStrategy.ROUND_ROBIN:
-        return this.selectRoundRobin(availableConnections);
+        return this.selectRoundRobin(serverName, connections);
 
       case LoadBalancingStrategy.LEAST_CONNECTIONS:
-        return this.selectLeastConnections(availableConnections);
+        return this.selectLeastConnections(connections);
 
       case LoadBalancingStrategy.LEAST_RESPONSE_TIME:
-        return this.selectLeastResponseTime(availableConnections);
+        return this.selectLeastResponseTime(connections);
 
       case LoadBalancingStrategy.HEALTH_WEIGHTED:
-        return this.selectHealthWeighted(availableConnections);
+        return this.selectHealthWeighted(connections);
 
       case LoadBalancingStrategy.RANDOM:
-        return this.selectRandom(availableConnections);
+        return this.selectRandom(connections);
 
       default:
-        return availableConnections[0][1];
+        return connections[0];
     }
   }
 
   private selectRoundRobin(
+    serverName: string,
     connections: [string, ResilientMCPConnection][],
-  ): ResilientMCPConnection {
-    const connection = connections[this.loadBalancerIndex % connections.length];
-    this.loadBalancerIndex++;
-    return connection[1];
+  ): [string, ResilientMCPConnection] {
+    const index = this.loadBalancerIndex.get(serverName) ?? 0;
+    this.loadBalancerIndex.set(serverName, index + 1);
+    return connections[index % connections.length];
   }
 
   private selectLeastConnections(
     connections: [string, ResilientMCPConnection][],
-  ): ResilientMCPConnection {
+  ): [string, ResilientMCPConnection] {
     return connections.reduce((best, current) => {
       const bestStats = best[1].getStats();
       const currentStats = current[1].getStats();
       return currentStats.currentOperations < bestStats.currentOperations
         ? current
         : best;
-    })[1];
+    });
   }
 
   private selectLeastResponseTime(
     connections: [string, ResilientMCPConnection][],
-  ): ResilientMCPConnection {
+  ): [string, ResilientMCPConnection] {
     return connections.reduce((best, current) => {
       const bestStats = best[1].getStats();
       const currentStats = current[1].getStats();
@@ -473,44 +706,44 @@ export class ResilienceManager extends EventEmitter {
         bestStats.averageOperationTimeMs
         ? current
         : best;
-    })[1];
+    });
   }
 
   private selectHealthWeighted(
     connections: [string, ResilientMCPConnection][],
-  ): ResilientMCPConnection {
-    const healthScores = connections.map(([name, connection]) => {
-      const stats = connection.getStats();
+  ): [string, ResilientMCPConnection] {
+    const healthScores = connections.map((entry) => {
+      const stats = entry[1].getStats();
       const errorRate =
         stats.totalOperations > 0
           ? stats.failedOperations / stats.totalOperations
           : 0;
       const healthScore = Math.max(0, 1 - errorRate);
-      return { name, connection, healthScore };
+      return { entry, healthScore };
     });
 
     const totalHealth = healthScores.reduce(
       (sum, item) => sum + item.healthScore,
       0,
     );
-    if (totalHealth === 0) return connections[0][1];
+    if (totalHealth === 0) return connections[0];
 
     let random = Math.random() * totalHealth;
     for (const item of healthScores) {
       random -= item.healthScore;
       if (random <= 0) {
-        return item.connection;
+        return item.entry;
       }
     }
 
-    return healthScores[healthScores.length - 1].connection;
+    return healthScores[healthScores.length - 1].entry;
   }
 
   private selectRandom(
     connections: [string, ResilientMCPConnection][],
-  ): ResilientMCPConnection {
+  ): [string, ResilientMCPConnection] {
     const randomIndex = Math.floor(Math.random() * connections.length);
-    return connections[randomIndex][1];
+    return connections[randomIndex];
   }
 
   /**
@@ -928,21 +1161,35 @@ export class ResilienceManager extends EventEmitter {
     return { ...this.systemMetrics };
   }
 
-  getServerStats(serverName?: string): ConnectionStats[] {
-    if (serverName) {
-      const connection = this.connections.get(serverName);
-      return connection ? [connection.getStats()] : [];
-    }
-
-    return Array.from(this.connections.values()).map((conn) => conn.getStats());
+  /**
+   * Stats per replica, for all servers, one server's replicas or a single
+   * replica id
+   */
+  getServerStats(serverName?: string): ReplicaStats[] {
+    const replicaIds = serverName
+      ? (this.groups.get(serverName) ??
+        (this.connections.has(serverName) ? [serverName] : []))
+      : Array.from(this.connections.keys());
+
+    return replicaIds.map((replica) => ({
+      ...this.connections.get(replica)!.getStats(),
+      replica,
+    }));
   }
 
+  /**
+   * Recover a replica, or every replica of a server
+   */
   async forceRecovery(serverName: string): Promise<void> {
-    await this.attemptRecovery(serverName);
+    await Promise.all(
+      (this.groups.get(serverName) ?? [serverName]).map((replica) =>
+        this.attemptRecovery(replica),
+      ),
+    );
   }
 
-  updateConfig(newConfig: Partial<SystemResilienceConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+  updateConfig(newConfig: DeepPartial<SystemResilienceConfig>): void {
+    this.config = mergeConfig(this.config, newConfig);
     this.logger.info("[RESILIENCE-MGR] System configuration updated");
   }
 
@@ -981,6 +1228,8 @@ export class ResilienceManager extends EventEmitter {
     await Promise.all(disconnectPromises);
 
     this.connections.clear();
+    this.groups.clear();
+    this.stickyRoutes.clear();
     this.alerts.clear();
     this.activeRecoveries.clear();
     this.requestQueue.length = 0;
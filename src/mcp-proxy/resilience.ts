@@ -14,6 +14,7 @@
 import { EventEmitter } from "events";
 import { ILogger, SilentLogger } from "../utils/logger.js";
 import { MCPProxyClient, ExternalServerConfig } from "./client.js";
+import type { CapabilityCache } from "./capability-cache.js";
 
 export enum ConnectionState {
   DISCONNECTED = "disconnected",
@@ -105,6 +106,41 @@ const DEFAULT_RESILIENCE_CONFIG: ResilienceConfig = {
   },
 };
 
+/** Settings where nested sections may also be given in part */
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends unknown[]
+    ? T[K]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K];
+};
+
+/**
+ * Overlay settings on a complete configuration section by section; arrays
+ * and values are replaced, undefined overrides are ignored
+ */
+export function mergeConfig<T extends object>(
+  base: T,
+  overrides: DeepPartial<T> = {},
+): T {
+  const merged = { ...base } as Record<string, unknown>;
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) {
+      continue;
+    }
+    const current = merged[key];
+    merged[key] =
+      isSection(current) && isSection(value)
+        ? mergeConfig(current, value)
+        : value;
+  }
+  return merged as T;
+}
+
+function isSection(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
 export interface ConnectionStats {
   serverName: string;
   state: ConnectionState;
@@ -206,6 +242,7 @@ class CircuitBreaker {
 
 export class ResilientMCPConnection extends EventEmitter {
   private client: MCPProxyClient;
+  private serverConfig: ExternalServerConfig;
   private state: ConnectionState = ConnectionState.DISCONNECTED;
   private config: ResilienceConfig;
   private logger: ILogger;
@@ -225,12 +262,19 @@ export class ResilientMCPConnection extends EventEmitter {
 
   constructor(
     serverConfig: ExternalServerConfig,
-    resilienceConfig: Partial<ResilienceConfig> = {},
+    resilienceConfig: DeepPartial<ResilienceConfig> = {},
     logger?: ILogger,
+    capabilityCache?: CapabilityCache,
   ) {
     super();
-    this.client = new MCPProxyClient(serverConfig, logger);
-    this.config = { ...DEFAULT_RESILIENCE_CONFIG, ...resilienceConfig };
+    this.serverConfig = serverConfig;
+    this.config = mergeConfig(DEFAULT_RESILIENCE_CONFIG, resilienceConfig);
+    this.client = new MCPProxyClient(
+      { ...serverConfig, idleTimeoutMs: this.getIdleTimeoutMs() },
+      logger,
+    );
+    this.client.capabilityCache = capabilityCache;
+    this.client.onCapabilitiesChanged = () => this.emit("capabilitiesChanged");
     this.logger = logger || new SilentLogger();
     this.circuitBreaker = new CircuitBreaker(
       this.config.circuitBreaker,
@@ -805,12 +849,26 @@ export class ResilientMCPConnection extends EventEmitter {
     return this.client;
   }
 
+  /**
+   * The server's own idle timeout, else the connection default for lazy
+   * servers; eager servers keep running unless they set one
+   */
+  private getIdleTimeoutMs(): number | undefined {
+    if (this.serverConfig.idleTimeoutMs !== undefined) {
+      return this.serverConfig.idleTimeoutMs;
+    }
+    return this.serverConfig.startPolicy === "lazy"
+      ? this.config.connection.idleTimeoutMs
+      : undefined;
+  }
+
   async forceHealthCheck(): Promise<boolean> {
     return await this.performHealthCheck();
   }
 
-  updateConfig(newConfig: Partial<ResilienceConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+  updateConfig(newConfig: DeepPartial<ResilienceConfig>): void {
+    this.config = mergeConfig(this.config, newConfig);
+    this.client.setIdleTimeoutMs(this.getIdleTimeoutMs());
     this.logger.info(
       `[RESILIENT-MCP] Updated resilience config for ${this.stats.serverName}`,
     );
@@ -0,0 +1,138 @@
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
+import * as path from "path";
+import { ILogger, SilentLogger } from "../utils/logger.js";
+
+export type ExternalServerTransport = "stdio" | "http" | "sse";
+
+export interface ExternalServerAuthConfig {
+  type: "bearer" | "basic";
+  token?: string;
+  tokenEnv?: string;
+  username?: string;
+  password?: string;
+  passwordEnv?: string;
+}
+
+/**
+ * Subset of ExternalServerConfig needed to build a client transport
+ */
+export interface TransportOptions {
+  name: string;
+  transport?: ExternalServerTransport;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  url?: string;
+  headers?: Record<string, string>;
+  auth?: ExternalServerAuthConfig;
+}
+
+/**
+ * Resolve the effective transport type (stdio unless configured otherwise)
+ */
+export function getTransportType(
+  options: TransportOptions,
+): ExternalServerTransport {
+  return options.transport || "stdio";
+}
+
+/**
+ * Build the HTTP headers sent to remote servers, including auth
+ */
+export function buildRequestHeaders(
+  options: TransportOptions,
+): Record<string, string> {
+  const headers: Record<string, string> = { ...(options.headers || {}) };
+  const auth = options.auth;
+  if (!auth) {
+    return headers;
+  }
+
+  if (auth.type === "bearer") {
+    const token =
+      auth.token ?? (auth.tokenEnv ? process.env[auth.tokenEnv] : undefined);
+    if (!token) {
+      throw new Error(
+        `No bearer token available for ${options.name} (set auth.token or auth.tokenEnv)`,
+      );
+    }
+    headers["Authorization"] = `Bearer ${token}`;
+  } else if (auth.type === "basic") {
+    const password =
+      auth.password ??
+      (auth.passwordEnv ? process.env[auth.passwordEnv] : undefined);
+    if (!auth.username || password === undefined) {
+      throw new Error(
+        `Basic auth for ${options.name} requires a username and password`,
+      );
+    }
+    const credentials = Buffer.from(`${auth.username}:${password}`).toString(
+      "base64",
+    );
+    headers["Authorization"] = `Basic ${credentials}`;
+  }
+
+  return headers;
+}
+
+/**
+ * Create a fresh client transport for an external server.
+ * Transports cannot be restarted once closed, so callers create one per connect.
+ */
+export function createClientTransport(
+  options: TransportOptions,
+  logger: ILogger = new SilentLogger(),
+): Transport {
+  const type = getTransportType(options);
+
+  if (type === "stdio") {
+    if (!options.command) {
+      throw new Error(`stdio server ${options.name} requires a command`);
+    }
+
+    const cleanEnv: Record<string, string> = {};
+    for (const [key, value] of Object.entries({
+      ...process.env,
+      ...(options.env || {}),
+    })) {
+      if (value !== undefined) {
+        cleanEnv[key] = value;
+      }
+    }
+
+    const resolvedArgs = (options.args || []).map((arg) => {
+      if (arg.endsWith(".js") && !arg.startsWith("/")) {
+        const resolved = path.resolve(process.cwd(), arg);
+        logger.debug(`Resolved external server arg: ${arg} -> ${resolved}`);
+        return resolved;
+      }
+      return arg;
+    });
+
+    return new StdioClientTransport({
+      command: options.command,
+      args: resolvedArgs,
+      env: cleanEnv,
+    });
+  }
+
+  if (type !== "http" && type !== "sse") {
+    throw new Error(`Unsupported transport '${type}' for ${options.name}`);
+  }
+
+  if (!options.url) {
+    throw new Error(`${type} server ${options.name} requires a url`);
+  }
+
+  const url = new URL(options.url);
+  const requestInit: RequestInit = { headers: buildRequestHeaders(options) };
+
+  if (type === "sse") {
+    return new SSEClientTransport(url, { requestInit });
+  }
+
+  return new StreamableHTTPClientTransport(url, { requestInit });
+}
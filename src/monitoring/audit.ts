@@ -10,7 +10,7 @@ export interface AuditEvent {
   profile: string;
   sourcePath?: string;
   hash: string;
-  result: "applied" | "noop" | "rolled_back" | "error";
+  result: "applied" | "noop" | "rolled_back" | "rollback" | "error";
   durationMs: number;
   error?: string;
   metadata?: Record<string, unknown>;
@@ -58,6 +58,17 @@ export class AuditLogger {
     });
   }
 
+  /**
+   * Log a requested rollback to an earlier applied profile
+   */
+  logRollback(event: Omit<AuditEvent, "ts" | "result">): void {
+    this.log({
+      ...event,
+      ts: new Date().toISOString(),
+      result: "rollback",
+    });
+  }
+
   /**
    * Log general error
    */
@@ -37,6 +37,11 @@ export interface MonitoringServerConfig {
   rateLimitMax: number; // requests per window
 }
 
+/**
+ * Provides an extra section of the `/stats` payload
+ */
+export type StatsSource = () => unknown;
+
 interface RateLimitEntry {
   count: number;
   resetTime: number;
@@ -48,6 +53,7 @@ export class MonitoringServer {
   private metricsCollector: MetricsCollector;
   private logger: ILogger;
   private rateLimitMap: Map<string, RateLimitEntry> = new Map();
+  private statsSources: Map<string, StatsSource> = new Map();
   private auditLogger = GlobalAuditLogger.getInstance();
 
   constructor(
@@ -70,6 +76,13 @@ export class MonitoringServer {
     };
   }
 
+  /**
+   * Add a section to `/stats`, served under `name`
+   */
+  registerStatsSource(name: string, source: StatsSource): void {
+    this.statsSources.set(name, source);
+  }
+
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.server = http.createServer((req, res) => {
@@ -432,6 +445,9 @@ export class MonitoringServer {
         ),
         errorsByType: metrics.errorsByType,
       },
+      ...Object.fromEntries(
+        Array.from(this.statsSources, ([name, source]) => [name, source()]),
+      ),
     };
 
     this.sendResponse(
@@ -0,0 +1,169 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CompleteRequest,
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { MCPProxyManager } from "../mcp-proxy/manager.js";
+import { ILogger, SilentLogger } from "../utils/logger.js";
+import { SessionManager } from "../server/sessions.js";
+import {
+  AccessPolicy,
+  AccessRequest,
+  CallerContext,
+  getCallerContext,
+} from "../security/access-policy.js";
+import { RequestLimiter } from "../security/request-limits.js";
+
+/**
+ * Serves prompts and argument completions proxied from external servers.
+ * The hub has no prompts of its own.
+ */
+export class PromptHandlers {
+  private server: Server;
+  private sessions: SessionManager;
+  private proxyManager?: MCPProxyManager;
+  private logger: ILogger;
+  private accessPolicy?: AccessPolicy;
+  private requestLimiter?: RequestLimiter;
+
+  constructor(
+    server: Server,
+    sessions: SessionManager,
+    proxyManager?: MCPProxyManager,
+    logger?: ILogger,
+    accessPolicy?: AccessPolicy,
+    requestLimiter?: RequestLimiter,
+  ) {
+    this.server = server;
+    this.sessions = sessions;
+    this.proxyManager = proxyManager;
+    this.logger = logger || new SilentLogger();
+    this.accessPolicy = accessPolicy;
+    this.requestLimiter = requestLimiter;
+  }
+
+  /**
+   * Serve proxied prompts from another proxy manager
+   */
+  setProxyManager(proxyManager: MCPProxyManager): void {
+    this.proxyManager = proxyManager;
+  }
+
+  /**
+   * Setup all prompt handlers on the given server (the stdio server by default)
+   */
+  setupHandlers(server: Server = this.server): void {
+    this.setupListPromptsHandler(server);
+    this.setupGetPromptHandler(server);
+    this.setupCompleteHandler(server);
+  }
+
+  /**
+   * Only the prompts the caller may get are listed
+   */
+  private setupListPromptsHandler(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async (_, extra) => {
+      const prompts = this.proxyManager?.getAggregatedPrompts() ?? [];
+      if (!this.accessPolicy?.isEnabled()) {
+        return { prompts };
+      }
+      const session = this.sessions.getSession(extra?.sessionId);
+      const identity = this.accessPolicy.resolveIdentity(
+        getCallerContext(session, extra),
+      );
+      return {
+        prompts: identity
+          ? prompts.filter((prompt) =>
+              this.accessPolicy!.isAllowed(
+                identity.id,
+                this.getPromptAccess(prompt.name),
+              ),
+            )
+          : [],
+      };
+    });
+  }
+
+  private setupGetPromptHandler(server: Server): void {
+    server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+      const { name, arguments: args } = request.params;
+      const session = this.sessions.getSession(extra?.sessionId);
+      return this.authorize(
+        getCallerContext(session, extra),
+        this.getPromptAccess(name),
+        async () => {
+          if (!this.proxyManager) {
+            throw new Error(`Unknown prompt: ${name}`);
+          }
+          this.logger.debug(`[PROMPTS] Getting prompt ${name}`);
+          return this.proxyManager.getPrompt(name, args);
+        },
+      );
+    });
+  }
+
+  /**
+   * Completions are authorized like getting the referenced prompt or
+   * reading the referenced resource template
+   */
+  private setupCompleteHandler(server: Server): void {
+    server.setRequestHandler(CompleteRequestSchema, async (request, extra) => {
+      const session = this.sessions.getSession(extra?.sessionId);
+      return this.authorize(
+        getCallerContext(session, extra),
+        this.getCompletionAccess(request.params.ref),
+        async () =>
+          this.proxyManager
+            ? this.proxyManager.complete(request.params)
+            : { completion: { values: [] } },
+      );
+    });
+  }
+
+  /**
+   * Prompts are authorized like resources: `resources:read`, or a permission
+   * on `server:<name>` / `resource:<prompt name>`
+   */
+  private getPromptAccess(name: string): AccessRequest {
+    return {
+      method: "prompts/get",
+      target: name,
+      server: this.proxyManager?.getPromptServer(name),
+      permission: { resource: "resources", action: "read" },
+    };
+  }
+
+  private getCompletionAccess(
+    ref: CompleteRequest["params"]["ref"],
+  ): AccessRequest {
+    if (ref.type === "ref/prompt") {
+      return this.getPromptAccess(ref.name);
+    }
+    return {
+      method: "resources/read",
+      target: ref.uri,
+      server: this.proxyManager?.getResourceTemplateServer(ref.uri),
+      permission: { resource: "resources", action: "read" },
+    };
+  }
+
+  /**
+   * Run a request through the access policy and the request limits
+   */
+  private authorize<T>(
+    caller: CallerContext,
+    access: AccessRequest,
+    handler: () => Promise<T>,
+  ): Promise<T> {
+    const authorized = () =>
+      this.accessPolicy
+        ? this.accessPolicy.run(caller, access, handler)
+        : handler();
+
+    return this.requestLimiter
+      ? this.requestLimiter.run(caller, access, authorized)
+      : authorized();
+  }
+}
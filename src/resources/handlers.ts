@@ -1,7 +1,10 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
 import { ClaudeConfig } from "../utils/claude-config.js";
 import { FileScanner } from "../utils/file-scanner.js";
@@ -11,26 +14,63 @@ import { MCPProxyManager } from "../mcp-proxy/manager.js";
 import { ILogger, SilentLogger } from "../utils/logger.js";
 import { ErrorHandler } from "../utils/error-handler.js";
 import { GitHubResourceManager } from "../utils/github-client.js";
+import { ClientSession, SessionManager } from "../server/sessions.js";
+import {
+  AccessPolicy,
+  AccessRequest,
+  getCallerContext,
+} from "../security/access-policy.js";
+import { RequestLimiter } from "../security/request-limits.js";
+import { SecretManager } from "../security/secret-manager.js";
+import { BehaviorGenerator } from "../utils/behavior-generator.js";
+import { ProfileTemplateError } from "../utils/profile-template.js";
+
+const SCANNABLE_FILES_URI = "config://files/scannable";
+/** How often the scannable file list is re-scanned while subscribed */
+const SCANNABLE_RESCAN_MS = 10000;
+
+/** Tracking of a subscribed resource, shared by its subscriptions */
+interface TrackedResource {
+  /** Subscriptions holding the tracking, counting ones still starting */
+  references: number;
+  tracking: Promise<void>;
+}
 
 export class ResourceHandlers {
   private server: Server;
-  private activeProfiles: Map<string, ClaudeConfig>;
+  private sessions: SessionManager;
   private fileScanner: FileScanner;
   private proxyManager?: MCPProxyManager;
   private logger: ILogger;
   private errorHandler: ErrorHandler;
   private githubResourceManager: GitHubResourceManager;
+  private accessPolicy?: AccessPolicy;
+  private requestLimiter?: RequestLimiter;
+  private secretManager?: SecretManager;
+  /** Server that notifications for each subscribed session are sent on */
+  private sessionServers: Map<string, Server> = new Map();
+  private scannableTimer?: NodeJS.Timeout;
+  private scannableFiles?: string;
+  /** Tracking of each subscribed resource, pending or done */
+  private trackedResources: Map<string, TrackedResource> = new Map();
 
   constructor(
     server: Server,
     activeProfiles: Map<string, ClaudeConfig>,
     proxyManager?: MCPProxyManager,
     logger?: ILogger,
+    sessions?: SessionManager,
+    accessPolicy?: AccessPolicy,
+    requestLimiter?: RequestLimiter,
+    secretManager?: SecretManager,
   ) {
     this.server = server;
-    this.activeProfiles = activeProfiles;
     this.proxyManager = proxyManager;
+    this.accessPolicy = accessPolicy;
+    this.requestLimiter = requestLimiter;
+    this.secretManager = secretManager;
     this.logger = logger || new SilentLogger();
+    this.sessions = sessions || new SessionManager(activeProfiles, this.logger);
     this.errorHandler = ErrorHandler.getInstance(this.logger);
     const pathResolver = PathResolver.getInstance();
     const yamlConfigPath = pathResolver.getYamlConfigPath();
@@ -40,21 +80,59 @@ export class ResourceHandlers {
     );
 
     this.githubResourceManager = new GitHubResourceManager(this.logger);
+
+    this.sessions.on(
+      "resource-updated",
+      (session: ClientSession, uri: string) =>
+        this.sendResourceUpdated(session, uri),
+    );
+    this.sessions.on("session-removed", (session: ClientSession) => {
+      this.sessionServers.delete(session.id);
+      for (const uri of session.subscriptions) {
+        void this.releaseSubscription(uri);
+      }
+      session.subscriptions.clear();
+    });
+    this.proxyManager?.on("resourceUpdated", this.onProxyResourceUpdated);
   }
 
+  private onProxyResourceUpdated = (uri: string): void => {
+    this.sessions.notifyResourceUpdated(uri);
+  };
+
   /**
-   * Setup all resource handlers
+   * Serve proxied resources from another proxy manager
    */
-  setupHandlers(): void {
-    this.setupListResourcesHandler();
-    this.setupReadResourceHandler();
+  setProxyManager(proxyManager: MCPProxyManager): void {
+    this.proxyManager?.off("resourceUpdated", this.onProxyResourceUpdated);
+    this.proxyManager = proxyManager;
+    proxyManager.on("resourceUpdated", this.onProxyResourceUpdated);
+  }
+
+  /**
+   * Setup all resource handlers on the given server (the stdio server by default)
+   */
+  setupHandlers(server: Server = this.server): void {
+    this.setupListResourcesHandler(server);
+    this.setupListResourceTemplatesHandler(server);
+    this.setupReadResourceHandler(server);
+    this.setupSubscriptionHandlers(server);
+  }
+
+  /**
+   * Stop re-scanning for scannable files
+   */
+  stop(): void {
+    clearInterval(this.scannableTimer);
+    this.scannableTimer = undefined;
   }
 
   /**
    * Setup the list resources handler
    */
-  private setupListResourcesHandler(): void {
-    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+  private setupListResourcesHandler(server: Server): void {
+    server.setRequestHandler(ListResourcesRequestSchema, async (_, extra) => {
+      const { activeProfiles } = this.sessions.getSession(extra?.sessionId);
       const baseResources = [
         {
           uri: "config://files/scannable",
@@ -72,7 +150,7 @@ export class ResourceHandlers {
       ];
 
       const autoApplyProfiles = Array.from(
-        this.activeProfiles.entries(),
+        activeProfiles.entries(),
       ).filter(
         ([_name, config]) =>
           (config as unknown as { _autoApply?: boolean })._autoApply === true,
@@ -118,7 +196,7 @@ export class ResourceHandlers {
         );
       }
 
-      const profileResources = Array.from(this.activeProfiles.keys()).map(
+      const profileResources = Array.from(activeProfiles.keys()).map(
         (profileName) => ({
           uri: `config://profile/active/${profileName}`,
           name: `Active: ${profileName}`,
@@ -150,276 +228,489 @@ export class ResourceHandlers {
     });
   }
 
+  /**
+   * Setup the list resource templates handler; only external servers
+   * provide templates, and URIs matching them are read through the proxy
+   */
+  private setupListResourceTemplatesHandler(server: Server): void {
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates:
+        this.proxyManager?.getAggregatedResourceTemplates() ?? [],
+    }));
+  }
+
   /**
    * Setup the read resource handler
    */
-  private setupReadResourceHandler(): void {
-    this.server.setRequestHandler(
+  private setupReadResourceHandler(server: Server): void {
+    server.setRequestHandler(
       ReadResourceRequestSchema,
-      async (request) => {
+      async (request, extra) => {
         const { uri } = request.params;
+        const session = this.sessions.getSession(extra?.sessionId);
+        const caller = getCallerContext(session, extra);
+        const access: AccessRequest = {
+          method: "resources/read",
+          target: uri,
+          server: this.proxyManager?.getResourceServer(uri),
+          permission: { resource: "resources", action: "read" },
+        };
+        const read = () =>
+          this.readResource(uri, session.activeProfiles, session.id);
+        const authorized = () =>
+          this.accessPolicy
+            ? this.accessPolicy.run(caller, access, read)
+            : read();
+
+        return this.requestLimiter
+          ? this.requestLimiter.run(caller, access, authorized)
+          : authorized();
+      },
+    );
+  }
 
-        switch (uri) {
-          case "config://files/scannable":
-            try {
-              const availableFiles =
-                await this.fileScanner.scanForClaudeFiles();
-              const fileList = availableFiles.map((file) => ({
-                path: file.path,
-                isClaudeConfig: file.isClaudeConfig,
-                matchedPattern: file.matchedPattern,
-              }));
+  /**
+   * Setup resources/subscribe and resources/unsubscribe. Profile resources
+   * are updated by the hub itself; proxied resources are subscribed upstream.
+   */
+  private setupSubscriptionHandlers(server: Server): void {
+    server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+      const { uri } = request.params;
+      const session = this.sessions.getSession(extra?.sessionId);
+      const subscribe = async () => {
+        if (!session.subscriptions.has(uri)) {
+          await this.acquireSubscription(uri);
+          // A concurrent subscribe of this session, or its removal, while
+          // the tracking started leaves this reference unused
+          if (
+            session.subscriptions.has(uri) ||
+            !this.sessions.hasSession(session.id)
+          ) {
+            await this.releaseSubscription(uri);
+          } else {
+            session.subscriptions.add(uri);
+          }
+        }
+        if (this.sessions.hasSession(session.id)) {
+          this.sessionServers.set(session.id, server);
+        }
+        this.logger.debug(
+          `[RESOURCES] Session ${session.id} subscribed to ${uri}`,
+        );
+        return {};
+      };
 
-              return {
-                contents: [
-                  {
-                    uri,
-                    mimeType: "application/json",
-                    text: JSON.stringify(
-                      {
-                        totalFiles: fileList.length,
-                        files: fileList,
-                      },
-                      null,
-                      2,
-                    ),
-                  },
-                ],
-              };
-            } catch (error) {
-              return {
-                contents: [
-                  {
-                    uri,
-                    mimeType: "application/json",
-                    text: JSON.stringify(
-                      { error: `Failed to scan files: ${error}` },
-                      null,
-                      2,
-                    ),
-                  },
-                ],
-              };
-            }
+      return this.accessPolicy
+        ? this.accessPolicy.run(
+            getCallerContext(session, extra),
+            {
+              method: "resources/read",
+              target: uri,
+              server: this.proxyManager?.getResourceServer(uri),
+              permission: { resource: "resources", action: "read" },
+            },
+            subscribe,
+          )
+        : subscribe();
+    });
 
-          case "config://auto-apply":
-            const autoApplyProfiles = Array.from(
-              this.activeProfiles.entries(),
-            ).filter(
-              ([_name, config]) =>
-                (config as unknown as { _autoApply?: boolean })._autoApply ===
-                true,
-            );
+    server.setRequestHandler(
+      UnsubscribeRequestSchema,
+      async (request, extra) => {
+        const { uri } = request.params;
+        const session = this.sessions.getSession(extra?.sessionId);
+        if (session.subscriptions.delete(uri)) {
+          await this.releaseSubscription(uri);
+        }
+        return {};
+      },
+    );
+  }
 
-            if (autoApplyProfiles.length === 0) {
-              return {
-                contents: [
+  /**
+   * Start tracking a resource when its first subscriber arrives. The
+   * tracking is recorded before it starts so concurrent first subscribers
+   * share it; a failed start is forgotten so the next subscriber retries.
+   */
+  private acquireSubscription(uri: string): Promise<void> {
+    let tracked = this.trackedResources.get(uri);
+    if (!tracked) {
+      const entry = { references: 0, tracking: this.startTracking(uri) };
+      this.trackedResources.set(uri, entry);
+      entry.tracking.catch(() => {
+        if (this.trackedResources.get(uri) === entry) {
+          this.trackedResources.delete(uri);
+        }
+      });
+      tracked = entry;
+    }
+    tracked.references++;
+    return tracked.tracking;
+  }
+
+  private async startTracking(uri: string): Promise<void> {
+    if (uri === SCANNABLE_FILES_URI) {
+      this.scannableFiles = await this.listScannableFiles();
+      this.scannableTimer = setInterval(
+        () => void this.rescanScannableFiles(),
+        SCANNABLE_RESCAN_MS,
+      );
+      this.scannableTimer.unref();
+    } else if (this.proxyManager?.getResourceServer(uri)) {
+      const forwarded = await this.proxyManager.subscribeResource(uri);
+      if (!forwarded) {
+        this.logger.debug(
+          `[RESOURCES] ${this.proxyManager.getResourceServer(uri)} does not support subscriptions; no updates for ${uri}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Stop tracking a resource once its last subscriber is gone. A start
+   * still in flight is awaited first; a subscriber arriving meanwhile
+   * keeps the tracking.
+   */
+  private async releaseSubscription(uri: string): Promise<void> {
+    const tracked = this.trackedResources.get(uri);
+    if (!tracked || --tracked.references > 0) {
+      return;
+    }
+    try {
+      await tracked.tracking;
+    } catch {
+      // A failed start has nothing to stop
+      return;
+    }
+    if (tracked.references > 0 || this.trackedResources.get(uri) !== tracked) {
+      return;
+    }
+    this.trackedResources.delete(uri);
+
+    try {
+      if (uri === SCANNABLE_FILES_URI) {
+        this.stop();
+      } else if (this.proxyManager?.getResourceServer(uri)) {
+        await this.proxyManager.unsubscribeResource(uri);
+      }
+    } catch (error) {
+      this.logger.debug(`[RESOURCES] Failed to unsubscribe ${uri}:`, error);
+    }
+  }
+
+  private async listScannableFiles(): Promise<string> {
+    const files = await this.fileScanner.scanForClaudeFiles();
+    return JSON.stringify(files.map((file) => file.path));
+  }
+
+  private async rescanScannableFiles(): Promise<void> {
+    try {
+      const files = await this.listScannableFiles();
+      if (files !== this.scannableFiles) {
+        this.scannableFiles = files;
+        this.sessions.notifyResourceUpdated(SCANNABLE_FILES_URI);
+      }
+    } catch (error) {
+      this.logger.debug("[RESOURCES] Failed to re-scan files:", error);
+    }
+  }
+
+  private sendResourceUpdated(session: ClientSession, uri: string): void {
+    this.sessionServers
+      .get(session.id)
+      ?.sendResourceUpdated({ uri })
+      .catch((error) =>
+        this.logger.debug(
+          `[RESOURCES] Failed to send update for ${uri} to session ${session.id}:`,
+          error,
+        ),
+      );
+  }
+
+  /**
+   * Read a local or proxied resource for a session's active profiles
+   */
+  private async readResource(
+    uri: string,
+    activeProfiles: Map<string, ClaudeConfig>,
+    sessionId?: string,
+  ) {
+    switch (uri) {
+      case SCANNABLE_FILES_URI:
+        try {
+          const availableFiles =
+            await this.fileScanner.scanForClaudeFiles();
+          const fileList = availableFiles.map((file) => ({
+            path: file.path,
+            isClaudeConfig: file.isClaudeConfig,
+            matchedPattern: file.matchedPattern,
+          }));
+
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: "application/json",
+                text: JSON.stringify(
                   {
-                    uri,
-                    mimeType: "text/plain",
-                    text: "No profiles marked for auto-apply",
+                    totalFiles: fileList.length,
+                    files: fileList,
                   },
-                ],
-              };
-            }
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: "application/json",
+                text: JSON.stringify(
+                  { error: `Failed to scan files: ${error}` },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
+
+      case "config://auto-apply":
+        const autoApplyProfiles = Array.from(
+          activeProfiles.entries(),
+        ).filter(
+          ([_name, config]) =>
+            (config as unknown as { _autoApply?: boolean })._autoApply ===
+            true,
+        );
+
+        if (autoApplyProfiles.length === 0) {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: "text/plain",
+                text: "No profiles marked for auto-apply",
+              },
+            ],
+          };
+        }
 
-            let combinedInstructions = "# AUTO-APPLIED CONFIGURATION\n\n";
-            combinedInstructions +=
-              "The following behavior profiles have been automatically loaded:\n\n";
-
-            for (const [name, config] of autoApplyProfiles) {
-              const { BehaviorGenerator } = await import(
-                "../utils/behavior-generator.js"
-              );
-              combinedInstructions += `## Profile: ${name}\n\n`;
-              combinedInstructions +=
-                BehaviorGenerator.generateInstructions(config);
-              combinedInstructions += "\n\n---\n\n";
+        let combinedInstructions = "# AUTO-APPLIED CONFIGURATION\n\n";
+        combinedInstructions +=
+          "The following behavior profiles have been automatically loaded:\n\n";
+
+        for (const [name, config] of autoApplyProfiles) {
+          let instructions: string;
+          try {
+            instructions = await BehaviorGenerator.renderInstructions(
+              name,
+              config,
+              {},
+              this.secretManager,
+            );
+          } catch (error) {
+            // Not auto-applied at startup either
+            if (!(error instanceof ProfileTemplateError)) {
+              throw error;
             }
+            this.logger.debug(
+              `[RESOURCES] Skipping auto-apply profile '${name}': ${error.message}`,
+            );
+            continue;
+          }
+          combinedInstructions += `## Profile: ${name}\n\n`;
+          combinedInstructions += instructions;
+          combinedInstructions += "\n\n---\n\n";
+        }
 
-            return {
-              contents: [
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: "text/plain",
+              text: combinedInstructions,
+            },
+          ],
+        };
+
+      case "config://profiles/active":
+        const activeProfileNames = Array.from(activeProfiles.keys());
+        return {
+          contents: [
+            {
+              uri,
+              mimeType: "application/json",
+              text: JSON.stringify(
                 {
-                  uri,
-                  mimeType: "text/plain",
-                  text: combinedInstructions,
+                  totalActiveProfiles: activeProfileNames.length,
+                  activeProfiles: activeProfileNames,
                 },
-              ],
-            };
+                null,
+                2,
+              ),
+            },
+          ],
+        };
+
+      case "engineering-guide://files":
+        try {
+          const files =
+            await this.githubResourceManager.getEngineeringGuide();
+          const fileList = files.map((file) => ({
+            name: file.name,
+            path: file.path,
+            size: file.size,
+            uri: `engineering-guide://file/${encodeURIComponent(file.path)}`,
+          }));
+
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: "application/json",
+                text: JSON.stringify(
+                  {
+                    totalFiles: fileList.length,
+                    repository: "reivosar/claude-code-engineering-guide",
+                    branch: "master",
+                    path: "markdown",
+                    files: fileList,
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: "application/json",
+                text: JSON.stringify(
+                  {
+                    error: `Failed to fetch engineering guide files: ${error}`,
+                    repository: "reivosar/claude-code-engineering-guide",
+                  },
+                  null,
+                  2,
+                ),
+              },
+            ],
+          };
+        }
 
-          case "config://profiles/active":
-            const activeProfileNames = Array.from(this.activeProfiles.keys());
+      case "engineering-guide://combined":
+        try {
+          const files =
+            await this.githubResourceManager.getEngineeringGuide();
+          let combinedContent = "# Claude Code Engineering Guide\n\n";
+          combinedContent +=
+            "This is a combined view of all engineering guide documents.\n\n";
+          combinedContent += "---\n\n";
+
+          for (const file of files) {
+            combinedContent += `## ${file.name}\n\n`;
+            combinedContent += `**Path:** ${file.path}\n\n`;
+            combinedContent += file.content;
+            combinedContent += "\n\n---\n\n";
+          }
+
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: "text/markdown",
+                text: combinedContent,
+              },
+            ],
+          };
+        } catch (error) {
+          return {
+            contents: [
+              {
+                uri,
+                mimeType: "text/markdown",
+                text: `# Engineering Guide Error\n\nFailed to fetch engineering guide content: ${error}`,
+              },
+            ],
+          };
+        }
+
+      default:
+        const profileMatch = uri.match(
+          /^config:\/\/profile\/active\/(.+)$/,
+        );
+        if (profileMatch) {
+          const profileName = profileMatch[1];
+          const config = activeProfiles.get(profileName);
+
+          if (config) {
             return {
               contents: [
                 {
                   uri,
                   mimeType: "application/json",
-                  text: JSON.stringify(
-                    {
-                      totalActiveProfiles: activeProfileNames.length,
-                      activeProfiles: activeProfileNames,
-                    },
-                    null,
-                    2,
-                  ),
+                  text: JSON.stringify(config, null, 2),
                 },
               ],
             };
+          }
+        }
 
-          case "engineering-guide://files":
-            try {
-              const files =
-                await this.githubResourceManager.getEngineeringGuide();
-              const fileList = files.map((file) => ({
-                name: file.name,
-                path: file.path,
-                size: file.size,
-                uri: `engineering-guide://file/${encodeURIComponent(file.path)}`,
-              }));
-
-              return {
-                contents: [
-                  {
-                    uri,
-                    mimeType: "application/json",
-                    text: JSON.stringify(
-                      {
-                        totalFiles: fileList.length,
-                        repository: "reivosar/claude-code-engineering-guide",
-                        branch: "master",
-                        path: "markdown",
-                        files: fileList,
-                      },
-                      null,
-                      2,
-                    ),
-                  },
-                ],
-              };
-            } catch (error) {
-              return {
-                contents: [
-                  {
-                    uri,
-                    mimeType: "application/json",
-                    text: JSON.stringify(
-                      {
-                        error: `Failed to fetch engineering guide files: ${error}`,
-                        repository: "reivosar/claude-code-engineering-guide",
-                      },
-                      null,
-                      2,
-                    ),
-                  },
-                ],
-              };
-            }
-
-          case "engineering-guide://combined":
-            try {
-              const files =
-                await this.githubResourceManager.getEngineeringGuide();
-              let combinedContent = "# Claude Code Engineering Guide\n\n";
-              combinedContent +=
-                "This is a combined view of all engineering guide documents.\n\n";
-              combinedContent += "---\n\n";
-
-              for (const file of files) {
-                combinedContent += `## ${file.name}\n\n`;
-                combinedContent += `**Path:** ${file.path}\n\n`;
-                combinedContent += file.content;
-                combinedContent += "\n\n---\n\n";
-              }
+        const fileMatch = uri.match(/^engineering-guide:\/\/file\/(.+)$/);
+        if (fileMatch) {
+          try {
+            const filePath = decodeURIComponent(fileMatch[1]);
+            const files =
+              await this.githubResourceManager.getEngineeringGuide();
+            const file = files.find((f) => f.path === filePath);
 
+            if (file) {
               return {
                 contents: [
                   {
                     uri,
                     mimeType: "text/markdown",
-                    text: combinedContent,
-                  },
-                ],
-              };
-            } catch (error) {
-              return {
-                contents: [
-                  {
-                    uri,
-                    mimeType: "text/markdown",
-                    text: `# Engineering Guide Error\n\nFailed to fetch engineering guide content: ${error}`,
+                    text: file.content,
                   },
                 ],
               };
             }
+          } catch (error) {
+            return {
+              contents: [
+                {
+                  uri,
+                  mimeType: "text/markdown",
+                  text: `# Error\n\nFailed to fetch file: ${error}`,
+                },
+              ],
+            };
+          }
+        }
 
-          default:
-            const profileMatch = uri.match(
-              /^config:\/\/profile\/active\/(.+)$/,
+        if (this.proxyManager) {
+          try {
+            const result = await this.proxyManager.readResource(
+              uri,
+              sessionId,
             );
-            if (profileMatch) {
-              const profileName = profileMatch[1];
-              const config = this.activeProfiles.get(profileName);
-
-              if (config) {
-                return {
-                  contents: [
-                    {
-                      uri,
-                      mimeType: "application/json",
-                      text: JSON.stringify(config, null, 2),
-                    },
-                  ],
-                };
-              }
-            }
-
-            const fileMatch = uri.match(/^engineering-guide:\/\/file\/(.+)$/);
-            if (fileMatch) {
-              try {
-                const filePath = decodeURIComponent(fileMatch[1]);
-                const files =
-                  await this.githubResourceManager.getEngineeringGuide();
-                const file = files.find((f) => f.path === filePath);
-
-                if (file) {
-                  return {
-                    contents: [
-                      {
-                        uri,
-                        mimeType: "text/markdown",
-                        text: file.content,
-                      },
-                    ],
-                  };
-                }
-              } catch (error) {
-                return {
-                  contents: [
-                    {
-                      uri,
-                      mimeType: "text/markdown",
-                      text: `# Error\n\nFailed to fetch file: ${error}`,
-                    },
-                  ],
-                };
-              }
-            }
-
-            if (this.proxyManager) {
-              try {
-                const result = await this.proxyManager.readResource(uri);
-                return result;
-              } catch (error) {
-                this.logger.debug(
-                  `Error reading proxied resource ${uri}:`,
-                  error,
-                );
-              }
-            }
-
-            throw new Error(`Unknown resource: ${uri}`);
+            return result;
+          } catch (error) {
+            this.logger.debug(
+              `Error reading proxied resource ${uri}:`,
+              error,
+            );
+          }
         }
-      },
-    );
+
+        throw new Error(`Unknown resource: ${uri}`);
+    }
   }
 }
@@ -0,0 +1,489 @@
+/**
+ * Access policy for MCP requests.
+ * Identifies who is calling tools/call, resources/read and prompts/get, checks
+ * their RBAC permissions and quotas, and records every decision in the audit
+ * log. Prompts are checked like resources, by their exposed name.
+ */
+
+import { timingSafeEqual } from "crypto";
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import { Permission, RBACManager, ResourceQuotas } from "./rbac.js";
+import {
+  AuditEvent,
+  AuditEventType,
+  AuditSeverity,
+  GlobalAuditLogger,
+} from "./audit-logging.js";
+import { PolicyEvaluator, PolicyFile } from "./policy-file.js";
+import { ILogger, SilentLogger } from "../utils/logger.js";
+import { ClientSession } from "../server/sessions.js";
+
+/** JSON-RPC error code returned when the caller lacks a permission */
+export const ACCESS_DENIED_ERROR_CODE = -32003;
+/** JSON-RPC error code returned when the caller ran out of quota */
+export const QUOTA_EXCEEDED_ERROR_CODE = -32004;
+
+export const ANONYMOUS_IDENTITY_ID = "anonymous";
+
+export type IdentitySource = "stdio" | "bearer" | "mtls" | "anonymous";
+
+export interface IdentityConfig {
+  id: string;
+  roles: string[];
+  token?: string;
+  tokenEnv?: string;
+  certSubjects?: string[];
+  quotas?: ResourceQuotas;
+}
+
+export interface AccessControlConfig {
+  enabled?: boolean;
+  /** Identity of the local stdio client */
+  defaultIdentity?: { id?: string; roles?: string[] };
+  /** Roles for HTTP clients that present no credentials */
+  anonymousRoles?: string[];
+  identities?: IdentityConfig[];
+  /** Declarative policy file, relative to omni-config.yaml */
+  policyFile?: string;
+}
+
+export interface CallerContext {
+  transport: ClientSession["transport"];
+  sessionId?: string;
+  authorization?: string;
+  clientCertSubject?: string;
+  remoteAddress?: string;
+}
+
+export interface CallerIdentity {
+  id: string;
+  source: IdentitySource;
+  roles: string[];
+}
+
+export interface AccessRequest {
+  method: "tools/call" | "resources/read" | "prompts/get";
+  /** Tool name, resource URI or prompt name */
+  target: string;
+  /** External server providing the target, if proxied */
+  server?: string;
+  permission: Pick<Permission, "resource" | "action">;
+  /** Profile(s) an apply_claude_config or stack call would apply */
+  profile?: string | string[];
+}
+
+export interface AccessDecision {
+  allowed: boolean;
+  /** What decided: a policy file rule, a role permission, or nothing matched */
+  source: "policy" | "role" | "none";
+  /** Name of the policy rule or granting role */
+  rule?: string;
+}
+
+/** Permissions for the hub's own tools; proxied tools need tools:execute */
+export const LOCAL_TOOL_PERMISSIONS: Record<
+  string,
+  AccessRequest["permission"]
+> = {
+  apply_claude_config: { resource: "profiles", action: "switch" },
+  list_claude_configs: { resource: "profiles", action: "read" },
+  get_applied_config: { resource: "profiles", action: "read" },
+  push_profile_layer: { resource: "profiles", action: "switch" },
+  pop_profile_layer: { resource: "profiles", action: "switch" },
+  reorder_profile_layers: { resource: "profiles", action: "switch" },
+  set_profile_layer_enabled: { resource: "profiles", action: "switch" },
+  rollback_profile: { resource: "profiles", action: "switch" },
+  diff_claude_configs: { resource: "profiles", action: "read" },
+};
+
+/**
+ * Permission a tool call needs; own keys only, so a tool named like an
+ * Object.prototype member is not mistaken for a hub tool
+ */
+export function getToolPermission(tool: string): AccessRequest["permission"] {
+  return Object.hasOwn(LOCAL_TOOL_PERMISSIONS, tool)
+    ? LOCAL_TOOL_PERMISSIONS[tool]
+    : { resource: "tools", action: "execute" };
+}
+
+export type AuditSink = {
+  logEvent(event: Omit<AuditEvent, "id" | "timestamp">): Promise<void>;
+};
+
+interface RequestExtraLike {
+  requestInfo?: { headers: Record<string, string | string[] | undefined> };
+}
+
+/**
+ * Build the caller context for a request from its session and HTTP headers
+ */
+export function getCallerContext(
+  session: ClientSession,
+  extra?: RequestExtraLike,
+): CallerContext {
+  const header = extra?.requestInfo?.headers?.authorization;
+  return {
+    transport: session.transport,
+    sessionId: session.id,
+    authorization: Array.isArray(header) ? header[0] : header,
+    clientCertSubject: session.clientCertSubject,
+    remoteAddress: session.remoteAddress,
+  };
+}
+
+export class AccessPolicy {
+  private config: AccessControlConfig = {};
+  private rbac: RBACManager;
+  private audit?: AuditSink;
+  private logger: ILogger;
+  private defaultIdentity!: CallerIdentity;
+  private registeredUsers: string[] = [];
+  private policy?: PolicyEvaluator;
+
+  constructor(
+    config: AccessControlConfig = {},
+    rbac?: RBACManager,
+    audit?: AuditSink,
+    logger?: ILogger,
+  ) {
+    this.rbac = rbac || new RBACManager();
+    this.audit = audit;
+    this.logger = logger || new SilentLogger();
+    this.configure(config);
+  }
+
+  /**
+   * Apply (or re-apply) the access control section of omni-config.yaml
+   */
+  configure(config: AccessControlConfig): void {
+    for (const id of this.registeredUsers) {
+      this.rbac.removeUser(id);
+    }
+
+    this.config = config;
+    this.defaultIdentity = {
+      id: config.defaultIdentity?.id || "local",
+      source: "stdio",
+      roles: config.defaultIdentity?.roles || ["admin"],
+    };
+
+    const users = [
+      { id: this.defaultIdentity.id, roles: this.defaultIdentity.roles },
+      { id: ANONYMOUS_IDENTITY_ID, roles: config.anonymousRoles || [] },
+      ...(config.identities || []).map(({ id, roles, quotas }) => ({
+        id,
+        roles,
+        quotas,
+      })),
+    ];
+    for (const user of users) {
+      this.rbac.addUser(user);
+    }
+    this.registeredUsers = users.map((user) => user.id);
+
+    this.logger.debug(
+      `[ACCESS-POLICY] ${config.enabled ? "Enforcing" : "Disabled"} with ${users.length} identities`,
+    );
+  }
+
+  isEnabled(): boolean {
+    return this.config.enabled === true;
+  }
+
+  getRBACManager(): RBACManager {
+    return this.rbac;
+  }
+
+  /**
+   * Whether deciding the caller's requests depends on the profiles they
+   * switch to: only policy file rules check profiles, and a caller with an
+   * unrecognized token is denied regardless
+   */
+  checksProfiles(caller: CallerContext): boolean {
+    return (
+      this.isEnabled() && !!this.policy && this.resolveIdentity(caller) !== null
+    );
+  }
+
+  /**
+   * Install (or clear) the declarative policy evaluated before role permissions
+   */
+  setPolicy(policy?: PolicyFile): void {
+    this.policy = policy ? new PolicyEvaluator(policy) : undefined;
+    this.logger.debug(
+      `[ACCESS-POLICY] ${policy ? `Loaded ${policy.rules.length} policy rules` : "Policy file cleared"}`,
+    );
+  }
+
+  /**
+   * Configured identity by id, including the default and anonymous identities
+   */
+  getIdentity(id: string): CallerIdentity | undefined {
+    if (id === this.defaultIdentity.id) {
+      return this.defaultIdentity;
+    }
+    if (id === ANONYMOUS_IDENTITY_ID) {
+      return {
+        id,
+        source: "anonymous",
+        roles: this.config.anonymousRoles || [],
+      };
+    }
+    const identity = this.config.identities?.find(
+      (candidate) => candidate.id === id,
+    );
+    if (!identity) {
+      return undefined;
+    }
+    return {
+      id,
+      source: identity.token || identity.tokenEnv ? "bearer" : "mtls",
+      roles: identity.roles,
+    };
+  }
+
+  /**
+   * Identify the caller; returns null when the presented bearer token is unknown
+   */
+  resolveIdentity(caller: CallerContext): CallerIdentity | null {
+    if (caller.transport === "stdio") {
+      return this.defaultIdentity;
+    }
+
+    const identities = this.config.identities || [];
+
+    if (caller.authorization) {
+      const match = /^Bearer\s+(.+)$/i.exec(caller.authorization.trim());
+      const token = match?.[1];
+      const identity =
+        token &&
+        identities.find((candidate) => {
+          const expected =
+            candidate.token ||
+            (candidate.tokenEnv ? process.env[candidate.tokenEnv] : undefined);
+          return !!expected && tokensEqual(expected, token);
+        });
+      return identity
+        ? { id: identity.id, source: "bearer", roles: identity.roles }
+        : null;
+    }
+
+    if (caller.clientCertSubject) {
+      const identity = identities.find((candidate) =>
+        candidate.certSubjects?.includes(caller.clientCertSubject!),
+      );
+      if (identity) {
+        return { id: identity.id, source: "mtls", roles: identity.roles };
+      }
+    }
+
+    return {
+      id: ANONYMOUS_IDENTITY_ID,
+      source: "anonymous",
+      roles: this.config.anonymousRoles || [],
+    };
+  }
+
+  /**
+   * Whether an identity may perform a request
+   */
+  isAllowed(identityId: string, request: AccessRequest): boolean {
+    return this.decide(identityId, request).allowed;
+  }
+
+  /**
+   * Decide a request. The first matching policy file rule wins (for profile
+   * switches the profile is checked before the tool; with several profiles
+   * any denied one decides, and they allow only if every one is allowed by a
+   * rule); otherwise a role must
+   * grant the permission. A proxied target is also granted by a permission
+   * on `server:<name>` or `tool:<name>` / `resource:<uri>` with the same
+   * action; permission conditions are checked against the target name.
+   */
+  decide(identityId: string, request: AccessRequest): AccessDecision {
+    if (this.policy) {
+      const subject = {
+        id: identityId,
+        roles: this.rbac.getEffectiveRoles(identityId),
+      };
+      const profiles = ([] as string[]).concat(request.profile ?? []);
+      const decisions = profiles.map((name) =>
+        this.policy!.evaluate(subject, { kind: "profile", name }),
+      );
+      const profileDecision =
+        decisions.find((decision) => decision?.effect === "deny") ??
+        (decisions.every(Boolean) ? decisions[0] : undefined);
+      const decision =
+        profileDecision ??
+        this.policy.evaluate(subject, {
+          kind: request.method === "tools/call" ? "tool" : "resource",
+          name: request.target,
+        });
+      if (decision) {
+        return {
+          allowed: decision.effect === "allow",
+          source: "policy",
+          rule: decision.rule.name,
+        };
+      }
+    }
+
+    const { resource, action } = request.permission;
+    const candidates = [resource];
+    if (request.server) {
+      const kind = request.method === "tools/call" ? "tool" : "resource";
+      candidates.push(`server:${request.server}`, `${kind}:${request.target}`);
+    }
+    for (const candidate of candidates) {
+      const role = this.rbac.getGrantingRole(identityId, candidate, action, {
+        toolName: request.target,
+      });
+      if (role) {
+        return { allowed: true, source: "role", rule: role };
+      }
+    }
+    return { allowed: false, source: "none" };
+  }
+
+  /**
+   * Run a request on behalf of the caller, enforcing permissions and quotas.
+   * Denials are thrown as MCP errors; every decision is audited.
+   */
+  async run<T>(
+    caller: CallerContext,
+    request: AccessRequest,
+    handler: () => Promise<T>,
+  ): Promise<T> {
+    if (!this.isEnabled()) {
+      return handler();
+    }
+
+    const resolved = this.resolveIdentity(caller);
+    const identity: CallerIdentity = resolved || {
+      id: ANONYMOUS_IDENTITY_ID,
+      source: "bearer",
+      roles: [],
+    };
+    const { id } = identity;
+
+    if (!resolved) {
+      await this.deny(
+        caller,
+        request,
+        identity,
+        "invalid_token",
+        ACCESS_DENIED_ERROR_CODE,
+        "Access denied: unrecognized bearer token",
+      );
+    }
+
+    const decision = this.decide(id, request);
+    if (!decision.allowed) {
+      const { resource, action } = request.permission;
+      await this.deny(
+        caller,
+        request,
+        identity,
+        decision.source === "policy" ? "policy" : "permission",
+        ACCESS_DENIED_ERROR_CODE,
+        decision.source === "policy"
+          ? `Access denied: policy rule '${decision.rule}' denies ${request.target} for '${id}'`
+          : `Access denied: '${id}' lacks ${resource}:${action} for ${request.target}`,
+        decision.rule,
+      );
+    }
+
+    const usage =
+      request.method === "tools/call" ? "tool_execution" : "resource_access";
+    if (
+      !this.rbac.checkQuota(id, "request") ||
+      !this.rbac.checkQuota(id, usage)
+    ) {
+      await this.deny(
+        caller,
+        request,
+        identity,
+        "quota",
+        QUOTA_EXCEEDED_ERROR_CODE,
+        `Quota exceeded for '${id}'`,
+      );
+    }
+
+    await this.record(
+      caller,
+      request,
+      identity,
+      "allow",
+      "granted",
+      decision.rule,
+    );
+
+    this.rbac.recordUsage(id, "request_start");
+    this.rbac.recordUsage(id, usage);
+    try {
+      return await handler();
+    } finally {
+      this.rbac.recordUsage(id, "request_end");
+    }
+  }
+
+  private async deny(
+    caller: CallerContext,
+    request: AccessRequest,
+    identity: CallerIdentity,
+    reason: string,
+    code: number,
+    message: string,
+    rule?: string,
+  ): Promise<never> {
+    await this.record(caller, request, identity, "deny", reason, rule);
+    this.logger.warn(`[ACCESS-POLICY] ${message}`);
+    throw new McpError(code, message, {
+      identity: identity.id,
+      permission: `${request.permission.resource}:${request.permission.action}`,
+      target: request.target,
+      reason,
+      rule,
+    });
+  }
+
+  private async record(
+    caller: CallerContext,
+    request: AccessRequest,
+    identity: CallerIdentity,
+    decision: "allow" | "deny",
+    reason: string,
+    rule?: string,
+  ): Promise<void> {
+    const audit = this.audit || (this.audit = GlobalAuditLogger.getInstance());
+    try {
+      await audit.logEvent({
+        eventType: AuditEventType.AUTHORIZATION,
+        userId: identity.id,
+        sessionId: caller.sessionId,
+        resourceId: request.target,
+        action: request.method,
+        details: {
+          decision,
+          reason,
+          rule,
+          source: identity.source,
+          roles: identity.roles,
+          server: request.server,
+          permission: `${request.permission.resource}:${request.permission.action}`,
+        },
+        severity:
+          decision === "allow" ? AuditSeverity.LOW : AuditSeverity.MEDIUM,
+        source: "access-policy",
+      });
+    } catch (error) {
+      this.logger.error("[ACCESS-POLICY] Failed to audit decision:", error);
+    }
+  }
+}
+
+function tokensEqual(expected: string, actual: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(actual);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
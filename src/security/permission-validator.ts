@@ -61,7 +61,17 @@ export class PermissionValidator extends EventEmitter {
   }
 
   public validateToolAccess(context: ValidationContext): ValidationResult {
-    const config = this.getPermissions(context.profileName);
+    return this.evaluate(this.getPermissions(context.profileName), context);
+  }
+
+  /**
+   * Check a request against an explicit permission config (e.g. the
+   * conditions attached to an RBAC permission) instead of a stored profile
+   */
+  public evaluate(
+    config: PermissionConfig,
+    context: ValidationContext,
+  ): ValidationResult {
     const toolId = context.toolName;
     const warnings: string[] = [];
 
@@ -0,0 +1,233 @@
+/**
+ * Declarative access policy files.
+ * A policy is an ordered list of allow/deny rules over proxied tools,
+ * resource URIs and profiles. The first matching rule decides; requests no
+ * rule matches fall through to role permissions.
+ *
+ * ```yaml
+ * version: 1
+ * rules:
+ *   - name: no-deletes
+ *     effect: deny
+ *     tools: ["*delete*"]
+ *   - name: ci-serena
+ *     effect: allow
+ *     identities: ["ci-bot"]
+ *     tools: ["serena__*"]
+ *     conditions:
+ *       readOnlyMode: true
+ * ```
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import { matchesPattern } from "./rbac.js";
+import {
+  PermissionConfig,
+  PermissionValidator,
+} from "./permission-validator.js";
+
+export const POLICY_FILE_VERSION = 1;
+
+export type PolicyEffect = "allow" | "deny";
+
+export interface PolicyRule {
+  name: string;
+  effect: PolicyEffect;
+  description?: string;
+  /** Identity ids the rule applies to ("*" for everyone) */
+  identities?: string[];
+  /** Roles, including inherited ones, the rule applies to */
+  roles?: string[];
+  /** Tool name patterns */
+  tools?: string[];
+  /** Resource URI patterns */
+  resources?: string[];
+  /** Profile name or path patterns for apply_claude_config */
+  profiles?: string[];
+  /** Permission rules the request must also satisfy for the rule to match */
+  conditions?: PermissionConfig;
+}
+
+export interface PolicyFile {
+  version: number;
+  rules: PolicyRule[];
+}
+
+export type PolicyTargetKind = "tool" | "resource" | "profile";
+
+export interface PolicyTarget {
+  kind: PolicyTargetKind;
+  name: string;
+  methodName?: string;
+}
+
+export interface PolicySubject {
+  id: string;
+  roles: string[];
+}
+
+export interface PolicyDecision {
+  effect: PolicyEffect;
+  rule: PolicyRule;
+}
+
+const TARGET_FIELDS: Record<PolicyTargetKind, keyof PolicyRule> = {
+  tool: "tools",
+  resource: "resources",
+  profile: "profiles",
+};
+
+const LIST_FIELDS = [
+  "identities",
+  "roles",
+  "tools",
+  "resources",
+  "profiles",
+] as const;
+
+/**
+ * Parse and validate a policy document; `source` prefixes error messages
+ */
+export function parsePolicy(content: string, source = "policy"): PolicyFile {
+  let data: unknown;
+  try {
+    data = yaml.load(content);
+  } catch (error) {
+    throw new Error(`${source}: invalid YAML: ${(error as Error).message}`);
+  }
+
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error(`${source}: expected a mapping with a 'rules' list`);
+  }
+
+  const { version = POLICY_FILE_VERSION, rules } = data as {
+    version?: unknown;
+    rules?: unknown;
+  };
+  if (version !== POLICY_FILE_VERSION) {
+    throw new Error(`${source}: unsupported policy version '${version}'`);
+  }
+  if (!Array.isArray(rules)) {
+    throw new Error(`${source}: 'rules' must be a list`);
+  }
+
+  const names = new Set<string>();
+  rules.forEach((rule: Partial<PolicyRule>, index) => {
+    const where = `${source}: rules[${index}]`;
+    if (!rule || typeof rule !== "object") {
+      throw new Error(`${where} must be a mapping`);
+    }
+    if (typeof rule.name !== "string" || !rule.name) {
+      throw new Error(`${where}.name is required`);
+    }
+    if (names.has(rule.name)) {
+      throw new Error(`${where}.name '${rule.name}' is already used`);
+    }
+    names.add(rule.name);
+    if (rule.effect !== "allow" && rule.effect !== "deny") {
+      throw new Error(`${where}.effect must be 'allow' or 'deny'`);
+    }
+    for (const field of LIST_FIELDS) {
+      const value = rule[field];
+      if (
+        value !== undefined &&
+        (!Array.isArray(value) ||
+          value.some((entry) => typeof entry !== "string"))
+      ) {
+        throw new Error(`${where}.${field} must be a list of strings`);
+      }
+    }
+    if (
+      rule.conditions !== undefined &&
+      (typeof rule.conditions !== "object" || Array.isArray(rule.conditions))
+    ) {
+      throw new Error(`${where}.conditions must be a mapping`);
+    }
+  });
+
+  return { version: POLICY_FILE_VERSION, rules: rules as PolicyRule[] };
+}
+
+/**
+ * Read a policy file; relative paths resolve against `baseDir`
+ */
+export async function loadPolicyFile(
+  filePath: string,
+  baseDir: string = process.cwd(),
+): Promise<PolicyFile> {
+  const resolved = path.resolve(baseDir, filePath);
+  let content: string;
+  try {
+    content = await fs.readFile(resolved, "utf-8");
+  } catch (error) {
+    throw new Error(
+      `Cannot read policy file ${resolved}: ${(error as Error).message}`,
+    );
+  }
+  return parsePolicy(content, resolved);
+}
+
+export class PolicyEvaluator {
+  private policy: PolicyFile;
+  private validator: PermissionValidator;
+
+  constructor(policy: PolicyFile, validator?: PermissionValidator) {
+    this.policy = policy;
+    this.validator = validator || new PermissionValidator();
+  }
+
+  getRules(): PolicyRule[] {
+    return this.policy.rules;
+  }
+
+  /**
+   * First rule matching the subject and target, if any
+   */
+  evaluate(
+    subject: PolicySubject,
+    target: PolicyTarget,
+  ): PolicyDecision | undefined {
+    const rule = this.policy.rules.find((candidate) =>
+      this.matches(candidate, subject, target),
+    );
+    return rule ? { effect: rule.effect, rule } : undefined;
+  }
+
+  private matches(
+    rule: PolicyRule,
+    subject: PolicySubject,
+    target: PolicyTarget,
+  ): boolean {
+    const scoped = rule.identities || rule.roles;
+    if (
+      scoped &&
+      !rule.identities?.some((id) => matchesPattern(subject.id, id)) &&
+      !rule.roles?.some((role) => subject.roles.includes(role))
+    ) {
+      return false;
+    }
+
+    // A rule without any target list applies to every target
+    const targeted = Object.values(TARGET_FIELDS).some(
+      (field) => rule[field] !== undefined,
+    );
+    if (targeted) {
+      const patterns = rule[TARGET_FIELDS[target.kind]] as string[] | undefined;
+      if (!patterns?.some((pattern) => matchesPattern(target.name, pattern))) {
+        return false;
+      }
+    }
+
+    return (
+      !rule.conditions ||
+      this.validator.evaluate(rule.conditions, {
+        userId: subject.id,
+        profileName: `policy:${rule.name}`,
+        toolName: target.name,
+        methodName: target.methodName,
+      }).allowed
+    );
+  }
+}
@@ -0,0 +1,237 @@
+/**
+ * Signature checks for profiles activated by apply_claude_config.
+ * A profile is signed by a detached `<profile>.sig` file or by a signature
+ * comment appended to it, which is left out of the signed content:
+ *
+ * ```markdown
+ * <!-- omni-signature: {"signature":"...","metadata":{...}} -->
+ * ```
+ *
+ * In `warn` mode unsigned or tampered profiles are applied with a warning;
+ * in `enforce` mode they are refused.
+ */
+
+import * as crypto from "crypto";
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  ProfileSignatureVerifier,
+  SignatureMetadata,
+  VerificationResult,
+} from "./signature-verification.js";
+import { ILogger, SilentLogger } from "../utils/logger.js";
+
+export type ProfileSigningMode = "off" | "warn" | "enforce";
+
+export const PROFILE_SIGNING_MODES: ProfileSigningMode[] = [
+  "off",
+  "warn",
+  "enforce",
+];
+
+export interface ProfileSignature {
+  signature: string;
+  metadata: SignatureMetadata;
+}
+
+export interface ProfileVerification extends VerificationResult {
+  /** Where the signature came from; "none" for unsigned profiles */
+  source: "embedded" | "detached" | "none";
+}
+
+export class ProfileSignatureError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+  ) {
+    super(message);
+    this.name = "ProfileSignatureError";
+  }
+}
+
+const EMBEDDED_SIGNATURE = /(?:^|\n)<!-- omni-signature: (.*) -->(?:\n|$)/;
+
+const KEY_ALGORITHMS: Record<string, string> = {
+  rsa: "RSA-SHA256",
+  ec: "ECDSA-SHA256",
+  ed25519: "Ed25519",
+};
+
+/**
+ * Split a profile into its signed content and embedded signature, if any
+ */
+export function extractEmbeddedSignature(content: string): {
+  content: string;
+  signature?: ProfileSignature;
+} {
+  const match = content.match(EMBEDDED_SIGNATURE);
+  if (!match) {
+    return { content };
+  }
+  // Text added after the signature line stays part of the signed content
+  return {
+    content:
+      content.slice(0, match.index) +
+      content.slice(match.index! + match[0].length),
+    signature: JSON.parse(match[1]) as ProfileSignature,
+  };
+}
+
+/**
+ * Append a signature comment, replacing any existing one
+ */
+export function embedSignature(
+  content: string,
+  signature: ProfileSignature,
+): string {
+  const unsigned = extractEmbeddedSignature(content).content;
+  return `${unsigned}\n<!-- omni-signature: ${JSON.stringify(signature)} -->\n`;
+}
+
+/**
+ * Signature algorithm matching a private key's type
+ */
+export function getSignatureAlgorithm(privateKeyPem: string): string {
+  const keyType = crypto.createPrivateKey(privateKeyPem).asymmetricKeyType;
+  const algorithm = keyType && KEY_ALGORITHMS[keyType];
+  if (!algorithm) {
+    throw new Error(`Unsupported signing key type: ${keyType}`);
+  }
+  return algorithm;
+}
+
+/**
+ * Sign a profile's content, ignoring any embedded signature it already has
+ */
+export function signProfileContent(
+  content: string,
+  privateKeyPem: string,
+  keyId: string,
+): ProfileSignature {
+  const { signature, metadata } = new ProfileSignatureVerifier().signProfile(
+    extractEmbeddedSignature(content).content,
+    privateKeyPem,
+    keyId,
+    getSignatureAlgorithm(privateKeyPem),
+  );
+  return { signature, metadata };
+}
+
+export class ProfileSigning {
+  private mode: ProfileSigningMode;
+  private verifier: ProfileSignatureVerifier;
+  private logger: ILogger;
+
+  /**
+   * @param trustedKeysDir Directory of `<keyId>.pub` public keys
+   */
+  constructor(
+    mode: ProfileSigningMode = "off",
+    trustedKeysDir?: string,
+    logger?: ILogger,
+  ) {
+    if (!PROFILE_SIGNING_MODES.includes(mode)) {
+      throw new Error(
+        `Invalid profileSigning mode '${mode}'; expected ${PROFILE_SIGNING_MODES.join(", ")}`,
+      );
+    }
+    this.mode = mode;
+    this.verifier = new ProfileSignatureVerifier(trustedKeysDir);
+    this.logger = logger || new SilentLogger();
+  }
+
+  getMode(): ProfileSigningMode {
+    return this.mode;
+  }
+
+  isEnabled(): boolean {
+    return this.mode !== "off";
+  }
+
+  getTrustedKeyIds(): string[] {
+    return this.verifier.listKeyIds();
+  }
+
+  /**
+   * Verify a profile's embedded or detached signature against the trusted keys
+   */
+  async verify(filePath: string): Promise<ProfileVerification> {
+    const resolved = path.resolve(filePath);
+    let content: string;
+    try {
+      content = await fs.readFile(resolved, "utf-8");
+    } catch (error) {
+      return {
+        isValid: false,
+        source: "none",
+        error: `cannot read profile: ${(error as Error).message}`,
+      };
+    }
+
+    let embedded: ReturnType<typeof extractEmbeddedSignature>;
+    try {
+      embedded = extractEmbeddedSignature(content);
+    } catch {
+      return {
+        isValid: false,
+        source: "embedded",
+        error: "Malformed embedded signature",
+      };
+    }
+    if (embedded.signature) {
+      return {
+        ...this.verifier.verifyProfile({
+          content: embedded.content,
+          ...embedded.signature,
+        }),
+        source: "embedded",
+      };
+    }
+
+    const detached = await fs
+      .access(`${resolved}.sig`)
+      .then(() => true)
+      .catch(() => false);
+    if (!detached) {
+      return {
+        isValid: false,
+        source: "none",
+        error: "no embedded signature or .sig file",
+      };
+    }
+    return { ...this.verifier.verifyFile(resolved), source: "detached" };
+  }
+
+  /**
+   * Check a profile before it is applied: refused with a
+   * ProfileSignatureError under `enforce`, logged under `warn`
+   */
+  async check(filePath: string): Promise<ProfileVerification | undefined> {
+    if (this.mode === "off") {
+      return undefined;
+    }
+
+    const result = await this.verify(filePath);
+    if (result.isValid) {
+      this.logger.debug(
+        `[PROFILE-SIGNING] ${filePath} signed by ${result.metadata?.keyId}`,
+      );
+      return result;
+    }
+
+    const problem =
+      result.source === "none"
+        ? `Profile ${filePath} is not signed: ${result.error}`
+        : `Profile ${filePath} failed signature verification: ${result.error}`;
+    if (this.mode === "enforce") {
+      this.logger.error(`[PROFILE-SIGNING] Refused: ${problem}`);
+      throw new ProfileSignatureError(
+        `${problem} (security.profileSigning is 'enforce')`,
+        filePath,
+      );
+    }
+
+    this.logger.warn(`[PROFILE-SIGNING] ${problem}`);
+    return result;
+  }
+}
@@ -72,6 +72,7 @@ export class RateLimiter extends EventEmitter {
     this.config = this.initializeConfig(config);
 
     this.cleanupInterval = setInterval(() => this.cleanup(), 60000);
+    this.cleanupInterval.unref();
   }
 
   /**
@@ -339,6 +340,7 @@ export class DoSProtection extends EventEmitter {
       () => this.cleanupBlockedIPs(),
       config.blockDuration,
     );
+    this.cleanupInterval.unref();
   }
 
   /**
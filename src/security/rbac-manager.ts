@@ -1,5 +1,23 @@
+/**
+ * @deprecated The RBAC engine lives in `./rbac.js`. This module keeps the
+ * old PermissionConfig-based manager API on top of it so existing code
+ * keeps working unchanged.
+ *
+ * Migrating to `./rbac.js`:
+ * - `createRole(role)` / `deleteRole(name)` -> `addRole(role)` / `removeRole(name)`
+ * - `Role.permissions` (PermissionConfig) -> `Role.toolPermissions`;
+ *   `Role.permissions` there lists resource/action grants
+ * - the `viewer` role is `read-only`
+ * - `UserRole` -> `User` (`userId` -> `id`)
+ * - events use camelCase names (`roleAssigned`, `roleRevoked`, ...)
+ */
+
 import { EventEmitter } from "events";
-import { PermissionConfig, PermissionValidator } from "./permission-validator";
+import {
+  PermissionConfig,
+  PermissionValidator,
+} from "./permission-validator.js";
+import { RBACManager as PolicyEngine, Role as EngineRole } from "./rbac.js";
 
 export interface Role {
   name: string;
@@ -16,284 +34,173 @@ export interface UserRole {
   expiresAt?: Date;
 }
 
+/** Built-in roles in the order the old manager created them */
+const DEFAULT_ROLES = ["viewer", "developer", "reviewer", "admin"];
+
+const PROTECTED_ROLES = ["admin", "viewer"];
+
+/** Old role names that the engine knows under another name */
+const RENAMED_ROLES = new Map([["viewer", "read-only"]]);
+
+function toEngineName(name: string): string {
+  return RENAMED_ROLES.get(name) ?? name;
+}
+
+function fromEngineName(name: string): string {
+  for (const [oldName, newName] of RENAMED_ROLES) {
+    if (newName === name) {
+      return oldName;
+    }
+  }
+  return name;
+}
+
+function fromEngineRole(role: EngineRole): Role {
+  return {
+    name: fromEngineName(role.name),
+    description: role.description,
+    permissions: role.toolPermissions ?? {},
+    inherits: role.inherits?.map(fromEngineName),
+    priority: role.priority ?? 0,
+  };
+}
+
+function toEngineRole(role: Partial<Role>): Partial<EngineRole> {
+  const { permissions, inherits, name, ...rest } = role;
+  return {
+    ...rest,
+    ...(name !== undefined && { name: toEngineName(name) }),
+    ...(inherits !== undefined && { inherits: inherits.map(toEngineName) }),
+    ...(permissions !== undefined && { toolPermissions: permissions }),
+  };
+}
+
+/**
+ * @deprecated Use `RBACManager` from `./rbac.js`
+ */
 export class RBACManager extends EventEmitter {
-  private roles: Map<string, Role> = new Map();
-  private userRoles: Map<string, UserRole> = new Map();
+  private engine: PolicyEngine;
   private validator: PermissionValidator;
 
   constructor(validator: PermissionValidator) {
     super();
     this.validator = validator;
-    this.initializeDefaultRoles();
-  }
-
-  private initializeDefaultRoles(): void {
-    const defaultRoles: Role[] = [
-      {
-        name: "viewer",
-        description: "Read-only access to most resources",
-        permissions: {
-          allowedTools: ["*:read", "*:get", "*:list", "*:search"],
-          deniedTools: ["*:write", "*:delete", "*:create", "*:update"],
-          readOnlyMode: true,
-          maxTokens: 50000,
-        },
-        priority: 10,
-      },
-      {
-        name: "developer",
-        description: "Standard development permissions",
-        permissions: {
-          allowedTools: ["filesystem:*", "git:*", "serena:*"],
-          deniedTools: ["git:push", "*:delete"],
-          sandboxPaths: ["./src", "./tests", "./docs"],
-          maxTokens: 200000,
-        },
-        priority: 50,
-      },
-      {
-        name: "reviewer",
-        description: "Code review and analysis permissions",
-        permissions: {
-          allowedTools: [
-            "filesystem:read",
-            "git:diff",
-            "git:log",
-            "serena:search",
-          ],
-          deniedTools: ["*:write", "*:delete"],
-          sandboxPaths: ["./src", "./tests"],
-          readOnlyMode: true,
-          maxTokens: 100000,
-        },
-        priority: 30,
-      },
-      {
-        name: "admin",
-        description: "Full system access",
-        permissions: {
-          allowedTools: ["*"],
-          deniedTools: [],
-          maxTokens: 1000000,
-        },
-        priority: 100,
-      },
-    ];
-
-    defaultRoles.forEach((role) => {
-      this.roles.set(role.name, role);
-    });
+    this.engine = new PolicyEngine(validator);
+    this.forwardEvents();
 
     this.emit("roles:initialized", {
-      count: defaultRoles.length,
-      roles: defaultRoles.map((r) => r.name),
+      count: DEFAULT_ROLES.length,
+      roles: DEFAULT_ROLES,
     });
   }
 
+  /**
+   * Re-emit the engine's events under the old names and payloads
+   */
+  private forwardEvents(): void {
+    this.engine.on("roleAdded", (role: EngineRole) =>
+      this.emit("role:created", { name: fromEngineName(role.name) }),
+    );
+    this.engine.on("roleUpdated", (role: EngineRole) =>
+      this.emit("role:updated", { name: fromEngineName(role.name) }),
+    );
+    this.engine.on("roleRemoved", (name: string) =>
+      this.emit("role:deleted", { name: fromEngineName(name) }),
+    );
+    this.engine.on(
+      "roleAssigned",
+      (userId: string, role: string, expiresAt?: Date) =>
+        this.emit("role:assigned", {
+          userId,
+          role: fromEngineName(role),
+          expiresAt,
+        }),
+    );
+    this.engine.on("roleRevoked", (userId: string, role: string) =>
+      this.emit("role:revoked", { userId, role: fromEngineName(role) }),
+    );
+    this.engine.on("permissionsCustomized", (userId: string) =>
+      this.emit("permissions:customized", { userId }),
+    );
+    this.engine.on("userExpired", (userId: string) =>
+      this.emit("role:expired", { userId }),
+    );
+    this.engine.on("expiredUsersCleaned", (count: number) =>
+      this.emit("cleanup:expired", { count }),
+    );
+  }
+
   public createRole(role: Role): void {
-    this.roles.set(role.name, role);
-    this.emit("role:created", { name: role.name });
+    this.engine.addRole({
+      ...toEngineRole(role),
+      permissions: [],
+    } as EngineRole);
   }
 
   public updateRole(name: string, updates: Partial<Role>): void {
-    const existing = this.roles.get(name);
-    if (!existing) {
-      throw new Error(`Role '${name}' not found`);
-    }
-
-    const updated = { ...existing, ...updates };
-    this.roles.set(name, updated);
+    const engineName = toEngineName(name);
+    this.engine.updateRole(engineName, toEngineRole(updates));
 
-    this.recomputeUserPermissions(name);
-    this.emit("role:updated", { name });
+    for (const userId of this.getUsersWithRole(engineName)) {
+      this.recomputeUserPermissions(userId);
+    }
   }
 
   public deleteRole(name: string): void {
-    if (!this.roles.has(name)) {
+    const engineName = toEngineName(name);
+    if (!this.engine.getRole(engineName)) {
       throw new Error(`Role '${name}' not found`);
     }
-
-    const protectedRoles = ["admin", "viewer"];
-    if (protectedRoles.includes(name)) {
+    if (PROTECTED_ROLES.includes(name)) {
       throw new Error(`Cannot delete protected role '${name}'`);
     }
 
-    this.roles.delete(name);
-
-    for (const [userId, userRole] of this.userRoles) {
-      if (userRole.roles.includes(name)) {
-        userRole.roles = userRole.roles.filter((r) => r !== name);
-        this.recomputeUserPermissions(userId);
-      }
+    const users = this.getUsersWithRole(engineName);
+    this.engine.removeRole(engineName);
+    for (const userId of users) {
+      this.recomputeUserPermissions(userId);
     }
-
-    this.emit("role:deleted", { name });
   }
 
   public assignRole(userId: string, roleName: string, expiresAt?: Date): void {
-    if (!this.roles.has(roleName)) {
-      throw new Error(`Role '${roleName}' not found`);
-    }
-
-    let userRole = this.userRoles.get(userId);
-    if (!userRole) {
-      userRole = { userId, roles: [] };
-      this.userRoles.set(userId, userRole);
-    }
-
-    if (!userRole.roles.includes(roleName)) {
-      userRole.roles.push(roleName);
-    }
-
-    if (expiresAt) {
-      userRole.expiresAt = expiresAt;
-    }
+    this.engine.assignRole(userId, toEngineName(roleName), expiresAt);
 
     if (!expiresAt || new Date() <= expiresAt) {
       this.recomputeUserPermissions(userId);
     }
-    this.emit("role:assigned", { userId, role: roleName, expiresAt });
   }
 
   public revokeRole(userId: string, roleName: string): void {
-    const userRole = this.userRoles.get(userId);
-    if (!userRole) {
-      return;
-    }
-
-    userRole.roles = userRole.roles.filter((r) => r !== roleName);
+    this.engine.revokeRole(userId, toEngineName(roleName));
 
-    if (userRole.roles.length === 0 && !userRole.customPermissions) {
-      this.userRoles.delete(userId);
-    } else {
+    if (this.engine.getUser(userId)) {
       this.recomputeUserPermissions(userId);
     }
-
-    this.emit("role:revoked", { userId, role: roleName });
   }
 
   public setCustomPermissions(
     userId: string,
-    _permissions: PermissionConfig,
+    permissions: PermissionConfig,
   ): void {
-    let userRole = this.userRoles.get(userId);
-    if (!userRole) {
-      userRole = { userId, roles: [] };
-      this.userRoles.set(userId, userRole);
-    }
-
-    userRole.customPermissions = _permissions;
+    this.engine.setCustomPermissions(userId, permissions);
     this.recomputeUserPermissions(userId);
-    this.emit("permissions:customized", { userId });
   }
 
   public getUserPermissions(userId: string): PermissionConfig {
-    const userRole = this.userRoles.get(userId);
-    if (!userRole) {
-      return this.getDefaultPermissions();
-    }
-
-    if (userRole.expiresAt && new Date() > userRole.expiresAt) {
-      this.cleanupExpiredRole(userId);
-      return this.getDefaultPermissions();
-    }
-
-    const rolePermissions = this.computeRolePermissions(userRole.roles);
-
-    if (userRole.customPermissions) {
-      return this.inheritPermissions(
-        rolePermissions,
-        userRole.customPermissions,
-      );
-    }
-
-    return rolePermissions;
-  }
-
-  private getDefaultPermissions(): PermissionConfig {
-    return {
-      allowedTools: ["*:read", "*:get", "*:list", "*:search"],
-      deniedTools: ["*:write", "*:delete", "*:create", "*:update"],
-      readOnlyMode: true,
-      maxTokens: 50000,
-    };
-  }
-
-  private computeRolePermissions(roleNames: string[]): PermissionConfig {
-    if (roleNames.length === 0) {
-      return this.getDefaultPermissions();
-    }
-
-    const roles = roleNames
-      .map((name) => this.roles.get(name))
-      .filter((role): role is Role => !!role)
-      .sort((a, b) => a.priority - b.priority);
-
-    let basePermissions = this.getDefaultPermissions();
-
-    for (const role of roles) {
-      if (role.inherits && role.inherits.length > 0) {
-        const inheritedPermissions = this.computeRolePermissions(role.inherits);
-        basePermissions = this.inheritPermissions(
-          basePermissions,
-          inheritedPermissions,
-        );
-      }
-
-      basePermissions = this.inheritPermissions(
-        basePermissions,
-        role.permissions,
-      );
-    }
-
-    return basePermissions;
-  }
-
-  private inheritPermissions(
-    base: PermissionConfig,
-    override: PermissionConfig,
-  ): PermissionConfig {
-    return {
-      ...base,
-      ...override,
-      allowedTools: [
-        ...(base.allowedTools || []),
-        ...(override.allowedTools || []),
-      ],
-      deniedTools: [
-        ...(base.deniedTools || []),
-        ...(override.deniedTools || []),
-      ],
-      sandboxPaths: [
-        ...(base.sandboxPaths || []),
-        ...(override.sandboxPaths || []),
-      ],
-    };
-  }
-
-  private recomputeUserPermissions(userId: string): void {
-    const permissions = this.getUserPermissions(userId);
-    this.validator.setProfilePermissions(`user:${userId}`, permissions);
-  }
-
-  private cleanupExpiredRole(userId: string): void {
-    this.userRoles.delete(userId);
-    this.emit("role:expired", { userId });
+    return this.engine.getUserPermissions(userId);
   }
 
   public getUserRoles(userId: string): string[] {
-    const userRole = this.userRoles.get(userId);
-    return userRole ? userRole.roles : [];
+    return (this.engine.getUser(userId)?.roles ?? []).map(fromEngineName);
   }
 
   public listRoles(): Role[] {
-    return Array.from(this.roles.values()).sort(
-      (a, b) => a.priority - b.priority,
-    );
+    return this.engine.listRoles().map(fromEngineRole);
   }
 
   public getRole(name: string): Role | undefined {
-    return this.roles.get(name);
+    const role = this.engine.getRole(toEngineName(name));
+    return role && fromEngineRole(role);
   }
 
   public checkPermission(
@@ -301,65 +208,35 @@ export class RBACManager extends EventEmitter {
     toolName: string,
     methodName?: string,
   ): boolean {
-    const result = this.validator.validateToolAccess({
-      userId,
-      profileName: `user:${userId}`,
-      toolName,
-      methodName,
-    });
-
-    return result.allowed;
+    return this.engine.checkPermission(userId, toolName, methodName);
   }
 
   public getUserStats(): Record<string, unknown> {
-    const now = new Date();
-    const users = Array.from(this.userRoles.values());
-
-    return {
-      totalUsers: users.length,
-      activeUsers: users.filter((u) => !u.expiresAt || u.expiresAt > now)
-        .length,
-      expiredUsers: users.filter((u) => u.expiresAt && u.expiresAt <= now)
-        .length,
-      usersWithCustomPermissions: users.filter((u) => u.customPermissions)
-        .length,
-      roleDistribution: this.getRoleDistribution(),
-    };
-  }
-
-  private getRoleDistribution(): Record<string, number> {
-    const distribution: Record<string, number> = {};
-
-    for (const role of this.roles.keys()) {
-      distribution[role] = 0;
-    }
-
-    for (const userRole of this.userRoles.values()) {
-      for (const role of userRole.roles) {
-        if (distribution[role] !== undefined) {
-          distribution[role]++;
-        }
-      }
+    const stats = this.engine.getUserStats();
+    const roleDistribution: Record<string, number> = {};
+    for (const [role, count] of Object.entries(
+      stats.roleDistribution as Record<string, number>,
+    )) {
+      roleDistribution[fromEngineName(role)] = count;
     }
-
-    return distribution;
+    return { ...stats, roleDistribution };
   }
 
   public cleanupExpiredRoles(): number {
-    const now = new Date();
-    let cleaned = 0;
-
-    for (const [userId, userRole] of this.userRoles) {
-      if (userRole.expiresAt && userRole.expiresAt <= now) {
-        this.cleanupExpiredRole(userId);
-        cleaned++;
-      }
-    }
+    return this.engine.cleanupExpiredRoles();
+  }
 
-    if (cleaned > 0) {
-      this.emit("cleanup:expired", { count: cleaned });
-    }
+  private getUsersWithRole(engineName: string): string[] {
+    return this.engine
+      .exportConfiguration()
+      .users.filter(([, user]) => user.roles.includes(engineName))
+      .map(([userId]) => userId);
+  }
 
-    return cleaned;
+  private recomputeUserPermissions(userId: string): void {
+    this.validator.setProfilePermissions(
+      `user:${userId}`,
+      this.engine.getUserPermissions(userId),
+    );
   }
 }
@@ -1,15 +1,34 @@
+/**
+ * Role-based access control: roles with inheritance, resource-pattern
+ * permissions (optionally guarded by PermissionConfig conditions), tool-level
+ * rules for PermissionValidator, and per-user quotas with usage tracking.
+ */
+
 import { EventEmitter } from "events";
+import {
+  PermissionConfig,
+  PermissionValidator,
+  ValidationContext,
+} from "./permission-validator.js";
 
 export interface Permission {
+  /** Resource name or pattern (`tools`, `server:*`, `tool:serena__*`) */
   resource: string;
   action: string;
-  conditions?: Record<string, unknown>;
+  /** Only grant when the request also passes these tool rules */
+  conditions?: PermissionConfig;
 }
 
 export interface Role {
   name: string;
+  description?: string;
   permissions: Permission[];
+  inherits?: string[];
+  /** Lower priorities are applied first when combining tool permissions */
+  priority?: number;
   quotas?: ResourceQuotas;
+  /** Tool-level rules enforced through PermissionValidator */
+  toolPermissions?: PermissionConfig;
 }
 
 export interface ResourceQuotas {
@@ -26,6 +45,40 @@ export interface User {
   roles: string[];
   profile?: string;
   quotas?: ResourceQuotas;
+  customPermissions?: PermissionConfig;
+  expiresAt?: Date;
+}
+
+/** Request details checked against permission conditions */
+export type PermissionContext = Omit<ValidationContext, "profileName">;
+
+/** `security.rbac` section of omni-config.yaml */
+export interface RBACConfig {
+  roles?: Role[];
+  users?: (Omit<User, "expiresAt"> & { expiresAt?: string | Date })[];
+}
+
+const PROTECTED_ROLES = ["admin", "read-only"];
+
+const DEFAULT_TOOL_PERMISSIONS: PermissionConfig = {
+  allowedTools: ["*:read", "*:get", "*:list", "*:search"],
+  deniedTools: ["*:write", "*:delete", "*:create", "*:update"],
+  readOnlyMode: true,
+  maxTokens: 50000,
+};
+
+/**
+ * Match a value against a pattern where `*` matches any run of characters
+ */
+export function matchesPattern(value: string, pattern: string): boolean {
+  if (pattern === "*") {
+    return true;
+  }
+  const regex = pattern
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${regex}$`).test(value);
 }
 
 export interface UsageStats {
@@ -47,29 +100,62 @@ export class RBACManager extends EventEmitter {
   private roles: Map<string, Role> = new Map();
   private users: Map<string, User> = new Map();
   private usageStats: Map<string, UsageStats> = new Map();
+  /** Users added by the last applyConfig, removed when it is re-applied */
+  private configuredUsers: string[] = [];
+
+  private validator: PermissionValidator;
 
   private defaultRoles: Role[] = [
     {
       name: "read-only",
+      description: "Read-only access to resources and profiles",
       permissions: [
         { resource: "resources", action: "read" },
         { resource: "profiles", action: "read" },
       ],
+      priority: 10,
       quotas: {
         maxRequestsPerMinute: 60,
         maxRequestsPerHour: 1000,
         maxRequestsPerDay: 10000,
         maxConcurrentRequests: 5,
       },
+      toolPermissions: DEFAULT_TOOL_PERMISSIONS,
+    },
+    {
+      name: "reviewer",
+      description: "Code review and analysis permissions",
+      inherits: ["read-only"],
+      permissions: [
+        {
+          resource: "tools",
+          action: "execute",
+          conditions: { readOnlyMode: true },
+        },
+      ],
+      priority: 30,
+      toolPermissions: {
+        allowedTools: [
+          "filesystem:read",
+          "git:diff",
+          "git:log",
+          "serena:search",
+        ],
+        deniedTools: ["*:write", "*:delete"],
+        sandboxPaths: ["./src", "./tests"],
+        readOnlyMode: true,
+        maxTokens: 100000,
+      },
     },
     {
       name: "developer",
+      description: "Standard development permissions",
+      inherits: ["read-only"],
       permissions: [
-        { resource: "resources", action: "read" },
         { resource: "tools", action: "execute" },
-        { resource: "profiles", action: "read" },
         { resource: "profiles", action: "switch" },
       ],
+      priority: 50,
       quotas: {
         maxRequestsPerMinute: 120,
         maxRequestsPerHour: 5000,
@@ -77,10 +163,18 @@ export class RBACManager extends EventEmitter {
         maxConcurrentRequests: 10,
         maxToolExecutions: 1000,
       },
+      toolPermissions: {
+        allowedTools: ["filesystem:*", "git:*", "serena:*"],
+        deniedTools: ["git:push", "*:delete"],
+        sandboxPaths: ["./src", "./tests", "./docs"],
+        maxTokens: 200000,
+      },
     },
     {
       name: "admin",
+      description: "Full system access",
       permissions: [{ resource: "*", action: "*" }],
+      priority: 100,
       quotas: {
         maxRequestsPerMinute: 300,
         maxRequestsPerHour: 10000,
@@ -89,14 +183,20 @@ export class RBACManager extends EventEmitter {
         maxResourceAccess: 10000,
         maxToolExecutions: 5000,
       },
+      toolPermissions: {
+        allowedTools: ["*"],
+        deniedTools: [],
+        maxTokens: 1000000,
+      },
     },
   ];
 
-  constructor() {
+  constructor(validator?: PermissionValidator) {
     super();
+    this.validator = validator || new PermissionValidator();
     this.initializeDefaultRoles();
 
-    setInterval(() => this.cleanupExpiredStats(), 60 * 1000);
+    setInterval(() => this.cleanupExpiredStats(), 60 * 1000).unref();
   }
 
   private initializeDefaultRoles(): void {
@@ -110,9 +210,31 @@ export class RBACManager extends EventEmitter {
     this.emit("roleAdded", role);
   }
 
+  public updateRole(roleName: string, updates: Partial<Role>): void {
+    const existing = this.roles.get(roleName);
+    if (!existing) {
+      throw new Error(`Role '${roleName}' not found`);
+    }
+
+    const updated = { ...existing, ...updates, name: roleName };
+    this.roles.set(roleName, updated);
+    this.emit("roleUpdated", updated);
+  }
+
+  /**
+   * Remove a role and strip it from every user; built-in admin and
+   * read-only roles cannot be removed
+   */
   public removeRole(roleName: string): boolean {
+    if (PROTECTED_ROLES.includes(roleName)) {
+      throw new Error(`Cannot delete protected role '${roleName}'`);
+    }
+
     const removed = this.roles.delete(roleName);
     if (removed) {
+      for (const user of this.users.values()) {
+        user.roles = user.roles.filter((name) => name !== roleName);
+      }
       this.emit("roleRemoved", roleName);
     }
     return removed;
@@ -122,8 +244,13 @@ export class RBACManager extends EventEmitter {
     return this.roles.get(roleName);
   }
 
+  /**
+   * Roles ordered by priority
+   */
   public listRoles(): Role[] {
-    return Array.from(this.roles.values());
+    return Array.from(this.roles.values()).sort(
+      (a, b) => (a.priority ?? 0) - (b.priority ?? 0),
+    );
   }
 
   public addUser(user: User): void {
@@ -154,32 +281,271 @@ export class RBACManager extends EventEmitter {
     return true;
   }
 
+  /**
+   * Grant a role, creating the user if needed. An expiry applies to the
+   * user's whole assignment.
+   */
+  public assignRole(userId: string, roleName: string, expiresAt?: Date): void {
+    if (!this.roles.has(roleName)) {
+      throw new Error(`Role '${roleName}' not found`);
+    }
+
+    let user = this.users.get(userId);
+    if (!user) {
+      user = { id: userId, roles: [] };
+      this.addUser(user);
+    }
+
+    if (!user.roles.includes(roleName)) {
+      user.roles.push(roleName);
+    }
+    if (expiresAt) {
+      user.expiresAt = expiresAt;
+    }
+
+    this.emit("roleAssigned", userId, roleName, expiresAt);
+  }
+
+  /**
+   * Take a role away; users left without roles or custom permissions are removed
+   */
+  public revokeRole(userId: string, roleName: string): void {
+    const user = this.users.get(userId);
+    if (!user) {
+      return;
+    }
+
+    user.roles = user.roles.filter((name) => name !== roleName);
+    if (user.roles.length === 0 && !user.customPermissions) {
+      this.removeUser(userId);
+    }
+
+    this.emit("roleRevoked", userId, roleName);
+  }
+
+  public getUserRoles(userId: string): string[] {
+    return this.getActiveUser(userId)?.roles || [];
+  }
+
+  public setCustomPermissions(
+    userId: string,
+    permissions: PermissionConfig,
+  ): void {
+    let user = this.users.get(userId);
+    if (!user) {
+      user = { id: userId, roles: [] };
+      this.addUser(user);
+    }
+
+    user.customPermissions = permissions;
+    this.emit("permissionsCustomized", userId);
+  }
+
+  /**
+   * Load the `security.rbac` section of omni-config.yaml. Roles are rebuilt
+   * from the defaults and users of a previous config are removed, so
+   * re-applying on hot reload revokes what the config no longer grants.
+   */
+  public applyConfig(config: RBACConfig): void {
+    this.roles.clear();
+    this.initializeDefaultRoles();
+    for (const id of this.configuredUsers) {
+      this.removeUser(id);
+    }
+
+    for (const role of config.roles || []) {
+      this.addRole(role);
+    }
+    for (const user of config.users || []) {
+      this.addUser({
+        ...user,
+        expiresAt: user.expiresAt ? new Date(user.expiresAt) : undefined,
+      });
+    }
+    this.configuredUsers = (config.users || []).map((user) => user.id);
+    this.emit("configurationApplied", config);
+  }
+
+  /**
+   * Whether a user holds a permission matching the resource and action.
+   * Permissions with conditions only grant when a context is supplied and
+   * passes them.
+   */
   public hasPermission(
     userId: string,
     resource: string,
     action: string,
+    context?: PermissionContext,
   ): boolean {
-    const user = this.users.get(userId);
-    if (!user) return false;
-
-    return user.roles.some((roleName) => {
-      const role = this.roles.get(roleName);
-      if (!role) return false;
+    return !!this.getGrantingRole(userId, resource, action, context);
+  }
 
-      return role.permissions.some((permission) => {
-        if (permission.resource === "*" && permission.action === "*") {
-          return true;
+  /**
+   * Name of the first role (own or inherited) that grants the permission
+   */
+  public getGrantingRole(
+    userId: string,
+    resource: string,
+    action: string,
+    context?: PermissionContext,
+  ): string | undefined {
+    const user = this.getActiveUser(userId);
+    if (!user) return undefined;
+
+    return this.resolveRoles(user.roles).find((role) =>
+      role.permissions.some((permission) => {
+        if (
+          !matchesPattern(resource, permission.resource) ||
+          !matchesPattern(action, permission.action)
+        ) {
+          return false;
         }
-        if (permission.resource === "*" && permission.action === action) {
+        if (!permission.conditions) {
           return true;
         }
-        if (permission.resource === resource && permission.action === "*") {
-          return true;
+        return (
+          !!context &&
+          this.validator.evaluate(permission.conditions, {
+            ...context,
+            userId,
+            profileName: `user:${userId}`,
+          }).allowed
+        );
+      }),
+    )?.name;
+  }
+
+  /**
+   * A user's role names including every inherited role
+   */
+  public getEffectiveRoles(userId: string): string[] {
+    const user = this.getActiveUser(userId);
+    return user ? this.resolveRoles(user.roles).map((role) => role.name) : [];
+  }
+
+  /**
+   * Tool-level rules for a user: role rules applied in priority order
+   * (parents first), then the user's custom permissions
+   */
+  public getUserPermissions(userId: string): PermissionConfig {
+    const user = this.getActiveUser(userId);
+    if (!user) {
+      return { ...DEFAULT_TOOL_PERMISSIONS };
+    }
+
+    const roles = user.roles
+      .map((name) => this.roles.get(name))
+      .filter((role): role is Role => !!role)
+      .sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+
+    let permissions: PermissionConfig = { ...DEFAULT_TOOL_PERMISSIONS };
+    for (const role of this.resolveRoles(roles.map((role) => role.name))) {
+      permissions = mergeToolPermissions(
+        permissions,
+        role.toolPermissions || {},
+      );
+    }
+
+    return user.customPermissions
+      ? mergeToolPermissions(permissions, user.customPermissions)
+      : permissions;
+  }
+
+  /**
+   * Check a tool (and optional method) against the user's tool-level rules
+   */
+  public checkPermission(
+    userId: string,
+    toolName: string,
+    methodName?: string,
+  ): boolean {
+    const profileName = `user:${userId}`;
+    this.validator.setProfilePermissions(
+      profileName,
+      this.getUserPermissions(userId),
+    );
+    return this.validator.validateToolAccess({
+      userId,
+      profileName,
+      toolName,
+      methodName,
+    }).allowed;
+  }
+
+  /**
+   * Expand role names with everything they inherit, parents first
+   */
+  private resolveRoles(
+    roleNames: string[],
+    seen: Set<string> = new Set(),
+  ): Role[] {
+    const resolved: Role[] = [];
+    for (const name of roleNames) {
+      const role = this.roles.get(name);
+      if (!role || seen.has(name)) continue;
+      seen.add(name);
+      resolved.push(...this.resolveRoles(role.inherits || [], seen), role);
+    }
+    return resolved;
+  }
+
+  /**
+   * Look up a user, dropping them once their role assignment has expired
+   */
+  private getActiveUser(userId: string): User | undefined {
+    const user = this.users.get(userId);
+    if (user?.expiresAt && new Date() > user.expiresAt) {
+      this.removeUser(userId);
+      this.emit("userExpired", userId);
+      return undefined;
+    }
+    return user;
+  }
+
+  public cleanupExpiredRoles(): number {
+    const now = new Date();
+    let cleaned = 0;
+
+    for (const user of Array.from(this.users.values())) {
+      if (user.expiresAt && user.expiresAt <= now) {
+        this.removeUser(user.id);
+        this.emit("userExpired", user.id);
+        cleaned++;
+      }
+    }
+
+    if (cleaned > 0) {
+      this.emit("expiredUsersCleaned", cleaned);
+    }
+    return cleaned;
+  }
+
+  public getUserStats(): Record<string, unknown> {
+    const now = new Date();
+    const users = Array.from(this.users.values());
+    const roleDistribution: Record<string, number> = {};
+
+    for (const role of this.roles.keys()) {
+      roleDistribution[role] = 0;
+    }
+    for (const user of users) {
+      for (const role of user.roles) {
+        if (roleDistribution[role] !== undefined) {
+          roleDistribution[role]++;
         }
+      }
+    }
 
-        return permission.resource === resource && permission.action === action;
-      });
-    });
+    return {
+      totalUsers: users.length,
+      activeUsers: users.filter((u) => !u.expiresAt || u.expiresAt > now)
+        .length,
+      expiredUsers: users.filter((u) => u.expiresAt && u.expiresAt <= now)
+        .length,
+      usersWithCustomPermissions: users.filter((u) => u.customPermissions)
+        .length,
+      roleDistribution,
+    };
   }
 
   public checkQuota(userId: string, operation: string): boolean {
@@ -297,9 +663,12 @@ export class RBACManager extends EventEmitter {
     const combinedQuotas: ResourceQuotas = {};
 
     roleNames.forEach((roleName) => {
-      const role = this.roles.get(roleName);
-      if (role?.quotas) {
-        Object.entries(role.quotas).forEach(([key, value]) => {
+      const quotas = this.resolveRoles([roleName]).reduce<ResourceQuotas>(
+        (inherited, role) => ({ ...inherited, ...role.quotas }),
+        {},
+      );
+      if (Object.keys(quotas).length > 0) {
+        Object.entries(quotas).forEach(([key, value]) => {
           if (value !== undefined) {
             const quotaKey = key as keyof ResourceQuotas;
             const currentValue = combinedQuotas[quotaKey] as number;
@@ -427,3 +796,22 @@ export class RBACManager extends EventEmitter {
     this.emit("configurationImported", config);
   }
 }
+
+function mergeToolPermissions(
+  base: PermissionConfig,
+  override: PermissionConfig,
+): PermissionConfig {
+  return {
+    ...base,
+    ...override,
+    allowedTools: [
+      ...(base.allowedTools || []),
+      ...(override.allowedTools || []),
+    ],
+    deniedTools: [...(base.deniedTools || []), ...(override.deniedTools || [])],
+    sandboxPaths: [
+      ...(base.sandboxPaths || []),
+      ...(override.sandboxPaths || []),
+    ],
+  };
+}
@@ -0,0 +1,354 @@
+/**
+ * Rate limiting and DoS protection for MCP requests.
+ * tools/call and resources/read pass through SecurityMiddleware keyed by
+ * authenticated identity or remote address (DoS checks on the remote
+ * address, a per-client rate limit and a RequestThrottler that queues calls
+ * beyond the concurrency limit), then through per-tool and per-upstream-server limits. Rejections are thrown as
+ * MCP errors and counted for Prometheus.
+ */
+
+import { McpError } from "@modelcontextprotocol/sdk/types.js";
+import {
+  CircuitBreakerConfig,
+  RateLimitResult,
+  RateLimiter,
+  SecurityMiddleware,
+} from "./rate-limiter.js";
+import {
+  ANONYMOUS_IDENTITY_ID,
+  AccessPolicy,
+  AccessRequest,
+  CallerContext,
+} from "./access-policy.js";
+import { matchesPattern } from "./rbac.js";
+import { ILogger, SilentLogger } from "../utils/logger.js";
+
+/** JSON-RPC error code returned when a request is rate limited or shed */
+export const RATE_LIMITED_ERROR_CODE = -32005;
+
+export const REJECTED_REQUESTS_METRIC = "mcp_requests_rejected_total";
+export const QUEUED_REQUESTS_METRIC = "mcp_requests_queued";
+
+export interface RateLimitRule {
+  windowMs?: number;
+  maxRequests: number;
+}
+
+export interface RequestLimitsConfig {
+  enabled?: boolean;
+  /** Limit for each client (bearer token, certificate subject or address) */
+  perClient?: RateLimitRule;
+  /** Limit for each tool across all clients */
+  perTool?: RateLimitRule;
+  /** Limits for tools matching a name pattern, e.g. "github__*" */
+  tools?: Record<string, RateLimitRule>;
+  /** Limit for each upstream server across all clients */
+  perServer?: RateLimitRule;
+  /** Limits for upstream servers matching a name pattern */
+  servers?: Record<string, RateLimitRule>;
+  /** Requests executed at once; further requests wait in a queue */
+  maxConcurrent?: number;
+  maxQueueSize?: number;
+  dos?: {
+    /** In-flight requests allowed per remote address */
+    maxConcurrentRequests?: number;
+    allowedAddresses?: string[];
+    blockedAddresses?: string[];
+  };
+  /** Stop serving all requests after repeated failures */
+  circuitBreaker?: CircuitBreakerConfig;
+}
+
+export type RejectionScope =
+  | "client"
+  | "tool"
+  | "server"
+  | "dos"
+  | "queue"
+  | "circuit";
+
+export type MetricsSink = {
+  recordCounter(
+    name: string,
+    value?: number,
+    labels?: Record<string, string>,
+  ): void;
+  recordGauge(
+    name: string,
+    value: number,
+    labels?: Record<string, string>,
+  ): void;
+};
+
+interface LimitedRequest {
+  key: string;
+  ip: string;
+}
+
+const DEFAULT_WINDOW_MS = 60000;
+const DEFAULT_CLIENT_LIMIT: RateLimitRule = { maxRequests: 120 };
+
+/** Errors SecurityMiddleware throws before the handler runs */
+const MIDDLEWARE_REJECTIONS: Record<string, RejectionScope> = {
+  "Request blocked by DoS protection": "dos",
+  "Rate limit exceeded": "client",
+  "Circuit breaker is open": "circuit",
+  "Request queue full": "queue",
+};
+
+/**
+ * Resolves the identity a caller authenticated as; usually the AccessPolicy
+ */
+export type IdentityResolver = Pick<AccessPolicy, "resolveIdentity">;
+
+/**
+ * Rate limit key for a caller: the identity they authenticated as, or their
+ * remote address. Unverified tokens never pick the key, so a client cannot
+ * get a fresh limit by sending a new one.
+ */
+export function getClientKey(
+  caller: CallerContext,
+  identities?: IdentityResolver,
+): string {
+  if (caller.transport === "stdio") {
+    return "stdio";
+  }
+  const identity = identities?.resolveIdentity(caller);
+  if (identity && identity.id !== ANONYMOUS_IDENTITY_ID) {
+    return `identity:${identity.id}`;
+  }
+  return `address:${caller.remoteAddress || "unknown"}`;
+}
+
+export class RequestLimiter {
+  private config: RequestLimitsConfig = {};
+  private middleware?: SecurityMiddleware;
+  private limiters: Map<string, RateLimiter> = new Map();
+  private rejections: Map<string, number> = new Map();
+  private metrics?: MetricsSink;
+  private identities?: IdentityResolver;
+  private logger: ILogger;
+
+  constructor(
+    config: RequestLimitsConfig = {},
+    metrics?: MetricsSink,
+    logger?: ILogger,
+  ) {
+    this.metrics = metrics;
+    this.logger = logger || new SilentLogger();
+    this.configure(config);
+  }
+
+  /**
+   * Apply (or re-apply) the rate limit section of omni-config.yaml
+   */
+  configure(config: RequestLimitsConfig): void {
+    this.destroy();
+    this.config = config;
+    if (!config.enabled) {
+      return;
+    }
+
+    const perClient = config.perClient || DEFAULT_CLIENT_LIMIT;
+    const maxConcurrentRequests = config.dos?.maxConcurrentRequests ?? 50;
+    this.middleware = new SecurityMiddleware(
+      {
+        windowMs: perClient.windowMs || DEFAULT_WINDOW_MS,
+        maxRequests: perClient.maxRequests,
+        keyGenerator: (req) => (req as LimitedRequest).key,
+      },
+      {
+        enabled: true,
+        maxConcurrentRequests,
+        suspiciousThreshold: Math.ceil(maxConcurrentRequests * 0.8),
+        blockDuration: DEFAULT_WINDOW_MS,
+        whitelistedIPs: config.dos?.allowedAddresses,
+        blacklistedIPs: config.dos?.blockedAddresses,
+      },
+      // Tool errors count as failures, so the breaker stays closed unless configured
+      config.circuitBreaker || {
+        failureThreshold: Infinity,
+        recoveryTimeout: DEFAULT_WINDOW_MS,
+        monitoringWindow: DEFAULT_WINDOW_MS,
+      },
+      {
+        maxConcurrent: config.maxConcurrent || 20,
+        maxQueueSize: config.maxQueueSize || 100,
+      },
+      this.logger,
+    );
+
+    this.logger.debug(
+      `[RATE-LIMIT] Enabled: ${perClient.maxRequests} requests per client every ${perClient.windowMs || DEFAULT_WINDOW_MS}ms`,
+    );
+  }
+
+  isEnabled(): boolean {
+    return !!this.middleware;
+  }
+
+  /**
+   * Report rejections and queue depth to a metrics collector
+   */
+  setMetrics(metrics?: MetricsSink): void {
+    this.metrics = metrics;
+  }
+
+  /**
+   * Key per-client limits on the identities callers authenticate as
+   */
+  setIdentities(identities?: IdentityResolver): void {
+    this.identities = identities;
+  }
+
+  /**
+   * Run a request once the caller, tool and upstream server are within their
+   * limits; calls beyond the concurrency limit wait in the queue
+   */
+  async run<T>(
+    caller: CallerContext,
+    request: AccessRequest,
+    handler: () => Promise<T>,
+  ): Promise<T> {
+    const middleware = this.middleware;
+    if (!middleware) {
+      return handler();
+    }
+
+    const key = getClientKey(caller, this.identities);
+    let admitted = false;
+    this.recordQueue();
+    try {
+      return (await middleware.processRequest(
+        { key, ip: caller.remoteAddress || key } satisfies LimitedRequest,
+        async () => {
+          this.recordQueue();
+          this.checkTarget(request);
+          admitted = true;
+          return handler();
+        },
+      )) as T;
+    } catch (error) {
+      const scope =
+        !admitted && error instanceof Error && !(error instanceof McpError)
+          ? MIDDLEWARE_REJECTIONS[error.message]
+          : undefined;
+      if (scope) {
+        this.reject(request, scope, key);
+      }
+      throw error;
+    } finally {
+      this.recordQueue();
+    }
+  }
+
+  /**
+   * Rejected request counts by method and scope
+   */
+  getRejections(): Record<string, number> {
+    return Object.fromEntries(this.rejections);
+  }
+
+  destroy(): void {
+    this.middleware?.destroy();
+    this.middleware = undefined;
+    for (const limiter of this.limiters.values()) {
+      limiter.destroy();
+    }
+    this.limiters.clear();
+  }
+
+  private checkTarget(request: AccessRequest): void {
+    if (request.method === "tools/call") {
+      this.checkScope(
+        request,
+        "tool",
+        request.target,
+        this.config.perTool,
+        this.config.tools,
+      );
+    }
+    if (request.server) {
+      this.checkScope(
+        request,
+        "server",
+        request.server,
+        this.config.perServer,
+        this.config.servers,
+      );
+    }
+  }
+
+  private checkScope(
+    request: AccessRequest,
+    scope: "tool" | "server",
+    name: string,
+    fallback?: RateLimitRule,
+    overrides: Record<string, RateLimitRule> = {},
+  ): void {
+    const pattern = Object.keys(overrides).find((candidate) =>
+      matchesPattern(name, candidate),
+    );
+    const rule = pattern ? overrides[pattern] : fallback;
+    if (!rule) {
+      return;
+    }
+
+    // One limiter per configured rule, keyed by tool or server name
+    const limiterKey = `${scope}:${pattern ?? "*"}`;
+    let limiter = this.limiters.get(limiterKey);
+    if (!limiter) {
+      limiter = new RateLimiter(
+        {
+          windowMs: rule.windowMs || DEFAULT_WINDOW_MS,
+          maxRequests: rule.maxRequests,
+          keyGenerator: (req) => req as string,
+        },
+        this.logger,
+      );
+      this.limiters.set(limiterKey, limiter);
+    }
+
+    if (limiter.checkLimit(name) === RateLimitResult.BLOCKED) {
+      this.reject(request, scope, name);
+    }
+  }
+
+  private reject(
+    request: AccessRequest,
+    scope: RejectionScope,
+    key: string,
+  ): never {
+    const labels = { method: request.method, scope };
+    const counter = `${request.method}:${scope}`;
+    const total = (this.rejections.get(counter) || 0) + 1;
+    this.rejections.set(counter, total);
+    this.metrics?.recordCounter(REJECTED_REQUESTS_METRIC, total, labels);
+
+    const message =
+      scope === "queue"
+        ? "Server busy: request queue is full"
+        : scope === "circuit"
+          ? "Server unavailable: too many recent failures"
+          : scope === "dos"
+            ? `Request blocked: too many requests in flight from ${key}`
+            : `Rate limit exceeded for ${scope} '${key}'`;
+    this.logger.warn(
+      `[RATE-LIMIT] ${message} (${request.method} ${request.target})`,
+    );
+    throw new McpError(RATE_LIMITED_ERROR_CODE, message, {
+      scope,
+      key,
+      target: request.target,
+    });
+  }
+
+  private recordQueue(): void {
+    if (this.metrics && this.middleware) {
+      this.metrics.recordGauge(
+        QUEUED_REQUESTS_METRIC,
+        this.middleware.getStats().throttler.queueSize,
+      );
+    }
+  }
+}
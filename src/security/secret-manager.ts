@@ -4,11 +4,14 @@ import {
   parseSecretReference,
   maskSecret,
 } from "./secret-provider";
+import { EnvironmentSecretProvider } from "./providers/env-provider";
+import { KeychainSecretProvider } from "./providers/keychain-provider";
+import { VaultConfig, VaultSecretProvider } from "./providers/vault-provider";
 
 export interface SecretManagerConfig {
   provider?: "keychain" | "env" | "vault";
   fallback?: "keychain" | "env" | "vault";
-  vault?: Record<string, unknown>;
+  vault?: VaultConfig;
   keychainService?: string;
   cacheTTL?: number;
   auditEnabled?: boolean;
@@ -36,6 +39,43 @@ export class SecretManager extends EventEmitter {
     };
   }
 
+  /**
+   * Replace the settings and create the providers they name; the
+   * environment provider is always available
+   */
+  public configure(config: SecretManagerConfig): void {
+    this.config = {
+      provider: "env",
+      cacheTTL: 300,
+      auditEnabled: true,
+      ...config,
+    };
+    this.providers.clear();
+    this.cache.clear();
+
+    const env = new EnvironmentSecretProvider();
+    this.providers.set(env.getName(), env);
+    const names = [this.config.provider, this.config.fallback];
+    if (names.includes("keychain")) {
+      const keychain = new KeychainSecretProvider(this.config.keychainService);
+      this.providers.set(keychain.getName(), keychain);
+    }
+    if (names.includes("vault") || this.config.vault) {
+      if (!this.config.vault?.endpoint) {
+        throw new Error("Vault secret provider requires vault.endpoint");
+      }
+      const vault = new VaultSecretProvider(this.config.vault);
+      this.providers.set(vault.getName(), vault);
+    }
+
+    this.primaryProvider = this.providers.get(
+      (this.config.provider || "env").toUpperCase(),
+    );
+    this.fallbackProvider = this.config.fallback
+      ? this.providers.get(this.config.fallback.toUpperCase())
+      : undefined;
+  }
+
   public async resolveSecret(reference: string): Promise<string> {
     const cached = this.getCachedSecret(reference);
     if (cached) {
@@ -31,8 +31,11 @@ export class ProfileSignatureVerifier {
   private algorithms = ["RSA-SHA256", "ECDSA-SHA256", "Ed25519"];
   private currentAlgorithm = "RSA-SHA256";
 
-  constructor() {
-    this.loadPublicKeys();
+  /**
+   * @param keysDir Directory of trusted `<keyId>.pub` files (default ./keys)
+   */
+  constructor(keysDir: string = path.join(process.cwd(), "keys")) {
+    this.loadPublicKeys(keysDir);
   }
 
   /**
@@ -294,9 +297,7 @@ export class ProfileSignatureVerifier {
   /**
    * Load public keys from a directory or configuration
    */
-  private loadPublicKeys(): void {
-    const keysDir = path.join(process.cwd(), "keys");
-
+  private loadPublicKeys(keysDir: string): void {
     if (!fs.existsSync(keysDir)) {
       return;
     }
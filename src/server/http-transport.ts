@@ -0,0 +1,473 @@
+/**
+ * Streamable HTTP front end for the hub.
+ * Each MCP session gets its own Server instance (created by the caller's
+ * factory) connected to a dedicated StreamableHTTPServerTransport.
+ */
+
+import * as http from "http";
+import * as tls from "tls";
+import { randomUUID, timingSafeEqual } from "crypto";
+import { EventEmitter } from "events";
+import { AddressInfo } from "net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { TLSServer } from "../security/secure-communication.js";
+import { ILogger, SilentLogger } from "../utils/logger.js";
+import { DEFAULT_HTTP_OPTIONS, HttpServerOptions } from "./server-options.js";
+import { SessionPeerInfo } from "./sessions.js";
+
+export interface HttpSessionInfo extends SessionPeerInfo {
+  id: string;
+  createdAt: Date;
+  lastActivity: Date;
+}
+
+interface HttpSession extends HttpSessionInfo {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}
+
+export type SessionServerFactory = (
+  sessionId: string,
+  peer: SessionPeerInfo,
+) => Server;
+
+/**
+ * Provides the payload served at `/admin/sessions`
+ */
+export type AdminSessionsView = () => unknown[];
+
+/**
+ * Provides the Prometheus text served at `/metrics`
+ */
+export type MetricsView = () => string;
+
+export class HttpTransportServer extends EventEmitter {
+  private options: typeof DEFAULT_HTTP_OPTIONS & HttpServerOptions;
+  private createSessionServer: SessionServerFactory;
+  private adminView?: AdminSessionsView;
+  private metricsView?: MetricsView;
+  private logger: ILogger;
+  private httpServer: http.Server;
+  private tlsServer?: TLSServer;
+  private sessions: Map<string, HttpSession> = new Map();
+  private expiryTimer?: NodeJS.Timeout;
+  private listening = false;
+  private address?: { host: string; port: number };
+
+  constructor(
+    createSessionServer: SessionServerFactory,
+    options: HttpServerOptions = {},
+    logger?: ILogger,
+    adminView?: AdminSessionsView,
+    metricsView?: MetricsView,
+  ) {
+    super();
+    this.createSessionServer = createSessionServer;
+    this.adminView = adminView;
+    this.metricsView = metricsView;
+    this.options = { ...DEFAULT_HTTP_OPTIONS, ...options };
+    this.logger = logger || new SilentLogger();
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.logger.error("[HTTP-SERVER] Request handling failed:", error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, "Internal server error");
+        }
+      });
+    });
+  }
+
+  /**
+   * Start listening, fronted by TLSServer when TLS is enabled
+   */
+  async start(): Promise<{ host: string; port: number }> {
+    if (this.listening) {
+      return this.address!;
+    }
+
+    const { host, port } = this.options;
+
+    if (this.options.tls?.enabled) {
+      this.tlsServer = new TLSServer(this.options.tls, this.logger);
+      this.tlsServer.on("connection", (socket: tls.TLSSocket) => {
+        this.httpServer.emit("connection", socket);
+      });
+      await this.tlsServer.start(port, host);
+      this.address = { host, port };
+    } else {
+      await new Promise<void>((resolve, reject) => {
+        this.httpServer.once("error", reject);
+        this.httpServer.listen(port, host, () => {
+          this.httpServer.off("error", reject);
+          resolve();
+        });
+      });
+      const bound = this.httpServer.address() as AddressInfo;
+      this.address = { host, port: bound.port };
+    }
+
+    this.listening = true;
+    this.startExpiry();
+    this.logger.info(
+      `[HTTP-SERVER] Listening on ${this.options.tls?.enabled ? "https" : "http"}://${host}:${this.address.port}${this.options.path}`,
+    );
+    return this.address;
+  }
+
+  /**
+   * Close all sessions and stop accepting connections
+   */
+  async stop(): Promise<void> {
+    if (!this.listening) {
+      return;
+    }
+    this.listening = false;
+    clearInterval(this.expiryTimer);
+    this.expiryTimer = undefined;
+    this.logger.info(
+      `[HTTP-SERVER] Shutting down (${this.sessions.size} active sessions)`,
+    );
+
+    const closing = new Promise<void>((resolve) => {
+      if (this.tlsServer) {
+        resolve();
+        return;
+      }
+      this.httpServer.close(() => resolve());
+    });
+    this.httpServer.closeIdleConnections();
+
+    for (const session of [...this.sessions.values()]) {
+      try {
+        await session.server.close();
+      } catch (error) {
+        this.logger.debug(
+          `[HTTP-SERVER] Error closing session ${session.id}:`,
+          error,
+        );
+      }
+    }
+    this.sessions.clear();
+
+    if (this.tlsServer) {
+      await this.tlsServer.stop();
+      this.tlsServer = undefined;
+    }
+
+    let timer: NodeJS.Timeout | undefined;
+    await Promise.race([
+      closing,
+      new Promise<void>((resolve) => {
+        timer = setTimeout(() => {
+          this.logger.warn(
+            "[HTTP-SERVER] Shutdown timeout, closing remaining connections",
+          );
+          this.httpServer.closeAllConnections();
+          resolve();
+        }, this.options.shutdownTimeoutMs);
+      }),
+    ]);
+    clearTimeout(timer);
+    this.logger.info("[HTTP-SERVER] Stopped");
+  }
+
+  isListening(): boolean {
+    return this.listening;
+  }
+
+  getAddress(): { host: string; port: number } | undefined {
+    return this.address;
+  }
+
+  getSessions(): HttpSessionInfo[] {
+    return [...this.sessions.values()].map(
+      ({ server: _server, transport: _transport, ...info }) => info,
+    );
+  }
+
+  getSessionServers(): Server[] {
+    return [...this.sessions.values()].map((session) => session.server);
+  }
+
+  private async handleRequest(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url || "/", "http://localhost");
+
+    if (url.pathname === "/health" && req.method === "GET") {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(
+        JSON.stringify({
+          status: this.listening ? "healthy" : "shutting_down",
+          sessions: this.sessions.size,
+          timestamp: new Date().toISOString(),
+        }),
+      );
+      return;
+    }
+
+    if (url.pathname === "/admin/sessions" && req.method === "GET") {
+      this.handleAdminSessions(req, res);
+      return;
+    }
+
+    if (
+      url.pathname === "/metrics" &&
+      req.method === "GET" &&
+      this.metricsView
+    ) {
+      if (this.authorizeAdmin(req, res)) {
+        res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4" });
+        res.end(this.metricsView());
+      }
+      return;
+    }
+
+    if (url.pathname !== this.options.path) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Not Found" }));
+      return;
+    }
+
+    if (!this.listening) {
+      this.sendJsonRpcError(res, 503, -32000, "Server is shutting down");
+      return;
+    }
+
+    let body: unknown;
+    if (req.method === "POST") {
+      try {
+        body = await this.readJsonBody(req);
+      } catch (error) {
+        const tooLarge =
+          error instanceof Error && error.message === "Payload too large";
+        this.sendJsonRpcError(
+          res,
+          tooLarge ? 413 : 400,
+          tooLarge ? -32600 : -32700,
+          tooLarge ? "Payload too large" : "Parse error",
+        );
+        return;
+      }
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    if (typeof sessionId === "string") {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendJsonRpcError(res, 404, -32001, "Session not found");
+        return;
+      }
+      session.lastActivity = new Date();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method === "POST" && isInitializeRequest(body)) {
+      await this.createSession(req, res, body);
+      return;
+    }
+
+    this.sendJsonRpcError(
+      res,
+      400,
+      -32000,
+      "Bad Request: No valid session ID provided",
+    );
+  }
+
+  private async createSession(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+    body: unknown,
+  ): Promise<void> {
+    const peer = this.getPeerInfo(req);
+    const sessionId = randomUUID();
+    const server = this.createSessionServer(sessionId, peer);
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => sessionId,
+      onsessioninitialized: (id) => {
+        const now = new Date();
+        this.sessions.set(id, {
+          id,
+          createdAt: now,
+          lastActivity: now,
+          ...peer,
+          server,
+          transport,
+        });
+        this.logger.info(`[HTTP-SERVER] Session ${id} opened`);
+        this.emit("session-created", id, peer);
+      },
+    });
+
+    transport.onclose = () => {
+      const id = transport.sessionId;
+      if (id && this.sessions.delete(id)) {
+        this.logger.info(`[HTTP-SERVER] Session ${id} closed`);
+        this.emit("session-closed", id);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A failed initialize leaves no session that would close the server
+      if (!this.sessions.has(sessionId)) {
+        await server.close().catch((error) => {
+          this.logger.debug(
+            `[HTTP-SERVER] Error closing uninitialized session ${sessionId}:`,
+            error,
+          );
+        });
+      }
+    }
+  }
+
+  /**
+   * Periodically close sessions idle for longer than sessionIdleTimeoutMs
+   */
+  private startExpiry(): void {
+    const idleTimeoutMs = this.options.sessionIdleTimeoutMs;
+    if (!idleTimeoutMs) {
+      return;
+    }
+    this.expiryTimer = setInterval(
+      () => void this.expireIdleSessions(idleTimeoutMs),
+      Math.min(idleTimeoutMs, 60000),
+    );
+    this.expiryTimer.unref();
+  }
+
+  private async expireIdleSessions(idleTimeoutMs: number): Promise<void> {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const session of [...this.sessions.values()]) {
+      if (session.lastActivity.getTime() > cutoff) {
+        continue;
+      }
+      this.logger.info(
+        `[HTTP-SERVER] Session ${session.id} expired after ${idleTimeoutMs}ms without requests`,
+      );
+      try {
+        // Closing the transport removes the session and emits session-closed
+        await session.server.close();
+      } catch (error) {
+        this.logger.debug(
+          `[HTTP-SERVER] Error closing session ${session.id}:`,
+          error,
+        );
+      }
+    }
+  }
+
+  /**
+   * Admin listing of sessions; disabled unless an admin token is configured
+   */
+  private handleAdminSessions(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): void {
+    if (!this.adminView) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Not Found" }));
+      return;
+    }
+
+    if (this.authorizeAdmin(req, res)) {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ sessions: this.adminView() }, null, 2));
+    }
+  }
+
+  /**
+   * Check the admin bearer token guarding `/admin/sessions` and `/metrics`;
+   * answers 404 when no admin token is configured and 401 when it does not
+   * match
+   */
+  private authorizeAdmin(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): boolean {
+    const adminToken =
+      this.options.adminToken ??
+      (this.options.adminTokenEnv
+        ? process.env[this.options.adminTokenEnv]
+        : undefined);
+
+    if (!adminToken) {
+      res.writeHead(404, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Not Found" }));
+      return false;
+    }
+
+    const expected = Buffer.from(`Bearer ${adminToken}`);
+    const provided = Buffer.from(req.headers.authorization || "");
+    if (
+      expected.length !== provided.length ||
+      !timingSafeEqual(expected, provided)
+    ) {
+      res.writeHead(401, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Unauthorized" }));
+      return false;
+    }
+    return true;
+  }
+
+  private getPeerInfo(req: http.IncomingMessage): SessionPeerInfo {
+    const info: SessionPeerInfo = { remoteAddress: req.socket.remoteAddress };
+
+    if (req.socket instanceof tls.TLSSocket) {
+      const subject = req.socket.getPeerCertificate()?.subject;
+      if (subject?.CN) {
+        info.clientCertSubject = Array.isArray(subject.CN)
+          ? subject.CN[0]
+          : subject.CN;
+      }
+    }
+
+    return info;
+  }
+
+  private readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      req.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > this.options.maxBodyBytes) {
+          req.removeAllListeners("data");
+          req.resume();
+          reject(new Error("Payload too large"));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      req.on("end", () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString("utf8")));
+        } catch (error) {
+          reject(error);
+        }
+      });
+      req.on("error", reject);
+    });
+  }
+
+  private sendJsonRpcError(
+    res: http.ServerResponse,
+    status: number,
+    code: number,
+    message: string,
+  ): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(
+      JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null }),
+    );
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Transport options for serving the hub itself (stdio or Streamable HTTP)
+ */
+
+import { mTLSConfig } from "../security/secure-communication.js";
+
+export type HubTransport = "stdio" | "http";
+
+export interface HttpServerOptions {
+  host?: string;
+  port?: number;
+  path?: string;
+  maxBodyBytes?: number;
+  shutdownTimeoutMs?: number;
+  /** Close sessions without requests for this long; 0 keeps them open */
+  sessionIdleTimeoutMs?: number;
+  adminToken?: string;
+  adminTokenEnv?: string;
+  tls?: mTLSConfig;
+}
+
+export interface HubServerOptions {
+  transport?: HubTransport;
+  http?: HttpServerOptions;
+}
+
+export const DEFAULT_HTTP_OPTIONS: Required<
+  Omit<HttpServerOptions, "tls" | "adminToken" | "adminTokenEnv">
+> = {
+  host: "0.0.0.0",
+  port: 3000,
+  path: "/mcp",
+  maxBodyBytes: 4 * 1024 * 1024,
+  shutdownTimeoutMs: 5000,
+  sessionIdleTimeoutMs: 30 * 60 * 1000,
+};
+
+/**
+ * Parse `--transport`, `--port`, `--host` and `--path` from the command line.
+ * Unknown arguments are ignored so the hub can still be launched by MCP clients
+ * that append their own flags.
+ */
+export function parseServerArgs(argv: string[]): HubServerOptions {
+  const options: HubServerOptions = {};
+  const http: HttpServerOptions = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const [flag, inlineValue] = argv[i].split(/=(.*)/s, 2);
+    const takeValue = (): string => {
+      const value = inlineValue ?? argv[++i];
+      if (value === undefined || value === "") {
+        throw new Error(`Missing value for ${flag}`);
+      }
+      return value;
+    };
+
+    switch (flag) {
+      case "--transport": {
+        const transport = takeValue();
+        if (transport !== "stdio" && transport !== "http") {
+          throw new Error(
+            `Unsupported transport '${transport}' (expected stdio or http)`,
+          );
+        }
+        options.transport = transport;
+        break;
+      }
+      case "--port": {
+        const value = takeValue();
+        const port = Number(value);
+        if (!Number.isInteger(port) || port < 0 || port > 65535) {
+          throw new Error(`Invalid port '${value}'`);
+        }
+        http.port = port;
+        break;
+      }
+      case "--host":
+        http.host = takeValue();
+        break;
+      case "--path":
+        http.path = takeValue();
+        break;
+    }
+  }
+
+  if (Object.keys(http).length > 0) {
+    options.http = http;
+  }
+
+  return options;
+}
+
+/**
+ * Merge configured options with command line overrides (CLI wins)
+ */
+export function resolveServerOptions(
+  configured: HubServerOptions | undefined,
+  overrides: HubServerOptions,
+): HubServerOptions {
+  return {
+    transport: overrides.transport || configured?.transport || "stdio",
+    http: {
+      ...DEFAULT_HTTP_OPTIONS,
+      ...(configured?.http || {}),
+      ...(overrides.http || {}),
+    },
+  };
+}
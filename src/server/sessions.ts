@@ -0,0 +1,295 @@
+/**
+ * Per-client session state.
+ * Profiles applied by one MCP client must not leak into another, so the
+ * active profile map, last applied profile and behavior state live here
+ * instead of on OmniMCPServer/ToolHandlers.
+ */
+
+import { EventEmitter } from "events";
+import { ErrorCode, McpError } from "@modelcontextprotocol/sdk/types.js";
+import { ClaudeConfig } from "../utils/claude-config.js";
+import { TemplateVariables } from "../utils/profile-template.js";
+import { BehaviorStateManager, behaviorState } from "../behavior/state.js";
+import { StackLayer, mergeStack } from "../behavior/profile-stack.js";
+import { ILogger, SilentLogger } from "../utils/logger.js";
+import { HubTransport } from "./server-options.js";
+
+export const DEFAULT_SESSION_ID = "stdio";
+
+/**
+ * Resources whose content depends on a session's profiles
+ */
+export function getProfileResourceUris(profile: string): string[] {
+  return [
+    "config://profiles/active",
+    "config://auto-apply",
+    `config://profile/active/${profile}`,
+  ];
+}
+
+/**
+ * Whether a profile is applied in a session, alone or as a stack layer
+ */
+export function isProfileApplied(
+  session: ClientSession,
+  profile: string,
+): boolean {
+  return (
+    session.lastAppliedProfile === profile ||
+    !!session.profileStack?.some((layer) => layer.name === profile)
+  );
+}
+
+/**
+ * The profile a session has applied; for a stack, its merged layers
+ */
+export function getAppliedProfile(
+  session: ClientSession,
+): ClaudeConfig | undefined {
+  if (session.profileStack) {
+    return mergeStack(session.profileStack, session.activeProfiles).config;
+  }
+  return session.lastAppliedProfile
+    ? session.activeProfiles.get(session.lastAppliedProfile)
+    : undefined;
+}
+
+export interface SessionPeerInfo {
+  remoteAddress?: string;
+  clientCertSubject?: string;
+}
+
+export interface ClientSession extends SessionPeerInfo {
+  id: string;
+  transport: HubTransport;
+  createdAt: Date;
+  lastActivity: Date;
+  activeProfiles: Map<string, ClaudeConfig>;
+  lastAppliedProfile: string | null;
+  lastAppliedTime: string | null;
+  appliedBehaviorInstructions: string | null;
+  behaviorState: BehaviorStateManager;
+  /** Resource URIs the client subscribed to with resources/subscribe */
+  subscriptions: Set<string>;
+  /** Variables the last profile was applied with; reused on hot reload */
+  appliedVariables?: TemplateVariables;
+  /**
+   * Layers of the applied profile stack, bottom first; unset when a single
+   * profile is applied. lastAppliedProfile is then the stack's name.
+   */
+  profileStack?: StackLayer[];
+}
+
+export interface SessionSummary extends SessionPeerInfo {
+  id: string;
+  transport: HubTransport;
+  createdAt: string;
+  lastActivity: string;
+  activeProfiles: string[];
+  lastAppliedProfile: string | null;
+  lastAppliedTime: string | null;
+  profileStack?: StackLayer[];
+  behavior: {
+    currentProfileId: string | null;
+    currentHash: string | null;
+    lastAppliedAt: string | null;
+  };
+}
+
+export class SessionManager extends EventEmitter {
+  private sessions: Map<string, ClientSession> = new Map();
+  private baseProfiles: Map<string, ClaudeConfig>;
+  private logger: ILogger;
+
+  /**
+   * @param baseProfiles Profiles loaded at startup. The default (stdio) session
+   * uses this map directly; HTTP sessions start from a copy of it.
+   */
+  constructor(baseProfiles: Map<string, ClaudeConfig>, logger?: ILogger) {
+    super();
+    this.baseProfiles = baseProfiles;
+    this.logger = logger || new SilentLogger();
+
+    const now = new Date();
+    this.sessions.set(DEFAULT_SESSION_ID, {
+      id: DEFAULT_SESSION_ID,
+      transport: "stdio",
+      createdAt: now,
+      lastActivity: now,
+      activeProfiles: baseProfiles,
+      lastAppliedProfile: null,
+      lastAppliedTime: null,
+      appliedBehaviorInstructions: null,
+      behaviorState,
+      subscriptions: new Set(),
+    });
+  }
+
+  /**
+   * Session used for stdio and for requests that carry no session id
+   */
+  getDefaultSession(): ClientSession {
+    return this.sessions.get(DEFAULT_SESSION_ID)!;
+  }
+
+  /**
+   * Create an isolated session seeded with the startup profiles
+   */
+  createSession(id: string, peer: SessionPeerInfo = {}): ClientSession {
+    const existing = this.sessions.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const now = new Date();
+    const session: ClientSession = {
+      id,
+      transport: "http",
+      createdAt: now,
+      lastActivity: now,
+      ...peer,
+      activeProfiles: new Map(this.baseProfiles),
+      lastAppliedProfile: null,
+      lastAppliedTime: null,
+      appliedBehaviorInstructions:
+        this.getDefaultSession().appliedBehaviorInstructions,
+      behaviorState: new BehaviorStateManager(),
+      subscriptions: new Set(),
+    };
+    this.sessions.set(id, session);
+    this.logger.debug(`[SESSIONS] Created session ${id}`);
+    this.emit("session-created", session);
+    return session;
+  }
+
+  /**
+   * Resolve the session for a request; requests without a session id use the default session.
+   * Sessions are only created on initialize, so an unknown id is refused.
+   */
+  getSession(id?: string): ClientSession {
+    if (!id) {
+      return this.getDefaultSession();
+    }
+
+    const session = this.sessions.get(id);
+    if (!session) {
+      throw new McpError(ErrorCode.InvalidRequest, `Session ${id} not found`);
+    }
+    session.lastActivity = new Date();
+    return session;
+  }
+
+  hasSession(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  /**
+   * Drop a closed session (the default session is never removed)
+   */
+  removeSession(id: string): boolean {
+    if (id === DEFAULT_SESSION_ID) {
+      return false;
+    }
+
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(id);
+    this.logger.debug(`[SESSIONS] Removed session ${id}`);
+    this.emit("session-removed", session);
+    return true;
+  }
+
+  /**
+   * Swap a reloaded profile into every session still holding `previous`
+   * (and into the startup profiles). Returns the sessions that have it applied.
+   */
+  replaceProfile(
+    name: string,
+    previous: ClaudeConfig | undefined,
+    config: ClaudeConfig,
+  ): ClientSession[] {
+    if (!previous) {
+      this.baseProfiles.set(name, config);
+      return [];
+    }
+
+    const applied: ClientSession[] = [];
+    for (const session of this.sessions.values()) {
+      if (session.activeProfiles.get(name) !== previous) {
+        continue;
+      }
+      session.activeProfiles.set(name, config);
+      if (isProfileApplied(session, name)) {
+        applied.push(session);
+      }
+    }
+    return applied;
+  }
+
+  /**
+   * Emit "resource-updated" for each session (or just `session`) subscribed
+   * to `uri`
+   */
+  notifyResourceUpdated(uri: string, session?: ClientSession): void {
+    const targets = session ? [session] : [...this.sessions.values()];
+    for (const target of targets) {
+      if (target.subscriptions.has(uri)) {
+        this.emit("resource-updated", target, uri);
+      }
+    }
+  }
+
+  /**
+   * Sessions subscribed to a resource
+   */
+  getSubscribers(uri: string): ClientSession[] {
+    return [...this.sessions.values()].filter((session) =>
+      session.subscriptions.has(uri),
+    );
+  }
+
+  /**
+   * Notify subscribers of the resources describing a changed profile
+   */
+  notifyProfileChanged(profile: string, session?: ClientSession): void {
+    for (const uri of getProfileResourceUris(profile)) {
+      this.notifyResourceUpdated(uri, session);
+    }
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Admin view of every session and what it has applied
+   */
+  listSessions(includeDefault: boolean = true): SessionSummary[] {
+    const sessions = [...this.sessions.values()].filter(
+      (session) => includeDefault || session.id !== DEFAULT_SESSION_ID,
+    );
+    return sessions.map((session) => {
+      const state = session.behaviorState.getState();
+      return {
+        id: session.id,
+        transport: session.transport,
+        createdAt: session.createdAt.toISOString(),
+        lastActivity: session.lastActivity.toISOString(),
+        remoteAddress: session.remoteAddress,
+        clientCertSubject: session.clientCertSubject,
+        activeProfiles: [...session.activeProfiles.keys()],
+        lastAppliedProfile: session.lastAppliedProfile,
+        lastAppliedTime: session.lastAppliedTime,
+        ...(session.profileStack && { profileStack: session.profileStack }),
+        behavior: {
+          currentProfileId: state.currentProfileId,
+          currentHash: state.currentHash,
+          lastAppliedAt: state.lastAppliedAt?.toISOString() || null,
+        },
+      };
+    });
+  }
+}
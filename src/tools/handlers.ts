@@ -1,36 +1,153 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import {
   CallToolRequestSchema,
+  CallToolResult,
   ListToolsRequestSchema,
+  McpError,
+  Tool,
 } from "@modelcontextprotocol/sdk/types.js";
 import * as path from "path";
 import { ClaudeConfigManager, ClaudeConfig } from "../utils/claude-config.js";
 import { BehaviorGenerator } from "../utils/behavior-generator.js";
 import { FileScanner } from "../utils/file-scanner.js";
+import { describeIncludeTree } from "../utils/profile-includes.js";
+import {
+  ProfileTemplateError,
+  TemplateVariables,
+} from "../utils/profile-template.js";
 import { YamlConfigManager } from "../config/yaml-config.js";
 import { PathResolver } from "../utils/path-resolver.js";
 import { MCPProxyManager } from "../mcp-proxy/manager.js";
 import { ILogger, SilentLogger } from "../utils/logger.js";
+import { computeStringHash } from "../behavior/hash.js";
+import { ApplyHistory, ApplyHistoryError } from "../behavior/history.js";
+import {
+  ToolFilter,
+  createToolFilter,
+  getProfileToolPatterns,
+  isToolAllowed,
+} from "../behavior/tool-filter.js";
+import {
+  ProfileStackError,
+  StackLayer,
+  getStackName,
+  mergeStack,
+  popLayer,
+  pushLayer,
+  reorderLayers,
+  setLayerEnabled,
+} from "../behavior/profile-stack.js";
+import {
+  ClientSession,
+  DEFAULT_SESSION_ID,
+  SessionManager,
+  getAppliedProfile,
+} from "../server/sessions.js";
 import {
   ErrorHandler,
   createStandardErrorResponse,
 } from "../utils/error-handler.js";
+import {
+  ACCESS_DENIED_ERROR_CODE,
+  ANONYMOUS_IDENTITY_ID,
+  AccessPolicy,
+  AccessRequest,
+  getCallerContext,
+  getToolPermission,
+} from "../security/access-policy.js";
+import { RequestLimiter } from "../security/request-limits.js";
+import { ProfileSignatureError } from "../security/profile-signing.js";
+import { SecretManager } from "../security/secret-manager.js";
+import { ProfileInheritanceManager } from "../utils/profile-inheritance.js";
+import {
+  PROFILE_DIFF_FORMATS,
+  ProfileDiffError,
+  ProfileDiffFormat,
+  formatProfileDiff,
+} from "../utils/profile-diff.js";
 
 interface IOmniMCPServer {
   setAppliedBehaviorInstructions(instructions: string): void;
 }
 
+/** diff_claude_configs reference to the session's applied configuration */
+const APPLIED_PROFILE_REF = "applied";
+
+/**
+ * Profile(s) a tool call would apply, for policy checks
+ */
+function getRequestedProfile(
+  name: string,
+  args: unknown,
+): string | string[] | undefined {
+  if (typeof args === "string") {
+    return name === "apply_claude_config" ? args : undefined;
+  }
+  const {
+    profileName,
+    filePath,
+    layers,
+    profile,
+    name: layer,
+    enabled,
+    from,
+    to,
+  } = (args || {}) as {
+    profileName?: string;
+    filePath?: string;
+    layers?: string[];
+    profile?: string;
+    name?: string;
+    enabled?: boolean;
+    from?: unknown;
+    to?: unknown;
+  };
+  switch (name) {
+    case "apply_claude_config":
+      return layers || profileName || filePath;
+    case "push_profile_layer":
+      return profile;
+    case "set_profile_layer_enabled":
+      return enabled ? layer : undefined;
+    case "diff_claude_configs": {
+      const sides = [from, to].filter(
+        (ref): ref is string =>
+          typeof ref === "string" && !!ref && ref !== APPLIED_PROFILE_REF,
+      );
+      return sides.length > 0 ? sides : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function isTemplateVariables(value: unknown): value is TemplateVariables {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    Object.values(value).every((item) => typeof item === "string")
+  );
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === "string")
+  );
+}
+
 export class ToolHandlers {
   private server: Server;
   private claudeConfigManager: ClaudeConfigManager;
-  private activeProfiles: Map<string, ClaudeConfig>;
+  private sessions: SessionManager;
   private fileScanner: FileScanner;
-  private lastAppliedProfile: string | null = null;
-  private lastAppliedTime: string | null = null;
   private proxyManager?: MCPProxyManager;
   private logger: ILogger;
   private errorHandler: ErrorHandler;
   private omniMCPServer?: IOmniMCPServer;
+  private accessPolicy?: AccessPolicy;
+  private requestLimiter?: RequestLimiter;
+  private secretManager?: SecretManager;
+  private applyHistory?: ApplyHistory;
 
   constructor(
     server: Server,
@@ -39,13 +156,22 @@ export class ToolHandlers {
     proxyManagerOrFileScanner?: MCPProxyManager | FileScanner,
     logger?: ILogger,
     omniMCPServer?: IOmniMCPServer,
+    sessions?: SessionManager,
+    accessPolicy?: AccessPolicy,
+    requestLimiter?: RequestLimiter,
+    secretManager?: SecretManager,
+    applyHistory?: ApplyHistory,
   ) {
     this.server = server;
     this.claudeConfigManager = claudeConfigManager;
-    this.activeProfiles = activeProfiles;
     this.logger = logger || new SilentLogger();
+    this.sessions = sessions || new SessionManager(activeProfiles, this.logger);
     this.errorHandler = ErrorHandler.getInstance(this.logger);
     this.omniMCPServer = omniMCPServer;
+    this.accessPolicy = accessPolicy;
+    this.requestLimiter = requestLimiter;
+    this.secretManager = secretManager;
+    this.applyHistory = applyHistory;
 
     this.logger.debug("[TOOL-HANDLERS] Initializing ToolHandlers");
     this.logger.debug(
@@ -84,19 +210,27 @@ export class ToolHandlers {
   }
 
   /**
-   * Setup all tool handlers
+   * Proxy tool calls through another proxy manager
    */
-  setupHandlers(): void {
-    this.setupListToolsHandler();
-    this.setupCallToolHandler();
+  setProxyManager(proxyManager: MCPProxyManager): void {
+    this.proxyManager = proxyManager;
+  }
+
+  /**
+   * Setup all tool handlers on the given server (the stdio server by default)
+   */
+  setupHandlers(server: Server = this.server): void {
+    this.setupListToolsHandler(server);
+    this.setupCallToolHandler(server);
   }
 
   /**
    * Setup the list tools handler
    */
-  private setupListToolsHandler(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+  private setupListToolsHandler(server: Server): void {
+    server.setRequestHandler(ListToolsRequestSchema, async (_, extra) => {
       this.logger.debug("[TOOL-HANDLER] Processing tools/list request");
+      const session = this.sessions.getSession(extra?.sessionId);
 
       let hasLocalResources = true;
 
@@ -155,10 +289,128 @@ export class ToolHandlers {
                     description:
                       "Automatically apply the configuration after loading (default: true)",
                   },
+                  variables: {
+                    type: "object",
+                    description:
+                      "Values for {{variables}} in the profile, overriding its defaults",
+                    additionalProperties: { type: "string" },
+                  },
+                  layers: {
+                    type: "array",
+                    items: { type: "string" },
+                    description:
+                      "Apply several profiles (names or paths) as a stack, bottom first, instead of filePath/profileName",
+                  },
+                },
+                required: [],
+              },
+            },
+            {
+              name: "push_profile_layer",
+              description:
+                "Add a profile on top of the applied profile stack and re-apply it",
+              inputSchema: {
+                type: "object",
+                properties: {
+                  profile: {
+                    type: "string",
+                    description: "Loaded profile name or CLAUDE.md path",
+                  },
+                  variables: {
+                    type: "object",
+                    description:
+                      "Values for {{variables}}, added to those already applied",
+                    additionalProperties: { type: "string" },
+                  },
+                },
+                required: ["profile"],
+              },
+            },
+            {
+              name: "pop_profile_layer",
+              description:
+                "Remove a layer (the top one by default) from the applied profile stack",
+              inputSchema: {
+                type: "object",
+                properties: {
+                  name: {
+                    type: "string",
+                    description: "Layer to remove",
+                  },
                 },
                 required: [],
               },
             },
+            {
+              name: "reorder_profile_layers",
+              description: "Change the order of the applied profile stack",
+              inputSchema: {
+                type: "object",
+                properties: {
+                  layers: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Every layer name once, bottom first",
+                  },
+                },
+                required: ["layers"],
+              },
+            },
+            {
+              name: "set_profile_layer_enabled",
+              description:
+                "Enable or disable a layer of the applied profile stack without removing it",
+              inputSchema: {
+                type: "object",
+                properties: {
+                  name: { type: "string", description: "Layer name" },
+                  enabled: { type: "boolean" },
+                },
+                required: ["name", "enabled"],
+              },
+            },
+            {
+              name: "rollback_profile",
+              description:
+                "Restore the behavior of an earlier profile application from the apply history",
+              inputSchema: {
+                type: "object",
+                properties: {
+                  entry: {
+                    type: "integer",
+                    description:
+                      "History entry id to restore (default: the last applied profile before the current one)",
+                  },
+                },
+                required: [],
+              },
+            },
+            {
+              name: "diff_claude_configs",
+              description:
+                "Show what changes, section by section, when switching from one profile to another",
+              inputSchema: {
+                type: "object",
+                properties: {
+                  from: {
+                    type: "string",
+                    description:
+                      'Profile name or path to compare from (default: "applied", the applied configuration)',
+                  },
+                  to: {
+                    type: "string",
+                    description:
+                      'Profile name or path to compare to, or "applied"',
+                  },
+                  format: {
+                    type: "string",
+                    enum: PROFILE_DIFF_FORMATS,
+                    description: "Output format (default: text)",
+                  },
+                },
+                required: ["to"],
+              },
+            },
             {
               name: "list_claude_configs",
               description:
@@ -201,7 +453,7 @@ export class ToolHandlers {
           this.proxyManager.getConnectedServers(),
         );
 
-        const externalTools = this.proxyManager.getAggregatedTools();
+        const externalTools = this.getVisibleProxyTools(session);
         this.logger.debug(
           `[TOOL-HANDLER] External tools count: ${externalTools.length}`,
         );
@@ -247,57 +499,189 @@ export class ToolHandlers {
   /**
    * Setup the call tool handler
    */
-  private setupCallToolHandler(): void {
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  private setupCallToolHandler(server: Server): void {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
+      const session = this.sessions.getSession(extra?.sessionId);
       this.logger.debug(`[TOOL-HANDLER] Processing tool call: ${name}`);
       this.logger.debug(`[TOOL-HANDLER] Tool arguments:`, JSON.stringify(args));
 
-      switch (name) {
-        case "apply_claude_config":
-          return this.handleApplyClaudeConfig(args);
+      const visibleBefore = this.getVisibleToolNames(session);
+      const caller = getCallerContext(session, extra);
+      const access: AccessRequest = {
+        method: "tools/call",
+        target: name,
+        server: this.proxyManager?.getToolServer(name),
+        permission: getToolPermission(name),
+        profile: getRequestedProfile(name, args),
+      };
+      const actor =
+        this.accessPolicy?.resolveIdentity(caller)?.id ??
+        this.getDefaultActor(session);
+      const dispatch = () => this.dispatchToolCall(name, args, session, actor);
+      const authorized = async () => {
+        if (!this.accessPolicy) {
+          return dispatch();
+        }
+        // Looked up in the apply history only for admitted callers whose
+        // decision depends on it
+        if (
+          name === "rollback_profile" &&
+          this.accessPolicy.checksProfiles(caller)
+        ) {
+          access.profile = await this.getRollbackProfile(args, session);
+        }
+        return this.accessPolicy.run(caller, access, dispatch);
+      };
+      const result = this.requestLimiter
+        ? await this.requestLimiter.run(caller, access, authorized)
+        : await authorized();
 
-        case "list_claude_configs":
-          return this.handleListClaudeConfigs(args);
+      if (this.getVisibleToolNames(session) !== visibleBefore) {
+        this.logger.info(
+          `[TOOL-HANDLER] Visible tools changed for session ${session.id}`,
+        );
+        server.sendToolListChanged().catch((error) => {
+          this.logger.debug(
+            "[TOOL-HANDLER] Failed to send tools/list_changed:",
+            error,
+          );
+        });
+      }
+      return result;
+    });
+  }
 
-        case "get_applied_config":
-          return this.handleGetAppliedConfig(args);
+  /**
+   * Tool rules of the session's active profile
+   */
+  private getToolFilter(session: ClientSession): ToolFilter {
+    return createToolFilter(getProfileToolPatterns(getAppliedProfile(session)));
+  }
 
-        default:
-          if (this.proxyManager) {
-            this.logger.debug(
-              `[TOOL-HANDLER] Attempting proxy tool call: ${name}`,
+  /**
+   * Proxied tools the session's active profile allows
+   */
+  private getVisibleProxyTools(session: ClientSession): Tool[] {
+    if (!this.proxyManager) {
+      return [];
+    }
+    const filter = this.getToolFilter(session);
+    return this.proxyManager
+      .getAggregatedTools()
+      .filter((tool) => isToolAllowed(filter, tool.name));
+  }
+
+  private getVisibleToolNames(session: ClientSession): string {
+    return this.getVisibleProxyTools(session)
+      .map((tool) => tool.name)
+      .join("\n");
+  }
+
+  /**
+   * Route a tool call to a local handler or the proxied server
+   */
+  private async dispatchToolCall(
+    name: string,
+    args: unknown,
+    session: ClientSession,
+    actor?: string,
+  ) {
+    switch (name) {
+      case "apply_claude_config":
+        return this.handleApplyClaudeConfig(args, session, actor);
+
+      case "rollback_profile":
+        return this.handleRollbackProfile(args, session, actor);
+
+      case "push_profile_layer":
+      case "pop_profile_layer":
+      case "reorder_profile_layers":
+      case "set_profile_layer_enabled":
+        return this.handleProfileStack(name, args, session, actor);
+
+      case "diff_claude_configs":
+        return this.handleDiffClaudeConfigs(args, session);
+
+      case "list_claude_configs":
+        return this.handleListClaudeConfigs(args, session);
+
+      case "get_applied_config":
+        return this.handleGetAppliedConfig(args, session);
+
+      default:
+        if (this.proxyManager) {
+          if (!isToolAllowed(this.getToolFilter(session), name)) {
+            this.logger.info(
+              `[TOOL-HANDLER] Tool ${name} refused by profile ${session.lastAppliedProfile}`,
             );
-            return this.errorHandler.wrapToolCall(
-              () => this.proxyManager!.callTool(name, args),
-              {
-                operation: "proxy_tool_call",
-                toolName: name,
-                args,
-              },
+            throw new McpError(
+              ACCESS_DENIED_ERROR_CODE,
+              `Tool '${name}' is not allowed by profile '${session.lastAppliedProfile}'`,
+              { tool: name, profile: session.lastAppliedProfile },
             );
           }
-          this.logger.debug(`[TOOL-HANDLER] Unknown tool requested: ${name}`);
-          return createStandardErrorResponse(`Unknown tool: ${name}`);
-      }
-    });
+          this.logger.debug(
+            `[TOOL-HANDLER] Attempting proxy tool call: ${name}`,
+          );
+          return this.errorHandler.wrapToolCall(
+            () => this.proxyManager!.callTool(name, args, session.id),
+            {
+              operation: "proxy_tool_call",
+              toolName: name,
+              args,
+            },
+          );
+        }
+        this.logger.debug(`[TOOL-HANDLER] Unknown tool requested: ${name}`);
+        return createStandardErrorResponse(`Unknown tool: ${name}`);
+    }
   }
 
   /**
    * Handle apply_claude_config tool call
    */
-  private async handleApplyClaudeConfig(args: unknown) {
+  private async handleApplyClaudeConfig(
+    args: unknown,
+    session: ClientSession = this.sessions.getDefaultSession(),
+    actor?: string,
+  ) {
     this.logger.debug("[APPLY-CLAUDE-CONFIG] Handler called");
-    return this.errorHandler.wrapToolCall(
-      () => this.doHandleApplyClaudeConfig(args),
-      {
-        operation: "apply_claude_config",
-        args,
-      },
+    return this.notifyingProfileChange(session, () =>
+      this.errorHandler.wrapToolCall(
+        () => this.doHandleApplyClaudeConfig(args, session, actor),
+        {
+          operation: "apply_claude_config",
+          args,
+        },
+      ),
     );
   }
 
-  private async doHandleApplyClaudeConfig(args: unknown) {
+  /**
+   * Run a tool call and notify profile resource subscribers if it applied
+   * a profile
+   */
+  private async notifyingProfileChange(
+    session: ClientSession,
+    apply: () => Promise<CallToolResult>,
+  ): Promise<CallToolResult> {
+    const appliedBefore = session.lastAppliedTime;
+    const result = await apply();
+    if (
+      session.lastAppliedProfile &&
+      session.lastAppliedTime !== appliedBefore
+    ) {
+      this.sessions.notifyProfileChanged(session.lastAppliedProfile, session);
+    }
+    return result;
+  }
+
+  private async doHandleApplyClaudeConfig(
+    args: unknown,
+    session: ClientSession,
+    actor?: string,
+  ) {
     this.logger.debug(
       "[APPLY-CLAUDE-CONFIG] Starting configuration application",
     );
@@ -309,6 +693,7 @@ export class ToolHandlers {
     let filePath: string = "";
     let profileName: string | undefined;
     let autoApply: boolean = true; // Auto-apply by default
+    let variables: TemplateVariables = {};
 
     if (typeof args === "string") {
       this.logger.debug(
@@ -323,10 +708,35 @@ export class ToolHandlers {
         filePath?: string;
         profileName?: string;
         autoApply?: boolean;
+        variables?: unknown;
+        layers?: unknown;
       };
       filePath = argsObj.filePath || "";
       profileName = argsObj.profileName;
       autoApply = argsObj.autoApply !== undefined ? argsObj.autoApply : true;
+      if (argsObj.variables !== undefined) {
+        if (!isTemplateVariables(argsObj.variables)) {
+          return createStandardErrorResponse(
+            "variables must be an object of string values",
+          );
+        }
+        variables = argsObj.variables;
+      }
+      if (argsObj.layers !== undefined) {
+        if (!isStringArray(argsObj.layers) || argsObj.layers.length === 0) {
+          return createStandardErrorResponse(
+            "layers must be a non-empty array of profile names or paths",
+          );
+        }
+        const refs = argsObj.layers;
+        return this.runStackOperation(async () => {
+          let layers: StackLayer[] = [];
+          for (const ref of refs) {
+            layers = pushLayer(layers, await this.loadLayer(ref, session));
+          }
+          return this.applyProfileStack(session, layers, variables, actor);
+        });
+      }
       this.logger.debug(
         "[APPLY-CLAUDE-CONFIG] Parsed - filePath:",
         filePath,
@@ -362,15 +772,38 @@ export class ToolHandlers {
         "[APPLY-CLAUDE-CONFIG] Handling profileName-only case:",
         profileName,
       );
-      if (this.activeProfiles.has(profileName)) {
+      if (session.activeProfiles.has(profileName)) {
         this.logger.debug(
           "[APPLY-CLAUDE-CONFIG] Profile already loaded:",
           profileName,
         );
-        const config = this.activeProfiles.get(profileName);
+        const config = session.activeProfiles.get(profileName);
+
+        const refusal = await this.checkProfileSignature(config?.filePath);
+        if (refusal) {
+          return refusal;
+        }
+
+        let behaviorInstructions = "";
+        if (autoApply) {
+          try {
+            behaviorInstructions = await this.renderProfile(
+              profileName,
+              config!,
+              variables,
+            );
+          } catch (error) {
+            if (error instanceof ProfileTemplateError) {
+              return createStandardErrorResponse(error.message);
+            }
+            throw error;
+          }
+          session.appliedVariables = variables;
+        }
 
-        this.lastAppliedProfile = profileName;
-        this.lastAppliedTime = new Date().toISOString();
+        session.lastAppliedProfile = profileName;
+        session.lastAppliedTime = new Date().toISOString();
+        session.profileStack = undefined;
 
         let responseMessages = [
           {
@@ -380,11 +813,15 @@ export class ToolHandlers {
         ];
 
         if (autoApply) {
-          const behaviorInstructions = BehaviorGenerator.generateInstructions(
-            config!,
+          await this.recordAppliedBehavior(
+            session,
+            profileName,
+            behaviorInstructions,
+            actor,
           );
 
           if (
+            session.id === DEFAULT_SESSION_ID &&
             this.omniMCPServer &&
             typeof this.omniMCPServer.setAppliedBehaviorInstructions ===
               "function"
@@ -427,7 +864,7 @@ export class ToolHandlers {
       this.logger.debug(
         "[APPLY-CLAUDE-CONFIG] Profile not loaded, searching for file path",
       );
-      const existingConfig = this.activeProfiles.get(profileName);
+      const existingConfig = session.activeProfiles.get(profileName);
       const existingPath = (existingConfig as Record<string, unknown>)
         ?._filePath as string;
       if (existingPath) {
@@ -604,6 +1041,11 @@ export class ToolHandlers {
       }
     }
 
+    const refusal = await this.checkProfileSignature(filePath);
+    if (refusal) {
+      return refusal;
+    }
+
     this.logger.debug(
       "[APPLY-CLAUDE-CONFIG] Attempting final config load from:",
       filePath,
@@ -628,19 +1070,38 @@ export class ToolHandlers {
       "[APPLY-CLAUDE-CONFIG] Generated profile name:",
       autoProfileName,
     );
-    this.activeProfiles.set(autoProfileName, config);
+
+    let behaviorInstructions = "";
+    if (autoApply) {
+      try {
+        behaviorInstructions = await this.renderProfile(
+          autoProfileName,
+          config,
+          variables,
+        );
+      } catch (error) {
+        if (error instanceof ProfileTemplateError) {
+          return createStandardErrorResponse(error.message);
+        }
+        throw error;
+      }
+      session.appliedVariables = variables;
+    }
+
+    session.activeProfiles.set(autoProfileName, config);
     this.logger.debug(
       "[APPLY-CLAUDE-CONFIG] Stored in activeProfiles, total profiles:",
-      this.activeProfiles.size,
+      session.activeProfiles.size,
     );
 
-    this.lastAppliedProfile = autoProfileName;
-    this.lastAppliedTime = new Date().toISOString();
+    session.lastAppliedProfile = autoProfileName;
+    session.lastAppliedTime = new Date().toISOString();
+    session.profileStack = undefined;
     this.logger.debug(
       "[APPLY-CLAUDE-CONFIG] Tracked last applied profile:",
       autoProfileName,
       "at:",
-      this.lastAppliedTime,
+      session.lastAppliedTime,
     );
 
     let responseMessages = [
@@ -654,14 +1115,20 @@ export class ToolHandlers {
       this.logger.debug(
         "[APPLY-CLAUDE-CONFIG] Auto-apply enabled, generating behavior instructions",
       );
-      const behaviorInstructions =
-        BehaviorGenerator.generateInstructions(config);
       this.logger.debug(
         "[APPLY-CLAUDE-CONFIG] Generated instructions length:",
         behaviorInstructions.length,
       );
 
+      await this.recordAppliedBehavior(
+        session,
+        autoProfileName,
+        behaviorInstructions,
+        actor,
+      );
+
       if (
+        session.id === DEFAULT_SESSION_ID &&
         this.omniMCPServer &&
         typeof this.omniMCPServer.setAppliedBehaviorInstructions === "function"
       ) {
@@ -700,17 +1167,433 @@ export class ToolHandlers {
     };
   }
 
+  /**
+   * Error response when profile signing refuses the file, if it does
+   */
+  private async checkProfileSignature(
+    filePath?: string,
+  ): Promise<CallToolResult | undefined> {
+    if (!filePath) {
+      return undefined;
+    }
+    try {
+      await this.claudeConfigManager.verifySignature(filePath);
+      return undefined;
+    } catch (error) {
+      if (error instanceof ProfileSignatureError) {
+        return createStandardErrorResponse(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Behavior instructions with the profile's variables filled in, resolving
+   * `secret:` variables; fails when a variable has no value
+   */
+  private async renderProfile(
+    name: string,
+    config: ClaudeConfig,
+    variables: TemplateVariables,
+  ): Promise<string> {
+    return BehaviorGenerator.renderInstructions(
+      name,
+      config,
+      variables,
+      this.secretManager,
+    );
+  }
+
+  /**
+   * Swap in the applied behavior and add it to the apply history; a history
+   * that cannot be written does not fail the apply
+   */
+  private async recordAppliedBehavior(
+    session: ClientSession,
+    profile: string,
+    behaviorInstructions: string,
+    actor: string = this.getDefaultActor(session),
+  ): Promise<void> {
+    const hash = computeStringHash(behaviorInstructions);
+    session.appliedBehaviorInstructions = behaviorInstructions;
+    session.behaviorState.atomicSwapBehavior(behaviorInstructions, {
+      profile,
+      hash,
+    });
+    try {
+      await this.applyHistory?.record({
+        profile,
+        hash,
+        actor,
+        behavior: behaviorInstructions,
+        ...(session.profileStack && { layers: session.profileStack }),
+        session: session.id,
+      });
+    } catch (error) {
+      this.logger.warn(
+        `[APPLY-HISTORY] Failed to record '${profile}': ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Caller recorded in the apply history when no identity was resolved
+   */
+  private getDefaultActor(session: ClientSession): string {
+    return session.transport === "stdio" ? "local" : ANONYMOUS_IDENTITY_ID;
+  }
+
+  /**
+   * Latest apply history entries of the session, newest first, without
+   * their behavior; the ids are what rollback_profile takes
+   */
+  private async getRecentHistory(session: ClientSession, limit = 10) {
+    try {
+      const entries = await this.applyHistory!.list();
+      return entries
+        .filter((entry) => entry.session === session.id)
+        .slice(-limit)
+        .reverse()
+        .map(({ id, action, profile, actor, timestamp }) => ({
+          id,
+          action,
+          profile,
+          actor,
+          timestamp,
+        }));
+    } catch (error) {
+      this.logger.warn(`[APPLY-HISTORY] ${(error as Error).message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Profile(s) a rollback_profile call would restore, so the policy
+   * `profiles` rules are checked before rolling back
+   */
+  private async getRollbackProfile(
+    args: unknown,
+    session: ClientSession,
+  ): Promise<string | string[] | undefined> {
+    const { entry } = (args || {}) as { entry?: unknown };
+    if (
+      !this.applyHistory ||
+      (entry !== undefined && !Number.isInteger(entry))
+    ) {
+      return undefined;
+    }
+    try {
+      const target = await this.applyHistory.findRollbackTarget(
+        session.behaviorState.getCurrentHash(),
+        entry as number | undefined,
+        session.id,
+      );
+      return target.layers?.map((layer) => layer.name) ?? target.profile;
+    } catch (error) {
+      if (error instanceof ApplyHistoryError) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Handle rollback_profile tool call
+   */
+  private async handleRollbackProfile(
+    args: unknown,
+    session: ClientSession = this.sessions.getDefaultSession(),
+    actor?: string,
+  ) {
+    this.logger.debug("[ROLLBACK-PROFILE] Handler called");
+    return this.notifyingProfileChange(session, () =>
+      this.errorHandler.wrapToolCall(
+        () => this.doHandleRollbackProfile(args, session, actor),
+        { operation: "rollback_profile", args },
+      ),
+    );
+  }
+
+  private async doHandleRollbackProfile(
+    args: unknown,
+    session: ClientSession,
+    actor: string = this.getDefaultActor(session),
+  ): Promise<CallToolResult> {
+    if (!this.applyHistory) {
+      return createStandardErrorResponse("Apply history is not available");
+    }
+    const { entry } = (args || {}) as { entry?: unknown };
+    if (entry !== undefined && !Number.isInteger(entry)) {
+      return createStandardErrorResponse("entry must be a history entry id");
+    }
+
+    let restored;
+    try {
+      restored = await this.applyHistory.rollback(
+        session.behaviorState,
+        actor,
+        entry as number | undefined,
+        session.id,
+      );
+    } catch (error) {
+      if (error instanceof ApplyHistoryError) {
+        return createStandardErrorResponse(error.message);
+      }
+      throw error;
+    }
+
+    session.appliedBehaviorInstructions = restored.behavior;
+    session.lastAppliedProfile = restored.profile;
+    session.lastAppliedTime = new Date().toISOString();
+    session.profileStack = restored.layers;
+    if (
+      session.id === DEFAULT_SESSION_ID &&
+      this.omniMCPServer &&
+      typeof this.omniMCPServer.setAppliedBehaviorInstructions === "function"
+    ) {
+      this.omniMCPServer.setAppliedBehaviorInstructions(restored.behavior);
+    }
+    this.logger.info(
+      `[ROLLBACK-PROFILE] Restored '${restored.profile}' from history entry #${restored.restoredFrom}`,
+    );
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Rolled back to profile '${restored.profile}' from history entry #${restored.restoredFrom} (recorded as #${restored.id})`,
+        },
+        {
+          type: "text",
+          text:
+            "**PROFILE APPLIED TO SYSTEM**\n\nThe following behavior instructions are now active and will guide all responses:\n\n" +
+            restored.behavior,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Handle the push/pop/reorder/enable profile stack tool calls. Without a
+   * stack, the applied profile is its only layer.
+   */
+  private async handleProfileStack(
+    name: string,
+    args: unknown,
+    session: ClientSession,
+    actor?: string,
+  ) {
+    this.logger.debug(`[PROFILE-STACK] ${name} called`);
+    return this.notifyingProfileChange(session, () =>
+      this.errorHandler.wrapToolCall(
+        () =>
+          this.runStackOperation(() =>
+            this.doHandleProfileStack(name, args, session, actor),
+          ),
+        { operation: name, args },
+      ),
+    );
+  }
+
+  private async doHandleProfileStack(
+    name: string,
+    args: unknown,
+    session: ClientSession,
+    actor?: string,
+  ): Promise<CallToolResult> {
+    const argsObj = (args || {}) as Record<string, unknown>;
+    const current: StackLayer[] =
+      session.profileStack ??
+      (session.lastAppliedProfile
+        ? [{ name: session.lastAppliedProfile, enabled: true }]
+        : []);
+    let variables = session.appliedVariables ?? {};
+    let layers: StackLayer[];
+
+    switch (name) {
+      case "push_profile_layer": {
+        if (typeof argsObj.profile !== "string" || !argsObj.profile) {
+          return createStandardErrorResponse("profile is required");
+        }
+        if (
+          argsObj.variables !== undefined &&
+          !isTemplateVariables(argsObj.variables)
+        ) {
+          return createStandardErrorResponse(
+            "variables must be an object of string values",
+          );
+        }
+        layers = pushLayer(
+          current,
+          await this.loadLayer(argsObj.profile, session),
+        );
+        variables = { ...variables, ...argsObj.variables };
+        break;
+      }
+      case "pop_profile_layer":
+        if (argsObj.name !== undefined && typeof argsObj.name !== "string") {
+          return createStandardErrorResponse("name must be a string");
+        }
+        layers = popLayer(current, argsObj.name);
+        break;
+      case "reorder_profile_layers":
+        if (!isStringArray(argsObj.layers)) {
+          return createStandardErrorResponse(
+            "layers must be an array of layer names",
+          );
+        }
+        layers = reorderLayers(current, argsObj.layers);
+        break;
+      default:
+        if (
+          typeof argsObj.name !== "string" ||
+          typeof argsObj.enabled !== "boolean"
+        ) {
+          return createStandardErrorResponse("name and enabled are required");
+        }
+        layers = setLayerEnabled(current, argsObj.name, argsObj.enabled);
+    }
+
+    return this.applyProfileStack(session, layers, variables, actor);
+  }
+
+  /**
+   * Run a stack operation, answering mistakes in the request (unknown
+   * layers, missing variables, unsigned profiles) with an error result
+   */
+  private async runStackOperation(
+    operation: () => Promise<CallToolResult>,
+  ): Promise<CallToolResult> {
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        error instanceof ProfileStackError ||
+        error instanceof ProfileTemplateError ||
+        error instanceof ProfileSignatureError
+      ) {
+        return createStandardErrorResponse(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Name of the profile a layer refers to: a loaded profile, or a CLAUDE.md
+   * path which is loaded under its file name. A path is refused when a
+   * different file is already loaded under that name, rather than replacing it.
+   */
+  private async loadLayer(ref: string, session: ClientSession) {
+    const loaded = session.activeProfiles.get(ref);
+    if (loaded) {
+      if (loaded.filePath) {
+        await this.claudeConfigManager.verifySignature(loaded.filePath);
+      }
+      return ref;
+    }
+
+    const filePath = PathResolver.getInstance().resolveProfilePath(ref);
+    await this.claudeConfigManager.verifySignature(filePath);
+    let config: ClaudeConfig | null;
+    try {
+      config = await this.claudeConfigManager.loadClaudeConfig(filePath);
+    } catch (error) {
+      throw new ProfileStackError(
+        `Profile '${ref}' is not loaded and could not be read: ${(error as Error).message}`,
+      );
+    }
+    if (!config) {
+      throw new ProfileStackError(`Profile '${ref}' is not loaded`);
+    }
+    const name = path.basename(filePath, path.extname(filePath));
+    const existing = session.activeProfiles.get(name);
+    if (existing && existing.filePath !== config.filePath) {
+      throw new ProfileStackError(
+        `Profile '${name}' is already loaded from ${existing.filePath ?? "the configuration"}; rename ${filePath} to use it as a layer`,
+      );
+    }
+    session.activeProfiles.set(name, config);
+    return name;
+  }
+
+  /**
+   * Merge the enabled layers of a stack and apply the result under the
+   * stack's name
+   */
+  private async applyProfileStack(
+    session: ClientSession,
+    layers: StackLayer[],
+    variables: TemplateVariables,
+    actor?: string,
+  ): Promise<CallToolResult> {
+    const { config, missing } = mergeStack(layers, session.activeProfiles);
+    if (missing.length > 0) {
+      throw new ProfileStackError(
+        `Profile layers are not loaded: ${missing.join(", ")}`,
+      );
+    }
+    const name = getStackName(layers);
+    const behaviorInstructions = await this.renderProfile(
+      name,
+      config,
+      variables,
+    );
+
+    session.profileStack = layers;
+    session.appliedVariables = variables;
+    session.lastAppliedProfile = name;
+    session.lastAppliedTime = new Date().toISOString();
+    await this.recordAppliedBehavior(
+      session,
+      name,
+      behaviorInstructions,
+      actor,
+    );
+    if (
+      session.id === DEFAULT_SESSION_ID &&
+      this.omniMCPServer &&
+      typeof this.omniMCPServer.setAppliedBehaviorInstructions === "function"
+    ) {
+      this.omniMCPServer.setAppliedBehaviorInstructions(behaviorInstructions);
+    }
+    this.logger.info(`[PROFILE-STACK] Applied profile stack '${name}'`);
+
+    const described = layers
+      .map((layer) => (layer.enabled ? layer.name : `${layer.name} (disabled)`))
+      .join(", ");
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Applied profile stack '${name}' with layers (bottom first): ${described}`,
+        },
+        {
+          type: "text",
+          text:
+            "**PROFILE APPLIED TO SYSTEM**\n\nThe following behavior instructions are now active and will guide all responses:\n\n" +
+            behaviorInstructions,
+        },
+      ],
+    };
+  }
+
   /**
    * Handle list_claude_configs tool call
    */
-  private async handleListClaudeConfigs(args: unknown) {
+  private async handleListClaudeConfigs(
+    args: unknown,
+    session: ClientSession = this.sessions.getDefaultSession(),
+  ) {
     this.logger.debug("[LIST-CLAUDE-CONFIGS] Handler called");
-    return this.doHandleListClaudeConfigs(args);
+    return this.doHandleListClaudeConfigs(args, session);
   }
 
-  private async doHandleListClaudeConfigs(_args: unknown) {
+  private async doHandleListClaudeConfigs(
+    _args: unknown,
+    session: ClientSession,
+  ) {
     this.logger.info("[LIST-CLAUDE-CONFIGS] Starting list operation");
-    const loadedConfigNames = Array.from(this.activeProfiles.keys());
+    const loadedConfigNames = Array.from(session.activeProfiles.keys());
     this.logger.info(
       "[LIST-CLAUDE-CONFIGS] Loaded config names:",
       loadedConfigNames,
@@ -718,15 +1601,20 @@ export class ToolHandlers {
 
     const result = {
       loaded: loadedConfigNames.map((name) => {
+        const config = session.activeProfiles.get(name);
         const filePath =
-          ((this.activeProfiles.get(name) as Record<string, unknown>)
-            ?._filePath as string) || "unknown";
+          ((config as Record<string, unknown>)?._filePath as string) ||
+          "unknown";
         const fileName =
           filePath !== "unknown" ? filePath.split("/").pop() : "unknown";
         return {
           name,
           status: "loaded",
           file: fileName,
+          ...(config?.metadata && { metadata: config.metadata }),
+          ...(config?.includeTree?.length && {
+            includes: describeIncludeTree(config.includeTree, filePath),
+          }),
         };
       }),
       available: [], // No scanning for available files
@@ -747,19 +1635,142 @@ export class ToolHandlers {
     };
   }
 
+  /**
+   * Handle diff_claude_configs tool call
+   */
+  private async handleDiffClaudeConfigs(
+    args: unknown,
+    session: ClientSession = this.sessions.getDefaultSession(),
+  ) {
+    this.logger.debug("[DIFF-CLAUDE-CONFIGS] Handler called");
+    return this.errorHandler.wrapToolCall(
+      () => this.doHandleDiffClaudeConfigs(args, session),
+      { operation: "diff_claude_configs", args },
+    );
+  }
+
+  private async doHandleDiffClaudeConfigs(
+    args: unknown,
+    session: ClientSession,
+  ): Promise<CallToolResult> {
+    const {
+      from = APPLIED_PROFILE_REF,
+      to,
+      format = "text",
+    } = (args || {}) as { from?: unknown; to?: unknown; format?: unknown };
+    if (typeof from !== "string" || typeof to !== "string" || !to) {
+      return createStandardErrorResponse(
+        "to (and optionally from) must be profile names or paths",
+      );
+    }
+    if (!PROFILE_DIFF_FORMATS.includes(format as ProfileDiffFormat)) {
+      return createStandardErrorResponse(
+        `format must be one of: ${PROFILE_DIFF_FORMATS.join(", ")}`,
+      );
+    }
+
+    try {
+      const [fromConfig, toConfig] = await Promise.all([
+        this.resolveDiffTarget(from, session),
+        this.resolveDiffTarget(to, session),
+      ]);
+      const label = (ref: string) =>
+        ref === APPLIED_PROFILE_REF
+          ? `${ref} (${session.lastAppliedProfile})`
+          : ref;
+      const names = { from: label(from), to: label(to) };
+      const text = formatProfileDiff(
+        fromConfig,
+        toConfig,
+        names,
+        format as ProfileDiffFormat,
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              text ||
+              `No differences between '${names.from}' and '${names.to}'.`,
+          },
+        ],
+      };
+    } catch (error) {
+      if (
+        error instanceof ProfileDiffError ||
+        error instanceof ProfileSignatureError
+      ) {
+        return createStandardErrorResponse(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Profile a diff side refers to: the applied configuration, a loaded
+   * profile or a profile file, with its inheritance chain resolved. Like
+   * apply_claude_config, files are checked against the policy's profile
+   * rules; they must also stay within the allowed profile directories.
+   */
+  private async resolveDiffTarget(
+    ref: string,
+    session: ClientSession,
+  ): Promise<ClaudeConfig> {
+    const profile =
+      ref === APPLIED_PROFILE_REF
+        ? getAppliedProfile(session)
+        : session.activeProfiles.get(ref);
+    if (!profile && ref === APPLIED_PROFILE_REF) {
+      throw new ProfileDiffError("No configuration is currently applied");
+    }
+    // Merged stacks have no file of their own
+    const filePath = profile ? profile.filePath : this.resolveDiffFile(ref);
+    if (!filePath) {
+      return profile!;
+    }
+
+    await this.claudeConfigManager.verifySignature(filePath);
+    const resolution = await new ProfileInheritanceManager(
+      this.claudeConfigManager,
+      this.logger,
+    ).resolveProfile(filePath);
+    if (resolution.errors.length > 0) {
+      throw new ProfileDiffError(
+        `Profile '${ref}' could not be resolved: ${resolution.errors.join(", ")}`,
+      );
+    }
+    return resolution.config;
+  }
+
+  private resolveDiffFile(ref: string): string {
+    try {
+      return PathResolver.getInstance().resolveAllowedProfilePath(ref);
+    } catch {
+      throw new ProfileDiffError(
+        `Profile '${ref}' is not a loaded profile or a profile file in an allowed directory`,
+      );
+    }
+  }
+
   /**
    * Handle get_active_profile tool call - returns currently applied profile info
    */
-  private async handleGetAppliedConfig(args: unknown) {
+  private async handleGetAppliedConfig(
+    args: unknown,
+    session: ClientSession = this.sessions.getDefaultSession(),
+  ) {
     this.logger.debug("[GET-APPLIED-CONFIG] Handler called");
-    return this.doHandleGetAppliedConfig(args);
+    return this.doHandleGetAppliedConfig(args, session);
   }
 
-  private async doHandleGetAppliedConfig(_args: unknown) {
+  private async doHandleGetAppliedConfig(
+    _args: unknown,
+    session: ClientSession,
+  ) {
     this.logger.debug(
       "[GET-APPLIED-CONFIG] Starting get applied config operation",
     );
-    const lastAppliedProfile = this.lastAppliedProfile;
+    const lastAppliedProfile = session.lastAppliedProfile;
     this.logger.debug(
       "[GET-APPLIED-CONFIG] Last applied profile:",
       lastAppliedProfile,
@@ -779,7 +1790,7 @@ export class ToolHandlers {
       };
     }
 
-    const config = this.activeProfiles.get(lastAppliedProfile);
+    const config = getAppliedProfile(session);
     if (!config) {
       this.logger.debug(
         "[GET-APPLIED-CONFIG] Configuration no longer in memory:",
@@ -806,8 +1817,19 @@ export class ToolHandlers {
       description: config.description || "No description",
       path:
         ((config as Record<string, unknown>)._filePath as string) || "unknown",
-      appliedAt: this.lastAppliedTime || "unknown",
+      appliedAt: session.lastAppliedTime || "unknown",
       sections: Object.keys(config).filter((k) => !k.startsWith("_")),
+      ...(session.profileStack && {
+        layers: session.profileStack.map((layer) => ({
+          ...layer,
+          path: session.activeProfiles.get(layer.name)?.filePath || "unknown",
+        })),
+        contributions: mergeStack(session.profileStack, session.activeProfiles)
+          .sources,
+      }),
+      ...(this.applyHistory && {
+        history: await this.getRecentHistory(session),
+      }),
     };
 
     return {
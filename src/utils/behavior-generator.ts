@@ -4,14 +4,82 @@ import {
   ProfileMergeResult,
   MergeOptions,
 } from "../behavior/merge-rules.js";
+import {
+  ProfileTemplateError,
+  TemplateVariables,
+  renderTemplate,
+  resolveSecretVariables,
+} from "./profile-template.js";
+import { SecretManager } from "../security/secret-manager.js";
 
 export class BehaviorGenerator {
   private static currentMergedProfile: ProfileMergeResult | null = null;
 
   /**
-   * Generate behavior instructions from a Claude configuration
+   * Generate behavior instructions from a Claude configuration, filling in
+   * `{{variables}}` from `variables` and the profile's defaults. Variables
+   * without a value are left as written.
+   */
+  static generateInstructions(
+    config: ClaudeConfig,
+    variables: TemplateVariables = {},
+  ): string {
+    return renderTemplate(BehaviorGenerator.composeInstructions(config), {
+      ...config.variables,
+      ...variables,
+    }).text;
+  }
+
+  /**
+   * Variables in a profile's instructions that have neither a value in
+   * `variables` nor a default in the profile
+   */
+  static findUnresolvedVariables(
+    config: ClaudeConfig,
+    variables: TemplateVariables = {},
+  ): string[] {
+    return renderTemplate(BehaviorGenerator.composeInstructions(config), {
+      ...config.variables,
+      ...variables,
+    }).missing;
+  }
+
+  /**
+   * Behavior instructions with the profile's variables filled in, resolving
+   * `secret:` variables through the secret manager; throws a
+   * ProfileTemplateError when a variable has no value
+   */
+  static async renderInstructions(
+    name: string,
+    config: ClaudeConfig,
+    variables: TemplateVariables = {},
+    secretManager?: SecretManager,
+  ): Promise<string> {
+    const template = BehaviorGenerator.composeInstructions(config);
+    const values = { ...config.variables, ...variables };
+    const secrets = await resolveSecretVariables(
+      template,
+      values,
+      secretManager,
+    );
+    const { text, missing } = renderTemplate(template, {
+      ...values,
+      ...secrets,
+    });
+
+    if (missing.length > 0) {
+      throw new ProfileTemplateError(
+        `Profile '${name}' has unresolved variables: ${missing.join(", ")}. Pass them in 'variables' or declare defaults in the profile's front-matter`,
+        missing,
+      );
+    }
+    return text;
+  }
+
+  /**
+   * Instruction text of a profile with its `{{variables}}` as written
    */
-  static generateInstructions(config: ClaudeConfig): string {
+  private static composeInstructions(config: ClaudeConfig): string {
     const instructions: string[] = [];
 
     instructions.push("# MCP PROFILE PRIORITY OVERRIDE");
@@ -7,6 +7,27 @@ import {
   VersionedConfig,
 } from "./schema-version-manager.js";
 import { ILogger, SilentLogger } from "./logger.js";
+import { ProfileSigning } from "../security/profile-signing.js";
+import type { RemoteProfileResolver } from "./remote-profiles.js";
+import {
+  IncludeNode,
+  hasIncludeDirectives,
+  resolveIncludes,
+} from "./profile-includes.js";
+import {
+  ProfileMetadata,
+  formatFrontMatter,
+  readFrontMatter,
+} from "./front-matter.js";
+import { TemplateVariables, readVariableDefaults } from "./profile-template.js";
+import {
+  ProfileBlock,
+  ProfileSection,
+  SourcePosition,
+  blockLines,
+  isCommentBlock,
+  parseProfileMarkdown,
+} from "./profile-markdown.js";
 
 export interface ClaudeConfig {
   projectName?: string;
@@ -16,17 +37,85 @@ export interface ClaudeConfig {
   rules?: string[];
   context?: string[];
   tools?: string[];
+  /** Tool globs for proxied tools; a leading "!" denies */
+  allowToolsAppend?: string[];
   memory?: string;
   content?: string;
+  /** Content with `@include` directives expanded, when it has any */
+  resolvedContent?: string;
+  /** Absolute paths of every file pulled in with `@include` */
+  includes?: string[];
+  includeTree?: IncludeNode[];
+  /** Defaults for `{{name}}` variables, from the front-matter */
+  variables?: TemplateVariables;
+  /** Structured metadata from the profile's YAML front-matter */
+  metadata?: ProfileMetadata;
+  /** Where each parsed field starts in the profile file */
+  sourceMap?: Record<string, SourcePosition>;
   filePath?: string;
   profileName?: string;
   [key: string]: unknown;
 }
 
+/** Fields describing where a profile came from rather than what it says */
+export const PROFILE_SOURCE_FIELDS: ReadonlySet<string> = new Set([
+  "content",
+  "resolvedContent",
+  "includes",
+  "includeTree",
+  "filePath",
+  "profileName",
+  "sourceMap",
+  "metadata",
+]);
+
+/** Normalized section headings and the config field each one fills */
+const SECTION_FIELDS = new Map<string, string>([
+  ["instructions", "instructions"],
+  ["system_instructions", "instructions"],
+  ["custom_instructions", "customInstructions"],
+  ["knowledge", "knowledge"],
+  ["knowledge_base", "knowledge"],
+  ["rules", "rules"],
+  ["guidelines", "rules"],
+  ["context", "context"],
+  ["background", "context"],
+  ["tools", "tools"],
+  ["available_tools", "tools"],
+  ["allow_tools_append", "allowToolsAppend"],
+  ["allowed_tools", "allowToolsAppend"],
+  ["memory", "memory"],
+  ["memory_context", "memory"],
+  ["inheritance", "inheritance"],
+  ["inheritance_configuration", "inheritance"],
+  ["inheritanceconfiguration", "inheritance"],
+]);
+
+/** Inheritance keys that are lists even with a single value */
+const INHERITANCE_LISTS = [
+  "baseProfiles",
+  "allowToolsAppend",
+  "sectionAppendList",
+];
+
+const KEY_VALUE = /^([A-Za-z][\w -]*):\s*(.+)$/;
+
+/** Fields a `Key: value` paragraph may set; other such lines stay prose */
+const KEY_VALUE_FIELDS = ["project_name", "description", "version"];
+
+/**
+ * Text each parsed config came from and how it rendered right after
+ * parsing; saveClaude writes the original text back while the rendering
+ * is unchanged
+ */
+const sources = new WeakMap<ClaudeConfig, { text: string; rendered: string }>();
+
 export class ClaudeConfigManager {
   private configCache: Map<string, ClaudeConfig> = new Map();
   private versionManager: SchemaVersionManager;
   private logger: ILogger;
+  private signing?: ProfileSigning;
+  private remoteProfiles?: RemoteProfileResolver;
 
   constructor(logger?: ILogger) {
     this.logger = logger || new SilentLogger();
@@ -34,11 +123,44 @@ export class ClaudeConfigManager {
   }
 
   /**
-   * Check if a section requires special parsing (no key-value extraction)
+   * Set the signature policy checked by verifySignature
    */
-  private isSpecialSection(section: string | null): boolean {
-    if (!section) return false;
-    return section === "inheritance";
+  setProfileSigning(signing?: ProfileSigning): void {
+    this.signing = signing;
+  }
+
+  /**
+   * Set the resolver for remote base profiles used by inheritance
+   */
+  setRemoteProfiles(resolver?: RemoteProfileResolver): void {
+    this.remoteProfiles = resolver;
+  }
+
+  getRemoteProfiles(): RemoteProfileResolver | undefined {
+    return this.remoteProfiles;
+  }
+
+  /**
+   * Check the signatures of a profile and every fragment it pulls in with
+   * `@include` before it is applied; throws a ProfileSignatureError when
+   * security.profileSigning is 'enforce' and any of them is unsigned or
+   * tampered with. Base profiles are checked as inheritance resolves them.
+   */
+  async verifySignature(filePath: string): Promise<void> {
+    if (!this.signing?.isEnabled()) {
+      return;
+    }
+    const absolutePath =
+      PathResolver.getInstance().resolveAbsolutePath(filePath);
+    await this.signing.check(absolutePath);
+
+    const content = await fs.readFile(absolutePath, "utf-8").catch(() => "");
+    if (hasIncludeDirectives(content)) {
+      const { files } = await resolveIncludes(content, absolutePath);
+      for (const include of files) {
+        await this.signing.check(include);
+      }
+    }
   }
 
   /**
@@ -55,9 +177,13 @@ export class ClaudeConfigManager {
       merge_arrays: "mergeArrays",
       respectorder: "respectOrder",
       respect_order: "respectOrder",
+      allowtoolsappend: "allowToolsAppend",
+      allow_tools_append: "allowToolsAppend",
+      sectionappendlist: "sectionAppendList",
+      section_append_list: "sectionAppendList",
     };
 
-    const normalized = keyMap[key.toLowerCase()] || key;
+    const normalized = keyMap[key.toLowerCase().replace(/\s+/g, "_")] || key;
     return normalized;
   }
 
@@ -66,89 +192,202 @@ export class ClaudeConfigManager {
    */
   parseClaude(content: string): ClaudeConfig {
     const config: ClaudeConfig = {};
-    const lines = content.split("\n");
-    let currentSection: string | null = null;
-    let currentContent: string[] = [];
-
-    for (const line of lines) {
-      const trimmed = line.trim();
+    const sourceMap: Record<string, SourcePosition> = {};
+    const { metadata, body, bodyLine, warnings } = readFrontMatter(content);
+    warnings.forEach((warning) => this.logger.warn(warning));
+    if (metadata) {
+      this.applyFrontMatter(config, metadata);
+      sourceMap.metadata = { line: 1, column: 1 };
+    }
 
-      if (!trimmed || trimmed.startsWith("<!--")) continue;
+    const document = parseProfileMarkdown(body, bodyLine);
+    this.readBlocks(config, sourceMap, document.preamble, true);
+    for (const section of document.sections) {
+      this.readSection(config, sourceMap, section);
+    }
 
-      const headerMatch = trimmed.match(/^#+\s*(.+)$/);
-      if (headerMatch) {
-        if (currentSection && currentContent.length > 0) {
-          this.addToConfig(
-            config,
-            currentSection,
-            currentContent.join("\n").trim(),
-          );
-        }
+    if (Object.keys(config).length > 0) {
+      config.sourceMap = sourceMap;
+    }
+    this.rememberSource(config, content);
+    return config;
+  }
 
-        currentSection = headerMatch[1].toLowerCase().replace(/\s+/g, "_");
-        currentContent = [];
-        continue;
+  /**
+   * Extract a section into its config field. Sub-sections that are not
+   * config fields themselves stay part of a field's content, headings
+   * included; under other headings every sub-section is read on its own.
+   */
+  private readSection(
+    config: ClaudeConfig,
+    sourceMap: Record<string, SourcePosition>,
+    section: ProfileSection,
+  ): void {
+    const key = this.sectionKey(section);
+    const field = SECTION_FIELDS.get(key);
+    const lines = this.readBlocks(
+      config,
+      sourceMap,
+      section.blocks,
+      field !== "inheritance",
+    );
+
+    for (const child of section.children) {
+      if (field && !SECTION_FIELDS.has(this.sectionKey(child))) {
+        lines.push(...this.foldSection(config, sourceMap, child));
+      } else {
+        this.readSection(config, sourceMap, child);
       }
+    }
 
-      const kvMatch = trimmed.match(/^([^:]+):\s*(.+)$/);
-      if (kvMatch && !this.isSpecialSection(currentSection)) {
-        if (currentSection && currentContent.length > 0) {
-          this.addToConfig(
-            config,
-            currentSection,
-            currentContent.join("\n").trim(),
-          );
-          currentContent = [];
-        }
+    if (lines.length > 0) {
+      this.addToConfig(config, key, lines);
+      sourceMap[field ?? key] = {
+        line: section.line,
+        column: section.column,
+      };
+    }
+  }
 
-        const key = kvMatch[1].toLowerCase().replace(/\s+/g, "_");
-        const value = kvMatch[2];
-        config[key] = value;
-        continue;
+  /**
+   * Lines of a sub-section kept inside its parent field's content
+   */
+  private foldSection(
+    config: ClaudeConfig,
+    sourceMap: Record<string, SourcePosition>,
+    section: ProfileSection,
+  ): string[] {
+    const lines = [
+      section.raw,
+      ...this.readBlocks(config, sourceMap, section.blocks, true),
+    ];
+    for (const child of section.children) {
+      if (SECTION_FIELDS.has(this.sectionKey(child))) {
+        this.readSection(config, sourceMap, child);
+      } else {
+        lines.push(...this.foldSection(config, sourceMap, child));
       }
+    }
+    return lines;
+  }
 
-      if (currentSection) {
-        currentContent.push(line);
+  /**
+   * Content lines of a section's blocks. Comments are dropped, and
+   * paragraphs made only of `Key: value` lines for KEY_VALUE_FIELDS set
+   * those fields unless keyValues is false.
+   */
+  private readBlocks(
+    config: ClaudeConfig,
+    sourceMap: Record<string, SourcePosition>,
+    blocks: ProfileBlock[],
+    keyValues: boolean,
+  ): string[] {
+    const lines: string[] = [];
+    for (const block of blocks) {
+      if (isCommentBlock(block)) {
+        continue;
       }
+      if (block.type === "paragraph" && keyValues) {
+        const blockText = block.raw.split("\n");
+        const pairs = blockText.map((line) => {
+          const match = line.trim().match(KEY_VALUE);
+          return match
+            ? {
+                key: match[1].trim().toLowerCase().replace(/\s+/g, "_"),
+                value: match[2],
+              }
+            : null;
+        });
+        if (
+          pairs.every((pair) => pair && KEY_VALUE_FIELDS.includes(pair.key))
+        ) {
+          pairs.forEach((pair, index) => {
+            const { key, value } = pair!;
+            config[key] = value;
+            sourceMap[key] = {
+              line: block.line + index,
+              column: blockText[index].search(/\S/) + 1,
+            };
+          });
+          continue;
+        }
+      }
+      lines.push(...blockLines(block));
     }
+    return lines;
+  }
 
-    if (currentSection && currentContent.length > 0) {
-      this.addToConfig(
-        config,
-        currentSection,
-        currentContent.join("\n").trim(),
-      );
-    }
+  private sectionKey(section: ProfileSection): string {
+    return section.title.trim().toLowerCase().replace(/\s+/g, "_");
+  }
 
-    return config;
+  private rememberSource(config: ClaudeConfig, text: string): void {
+    sources.set(config, { text, rendered: this.configToClaudeFormat(config) });
   }
 
-  private addToConfig(config: ClaudeConfig, section: string, content: string) {
+  /**
+   * Copy front-matter fields onto the config; sections in the markdown body
+   * are parsed afterwards and take precedence
+   */
+  private applyFrontMatter(config: ClaudeConfig, metadata: ProfileMetadata) {
+    config.metadata = metadata;
+    if (metadata.variables !== undefined) {
+      config.variables = readVariableDefaults(metadata.variables);
+    }
+    if (metadata.description !== undefined) {
+      config.description = metadata.description;
+    }
+    if (metadata.version !== undefined) {
+      config.version = metadata.version;
+    }
+    if (metadata.schemaVersion !== undefined) {
+      config.$version = metadata.schemaVersion;
+    }
+    if (metadata.inheritance) {
+      config.inheritance = {
+        enabled: true,
+        overrideStrategy: "merge",
+        ...metadata.inheritance,
+      };
+    }
+  }
+
+  private addToConfig(config: ClaudeConfig, section: string, lines: string[]) {
+    const content = lines.join("\n").trim();
     switch (section) {
       case "instructions":
       case "system_instructions":
-        config.instructions = content.split("\n").filter((line) => line.trim());
+        config.instructions = lines;
         break;
       case "custom_instructions":
-        config.customInstructions = content
-          .split("\n")
-          .filter((line) => line.trim());
+        config.customInstructions = lines;
         break;
       case "knowledge":
       case "knowledge_base":
-        config.knowledge = content.split("\n").filter((line) => line.trim());
+        config.knowledge = lines;
         break;
       case "rules":
       case "guidelines":
-        config.rules = content.split("\n").filter((line) => line.trim());
+        config.rules = lines;
         break;
       case "context":
       case "background":
-        config.context = content.split("\n").filter((line) => line.trim());
+        config.context = lines;
         break;
       case "tools":
       case "available_tools":
-        config.tools = content.split("\n").filter((line) => line.trim());
+        config.tools = lines;
+        break;
+      case "allow_tools_append":
+      case "allowed_tools":
+        config.allowToolsAppend = lines
+          .map((line) =>
+            line
+              .trim()
+              .replace(/^[-*]\s+/, "")
+              .replace(/^[`"']|[`"']$/g, ""),
+          )
+          .filter((line) => line);
         break;
       case "memory":
       case "memory_context":
@@ -158,7 +397,6 @@ export class ClaudeConfigManager {
       case "inheritance_configuration":
       case "inheritanceconfiguration":
         try {
-          const lines = content.split("\n");
           const inheritanceConfig: { [key: string]: unknown } = {};
           let currentKey = "";
           let isArrayContext = false;
@@ -179,7 +417,10 @@ export class ClaudeConfigManager {
                   inheritanceConfig[normalizedKey] = true;
                 } else if (value === "false") {
                   inheritanceConfig[normalizedKey] = false;
-                } else if (value.includes(",")) {
+                } else if (
+                  value.includes(",") ||
+                  INHERITANCE_LISTS.includes(normalizedKey)
+                ) {
                   inheritanceConfig[normalizedKey] = value
                     .split(",")
                     .map((v) => v.trim());
@@ -235,28 +476,46 @@ export class ClaudeConfigManager {
       if (this.configCache.has(absolutePath)) {
         const cached = this.configCache.get(absolutePath)!;
         try {
-          const stats = await fs.stat(absolutePath);
           const cacheTime =
             cached._lastModified && typeof cached._lastModified === "string"
               ? new Date(cached._lastModified)
               : new Date(0);
-          if (stats.mtime <= cacheTime) {
+          // A changed fragment invalidates every profile including it
+          const sources = [absolutePath, ...(cached.includes || [])];
+          const stats = await Promise.all(
+            sources.map((source) => fs.stat(source)),
+          );
+          if (stats.every((stat) => stat.mtime <= cacheTime)) {
             return cached;
           }
           this.configCache.delete(absolutePath);
         } catch {
-          return cached;
+          if (!cached.includes?.length) {
+            return cached;
+          }
+          this.configCache.delete(absolutePath);
         }
       }
 
       const content = await fs.readFile(absolutePath, "utf-8");
-      let config = this.parseClaude(content) as VersionedConfig;
+      const resolved = hasIncludeDirectives(content)
+        ? await resolveIncludes(content, absolutePath)
+        : undefined;
+      let config = this.parseClaude(
+        resolved?.content ?? content,
+      ) as VersionedConfig;
 
       config._filePath = absolutePath;
       config._lastModified = new Date().toISOString();
       config.content = content;
+      if (resolved) {
+        config.resolvedContent = resolved.content;
+        config.includes = resolved.files;
+        config.includeTree = resolved.tree;
+      }
       config.filePath = absolutePath;
-      config.profileName = this.generateProfileName(absolutePath);
+      config.profileName =
+        config.metadata?.name || this.generateProfileName(absolutePath);
 
       const compatInfo = this.versionManager.checkCompatibility(config);
 
@@ -285,6 +544,11 @@ export class ClaudeConfigManager {
       if (!config.$version || !config.$schema) {
         config = this.versionManager.addVersionMetadata(config);
       }
+      if (resolved) {
+        // Positions refer to the file as written, not the expanded text
+        config.sourceMap = this.parseClaude(content).sourceMap;
+      }
+      this.rememberSource(config, content);
 
       this.configCache.set(absolutePath, config);
 
@@ -295,12 +559,18 @@ export class ClaudeConfigManager {
   }
 
   /**
-   * Save config back to CLAUDE.md file
+   * Save config back to CLAUDE.md file; a parsed config that was not
+   * modified is written back byte-for-byte
    */
   async saveClaude(filePath: string, config: ClaudeConfig): Promise<void> {
     const skipInheritance = "_exported" in config;
     const content = this.configToClaudeFormat(config, skipInheritance);
-    await fs.writeFile(filePath, content, "utf-8");
+    const source = sources.get(config);
+    await fs.writeFile(
+      filePath,
+      source?.rendered === content ? source.text : content,
+      "utf-8",
+    );
 
     const pathResolver = PathResolver.getInstance();
     const absolutePath = pathResolver.resolveAbsolutePath(filePath);
@@ -319,13 +589,26 @@ export class ClaudeConfigManager {
   ): string {
     const lines: string[] = [];
 
+    const frontMatter: Record<string, unknown> = { ...config.metadata };
+    if (config.variables && Object.keys(config.variables).length > 0) {
+      frontMatter.variables = config.variables;
+    }
+    if (frontMatter.schemaVersion && typeof config.$version === "string") {
+      frontMatter.schemaVersion = config.$version;
+    }
+    if (Object.keys(frontMatter).length > 0) {
+      lines.push(formatFrontMatter(frontMatter));
+    }
+
     if (config.projectName) {
       lines.push(`# ${config.projectName}`);
       lines.push("");
     }
 
-    const simpleKeys = ["project_name", "description", "version"];
-    for (const key of simpleKeys) {
+    for (const key of KEY_VALUE_FIELDS) {
+      if (key in frontMatter) {
+        continue;
+      }
       if (config[key] && typeof config[key] === "string") {
         lines.push(
           `${key.replace("_", " ").replace(/\b\w/g, (l) => l.toUpperCase())}: ${config[key]}`,
@@ -389,6 +672,15 @@ export class ClaudeConfigManager {
       lines.push("");
     }
 
+    if (config.allowToolsAppend && config.allowToolsAppend.length > 0) {
+      lines.push("# Allow Tools Append");
+      lines.push("");
+      config.allowToolsAppend.forEach((pattern) => {
+        lines.push(`- ${pattern}`);
+      });
+      lines.push("");
+    }
+
     if (config.memory) {
       lines.push("# Memory");
       lines.push("");
@@ -396,7 +688,7 @@ export class ClaudeConfigManager {
       lines.push("");
     }
 
-    if (config.inheritance && !skipInheritance) {
+    if (config.inheritance && !skipInheritance && !frontMatter.inheritance) {
       const inheritance = config.inheritance as {
         enabled?: boolean;
         baseProfiles?: string[];
@@ -440,6 +732,8 @@ export class ClaudeConfigManager {
       "memory",
       "projectName",
       "inheritance",
+      "resolvedContent",
+      ...Object.keys(frontMatter),
     ];
     if (skipInheritance) {
       skipFields.push("content"); // Skip content when exporting to avoid including original inheritance sections
@@ -635,6 +929,8 @@ export class ClaudeConfigManager {
     size: number;
     lastModified: Date;
     checksum: string;
+    /** Parsed front-matter, when the file has a valid block */
+    frontMatter?: ProfileMetadata;
   } | null> {
     try {
       const pathResolver = PathResolver.getInstance();
@@ -642,11 +938,14 @@ export class ClaudeConfigManager {
       const stats = await fs.stat(absolutePath);
       const content = await fs.readFile(absolutePath, "utf-8");
 
+      const frontMatter = readFrontMatter(content).metadata;
+
       return {
         filePath: absolutePath,
         size: stats.size,
         lastModified: stats.mtime,
         checksum: this.calculateChecksum(content),
+        ...(frontMatter && { frontMatter }),
       };
     } catch {
       return null;
@@ -5,6 +5,7 @@ export interface MCPErrorContext {
   operation: string;
   toolName?: string;
   resourceUri?: string;
+  promptName?: string;
   serverName?: string;
   args?: unknown;
 }
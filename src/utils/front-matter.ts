@@ -0,0 +1,214 @@
+/**
+ * YAML front-matter block (`---` ... `---`) at the top of profile markdown,
+ * validated against schemas/profile-front-matter.schema.json.
+ * config-doctor checks blocks strictly; loading a profile reads them with
+ * readFrontMatter, which never fails.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import Ajv, { ValidateFunction } from "ajv";
+import * as yaml from "js-yaml";
+import type { InheritanceConfig } from "./profile-inheritance.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export interface ProfileMetadata {
+  name?: string;
+  version?: string;
+  description?: string;
+  tags?: string[];
+  /** Profile schema version, e.g. `1.0.0` */
+  schemaVersion?: string;
+  inheritance?: Partial<InheritanceConfig>;
+  requiredTools?: string[];
+  requiredServers?: string[];
+  variables?: Record<string, string | number | boolean | null>;
+}
+
+export interface SplitFrontMatter {
+  /** Parsed block; undefined when the content has none */
+  data?: Record<string, unknown>;
+  /** Content after the block */
+  body: string;
+  /** 1-based line the body starts on */
+  bodyLine: number;
+  /** Line of each top-level key in the block */
+  keyLines: Record<string, number>;
+}
+
+export interface ReadFrontMatter {
+  /** Valid metadata; undefined without a usable block */
+  metadata?: ProfileMetadata;
+  body: string;
+  bodyLine: number;
+  keyLines: Record<string, number>;
+  /** Why all or part of a block was ignored */
+  warnings: string[];
+}
+
+export class FrontMatterError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: string[] = [],
+    /** Line of the first offending key, when known */
+    public readonly line?: number,
+  ) {
+    super(message);
+    this.name = "FrontMatterError";
+  }
+}
+
+const FRONT_MATTER = /^---[ \t]*\r?\n([\s\S]*?)\r?\n?---[ \t]*(?:\r?\n|$)/;
+const SCHEMA_FILE = "profile-front-matter.schema.json";
+
+let validator: ValidateFunction | undefined;
+
+/**
+ * Separate a leading front-matter block from the markdown body
+ */
+export function splitFrontMatter(content: string): SplitFrontMatter {
+  const match = content.match(FRONT_MATTER);
+  if (!match) {
+    return { body: content, bodyLine: 1, keyLines: {} };
+  }
+
+  let data: unknown;
+  try {
+    data = yaml.load(match[1]);
+  } catch (error) {
+    const mark = (error as yaml.YAMLException).mark;
+    throw new FrontMatterError(
+      `Invalid front-matter: ${(error as Error).message}`,
+      [],
+      mark ? mark.line + 2 : undefined,
+    );
+  }
+  if (data === undefined || data === null) {
+    data = {};
+  }
+  if (typeof data !== "object" || Array.isArray(data)) {
+    throw new FrontMatterError(
+      "Invalid front-matter: expected a mapping",
+      [],
+      2,
+    );
+  }
+
+  const keyLines: Record<string, number> = {};
+  match[1].split(/\r?\n/).forEach((line, index) => {
+    const key = line.match(/^([^\s#:][^:]*):/)?.[1].trim();
+    if (key && !(key in keyLines)) {
+      keyLines[key] = index + 2;
+    }
+  });
+
+  return {
+    data: data as Record<string, unknown>,
+    body: content.slice(match[0].length),
+    bodyLine: match[0].split("\n").length,
+    keyLines,
+  };
+}
+
+/**
+ * Check parsed front-matter against the profile front-matter schema;
+ * keyLines from splitFrontMatter lets the error name the offending line
+ */
+export function validateFrontMatter(
+  data: Record<string, unknown>,
+  keyLines: Record<string, number> = {},
+): ProfileMetadata {
+  const validate = getValidator();
+  if (!validate(data)) {
+    const failures = validate.errors || [];
+    const errors = failures.map(
+      (error) => `${error.instancePath || "/"} ${error.message}`,
+    );
+    const key =
+      failures[0]?.instancePath.split("/")[1] ??
+      (failures[0]?.params as { additionalProperty?: string })
+        ?.additionalProperty;
+    throw new FrontMatterError(
+      `Invalid front-matter: ${errors.join("; ")}`,
+      errors,
+      key ? keyLines[key] : undefined,
+    );
+  }
+
+  const metadata = { ...data } as ProfileMetadata;
+  if (typeof data.version === "number") {
+    metadata.version = String(data.version);
+  }
+  return metadata;
+}
+
+/**
+ * Front-matter for loading a profile: a block that is not a YAML mapping,
+ * such as text between two `---` rules, stays part of the body; unknown
+ * keys are dropped, and a block that still fails the schema is ignored
+ */
+export function readFrontMatter(content: string): ReadFrontMatter {
+  let split: SplitFrontMatter;
+  try {
+    split = splitFrontMatter(content);
+  } catch (error) {
+    return {
+      body: content,
+      bodyLine: 1,
+      keyLines: {},
+      warnings: [`${(error as Error).message}; read as markdown`],
+    };
+  }
+  const { data, body, bodyLine, keyLines } = split;
+  if (!data) {
+    return { body, bodyLine, keyLines, warnings: [] };
+  }
+
+  const known = Object.keys(
+    (getValidator().schema as { properties?: object }).properties || {},
+  );
+  const unknown = Object.keys(data).filter((key) => !known.includes(key));
+  const warnings = unknown.map(
+    (key) => `Ignoring unknown front-matter key '${key}'`,
+  );
+  const supported = Object.fromEntries(
+    Object.entries(data).filter(([key]) => known.includes(key)),
+  );
+  try {
+    return {
+      metadata: validateFrontMatter(supported, keyLines),
+      body,
+      bodyLine,
+      keyLines,
+      warnings,
+    };
+  } catch (error) {
+    warnings.push(`${(error as Error).message}; front-matter ignored`);
+    return { body, bodyLine, keyLines, warnings };
+  }
+}
+
+/**
+ * Render data as a front-matter block, including the trailing newline
+ */
+export function formatFrontMatter(data: Record<string, unknown>): string {
+  return `---\n${yaml.dump(data, { lineWidth: -1 })}---\n`;
+}
+
+function getValidator(): ValidateFunction {
+  if (!validator) {
+    const candidates = [
+      path.resolve(process.cwd(), "schemas", SCHEMA_FILE),
+      path.resolve(__dirname, "../../schemas", SCHEMA_FILE),
+    ];
+    const schemaPath = candidates.find((candidate) => fs.existsSync(candidate));
+    if (!schemaPath) {
+      throw new FrontMatterError(`Schema ${SCHEMA_FILE} not found`);
+    }
+    const ajv = new Ajv({ allErrors: true, strict: false });
+    validator = ajv.compile(JSON.parse(fs.readFileSync(schemaPath, "utf-8")));
+  }
+  return validator;
+}
@@ -190,4 +190,22 @@ export class PathResolver {
       );
     }
   }
+
+  /**
+   * Resolve a profile path only when it stays within the working directory
+   * or the temp directories, without the fallbacks of resolveAbsolutePath
+   */
+  resolveAllowedProfilePath(profilePath: string): string {
+    return safeResolve(profilePath, {
+      allowAbsolutePaths: true,
+      allowedRoots: [
+        process.cwd(),
+        "/tmp",
+        "/var/folders",
+        "/private/var/folders",
+      ],
+      maxDepth: 20,
+      followSymlinks: false,
+    });
+  }
 }
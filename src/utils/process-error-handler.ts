@@ -49,6 +49,7 @@ export class ProcessErrorHandler {
   private consoleAdapter: IConsoleAdapter;
   private isShuttingDown = false;
   private metricsInterval?: NodeJS.Timeout;
+  private shutdownHooks: Array<() => Promise<void> | void> = [];
 
   constructor(
     logger: ILogger,
@@ -75,6 +76,13 @@ export class ProcessErrorHandler {
     };
   }
 
+  /**
+   * Register an async cleanup step awaited during graceful shutdown
+   */
+  onShutdown(hook: () => Promise<void> | void): void {
+    this.shutdownHooks.push(hook);
+  }
+
   setupGlobalErrorHandlers(): void {
     this.logger.info("[PROCESS-ERROR] Setting up global error handlers");
 
@@ -209,6 +217,10 @@ export class ProcessErrorHandler {
         this.metricsInterval = undefined;
       }
 
+      for (const hook of this.shutdownHooks) {
+        await hook();
+      }
+
       this.processAdapter.emit("beforeExit", 0);
 
       await new Promise((resolve) =>
@@ -0,0 +1,366 @@
+/**
+ * Section-aware diff of two profiles. List sections (instructions, rules,
+ * knowledge, tools, ...) are compared item by item, object sections such as
+ * inheritance field by field, and other values as a whole. The result can
+ * be rendered as text, a unified diff or JSON.
+ */
+
+import { ClaudeConfig, PROFILE_SOURCE_FIELDS } from "./claude-config.js";
+
+export type ProfileDiffFormat = "text" | "unified" | "json";
+
+export const PROFILE_DIFF_FORMATS: ProfileDiffFormat[] = [
+  "text",
+  "unified",
+  "json",
+];
+
+export interface ItemChange {
+  from: string;
+  to: string;
+}
+
+export interface SectionDiff {
+  /** Field name; fields of object sections are dotted, e.g. inheritance.baseProfiles */
+  section: string;
+  status: "added" | "removed" | "changed";
+  added: string[];
+  removed: string[];
+  changed: ItemChange[];
+}
+
+export interface ProfileDiff {
+  from: string;
+  to: string;
+  sections: SectionDiff[];
+}
+
+/** Sections listed first, in this order; others follow alphabetically */
+const SECTION_ORDER = [
+  "title",
+  "description",
+  "instructions",
+  "customInstructions",
+  "rules",
+  "knowledge",
+  "context",
+  "tools",
+  "allowToolsAppend",
+  "memory",
+  "inheritance",
+];
+
+export class ProfileDiffError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProfileDiffError";
+  }
+}
+
+type Edit = { op: "=" | "-" | "+"; value: string };
+
+/** Largest LCS table diffSequence builds; bigger changes become a replacement */
+const MAX_LCS_CELLS = 1_000_000;
+
+/**
+ * Compare two profiles section by section
+ */
+export function diffProfiles(
+  from: ClaudeConfig,
+  to: ClaudeConfig,
+  names: { from: string; to: string } = { from: "from", to: "to" },
+): ProfileDiff {
+  const before = flattenSections(from);
+  const after = flattenSections(to);
+  const sections: SectionDiff[] = [];
+
+  for (const section of sortSections([...before.keys(), ...after.keys()])) {
+    const diff: SectionDiff = {
+      section,
+      status: !before.has(section)
+        ? "added"
+        : !after.has(section)
+          ? "removed"
+          : "changed",
+      added: [],
+      removed: [],
+      changed: [],
+    };
+    collectChanges(
+      diffSequence(before.get(section) ?? [], after.get(section) ?? []),
+      diff,
+    );
+    if (diff.added.length + diff.removed.length + diff.changed.length > 0) {
+      sections.push(diff);
+    }
+  }
+
+  return { ...names, sections };
+}
+
+/**
+ * Render the difference between two profiles in the given format
+ */
+export function formatProfileDiff(
+  from: ClaudeConfig,
+  to: ClaudeConfig,
+  names: { from: string; to: string },
+  format: ProfileDiffFormat = "text",
+): string {
+  if (format === "unified") {
+    return unifiedDiff(
+      renderSections(from),
+      renderSections(to),
+      names.from,
+      names.to,
+    );
+  }
+
+  const diff = diffProfiles(from, to, names);
+  if (format === "json") {
+    return JSON.stringify(diff, null, 2);
+  }
+
+  if (diff.sections.length === 0) {
+    return `No differences between '${names.from}' and '${names.to}'.`;
+  }
+  const lines = [`Profile diff: ${names.from} -> ${names.to}`];
+  for (const section of diff.sections) {
+    lines.push("", `${section.section} (${section.status})`);
+    lines.push(
+      ...section.changed.map((item) => `  ~ ${item.from} -> ${item.to}`),
+      ...section.added.map((item) => `  + ${item}`),
+      ...section.removed.map((item) => `  - ${item}`),
+    );
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Unified diff of two texts with three lines of context; empty when they
+ * are equal
+ */
+export function unifiedDiff(
+  fromText: string,
+  toText: string,
+  fromName: string,
+  toName: string,
+  context = 3,
+): string {
+  const edits = diffSequence(splitLines(fromText), splitLines(toText));
+  if (edits.every((edit) => edit.op === "=")) {
+    return "";
+  }
+
+  const lines = [`--- ${fromName}`, `+++ ${toName}`];
+  let index = 0;
+  while (index < edits.length) {
+    const firstChange = edits.findIndex(
+      (edit, i) => i >= index && edit.op !== "=",
+    );
+    if (firstChange === -1) {
+      break;
+    }
+
+    // Extend the hunk while changes are within 2 * context lines
+    const start = Math.max(index, firstChange - context);
+    let end = firstChange;
+    for (let i = firstChange; i < edits.length; i++) {
+      if (edits[i].op !== "=") {
+        end = i;
+      } else if (i - end > context * 2) {
+        break;
+      }
+    }
+    end = Math.min(edits.length - 1, end + context);
+
+    const hunk = edits.slice(start, end + 1);
+    const before = edits.slice(0, start);
+    const fromStart = before.filter((edit) => edit.op !== "+").length;
+    const toStart = before.filter((edit) => edit.op !== "-").length;
+    const fromCount = hunk.filter((edit) => edit.op !== "+").length;
+    const toCount = hunk.filter((edit) => edit.op !== "-").length;
+    lines.push(
+      `@@ -${fromStart + (fromCount ? 1 : 0)},${fromCount} +${toStart + (toCount ? 1 : 0)},${toCount} @@`,
+      ...hunk.map((edit) => `${edit.op === "=" ? " " : edit.op}${edit.value}`),
+    );
+    index = end + 1;
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Profile fields as lists of items keyed by section name; object fields
+ * are flattened into dotted sections
+ */
+function flattenSections(config: ClaudeConfig): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  const visit = (key: string, value: unknown) => {
+    if (value === undefined || value === null) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      sections.set(key, value.map(toItem).filter(Boolean));
+    } else if (typeof value === "object") {
+      for (const [field, fieldValue] of Object.entries(value)) {
+        visit(`${key}.${field}`, fieldValue);
+      }
+    } else {
+      sections.set(key, [String(value)]);
+    }
+  };
+
+  for (const [key, value] of Object.entries(config)) {
+    if (
+      !key.startsWith("_") &&
+      !key.startsWith("$") &&
+      !PROFILE_SOURCE_FIELDS.has(key)
+    ) {
+      visit(key, value);
+    }
+  }
+  return sections;
+}
+
+/**
+ * Comparable text of a list item, without its list marker
+ */
+function toItem(value: unknown): string {
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.replace(/^\s*(?:[-*+]|\d+[.)])\s+/, "").trim();
+}
+
+function sortSections(sections: string[]): string[] {
+  const rank = (section: string) => {
+    const index = SECTION_ORDER.indexOf(section.split(".")[0]);
+    return index === -1 ? SECTION_ORDER.length : index;
+  };
+  return [...new Set(sections)].sort(
+    (a, b) => rank(a) - rank(b) || a.localeCompare(b),
+  );
+}
+
+function renderSections(config: ClaudeConfig): string {
+  const sections = flattenSections(config);
+  return sortSections([...sections.keys()])
+    .flatMap((section) => [
+      `# ${section}`,
+      ...sections.get(section)!.map((item) => `- ${item}`),
+    ])
+    .join("\n");
+}
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\r\n?/g, "\n").split("\n");
+}
+
+/**
+ * Removed and added items between two unchanged ones are paired up as
+ * changed items; the rest stay removed or added
+ */
+function collectChanges(edits: Edit[], diff: SectionDiff): void {
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let i = 0; i < paired; i++) {
+      diff.changed.push({ from: removed[i], to: added[i] });
+    }
+    diff.removed.push(...removed.slice(paired));
+    diff.added.push(...added.slice(paired));
+    removed = [];
+    added = [];
+  };
+
+  for (const edit of edits) {
+    if (edit.op === "-") {
+      removed.push(edit.value);
+    } else if (edit.op === "+") {
+      added.push(edit.value);
+    } else {
+      flush();
+    }
+  }
+  flush();
+}
+
+/**
+ * Edit script turning one sequence into the other: common leading and
+ * trailing items are kept, and the changed middle is diffed by its longest
+ * common subsequence
+ */
+function diffSequence(from: string[], to: string[]): Edit[] {
+  let start = 0;
+  while (
+    start < from.length &&
+    start < to.length &&
+    from[start] === to[start]
+  ) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < from.length - start &&
+    end < to.length - start &&
+    from[from.length - 1 - end] === to[to.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const keep = (value: string): Edit => ({ op: "=", value });
+  return [
+    ...from.slice(0, start).map(keep),
+    ...diffChanged(
+      from.slice(start, from.length - end),
+      to.slice(start, to.length - end),
+    ),
+    ...from.slice(from.length - end).map(keep),
+  ];
+}
+
+/**
+ * LCS edit script; when the table would exceed MAX_LCS_CELLS every item is
+ * reported as removed and added instead
+ */
+function diffChanged(from: string[], to: string[]): Edit[] {
+  if ((from.length + 1) * (to.length + 1) > MAX_LCS_CELLS) {
+    return [
+      ...from.map((value): Edit => ({ op: "-", value })),
+      ...to.map((value): Edit => ({ op: "+", value })),
+    ];
+  }
+
+  const lcs: number[][] = Array.from({ length: from.length + 1 }, () =>
+    new Array(to.length + 1).fill(0),
+  );
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lcs[i][j] =
+        from[i] === to[j]
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const edits: Edit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      edits.push({ op: "=", value: from[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      edits.push({ op: "-", value: from[i++] });
+    } else {
+      edits.push({ op: "+", value: to[j++] });
+    }
+  }
+  while (i < from.length) {
+    edits.push({ op: "-", value: from[i++] });
+  }
+  while (j < to.length) {
+    edits.push({ op: "+", value: to[j++] });
+  }
+  return edits;
+}
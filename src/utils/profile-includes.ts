@@ -0,0 +1,242 @@
+/**
+ * `@include` directives in profile markdown.
+ * A line `@include path/to/fragment.md` (or a glob such as
+ * `@include shared/*.md`) is replaced by the fragment's content, so shared
+ * rules land in whichever section the directive sits in. Paths are relative
+ * to the including file and are checked with safeResolve; directives inside
+ * fenced code blocks are left alone.
+ */
+
+import * as fs from "fs/promises";
+import * as path from "path";
+import { minimatch } from "minimatch";
+import { safeResolve } from "./path-security.js";
+
+export interface IncludeNode {
+  /** Absolute path of the included file */
+  path: string;
+  includes: IncludeNode[];
+}
+
+/** Include tree entry with a path relative to the profile */
+export interface IncludeTreeEntry {
+  file: string;
+  includes?: IncludeTreeEntry[];
+}
+
+export interface ResolvedIncludes {
+  /** Content with every directive replaced by the included text */
+  content: string;
+  /** Every included file, in the order first included */
+  files: string[];
+  tree: IncludeNode[];
+}
+
+export class ProfileIncludeError extends Error {
+  constructor(
+    message: string,
+    public readonly filePath: string,
+  ) {
+    super(message);
+    this.name = "ProfileIncludeError";
+  }
+}
+
+export const MAX_INCLUDE_DEPTH = 10;
+
+const INCLUDE_DIRECTIVE = /^@include\s+(.+?)\s*$/;
+const CODE_FENCE = /^(```|~~~)/;
+const GLOB_CHARS = /[*?[\]{}]/;
+
+/**
+ * Whether content has any `@include` line, ignoring code blocks
+ */
+export function hasIncludeDirectives(content: string): boolean {
+  let inFence = false;
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (CODE_FENCE.test(trimmed)) {
+      inFence = !inFence;
+    } else if (!inFence && INCLUDE_DIRECTIVE.test(trimmed)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Splice included fragments into a profile's content
+ *
+ * @param allowedRoots Directories includes must stay within; defaults to
+ * safeResolve's roots (the working directory and temp directories)
+ */
+export async function resolveIncludes(
+  content: string,
+  filePath: string,
+  allowedRoots?: string[],
+): Promise<ResolvedIncludes> {
+  const source = path.resolve(filePath);
+  const files = new Set<string>();
+  const { text, tree } = await expand(content, [source], files, allowedRoots);
+  return { content: text, files: [...files], tree };
+}
+
+async function expand(
+  content: string,
+  stack: string[],
+  files: Set<string>,
+  allowedRoots?: string[],
+): Promise<{ text: string; tree: IncludeNode[] }> {
+  const filePath = stack[stack.length - 1];
+  const lines: string[] = [];
+  const tree: IncludeNode[] = [];
+  let inFence = false;
+
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    if (CODE_FENCE.test(trimmed)) {
+      inFence = !inFence;
+    }
+    const match = inFence ? null : trimmed.match(INCLUDE_DIRECTIVE);
+    if (!match) {
+      lines.push(line);
+      continue;
+    }
+
+    for (const included of await expandDirective(
+      match[1],
+      filePath,
+      allowedRoots,
+    )) {
+      if (stack.includes(included)) {
+        throw new ProfileIncludeError(
+          `Include cycle: ${[...stack, included].join(" -> ")}`,
+          filePath,
+        );
+      }
+      if (stack.length > MAX_INCLUDE_DEPTH) {
+        throw new ProfileIncludeError(
+          `Includes nested more than ${MAX_INCLUDE_DEPTH} levels deep at ${included}`,
+          filePath,
+        );
+      }
+
+      let fragment: string;
+      try {
+        fragment = await fs.readFile(included, "utf-8");
+      } catch (error) {
+        throw new ProfileIncludeError(
+          `Cannot read '${match[1]}' included from ${filePath}: ${(error as Error).message}`,
+          filePath,
+        );
+      }
+
+      files.add(included);
+      const nested = await expand(
+        fragment.replace(/\n$/, ""),
+        [...stack, included],
+        files,
+        allowedRoots,
+      );
+      lines.push(nested.text);
+      tree.push({ path: included, includes: nested.tree });
+    }
+  }
+
+  return { text: lines.join("\n"), tree };
+}
+
+/**
+ * Files a directive refers to; a glob matching nothing includes nothing
+ */
+async function expandDirective(
+  directive: string,
+  filePath: string,
+  allowedRoots?: string[],
+): Promise<string[]> {
+  const target = directive.replace(/^(["'])(.*)\1$/, "$2");
+  const baseDir = path.dirname(filePath);
+  if (!GLOB_CHARS.test(target)) {
+    return [resolveInclude(target, baseDir, filePath, allowedRoots)];
+  }
+
+  const segments = target.split(/[\\/]/);
+  const firstGlob = segments.findIndex((segment) => GLOB_CHARS.test(segment));
+  const root = resolveInclude(
+    segments.slice(0, firstGlob).join("/") || ".",
+    baseDir,
+    filePath,
+    allowedRoots,
+  );
+  const pattern = segments.slice(firstGlob).join("/");
+
+  const matches = (await listFiles(root)).filter(
+    (file) =>
+      file !== filePath &&
+      minimatch(path.relative(root, file).split(path.sep).join("/"), pattern),
+  );
+  return matches
+    .sort()
+    .map((file) => resolveInclude(file, baseDir, filePath, allowedRoots));
+}
+
+function resolveInclude(
+  target: string,
+  baseDir: string,
+  filePath: string,
+  allowedRoots?: string[],
+): string {
+  try {
+    return safeResolve(path.resolve(baseDir, target), {
+      allowAbsolutePaths: true,
+      allowedRoots,
+    });
+  } catch (error) {
+    throw new ProfileIncludeError(
+      `Include '${target}' in ${filePath} is not allowed: ${(error as Error).message}`,
+      filePath,
+    );
+  }
+}
+
+async function listFiles(directory: string, depth = 0): Promise<string[]> {
+  if (depth > MAX_INCLUDE_DEPTH) {
+    return [];
+  }
+
+  let entries;
+  try {
+    entries = await fs.readdir(directory, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of entries) {
+    const entryPath = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      if (!entry.name.startsWith(".") && entry.name !== "node_modules") {
+        files.push(...(await listFiles(entryPath, depth + 1)));
+      }
+    } else if (entry.isFile()) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+/**
+ * Include tree with paths relative to the including profile, for display
+ */
+export function describeIncludeTree(
+  tree: IncludeNode[],
+  profilePath: string,
+): IncludeTreeEntry[] {
+  const baseDir = path.dirname(profilePath);
+  return tree.map((node) => ({
+    file: path.relative(baseDir, node.path),
+    ...(node.includes.length > 0 && {
+      includes: describeIncludeTree(node.includes, profilePath),
+    }),
+  }));
+}
@@ -1,6 +1,10 @@
 import * as path from "path";
 import { ClaudeConfig, ClaudeConfigManager } from "./claude-config.js";
 import { ILogger, SilentLogger } from "./logger.js";
+import {
+  RemoteProfileError,
+  isRemoteProfileReference,
+} from "./remote-profiles.js";
 
 export interface InheritanceConfig {
   enabled: boolean;
@@ -97,7 +101,7 @@ export class ProfileInheritanceManager {
 
       for (const baseProfile of mainConfig.inheritance.baseProfiles) {
         try {
-          const basePath = this.resolveProfilePath(baseProfile, profilePath);
+          const basePath = await this.resolveBasePath(baseProfile, profilePath);
           const baseResult = await this.resolveProfile(basePath);
 
           if (baseResult.errors.length > 0) {
@@ -265,6 +269,31 @@ export class ProfileInheritanceManager {
     return result;
   }
 
+  /**
+   * Local file of a base profile: remote references are fetched into the
+   * cache of the config manager's RemoteProfileResolver, which checks their
+   * signatures; local bases are checked here like the profiles applied.
+   * Remote references fail without a configured resolver.
+   */
+  private async resolveBasePath(
+    baseProfile: string,
+    currentProfilePath: string,
+  ): Promise<string> {
+    const remoteProfiles = this.configManager.getRemoteProfiles();
+    if (remoteProfiles?.handles(baseProfile, currentProfilePath)) {
+      return remoteProfiles.fetch(baseProfile, currentProfilePath);
+    }
+    if (!remoteProfiles && isRemoteProfileReference(baseProfile)) {
+      throw new RemoteProfileError(
+        `Remote base profile '${baseProfile}' needs profileManagement.remoteProfiles to be configured`,
+        baseProfile,
+      );
+    }
+    const basePath = this.resolveProfilePath(baseProfile, currentProfilePath);
+    await this.configManager.verifySignature(basePath);
+    return basePath;
+  }
+
   /**
    * Resolve profile path relative to current profile
    */
@@ -0,0 +1,105 @@
+/**
+ * CommonMark structure of profile markdown: the blocks under each heading,
+ * nested by heading depth, with the line and column each one starts at.
+ * Code fences, lists and HTML comments stay whole blocks, so their lines are
+ * never mistaken for headings or `Key: value` pairs.
+ */
+
+import { Lexer } from "marked";
+
+export interface SourcePosition {
+  /** 1-based line in the profile file */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+export interface ProfileBlock extends SourcePosition {
+  /** marked token type: paragraph, list, code, html, blockquote, ... */
+  type: string;
+  /** Source text of the block, without its trailing newlines */
+  raw: string;
+}
+
+export interface ProfileSection extends SourcePosition {
+  /** Heading text as written, without the `#` markers */
+  title: string;
+  /** Heading level, 1 for `#` */
+  depth: number;
+  /** Source text of the heading */
+  raw: string;
+  blocks: ProfileBlock[];
+  /** Sections under deeper headings, in document order */
+  children: ProfileSection[];
+}
+
+export interface ProfileDocument {
+  /** Blocks before the first heading */
+  preamble: ProfileBlock[];
+  sections: ProfileSection[];
+}
+
+/**
+ * Parse markdown into a section tree; firstLine is the file line the
+ * markdown starts on, e.g. after a front-matter block
+ */
+export function parseProfileMarkdown(
+  markdown: string,
+  firstLine = 1,
+): ProfileDocument {
+  const document: ProfileDocument = { preamble: [], sections: [] };
+  const open: ProfileSection[] = [];
+  let line = firstLine;
+
+  const tokens = Lexer.lex(markdown.replace(/\r\n?/g, "\n"), { gfm: true });
+  for (const token of tokens) {
+    const raw = token.raw.replace(/\n+$/, "");
+    const column = (raw.match(/^[ \t]*/)?.[0].length ?? 0) + 1;
+
+    if (token.type === "heading") {
+      const section: ProfileSection = {
+        title: token.text,
+        depth: token.depth,
+        raw,
+        line,
+        column,
+        blocks: [],
+        children: [],
+      };
+      while (open.length > 0 && open[open.length - 1].depth >= section.depth) {
+        open.pop();
+      }
+      const parent = open[open.length - 1];
+      (parent ? parent.children : document.sections).push(section);
+      open.push(section);
+    } else if (token.type !== "space") {
+      const parent = open[open.length - 1];
+      (parent ? parent.blocks : document.preamble).push({
+        type: token.type,
+        raw,
+        line,
+        column,
+      });
+    }
+
+    line += token.raw.split("\n").length - 1;
+  }
+
+  return document;
+}
+
+/**
+ * Lines of a block as profile content: code keeps its blank lines, other
+ * blocks drop them
+ */
+export function blockLines(block: ProfileBlock): string[] {
+  const lines = block.raw.split("\n");
+  return block.type === "code" ? lines : lines.filter((line) => line.trim());
+}
+
+/**
+ * Whether a block is an HTML comment such as `<!-- omni-signature: ... -->`
+ */
+export function isCommentBlock(block: ProfileBlock): boolean {
+  return block.type === "html" && block.raw.trimStart().startsWith("<!--");
+}
@@ -0,0 +1,154 @@
+/**
+ * Variables in profile markdown.
+ * `{{projectName}}` takes the value passed to apply_claude_config or the
+ * default declared under `variables:` in the profile's front-matter,
+ * `{{env.CI}}` reads the hub's environment and
+ * `{{secret:vault://path/to/secret}}` is resolved through SecretManager.
+ * `\{{name}}` is written out as `{{name}}`, e.g. for `$\{{ github.ref }}`
+ * in a CI workflow snippet.
+ */
+
+import { SecretManager } from "../security/secret-manager.js";
+
+export type TemplateVariables = Record<string, string>;
+
+export interface RenderedTemplate {
+  text: string;
+  /** Variables without a value; they are left in the text as written */
+  missing: string[];
+}
+
+export class ProfileTemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly missing: string[],
+  ) {
+    super(message);
+    this.name = "ProfileTemplateError";
+  }
+}
+
+/** Group 1 is the escaping backslash, group 2 the variable name */
+const VARIABLE = /(\\?)\{\{\s*([^{}\s]+)\s*\}\}/g;
+const ENV_PREFIX = "env.";
+const SECRET_PREFIX = "secret:";
+
+/**
+ * Names of the variables used in text, in order of first use
+ */
+export function findTemplateVariables(text: string): string[] {
+  return [
+    ...new Set(
+      [...text.matchAll(VARIABLE)]
+        .filter((match) => !match[1])
+        .map((match) => match[2]),
+    ),
+  ];
+}
+
+/**
+ * Variable defaults from a front-matter `variables:` mapping
+ */
+export function readVariableDefaults(data: unknown): TemplateVariables {
+  if (data === undefined || data === null) {
+    return {};
+  }
+  if (typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("Front-matter 'variables' must be a mapping");
+  }
+
+  const defaults: TemplateVariables = {};
+  for (const [name, value] of Object.entries(data)) {
+    if (value !== null && typeof value === "object") {
+      throw new Error(`Default for variable '${name}' must be a scalar`);
+    }
+    defaults[name] = value === null ? "" : String(value);
+  }
+  return defaults;
+}
+
+/**
+ * Substitute variables; explicit values win over the environment for
+ * `env.` names
+ */
+export function renderTemplate(
+  text: string,
+  variables: TemplateVariables,
+  env: NodeJS.ProcessEnv = process.env,
+): RenderedTemplate {
+  const missing = new Set<string>();
+  const rendered = text.replace(
+    VARIABLE,
+    (placeholder, escape: string, name: string) => {
+      if (escape) {
+        return placeholder.slice(escape.length);
+      }
+      // Own keys only: `{{constructor}}` must not render Object.prototype
+      const envName = name.slice(ENV_PREFIX.length);
+      const value = Object.hasOwn(variables, name)
+        ? variables[name]
+        : name.startsWith(ENV_PREFIX) && Object.hasOwn(env, envName)
+          ? env[envName]
+          : undefined;
+      if (value === undefined) {
+        missing.add(name);
+        return placeholder;
+      }
+      return value;
+    },
+  );
+  return { text: rendered, missing: [...missing] };
+}
+
+/**
+ * Resolve the `secret:` variables used in text that have no value yet
+ */
+export async function resolveSecretVariables(
+  text: string,
+  variables: TemplateVariables,
+  secretManager?: SecretManager,
+): Promise<TemplateVariables> {
+  const secrets: TemplateVariables = {};
+  for (const name of findTemplateVariables(text)) {
+    if (!name.startsWith(SECRET_PREFIX) || Object.hasOwn(variables, name)) {
+      continue;
+    }
+    if (!secretManager) {
+      throw new ProfileTemplateError(
+        `Cannot resolve {{${name}}}: no secret manager is configured`,
+        [name],
+      );
+    }
+    try {
+      secrets[name] = await secretManager.resolveSecret(
+        toSecretReference(name.slice(SECRET_PREFIX.length)),
+      );
+    } catch (error) {
+      throw new ProfileTemplateError(
+        `Cannot resolve {{${name}}}: ${(error as Error).message}`,
+        [name],
+      );
+    }
+  }
+  return secrets;
+}
+
+/**
+ * SecretManager reference for a `provider://path` URI, e.g.
+ * `vault://kv/app#token` becomes `${VAULT:kv/app:token}`
+ */
+export function toSecretReference(uri: string): string {
+  const match = uri.match(/^([a-z][\w-]*):\/\/([^#]+)(?:#(.+))?$/i);
+  if (!match) {
+    return uri;
+  }
+  const [, provider, secretPath, field] = match;
+  return `\${${provider.toUpperCase()}:${secretPath}${field ? `:${field}` : ""}}`;
+}
+
+/**
+ * Whether a variable can only be resolved at apply time
+ */
+export function isSecretVariable(name: string): boolean {
+  return name.startsWith(SECRET_PREFIX);
+}
@@ -0,0 +1,536 @@
+/**
+ * Base profiles published outside the local tree, referenced from
+ * `inheritance.baseProfiles` as:
+ *
+ * - `github:org/repo/path/base.md@ref` (ref defaults to the default branch)
+ * - `npm:@org/profiles/base.md` (read from an installed package)
+ * - `https://example.com/profiles/base.md`
+ *
+ * Each scheme is handled by a RemoteProfileLoader. Fetched profiles are
+ * stored in a content-addressed cache and pinned by their SHA-256 hash in a
+ * lockfile; a locked profile is read from the cache without network access,
+ * so inheritance also resolves offline. Profiles with an embedded signature
+ * are verified against the trusted keys before they are cached; under
+ * `security.profileSigning: enforce` unsigned profiles are refused.
+ */
+
+import { existsSync, promises as fs } from "fs";
+import * as path from "path";
+import { Mutex } from "async-mutex";
+import { GitHubClient } from "./github-client.js";
+import { ILogger, SilentLogger } from "./logger.js";
+import { computeStringHash } from "../behavior/hash.js";
+import {
+  ProfileSigningMode,
+  extractEmbeddedSignature,
+} from "../security/profile-signing.js";
+import { ProfileSignatureVerifier } from "../security/signature-verification.js";
+import { YamlConfig } from "../config/yaml-config.js";
+
+export const DEFAULT_PROFILE_LOCK_FILE = "omni-profiles.lock.json";
+/** Inside the state directory that also holds the apply history */
+export const DEFAULT_PROFILE_CACHE_DIR = ".omni-state/profile-cache";
+const FETCH_TIMEOUT_MS = 10000;
+/** Largest profile HttpsProfileLoader reads */
+export const MAX_REMOTE_PROFILE_BYTES = 1024 * 1024;
+const REMOTE_REFERENCE = /^([a-z][a-z0-9+.-]+):/i;
+
+export interface RemoteProfileLoader {
+  /** Reference prefix handled, e.g. "github" for `github:org/repo/base.md` */
+  scheme: string;
+  /**
+   * Fetch a profile; `resolved` names the exact source, for the lockfile
+   * @param fromPath Local file of the profile that references it
+   */
+  load(
+    ref: string,
+    fromPath: string,
+  ): Promise<{ content: string; resolved: string }>;
+  /** Reference to a path relative to a profile this loader fetched */
+  resolveRelative?(ref: string, relativePath: string): string;
+}
+
+export interface RemoteProfileOptions {
+  /** Lockfile pinning fetched profiles by content hash */
+  lockFile?: string;
+  /** Directory of cached profile contents */
+  cacheDir?: string;
+  /** Never fetch; unlocked or uncached profiles fail to resolve */
+  offline?: boolean;
+  /** Directory of trusted `<keyId>.pub` keys for embedded signatures */
+  trustedKeysDir?: string;
+  /** `security.profileSigning`; 'enforce' refuses unsigned profiles */
+  profileSigning?: ProfileSigningMode;
+}
+
+export interface ProfileLockEntry {
+  resolved: string;
+  /** `sha256-<hex>` of the profile content */
+  integrity: string;
+  fetchedAt: string;
+}
+
+interface ProfileLockFile {
+  version: 1;
+  profiles: Record<string, ProfileLockEntry>;
+}
+
+export class RemoteProfileError extends Error {
+  constructor(
+    message: string,
+    public readonly ref: string,
+  ) {
+    super(message);
+    this.name = "RemoteProfileError";
+  }
+}
+
+/**
+ * Remote profile settings from `profileManagement.remoteProfiles`, with
+ * paths resolved against the config file's directory
+ */
+export function getRemoteProfileOptions(
+  config: YamlConfig,
+  configDir: string,
+): RemoteProfileOptions {
+  const remote = config.profileManagement?.remoteProfiles;
+  return {
+    lockFile: path.resolve(
+      configDir,
+      remote?.lockFile || DEFAULT_PROFILE_LOCK_FILE,
+    ),
+    cacheDir: path.resolve(
+      configDir,
+      remote?.cacheDir || DEFAULT_PROFILE_CACHE_DIR,
+    ),
+    offline: remote?.offline,
+    trustedKeysDir: path.resolve(
+      configDir,
+      config.security?.trustedKeys || "keys",
+    ),
+    profileSigning: config.security?.profileSigning,
+  };
+}
+
+/**
+ * Whether a base profile reference names a scheme rather than a local
+ * path; Windows drive letters are local
+ */
+export function isRemoteProfileReference(ref: string): boolean {
+  return REMOTE_REFERENCE.test(ref);
+}
+
+/**
+ * `github:owner/repo/path@ref` with GitHubClient; GITHUB_TOKEN is used
+ * when set
+ */
+export class GitHubProfileLoader implements RemoteProfileLoader {
+  scheme = "github";
+
+  constructor(
+    private client: GitHubClient = new GitHubClient(),
+    private token: string | undefined = process.env.GITHUB_TOKEN,
+  ) {}
+
+  async load(ref: string) {
+    const { owner, repo, filePath, branch } = parseGitHubRef(ref);
+    const file = await this.client.fetchFile(
+      { owner, repo, branch: branch || "", token: this.token },
+      filePath,
+    );
+    if (!file) {
+      throw new RemoteProfileError(`${ref} was not found on GitHub`, ref);
+    }
+    return {
+      content: file.content,
+      resolved: `github:${owner}/${repo}/${file.path}@${branch || "HEAD"}#${file.sha}`,
+    };
+  }
+
+  resolveRelative(ref: string, relativePath: string): string {
+    const { owner, repo, filePath, branch } = parseGitHubRef(ref);
+    const target = withMarkdownExtension(
+      path.posix.join(path.posix.dirname(filePath), relativePath),
+    );
+    return `github:${owner}/${repo}/${target}${branch ? `@${branch}` : ""}`;
+  }
+}
+
+/**
+ * `npm:package/path` from a package installed in a node_modules directory
+ * above the referencing profile or the working directory
+ */
+export class NpmProfileLoader implements RemoteProfileLoader {
+  scheme = "npm";
+
+  async load(ref: string, fromPath: string) {
+    const { packageName, filePath } = parseNpmRef(ref);
+    for (const dir of [path.dirname(fromPath), process.cwd()]) {
+      const packageDir = findPackageDir(dir, packageName);
+      if (!packageDir) {
+        continue;
+      }
+      const resolved = path.resolve(packageDir, filePath);
+      if (!resolved.startsWith(packageDir + path.sep)) {
+        throw new RemoteProfileError(`${ref} points outside its package`, ref);
+      }
+      return { content: await fs.readFile(resolved, "utf-8"), resolved };
+    }
+    throw new RemoteProfileError(
+      `${ref}: package ${packageName} is not installed`,
+      ref,
+    );
+  }
+
+  resolveRelative(ref: string, relativePath: string): string {
+    const { packageName, filePath } = parseNpmRef(ref);
+    return `npm:${packageName}/${withMarkdownExtension(
+      path.posix.join(path.posix.dirname(filePath), relativePath),
+    )}`;
+  }
+}
+
+/**
+ * `https://` URLs; plain http is not supported. Redirects are not followed
+ * and bodies over MAX_REMOTE_PROFILE_BYTES are refused.
+ */
+export class HttpsProfileLoader implements RemoteProfileLoader {
+  scheme = "https";
+
+  async load(ref: string) {
+    let response: Response;
+    try {
+      response = await fetch(ref, {
+        redirect: "error",
+        signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+      });
+    } catch (error) {
+      const cause = (error as { cause?: Error }).cause;
+      throw new RemoteProfileError(
+        `${ref} could not be fetched: ${cause?.message || (error as Error).message}`,
+        ref,
+      );
+    }
+    if (!response.ok) {
+      throw new RemoteProfileError(
+        `${ref}: HTTP ${response.status} ${response.statusText}`,
+        ref,
+      );
+    }
+    return { content: await readLimitedBody(response, ref), resolved: ref };
+  }
+
+  resolveRelative(ref: string, relativePath: string): string {
+    return new URL(relativePath, ref).toString();
+  }
+}
+
+export class RemoteProfileResolver {
+  private loaders = new Map<string, RemoteProfileLoader>();
+  /** Cached file -> reference it was fetched for */
+  private origins = new Map<string, string>();
+  private mutex = new Mutex();
+  private lockFile!: string;
+  private cacheDir!: string;
+  private offline!: boolean;
+  private verifier!: ProfileSignatureVerifier;
+  private signingMode!: ProfileSigningMode;
+  private logger: ILogger;
+
+  constructor(
+    options: RemoteProfileOptions = {},
+    logger?: ILogger,
+    loaders: RemoteProfileLoader[] = [
+      new GitHubProfileLoader(),
+      new NpmProfileLoader(),
+      new HttpsProfileLoader(),
+    ],
+  ) {
+    this.logger = logger || new SilentLogger();
+    loaders.forEach((loader) => this.registerLoader(loader));
+    this.configure(options);
+  }
+
+  /**
+   * Apply `profileManagement.remoteProfiles` settings
+   */
+  configure(options: RemoteProfileOptions): void {
+    this.lockFile = path.resolve(options.lockFile || DEFAULT_PROFILE_LOCK_FILE);
+    this.cacheDir = path.resolve(options.cacheDir || DEFAULT_PROFILE_CACHE_DIR);
+    this.offline = options.offline ?? false;
+    this.signingMode = options.profileSigning ?? "off";
+    this.verifier = new ProfileSignatureVerifier(options.trustedKeysDir);
+  }
+
+  /**
+   * Handle another scheme, replacing any loader registered for it
+   */
+  registerLoader(loader: RemoteProfileLoader): void {
+    this.loaders.set(loader.scheme, loader);
+  }
+
+  getLockFilePath(): string {
+    return this.lockFile;
+  }
+
+  /**
+   * Whether a base profile reference is fetched by a loader rather than
+   * read from a local path: remote references and relative paths inside
+   * remote profiles
+   */
+  handles(ref: string, fromPath: string): boolean {
+    return (
+      this.getScheme(ref) !== undefined ||
+      (this.origins.has(path.resolve(fromPath)) && !path.isAbsolute(ref))
+    );
+  }
+
+  /**
+   * Local cached copy of a remote profile, fetched and locked on first use
+   */
+  async fetch(ref: string, fromPath: string): Promise<string> {
+    const target = this.toRemoteRef(ref, fromPath);
+    const loader = this.loaders.get(this.getScheme(target)!)!;
+
+    return this.mutex.runExclusive(async () => {
+      const lock = await this.readLock();
+      const locked = lock.profiles[target];
+      let content = locked && (await this.readCache(locked.integrity));
+
+      if (content === undefined) {
+        if (this.offline) {
+          throw new RemoteProfileError(
+            `${target} is not in the profile cache and remote profiles are offline`,
+            target,
+          );
+        }
+        const fetched = await loader.load(target, fromPath);
+        const integrity = `sha256-${computeStringHash(fetched.content)}`;
+        if (locked && locked.integrity !== integrity) {
+          throw new RemoteProfileError(
+            `${target} does not match ${this.lockFile} (locked ${locked.integrity}, fetched ${integrity}); remove its entry to accept the new content`,
+            target,
+          );
+        }
+        this.verifySignature(target, fetched.content);
+        content = fetched.content;
+        await this.writeCache(integrity, content);
+        if (!locked) {
+          lock.profiles[target] = {
+            resolved: fetched.resolved,
+            integrity,
+            fetchedAt: new Date().toISOString(),
+          };
+          await this.writeLock(lock);
+        }
+        this.logger.info(`[REMOTE-PROFILES] Fetched ${target}`);
+      } else {
+        this.verifySignature(target, content);
+      }
+
+      const cachePath = this.getCachePath(
+        `sha256-${computeStringHash(content)}`,
+      );
+      this.origins.set(cachePath, target);
+      return cachePath;
+    });
+  }
+
+  private toRemoteRef(ref: string, fromPath: string): string {
+    if (this.getScheme(ref)) {
+      return ref;
+    }
+    const origin = this.origins.get(path.resolve(fromPath))!;
+    const loader = this.loaders.get(this.getScheme(origin)!);
+    if (!loader?.resolveRelative) {
+      throw new RemoteProfileError(
+        `Relative base profile '${ref}' is not supported in ${origin}`,
+        ref,
+      );
+    }
+    return loader.resolveRelative(origin, ref);
+  }
+
+  /**
+   * Scheme of a remote reference; undefined for local paths, including
+   * Windows drive letters
+   */
+  private getScheme(ref: string): string | undefined {
+    const match = ref.match(REMOTE_REFERENCE);
+    if (!match) {
+      return undefined;
+    }
+    if (!this.loaders.has(match[1])) {
+      throw new RemoteProfileError(
+        `No loader for '${ref}'; supported schemes: ${[...this.loaders.keys()].join(", ")}`,
+        ref,
+      );
+    }
+    return match[1];
+  }
+
+  /**
+   * Refuse profiles whose embedded signature does not verify; unsigned
+   * profiles are refused under 'enforce', accepted with a warning under
+   * 'warn' and accepted silently otherwise
+   */
+  private verifySignature(ref: string, content: string): void {
+    let embedded: ReturnType<typeof extractEmbeddedSignature>;
+    try {
+      embedded = extractEmbeddedSignature(content);
+    } catch {
+      throw new RemoteProfileError(`${ref} has a malformed signature`, ref);
+    }
+    if (!embedded.signature) {
+      if (this.signingMode === "enforce") {
+        throw new RemoteProfileError(
+          `${ref} is not signed and security.profileSigning is 'enforce'`,
+          ref,
+        );
+      }
+      if (this.signingMode === "warn") {
+        this.logger.warn(`[REMOTE-PROFILES] ${ref} is not signed`);
+      }
+      return;
+    }
+    const result = this.verifier.verifyProfile({
+      content: embedded.content,
+      ...embedded.signature,
+    });
+    if (!result.isValid) {
+      throw new RemoteProfileError(
+        `${ref} failed signature verification: ${result.error}`,
+        ref,
+      );
+    }
+  }
+
+  private getCachePath(integrity: string): string {
+    return path.join(this.cacheDir, `${integrity.replace(/^sha256-/, "")}.md`);
+  }
+
+  /**
+   * Cached content, unless missing or altered since it was stored
+   */
+  private async readCache(integrity: string): Promise<string | undefined> {
+    try {
+      const content = await fs.readFile(this.getCachePath(integrity), "utf-8");
+      return `sha256-${computeStringHash(content)}` === integrity
+        ? content
+        : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeCache(integrity: string, content: string): Promise<void> {
+    await fs.mkdir(this.cacheDir, { recursive: true });
+    await fs.writeFile(this.getCachePath(integrity), content);
+  }
+
+  private async readLock(): Promise<ProfileLockFile> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.lockFile, "utf-8"));
+      return { version: 1, profiles: data?.profiles || {} };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return { version: 1, profiles: {} };
+      }
+      throw new RemoteProfileError(
+        `Cannot read ${this.lockFile}: ${(error as Error).message}`,
+        this.lockFile,
+      );
+    }
+  }
+
+  private async writeLock(lock: ProfileLockFile): Promise<void> {
+    const profiles = Object.fromEntries(
+      Object.entries(lock.profiles).sort(([a], [b]) => a.localeCompare(b)),
+    );
+    await fs.mkdir(path.dirname(this.lockFile), { recursive: true });
+    const tmpPath = `${this.lockFile}.${process.pid}.tmp`;
+    await fs.writeFile(
+      tmpPath,
+      `${JSON.stringify({ version: 1, profiles }, null, 2)}\n`,
+    );
+    await fs.rename(tmpPath, this.lockFile);
+  }
+}
+
+/**
+ * Response body as text, refused once it exceeds MAX_REMOTE_PROFILE_BYTES
+ */
+async function readLimitedBody(response: Response, ref: string) {
+  const tooLarge = () =>
+    new RemoteProfileError(
+      `${ref} is larger than ${MAX_REMOTE_PROFILE_BYTES} bytes`,
+      ref,
+    );
+  if (
+    Number(response.headers.get("content-length")) > MAX_REMOTE_PROFILE_BYTES
+  ) {
+    throw tooLarge();
+  }
+  if (!response.body) {
+    return "";
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > MAX_REMOTE_PROFILE_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+function parseGitHubRef(ref: string) {
+  const match = ref.match(/^github:([^/]+)\/([^/]+)\/(.+?)(?:@([^@/]+))?$/);
+  if (!match) {
+    throw new RemoteProfileError(
+      `Invalid GitHub profile reference '${ref}'; expected github:owner/repo/path[@ref]`,
+      ref,
+    );
+  }
+  return {
+    owner: match[1],
+    repo: match[2],
+    filePath: withMarkdownExtension(match[3]),
+    branch: match[4],
+  };
+}
+
+function parseNpmRef(ref: string) {
+  const match = ref.match(/^npm:((?:@[^/]+\/)?[^/@]+)\/(.+)$/);
+  if (!match) {
+    throw new RemoteProfileError(
+      `Invalid npm profile reference '${ref}'; expected npm:package/path`,
+      ref,
+    );
+  }
+  return { packageName: match[1], filePath: withMarkdownExtension(match[2]) };
+}
+
+function findPackageDir(fromDir: string, packageName: string) {
+  for (let dir = path.resolve(fromDir); ; dir = path.dirname(dir)) {
+    const candidate = path.join(dir, "node_modules", packageName);
+    if (existsSync(candidate)) {
+      return candidate;
+    }
+    if (path.dirname(dir) === dir) {
+      return undefined;
+    }
+  }
+}
+
+function withMarkdownExtension(filePath: string): string {
+  return path.posix.extname(filePath) ? filePath : `${filePath}.md`;
+}
@@ -4,8 +4,18 @@
 
 import { SchemaValidator, ValidationResult } from "./schema-validator.js";
 import { ILogger, Logger } from "../utils/logger.js";
+import { ClaudeConfigManager } from "../utils/claude-config.js";
+import { BehaviorGenerator } from "../utils/behavior-generator.js";
+import {
+  FrontMatterError,
+  splitFrontMatter,
+  validateFrontMatter,
+} from "../utils/front-matter.js";
+import { isSecretVariable } from "../utils/profile-template.js";
 import chalk from "chalk";
 import * as process from "process";
+import * as path from "path";
+import * as fs from "fs/promises";
 
 export interface FailFastOptions {
   configPath?: string;
@@ -41,6 +51,7 @@ export class FailFastValidator {
       await this.validator.initialize();
 
       const result = await this.validator.validateConfig(configPath);
+      await this.validateProfiles(result, configPath);
 
       if (!result.valid) {
         this.displayErrors(result, detailedOutput);
@@ -110,7 +121,7 @@ export class FailFastValidator {
       if (error.line) {
         this.logger.error(
           chalk.yellow(
-            `   📍 Line ${error.line}${error.column ? `, Column ${error.column}` : ""}`,
+            `   📍 ${error.file ? `${error.file}, ` : ""}Line ${error.line}${error.column ? `, Column ${error.column}` : ""}`,
           ),
         );
       }
@@ -184,6 +195,90 @@ export class FailFastValidator {
     }
   }
 
+  /**
+   * Fail autoLoad profiles with invalid front-matter or with variables that
+   * have neither a default nor an environment value; secret variables are
+   * only resolved at apply time
+   */
+  private async validateProfiles(
+    result: ValidationResult,
+    configPath: string,
+  ): Promise<void> {
+    const manager = new ClaudeConfigManager(this.logger);
+    for (const profile of result.config?.autoLoad?.profiles || []) {
+      const profilePath = path.resolve(path.dirname(configPath), profile.path);
+      let content: string;
+      try {
+        content = await fs.readFile(profilePath, "utf-8");
+      } catch {
+        continue; // Missing files are reported as warnings already
+      }
+
+      try {
+        const { data, keyLines } = splitFrontMatter(content);
+        if (data) {
+          validateFrontMatter(data, keyLines);
+        }
+      } catch (error) {
+        result.valid = false;
+        result.errors.push({
+          field: `autoLoad.profiles.${profile.name}`,
+          message: (error as Error).message,
+          suggestedFix:
+            "Fix the front-matter to match schemas/profile-front-matter.schema.json",
+          file: profilePath,
+          line: error instanceof FrontMatterError ? error.line : undefined,
+        });
+        continue;
+      }
+
+      let config;
+      try {
+        config = await manager.loadClaudeConfig(profilePath);
+      } catch {
+        continue;
+      }
+      if (!config) {
+        continue;
+      }
+
+      const unresolved = BehaviorGenerator.findUnresolvedVariables(
+        config,
+      ).filter((name) => !isSecretVariable(name));
+      if (unresolved.length > 0) {
+        result.valid = false;
+        result.errors.push({
+          field: `autoLoad.profiles.${profile.name}`,
+          message: `Unresolved variables: ${unresolved.join(", ")}`,
+          suggestedFix:
+            "Declare defaults under 'variables:' in the profile's front-matter or set the environment variables",
+          file: profilePath,
+          ...this.findVariable(content, unresolved[0]),
+        });
+      }
+    }
+  }
+
+  /**
+   * Line and column of the first `{{name}}` in a profile
+   */
+  private findVariable(
+    content: string,
+    name: string,
+  ): { line?: number; column?: number } {
+    const lines = content.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      const match = lines[i].match(/\{\{\s*([^{}\s]+)\s*\}\}/g);
+      const placeholder = match?.find(
+        (candidate) => candidate.slice(2, -2).trim() === name,
+      );
+      if (placeholder) {
+        return { line: i + 1, column: lines[i].indexOf(placeholder) + 1 };
+      }
+    }
+    return {};
+  }
+
   /**
    * Validate configuration without exiting (for testing)
    */
@@ -202,6 +297,7 @@ export class FailFastValidator {
     try {
       await this.validator.initialize();
       const result = await this.validator.validateConfig(configPath);
+      await this.validateProfiles(result, configPath);
 
       let report = "";
 
@@ -220,6 +316,9 @@ export class FailFastValidator {
         report += chalk.red.bold("ALERT Critical Issues:\n");
         result.errors.forEach((error, index) => {
           report += `${index + 1}. ${error.field}: ${error.message}\n`;
+          if (error.line) {
+            report += `   📍 ${error.file ? `${error.file}:` : "Line "}${error.line}${error.column ? `:${error.column}` : ""}\n`;
+          }
           if (error.suggestedFix) {
             report += `   💊 Treatment: ${error.suggestedFix}\n`;
           }
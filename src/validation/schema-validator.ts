@@ -12,6 +12,8 @@ export interface ValidationError {
   suggestedFix?: string;
   line?: number;
   column?: number;
+  /** File the line refers to, when it is not the config file */
+  file?: string;
 }
 
 export interface ValidationResult {
@@ -46,6 +48,57 @@ export interface ExternalServerChange {
   changes: string[];
 }
 
+/**
+ * Servers added, removed or reconfigured between two server lists; the
+ * changes of a modified server name the fields that differ
+ */
+export function diffExternalServers(
+  current: Array<{ name: string }>,
+  next: Array<{ name: string }>,
+): ExternalServerChange[] {
+  const serverChanges: ExternalServerChange[] = [];
+  const currentByName = new Map(current.map((server) => [server.name, server]));
+  const nextNames = new Set(next.map((server) => server.name));
+
+  for (const server of next) {
+    const previous = currentByName.get(server.name);
+    if (!previous) {
+      serverChanges.push({
+        type: "added",
+        serverName: server.name,
+        changes: [`Added server "${server.name}"`],
+      });
+      continue;
+    }
+
+    const fields = new Set([...Object.keys(previous), ...Object.keys(server)]);
+    const changed = [...fields].filter(
+      (field) =>
+        JSON.stringify((previous as Record<string, unknown>)[field]) !==
+        JSON.stringify((server as Record<string, unknown>)[field]),
+    );
+    if (changed.length > 0) {
+      serverChanges.push({
+        type: "modified",
+        serverName: server.name,
+        changes: changed.map((field) => `Changed ${field}`),
+      });
+    }
+  }
+
+  for (const server of current) {
+    if (!nextNames.has(server.name)) {
+      serverChanges.push({
+        type: "removed",
+        serverName: server.name,
+        changes: [`Removed server "${server.name}"`],
+      });
+    }
+  }
+
+  return serverChanges;
+}
+
 export class SchemaValidator {
   private ajv: Ajv;
   private schema: unknown;
@@ -376,6 +429,24 @@ export class SchemaValidator {
           suggestedFix: "Use unique names for each server",
         });
       }
+
+      const prefixes = config.externalServers.servers
+        .filter(
+          (s) =>
+            (s.namespacing || config.externalServers?.namespacing) !== "none",
+        )
+        .map((s) => s.alias || s.name);
+      const prefixCollisions = prefixes.filter(
+        (prefix, index) =>
+          prefixes.indexOf(prefix) !== index && !duplicates.includes(prefix),
+      );
+      for (const prefix of [...new Set(prefixCollisions)]) {
+        warnings.push({
+          field: "externalServers.servers",
+          message: `Multiple servers share the namespace prefix: ${prefix}`,
+          suggestedFix: "Give each server a unique alias",
+        });
+      }
     }
 
     if (
@@ -490,31 +561,12 @@ export class SchemaValidator {
     changes: ConfigChange[],
     impact: DryRunResult["impact"],
   ): void {
-    const currentServers = current.externalServers?.servers || [];
-    const newServers = newConfig.externalServers?.servers || [];
-
-    const currentNames = new Set(currentServers.map((s) => s.name));
-    const newNames = new Set(newServers.map((s) => s.name));
-
-    for (const server of newServers) {
-      if (!currentNames.has(server.name)) {
-        impact.externalServerChanges.push({
-          type: "added",
-          serverName: server.name,
-          changes: [`Added server "${server.name}"`],
-        });
-      }
-    }
-
-    for (const server of currentServers) {
-      if (!newNames.has(server.name)) {
-        impact.externalServerChanges.push({
-          type: "removed",
-          serverName: server.name,
-          changes: [`Removed server "${server.name}"`],
-        });
-      }
-    }
+    impact.externalServerChanges.push(
+      ...diffExternalServers(
+        current.externalServers?.servers || [],
+        newConfig.externalServers?.servers || [],
+      ),
+    );
   }
 
   /**
@@ -570,7 +622,7 @@ export class SchemaValidator {
       for (const error of result.errors) {
         output += `  • ${error.field}: ${error.message}\n`;
         if (error.line) {
-          output += `    Line ${error.line}${error.column ? `, Column ${error.column}` : ""}\n`;
+          output += `    ${error.file ? `${error.file}, ` : ""}Line ${error.line}${error.column ? `, Column ${error.column}` : ""}\n`;
         }
         if (error.suggestedFix) {
           output += `    Suggestion: ${error.suggestedFix}\n`;
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ApplyHistory, ApplyHistoryError, getApplyHistoryOptions } from '../../src/behavior/history.js';
+import { BehaviorStateManager } from '../../src/behavior/state.js';
+import { audit } from '../../src/monitoring/audit.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { ClaudeConfig, ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { SilentLogger } from '../../src/utils/logger.js';
+import { AccessPolicy } from '../../src/security/access-policy.js';
+import { parsePolicy } from '../../src/security/policy-file.js';
+import { RATE_LIMITED_ERROR_CODE, RequestLimiter } from '../../src/security/request-limits.js';
+
+describe('Apply history', () => {
+  let dir: string;
+  let history: ApplyHistory;
+
+  const apply = (profile: string, behavior = `${profile} behavior`) =>
+    history.record({ profile, hash: `hash-${behavior}`, actor: 'alice', behavior });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'apply-history-'));
+    history = new ApplyHistory({ stateDir: dir, maxEntries: 3 });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist entries and keep only the newest ones', async () => {
+    for (const profile of ['a', 'b', 'c', 'd']) {
+      await apply(profile);
+    }
+
+    const entries = await new ApplyHistory({ stateDir: dir }).list();
+    expect(entries.map((entry) => [entry.id, entry.profile])).toEqual([
+      [2, 'b'],
+      [3, 'c'],
+      [4, 'd'],
+    ]);
+    expect(entries[0]).toMatchObject({ action: 'apply', actor: 'alice', behavior: 'b behavior' });
+  });
+
+  it('should restore the previous behavior and record the rollback', async () => {
+    const logRollback = vi.spyOn(audit, 'logRollback');
+    await apply('a');
+    await apply('b');
+    const state = new BehaviorStateManager();
+    state.atomicSwapBehavior('b behavior', { profile: 'b', hash: 'hash-b behavior' });
+
+    const entry = await history.rollback(state, 'bob');
+
+    expect(state.getState()).toMatchObject({
+      currentProfileId: 'a',
+      currentHash: 'hash-a behavior',
+      generatedBehavior: 'a behavior',
+    });
+    expect(entry).toMatchObject({ id: 3, action: 'rollback', profile: 'a', actor: 'bob', restoredFrom: 1 });
+    expect(logRollback).toHaveBeenCalledWith(
+      expect.objectContaining({
+        actor: 'bob',
+        profile: 'a',
+        metadata: expect.objectContaining({ restoredFrom: 1, previousProfile: 'b' }),
+      })
+    );
+  });
+
+  it('should roll back to a given entry', async () => {
+    await apply('a');
+    await apply('b');
+    await apply('c');
+    const state = new BehaviorStateManager();
+
+    await history.rollback(state, 'bob', 2);
+
+    expect(state.getCurrentProfileId()).toBe('b');
+    await expect(history.rollback(state, 'bob', 42)).rejects.toThrow(/No apply history entry #42/);
+  });
+
+  it('should refuse a rollback without an earlier profile', async () => {
+    await apply('a');
+    const state = new BehaviorStateManager();
+    state.atomicSwapBehavior('a behavior', { profile: 'a', hash: 'hash-a behavior' });
+
+    await expect(history.rollback(state, 'bob')).rejects.toThrow(ApplyHistoryError);
+  });
+
+  it('should only restore entries recorded in the same session', async () => {
+    await history.record({ profile: 'a', hash: 'hash-a', actor: 'alice', behavior: 'a', session: 'alice-session' });
+    await history.record({ profile: 'b', hash: 'hash-b', actor: 'bob', behavior: 'b', session: 'bob-session' });
+    await history.record({ profile: 'c', hash: 'hash-c', actor: 'bob', behavior: 'c', session: 'bob-session' });
+    const state = new BehaviorStateManager();
+    state.atomicSwapBehavior('c', { profile: 'c', hash: 'hash-c' });
+
+    expect((await history.rollback(state, 'bob', undefined, 'bob-session')).profile).toBe('b');
+    await expect(history.rollback(state, 'bob', 1, 'bob-session')).rejects.toThrow(/No apply history entry #1/);
+  });
+
+  it('should keep the history file private to its owner', async () => {
+    await apply('a');
+
+    expect((await fs.stat(history.getFilePath())).mode & 0o777).toBe(0o600);
+  });
+
+  it('should resolve the state directory against the config directory', () => {
+    expect(
+      getApplyHistoryOptions({ profileManagement: { history: { stateDir: 'state', maxEntries: 5 } } }, '/etc/omni')
+    ).toEqual({ stateDir: path.resolve('/etc/omni', 'state'), maxEntries: 5 });
+  });
+
+  describe('rollback_profile', () => {
+    let sessions: SessionManager;
+    let handlers: ToolHandlers;
+
+    const call = (name: string, args: unknown) =>
+      (handlers as any).dispatchToolCall(name, args, sessions.getDefaultSession(), 'carol');
+
+    beforeEach(() => {
+      sessions = new SessionManager(
+        new Map<string, ClaudeConfig>([
+          ['strict', { instructions: ['Be strict'] }],
+          ['relaxed', { instructions: ['Be relaxed'] }],
+        ])
+      );
+      handlers = new ToolHandlers(
+        new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} }),
+        new ClaudeConfigManager(),
+        new Map(),
+        undefined,
+        new SilentLogger(),
+        undefined,
+        sessions,
+        undefined,
+        undefined,
+        undefined,
+        history
+      );
+    });
+
+    it('should record applies and roll back to the previous profile', async () => {
+      await call('apply_claude_config', { profileName: 'strict' });
+      await call('apply_claude_config', { profileName: 'relaxed' });
+
+      const result = await call('rollback_profile', {});
+
+      const session = sessions.getDefaultSession();
+      expect(result.content[0].text).toContain("Rolled back to profile 'strict' from history entry #1");
+      expect(session.lastAppliedProfile).toBe('strict');
+      expect(session.appliedBehaviorInstructions).toContain('Be strict');
+      expect(session.behaviorState.getCurrentProfileId()).toBe('strict');
+      expect((await history.list()).map((entry) => [entry.action, entry.actor])).toEqual([
+        ['apply', 'carol'],
+        ['apply', 'carol'],
+        ['rollback', 'carol'],
+      ]);
+    });
+
+    it('should check the policy profile rules for the restored profile', async () => {
+      const accessPolicy = new AccessPolicy({ enabled: true }, undefined, {
+        logEvent: vi.fn().mockResolvedValue(undefined)
+      });
+      accessPolicy.setPolicy(parsePolicy('rules: [{ name: no-strict, effect: deny, profiles: ["strict"] }]'));
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+      new ToolHandlers(
+        server,
+        new ClaudeConfigManager(),
+        new Map(),
+        undefined,
+        new SilentLogger(),
+        undefined,
+        sessions,
+        accessPolicy,
+        undefined,
+        undefined,
+        history
+      ).setupHandlers();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+      await call('apply_claude_config', { profileName: 'strict' });
+      await call('apply_claude_config', { profileName: 'relaxed' });
+
+      await expect(client.callTool({ name: 'rollback_profile', arguments: {} })).rejects.toThrow(
+        /policy rule 'no-strict'/
+      );
+      expect(sessions.getDefaultSession().lastAppliedProfile).toBe('relaxed');
+      await client.close();
+    });
+
+    it('should not read the history for callers over their rate limit', async () => {
+      const accessPolicy = new AccessPolicy({ enabled: true }, undefined, {
+        logEvent: vi.fn().mockResolvedValue(undefined)
+      });
+      accessPolicy.setPolicy(parsePolicy('rules: [{ name: no-strict, effect: deny, profiles: ["strict"] }]'));
+      const limiter = new RequestLimiter({ enabled: true, perClient: { maxRequests: 1 } });
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+      new ToolHandlers(
+        server,
+        new ClaudeConfigManager(),
+        new Map(),
+        undefined,
+        new SilentLogger(),
+        undefined,
+        sessions,
+        accessPolicy,
+        limiter,
+        undefined,
+        history
+      ).setupHandlers();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+      await client.callTool({ name: 'get_applied_config', arguments: {} });
+      const findRollbackTarget = vi.spyOn(history, 'findRollbackTarget');
+
+      await expect(client.callTool({ name: 'rollback_profile', arguments: {} })).rejects.toMatchObject({
+        code: RATE_LIMITED_ERROR_CODE
+      });
+      expect(findRollbackTarget).not.toHaveBeenCalled();
+      await client.close();
+      limiter.destroy();
+    });
+
+    it('should report a missing entry as an error', async () => {
+      const result = await call('rollback_profile', { entry: 7 });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('No apply history entry #7');
+    });
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ProfileStackError,
+  mergeStack,
+  popLayer,
+  pushLayer,
+  reorderLayers,
+  setLayerEnabled,
+} from '../../src/behavior/profile-stack.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { ClaudeConfig, ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { SilentLogger } from '../../src/utils/logger.js';
+
+const profiles = () =>
+  new Map<string, ClaudeConfig>([
+    [
+      'base-org',
+      {
+        instructions: ['Follow the org handbook'],
+        rules: ['No secrets in code'],
+        allowToolsAppend: ['web.search'],
+        glossary: ['PR: pull request'],
+        variables: { team: 'platform', tone: 'formal' },
+        filePath: '/profiles/base-org.md',
+      },
+    ],
+    [
+      'typescript',
+      {
+        rules: ['Use strict mode'],
+        allowToolsAppend: ['web.search', 'tsc.run'],
+        glossary: ['TS: TypeScript'],
+      },
+    ],
+    [
+      'code-reviewer',
+      {
+        instructions: ['Review the diff for {{team}}'],
+        variables: { tone: 'friendly' },
+      },
+    ],
+  ]);
+
+const layers = (...names: string[]) => names.map((name) => ({ name, enabled: true }));
+
+describe('Profile stacks', () => {
+  describe('mergeStack', () => {
+    it('should replace sections per layer and append whitelisted ones', () => {
+      const { config } = mergeStack(layers('base-org', 'typescript', 'code-reviewer'), profiles());
+
+      expect(config.instructions).toEqual(['Review the diff for {{team}}']);
+      expect(config.rules).toEqual(['Use strict mode']);
+      expect(config.allowToolsAppend).toEqual(['web.search', 'tsc.run']);
+      expect(config.glossary).toEqual(['PR: pull request', 'TS: TypeScript']);
+      expect(config.variables).toEqual({ team: 'platform', tone: 'friendly' });
+      expect(config.profileName).toBe('base-org+typescript+code-reviewer');
+      expect(config.filePath).toBeUndefined();
+    });
+
+    it('should record which layer contributed each entry', () => {
+      const { sources } = mergeStack(layers('base-org', 'typescript', 'code-reviewer'), profiles());
+
+      expect(sources.instructions).toEqual([{ layer: 'code-reviewer', value: 'Review the diff for {{team}}' }]);
+      expect(sources.rules).toEqual([{ layer: 'typescript', value: 'Use strict mode' }]);
+      expect(sources.allowToolsAppend).toEqual([
+        { layer: 'base-org', value: 'web.search' },
+        { layer: 'typescript', value: 'tsc.run' },
+      ]);
+      expect(sources.glossary.map((entry) => entry.layer)).toEqual(['base-org', 'typescript']);
+    });
+
+    it('should leave out disabled and unloaded layers', () => {
+      const stack = setLayerEnabled(layers('base-org', 'typescript', 'missing'), 'typescript', false);
+
+      const { config, missing } = mergeStack(stack, profiles());
+
+      expect(config.rules).toEqual(['No secrets in code']);
+      expect(config.profileName).toBe('base-org+missing');
+      expect(missing).toEqual(['missing']);
+    });
+  });
+
+  describe('layer operations', () => {
+    it('should push, pop and reorder layers', () => {
+      let stack = pushLayer(layers('base-org'), 'typescript');
+      stack = pushLayer(stack, 'code-reviewer');
+      expect(() => pushLayer(stack, 'typescript')).toThrow(ProfileStackError);
+
+      stack = reorderLayers(stack, ['typescript', 'base-org', 'code-reviewer']);
+      expect(stack.map((layer) => layer.name)).toEqual(['typescript', 'base-org', 'code-reviewer']);
+      expect(() => reorderLayers(stack, ['typescript', 'base-org'])).toThrow(/each layer once/);
+
+      expect(popLayer(stack).map((layer) => layer.name)).toEqual(['typescript', 'base-org']);
+      expect(popLayer(stack, 'base-org').map((layer) => layer.name)).toEqual(['typescript', 'code-reviewer']);
+      expect(() => popLayer(stack, 'nope')).toThrow(/not a layer/);
+    });
+
+    it('should keep at least one enabled layer', () => {
+      expect(() => popLayer(layers('base-org'))).toThrow(/at least one enabled layer/);
+      expect(() => setLayerEnabled(layers('base-org'), 'base-org', false)).toThrow(ProfileStackError);
+    });
+  });
+
+  describe('stack tools', () => {
+    let sessions: SessionManager;
+    let handlers: ToolHandlers;
+
+    const call = (name: string, args: unknown) =>
+      (handlers as any).dispatchToolCall(name, args, sessions.getDefaultSession());
+    const applied = async () => {
+      const result = await call('get_applied_config', {});
+      return JSON.parse(result.content[0].text.replace('Applied configuration:\n\n', ''));
+    };
+
+    beforeEach(() => {
+      sessions = new SessionManager(profiles());
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+      handlers = new ToolHandlers(
+        server,
+        new ClaudeConfigManager(),
+        new Map(),
+        undefined,
+        new SilentLogger(),
+        undefined,
+        sessions
+      );
+    });
+
+    it('should apply a stack and show each layer\'s contributions', async () => {
+      const result = await call('apply_claude_config', { layers: ['base-org', 'typescript'] });
+
+      expect(result.isError).toBeFalsy();
+      const session = sessions.getDefaultSession();
+      expect(session.lastAppliedProfile).toBe('base-org+typescript');
+      expect(session.appliedBehaviorInstructions).toContain('Use strict mode');
+
+      const info = await applied();
+      expect(info.name).toBe('base-org+typescript');
+      expect(info.layers).toEqual([
+        { name: 'base-org', enabled: true, path: '/profiles/base-org.md' },
+        { name: 'typescript', enabled: true, path: 'unknown' },
+      ]);
+      expect(info.contributions.rules).toEqual([{ layer: 'typescript', value: 'Use strict mode' }]);
+    });
+
+    it('should push onto a single applied profile and re-render', async () => {
+      await call('apply_claude_config', { layers: ['base-org'] });
+
+      await call('push_profile_layer', { profile: 'code-reviewer' });
+
+      const session = sessions.getDefaultSession();
+      expect(session.profileStack?.map((layer) => layer.name)).toEqual(['base-org', 'code-reviewer']);
+      expect(session.appliedBehaviorInstructions).toContain('Review the diff for platform');
+    });
+
+    it('should disable, reorder and pop layers', async () => {
+      await call('apply_claude_config', { layers: ['base-org', 'typescript', 'code-reviewer'] });
+
+      await call('set_profile_layer_enabled', { name: 'typescript', enabled: false });
+      expect(sessions.getDefaultSession().lastAppliedProfile).toBe('base-org+code-reviewer');
+      expect((await applied()).contributions.rules[0].layer).toBe('base-org');
+
+      await call('reorder_profile_layers', { layers: ['code-reviewer', 'typescript', 'base-org'] });
+      expect((await applied()).contributions.instructions[0].layer).toBe('base-org');
+
+      const refused = await call('pop_profile_layer', {});
+      expect(refused.content[0].text).toContain('unresolved variables: team');
+
+      await call('pop_profile_layer', { name: 'code-reviewer' });
+      expect(sessions.getDefaultSession().lastAppliedProfile).toBe('base-org');
+    });
+
+    it('should report unknown layers as errors', async () => {
+      const result = await call('push_profile_layer', { profile: 'nope' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain("Profile 'nope' is not loaded");
+    });
+
+    it('should refuse a layer file named like a profile from another file', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profile-stack-'));
+      try {
+        for (const team of ['a', 'b']) {
+          await fs.mkdir(path.join(dir, team));
+          await fs.writeFile(path.join(dir, team, 'CLAUDE.md'), `# Instructions\nTeam ${team}\n`);
+        }
+        const first = path.join(dir, 'a', 'CLAUDE.md');
+        await call('apply_claude_config', { layers: ['base-org', first] });
+
+        const result = await call('push_profile_layer', { profile: path.join(dir, 'b', 'CLAUDE.md') });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain(`Profile 'CLAUDE' is already loaded from ${first}`);
+        expect(sessions.getDefaultSession().activeProfiles.get('CLAUDE')?.instructions).toEqual(['Team a']);
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('should clear the stack when a single profile is applied', async () => {
+      await call('apply_claude_config', { layers: ['base-org', 'typescript'] });
+
+      await call('apply_claude_config', { profileName: 'typescript' });
+
+      const session = sessions.getDefaultSession();
+      expect(session.profileStack).toBeUndefined();
+      expect(session.lastAppliedProfile).toBe('typescript');
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import {
+  createToolFilter,
+  getProfileToolPatterns,
+  isToolAllowed
+} from '../../src/behavior/tool-filter.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { ClaudeConfigManager, ClaudeConfig } from '../../src/utils/claude-config.js';
+import { ACCESS_DENIED_ERROR_CODE } from '../../src/security/access-policy.js';
+import { MCPProxyManager } from '../../src/mcp-proxy/manager.js';
+
+describe('tool filter', () => {
+  it('should allow everything without patterns', () => {
+    expect(isToolAllowed(createToolFilter([]), 'serena__find_symbol')).toBe(true);
+  });
+
+  it('should restrict to allow globs and let deny globs win', () => {
+    const filter = createToolFilter(['serena__*', 'fs__read_file', '!*delete*']);
+
+    expect(filter).toEqual({ allow: ['serena__*', 'fs__read_file'], deny: ['*delete*'] });
+    expect(isToolAllowed(filter, 'serena__find_symbol')).toBe(true);
+    expect(isToolAllowed(filter, 'serena__delete_lines')).toBe(false);
+    expect(isToolAllowed(filter, 'fs__read_file')).toBe(true);
+    expect(isToolAllowed(filter, 'fs__write_file')).toBe(false);
+  });
+
+  it('should hide only denied tools when there are no allow globs', () => {
+    const filter = createToolFilter(['!*delete*']);
+
+    expect(isToolAllowed(filter, 'fs__write_file')).toBe(true);
+    expect(isToolAllowed(filter, 'fs__delete_file')).toBe(false);
+  });
+
+  it('should union a profile list with its inheritance list', () => {
+    const profile = {
+      allowToolsAppend: ['serena__*', '!*delete*'],
+      inheritance: { allowToolsAppend: ['fs__*', 'serena__*'] }
+    } as ClaudeConfig;
+
+    expect(getProfileToolPatterns(profile)).toEqual(['fs__*', 'serena__*', '!*delete*']);
+    expect(getProfileToolPatterns(undefined)).toEqual([]);
+  });
+});
+
+describe('profile-driven tool visibility', () => {
+  const proxiedTools = ['serena__find_symbol', 'serena__delete_lines', 'fs__read_file'].map((name) => ({
+    name,
+    inputSchema: { type: 'object' as const }
+  }));
+  let client: Client;
+  let server: Server;
+  let proxyManager: { callTool: ReturnType<typeof vi.fn> };
+  let toolsChanged: ReturnType<typeof vi.fn>;
+
+  const profiles: Record<string, ClaudeConfig> = {
+    '/profiles/serena.md': { allowToolsAppend: ['serena__*', '!*delete*'] },
+    '/profiles/open.md': {}
+  };
+
+  async function toolNames(): Promise<string[]> {
+    return (await client.listTools()).tools.map((tool) => tool.name);
+  }
+
+  beforeEach(async () => {
+    proxyManager = {
+      addServer: vi.fn(),
+      getConnectedServers: vi.fn().mockReturnValue(['serena', 'fs']),
+      getAggregatedTools: vi.fn().mockReturnValue(proxiedTools),
+      getToolServer: vi.fn(),
+      callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'proxied' }] })
+    } as any;
+
+    const claudeConfigManager = new ClaudeConfigManager();
+    vi.spyOn(claudeConfigManager, 'loadClaudeConfig').mockImplementation(
+      async (filePath: string) => ({ ...profiles[filePath], _filePath: filePath }) as ClaudeConfig
+    );
+
+    server = new Server({ name: 'hub', version: '1.0.0' }, { capabilities: { tools: {} } });
+    new ToolHandlers(
+      server,
+      claudeConfigManager,
+      new Map(),
+      proxyManager as unknown as MCPProxyManager
+    ).setupHandlers();
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    toolsChanged = vi.fn();
+    client.setNotificationHandler(ToolListChangedNotificationSchema, toolsChanged);
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should hide and refuse tools the active profile disallows', async () => {
+    expect(await toolNames()).toEqual(expect.arrayContaining(proxiedTools.map((tool) => tool.name)));
+
+    await client.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/serena.md' } });
+
+    const visible = await toolNames();
+    expect(visible).toContain('serena__find_symbol');
+    expect(visible).not.toContain('serena__delete_lines');
+    expect(visible).not.toContain('fs__read_file');
+
+    await expect(client.callTool({ name: 'fs__read_file', arguments: {} })).rejects.toMatchObject({
+      code: ACCESS_DENIED_ERROR_CODE
+    });
+    expect(proxyManager.callTool).not.toHaveBeenCalled();
+
+    const allowed = await client.callTool({ name: 'serena__find_symbol', arguments: {} });
+    expect(allowed.content).toEqual([{ type: 'text', text: 'proxied' }]);
+  });
+
+  it('should notify clients only when a profile switch changes the visible tools', async () => {
+    await client.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/serena.md' } });
+    await vi.waitFor(() => expect(toolsChanged).toHaveBeenCalledTimes(1));
+
+    await client.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/serena.md' } });
+    await client.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/open.md' } });
+    await vi.waitFor(() => expect(toolsChanged).toHaveBeenCalledTimes(2));
+  });
+});
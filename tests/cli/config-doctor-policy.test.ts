@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { run, testAccessPolicy } from '../../src/cli/config-doctor.js';
+import { YamlConfig } from '../../src/config/yaml-config.js';
+
+const POLICY = `
+rules:
+  - name: no-deletes
+    effect: deny
+    tools: ["*delete*"]
+  - name: ci-serena
+    effect: allow
+    identities: ["ci-bot"]
+    tools: ["serena__*"]
+`;
+
+const CONFIG = `
+externalServers:
+  servers:
+    - name: serena
+      command: serena
+security:
+  accessControl:
+    enabled: true
+    policyFile: ./policy.yaml
+    identities:
+      - id: ci-bot
+        roles: ["read-only"]
+        token: secret
+`;
+
+describe('config-doctor policy test', () => {
+  let dir: string;
+  let configPath: string;
+  let logs: string[];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'config-doctor-policy-'));
+    configPath = path.join(dir, 'omni-config.yaml');
+    await fs.writeFile(configPath, CONFIG);
+    await fs.writeFile(path.join(dir, 'policy.yaml'), POLICY);
+    logs = [];
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      logs.push(args.join(' '));
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should print the decision and the rule that produced it', async () => {
+    await run(['policy', 'test', '--as', 'ci-bot', '--tool', 'serena__find_symbol', '-c', configPath]);
+
+    const output = logs.join('\n');
+    expect(output).toContain('ALLOW ci-bot -> tool serena__find_symbol');
+    expect(output).toContain("Rule: policy rule 'ci-serena'");
+    expect(output).toContain('Server: serena');
+  });
+
+  it('should report denials in JSON', async () => {
+    await run(['policy', 'test', '--as', 'ci-bot', '--tool', 'serena__delete_lines', '-c', configPath, '--json']);
+
+    expect(JSON.parse(logs.join('\n'))).toMatchObject({
+      identity: 'ci-bot',
+      allowed: false,
+      source: 'policy',
+      rule: 'no-deletes',
+      enforced: true
+    });
+  });
+
+  it('should fall back to role permissions', async () => {
+    const config = { security: { accessControl: { identities: [{ id: 'ci-bot', roles: ['read-only'] }] } } } as YamlConfig;
+
+    await expect(testAccessPolicy(config, configPath, { identity: 'ci-bot', resource: 'config://profiles/active' })).resolves.toMatchObject({
+      allowed: true,
+      source: 'role',
+      rule: 'read-only',
+      enforced: false
+    });
+    await expect(testAccessPolicy(config, configPath, { identity: 'ci-bot', profile: 'dev' })).resolves.toMatchObject({
+      allowed: false,
+      source: 'none'
+    });
+  });
+
+  it('should reject unknown identities and ambiguous targets', async () => {
+    const config = {} as YamlConfig;
+
+    await expect(testAccessPolicy(config, configPath, { identity: 'nobody', tool: 'echo' })).rejects.toThrow(
+      "Unknown identity 'nobody'"
+    );
+    await expect(testAccessPolicy(config, configPath, { identity: 'local', tool: 'echo', profile: 'dev' })).rejects.toThrow(
+      'Specify exactly one of --tool, --resource or --profile'
+    );
+  });
+});
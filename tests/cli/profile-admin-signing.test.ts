@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { run } from '../../src/cli/profile-admin.js';
+
+describe('profile-admin sign/verify', () => {
+  let dir: string;
+  let profilePath: string;
+  let keyPath: string;
+  let keysDir: string;
+  let logs: string[];
+  let errors: string[];
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profile-admin-signing-'));
+    profilePath = path.join(dir, 'review.md');
+    await fs.writeFile(profilePath, '# Review\n\n## Rules\n- Be thorough\n');
+
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+    keyPath = path.join(dir, 'release.pem');
+    await fs.writeFile(keyPath, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+    keysDir = path.join(dir, 'keys');
+    await fs.mkdir(keysDir);
+    await fs.writeFile(path.join(keysDir, 'release.pub'), publicKey.export({ type: 'spki', format: 'pem' }));
+
+    logs = [];
+    errors = [];
+    vi.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      logs.push(args.join(' '));
+    });
+    vi.spyOn(console, 'error').mockImplementation((...args: unknown[]) => {
+      errors.push(args.join(' '));
+    });
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should write a detached signature named after the key', async () => {
+    await run(['sign', profilePath, '--key', keyPath]);
+
+    const signature = JSON.parse(await fs.readFile(`${profilePath}.sig`, 'utf-8'));
+    expect(signature.metadata).toMatchObject({ keyId: 'release', algorithm: 'Ed25519' });
+    expect(logs.join('\n')).toContain("signed with key 'release'");
+  });
+
+  it('should embed signatures with --embed', async () => {
+    await run(['sign', profilePath, '--key', keyPath, '--embed']);
+
+    expect(await fs.readFile(profilePath, 'utf-8')).toMatch(/<!-- omni-signature: .+ -->\n$/);
+    await expect(fs.access(`${profilePath}.sig`)).rejects.toThrow();
+  });
+
+  it('should verify signatures against trusted keys', async () => {
+    await run(['sign', profilePath, '--key', keyPath, '--embed']);
+    await run(['verify', profilePath, '--keys', keysDir]);
+
+    expect(logs.join('\n')).toContain("signature verified (embedded, key 'release')");
+    expect(errors).toEqual([]);
+  });
+
+  it('should report tampered and unsigned profiles', async () => {
+    await run(['sign', profilePath, '--key', keyPath, '--embed']);
+    await fs.appendFile(profilePath, '- Skip the tests\n');
+    await run(['verify', profilePath, '--keys', keysDir]);
+
+    expect(errors.join('\n')).toContain('signature is invalid: Invalid signature');
+
+    await fs.writeFile(profilePath, '# Review\n');
+    await run(['verify', profilePath, '--keys', keysDir]);
+
+    expect(errors.join('\n')).toContain('is not signed');
+  });
+});
@@ -3,7 +3,8 @@ vi.mock('fs', () => {
   return {
     existsSync: () => false,
     readFileSync: vi.fn(),
-    writeFileSync: vi.fn()
+    writeFileSync: vi.fn(),
+    mkdirSync: vi.fn()
   } as typeof fs;
 });
 
@@ -0,0 +1,274 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigReloader, ReloadResult } from '../../src/config/hot-reload.js';
+import { ConfigLoader } from '../../src/config/loader.js';
+import { YamlConfigManager } from '../../src/config/yaml-config.js';
+import { MCPProxyManager } from '../../src/mcp-proxy/manager.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { ClaudeConfig, ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { behaviorState } from '../../src/behavior/state.js';
+import { SecretManager } from '../../src/security/secret-manager.js';
+
+const PROFILE = `# Instructions
+Review carefully.
+`;
+
+function configYaml(profilePath: string, extra = ''): string {
+  return `mode: standard
+autoLoad:
+  profiles:
+    - name: review
+      path: "${profilePath}"
+      autoApply: true
+${extra}`;
+}
+
+describe('ConfigReloader', () => {
+  let dir: string;
+  let configPath: string;
+  let profilePath: string;
+  let yamlConfigManager: YamlConfigManager;
+  let claudeConfigManager: ClaudeConfigManager;
+  let sessions: SessionManager;
+  let proxyManager: { reloadFromYamlConfig: ReturnType<typeof vi.fn> };
+  let applyConfig: ReturnType<typeof vi.fn>;
+  let secretManager: SecretManager;
+  let reloader: ConfigReloader;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hot-reload-'));
+    configPath = path.join(dir, 'omni-config.yaml');
+    profilePath = path.join(dir, 'review.md');
+    await fs.writeFile(profilePath, PROFILE);
+    await fs.writeFile(configPath, configYaml(profilePath));
+
+    yamlConfigManager = YamlConfigManager.createWithPath(configPath);
+    await yamlConfigManager.loadYamlConfig(configPath);
+    claudeConfigManager = new ClaudeConfigManager();
+    const configLoader = new ConfigLoader(claudeConfigManager, yamlConfigManager);
+    sessions = new SessionManager(await configLoader.loadInitialConfig());
+    proxyManager = { reloadFromYamlConfig: vi.fn().mockResolvedValue([]) };
+    applyConfig = vi.fn();
+    secretManager = new SecretManager();
+    behaviorState.clear();
+
+    reloader = new ConfigReloader(
+      yamlConfigManager,
+      configLoader,
+      claudeConfigManager,
+      proxyManager as unknown as MCPProxyManager,
+      sessions,
+      applyConfig,
+      undefined,
+      secretManager
+    );
+  });
+
+  afterEach(async () => {
+    reloader.stop();
+    behaviorState.clear();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  /** Rewrite a file with a later mtime so cached profiles are re-read */
+  async function rewrite(file: string, content: string): Promise<void> {
+    await fs.writeFile(file, content);
+    const later = new Date(Date.now() + 2000);
+    await fs.utimes(file, later, later);
+  }
+
+  function applyInSession(id: string) {
+    const session = sessions.createSession(id);
+    session.lastAppliedProfile = 'review';
+    session.appliedBehaviorInstructions = 'old instructions';
+    return session;
+  }
+
+  it('should keep the previous configuration when the new file is invalid', async () => {
+    const previous = yamlConfigManager.getConfig();
+    const failed = vi.fn();
+    reloader.on('reload-failed', failed);
+    await rewrite(configPath, 'externalServers:\n  enabled: "yes"\n  bogus: true\n');
+
+    const result = await reloader.reloadFile(configPath);
+
+    expect(result.status).toBe('failed');
+    expect(result.errors.length).toBeGreaterThan(0);
+    expect(yamlConfigManager.getConfig()).toBe(previous);
+    expect(proxyManager.reloadFromYamlConfig).not.toHaveBeenCalled();
+    expect(applyConfig).not.toHaveBeenCalled();
+    expect(failed).toHaveBeenCalledWith(result);
+  });
+
+  it('should apply a valid config and reconcile external servers', async () => {
+    proxyManager.reloadFromYamlConfig.mockResolvedValue([
+      { type: 'added', serverName: 'fs', impact: 'low' }
+    ]);
+    await rewrite(
+      configPath,
+      configYaml(
+        profilePath,
+        'externalServers:\n  enabled: true\n  servers:\n    - name: fs\n      command: echo\n      args: []\n'
+      )
+    );
+
+    const result = await reloader.reloadConfig();
+
+    expect(result.status).toBe('applied');
+    expect(result.serverChanges).toEqual([{ type: 'added', serverName: 'fs', impact: 'low' }]);
+    expect(applyConfig).toHaveBeenCalledWith(yamlConfigManager.getConfig());
+    expect(yamlConfigManager.getConfig().externalServers?.servers?.[0].name).toBe('fs');
+  });
+
+  it('should report an unchanged config without touching servers', async () => {
+    await rewrite(configPath, configYaml(profilePath));
+
+    const result = await reloader.reloadConfig();
+
+    expect(result.status).toBe('unchanged');
+    expect(proxyManager.reloadFromYamlConfig).not.toHaveBeenCalled();
+  });
+
+  it('should restore the previous config when applying it fails', async () => {
+    const previous = yamlConfigManager.getConfig();
+    proxyManager.reloadFromYamlConfig.mockRejectedValueOnce(new Error('spawn failed'));
+    await rewrite(
+      configPath,
+      configYaml(profilePath, 'externalServers:\n  enabled: true\n  servers:\n    - name: fs\n      command: echo\n      args: []\n')
+    );
+
+    const result = await reloader.reloadConfig();
+
+    expect(result.status).toBe('failed');
+    expect(result.errors).toEqual(['spawn failed']);
+    expect(yamlConfigManager.getConfig()).toBe(previous);
+    // Second call reverts servers to the restored config
+    expect(proxyManager.reloadFromYamlConfig).toHaveBeenCalledTimes(2);
+    expect(applyConfig).toHaveBeenLastCalledWith(previous);
+  });
+
+  it('should leave sessions on the previous profile when a config reload fails', async () => {
+    const using = applyInSession('using');
+    const previous = using.activeProfiles.get('review');
+    const changedPath = path.join(dir, 'review-v2.md');
+    await fs.writeFile(changedPath, '# Instructions\nShip quickly.\n');
+    proxyManager.reloadFromYamlConfig.mockRejectedValueOnce(new Error('spawn failed'));
+    await rewrite(
+      configPath,
+      configYaml(changedPath, 'externalServers:\n  enabled: true\n  servers:\n    - name: fs\n      command: echo\n      args: []\n')
+    );
+
+    const result = await reloader.reloadConfig();
+
+    expect(result.status).toBe('failed');
+    expect(result.profiles).toEqual([]);
+    expect(using.activeProfiles.get('review')).toBe(previous);
+    expect(sessions.getDefaultSession().activeProfiles.get('review')).toBe(previous);
+    expect(using.appliedBehaviorInstructions).toBe('old instructions');
+  });
+
+  it('should re-apply profiles changed by a config reload once it succeeds', async () => {
+    const using = applyInSession('using');
+    const changedPath = path.join(dir, 'review-v2.md');
+    await fs.writeFile(changedPath, '# Instructions\nShip quickly.\n');
+    await rewrite(configPath, configYaml(changedPath));
+
+    const result = await reloader.reloadConfig();
+
+    expect(result.status).toBe('applied');
+    expect(result.profiles).toEqual(['review']);
+    expect(using.appliedBehaviorInstructions).toContain('Ship quickly.');
+  });
+
+  it('should re-apply a changed profile only in sessions using it', async () => {
+    const using = applyInSession('using');
+    const other = sessions.createSession('other');
+    const previous = sessions.getDefaultSession().activeProfiles.get('review');
+    await rewrite(profilePath, '# Instructions\nShip quickly.\n');
+
+    const result = await reloader.reloadFile(profilePath);
+
+    expect(result.status).toBe('applied');
+    expect(result.profiles).toEqual(['review']);
+    const reloaded = sessions.getDefaultSession().activeProfiles.get('review') as ClaudeConfig;
+    expect(reloaded).not.toBe(previous);
+    expect(using.activeProfiles.get('review')).toBe(reloaded);
+    expect(other.activeProfiles.get('review')).toBe(reloaded);
+    expect(using.appliedBehaviorInstructions).toContain('Ship quickly.');
+    expect(using.behaviorState.getCurrentProfileId()).toBe('review');
+    expect(other.appliedBehaviorInstructions).toBeNull();
+  });
+
+  it('should leave sessions alone when a profile file is saved unchanged', async () => {
+    const using = applyInSession('using');
+    await rewrite(profilePath, PROFILE);
+
+    const result = await reloader.reloadProfile(profilePath);
+
+    expect(result.status).toBe('unchanged');
+    expect(using.appliedBehaviorInstructions).toBe('old instructions');
+  });
+
+  it('should re-apply profiles that include a changed fragment', async () => {
+    const fragmentPath = path.join(dir, 'shared.md');
+    await fs.writeFile(fragmentPath, 'Review carefully.\n');
+    await rewrite(profilePath, '# Instructions\n@include shared.md\n');
+    await reloader.reloadProfile(profilePath);
+    const using = applyInSession('using');
+    reloader.start(20);
+    expect(reloader.getWatchedFiles()).toContain(fragmentPath);
+
+    await rewrite(fragmentPath, 'Ship quickly.\n');
+    const result = await reloader.reloadFile(fragmentPath);
+
+    expect(result.status).toBe('applied');
+    expect(result.profiles).toEqual(['review']);
+    expect(using.appliedBehaviorInstructions).toContain('Ship quickly.');
+  });
+
+  it('should resolve secret variables when re-applying a changed profile', async () => {
+    const using = applyInSession('using');
+    vi.spyOn(secretManager, 'resolveSecret').mockResolvedValue('s3cr3t');
+    await rewrite(profilePath, '# Instructions\nDeploy with {{secret:vault://kv/ci#token}}.\n');
+
+    await reloader.reloadProfile(profilePath);
+
+    expect(using.appliedBehaviorInstructions).toContain('Deploy with s3cr3t.');
+  });
+
+  it('should keep the previous behavior of sessions whose variables no longer resolve', async () => {
+    const using = applyInSession('using');
+    await rewrite(profilePath, '# Instructions\nWork on {{projectName}}.\n');
+
+    const result = await reloader.reloadProfile(profilePath);
+
+    expect(result.status).toBe('applied');
+    expect(using.appliedBehaviorInstructions).toBe('old instructions');
+  });
+
+  it('should keep the previous profile when its signature is refused', async () => {
+    const using = applyInSession('using');
+    vi.spyOn(claudeConfigManager, 'verifySignature').mockRejectedValue(new Error('Profile is not signed'));
+    await rewrite(profilePath, '# Instructions\nTampered.\n');
+
+    const result = await reloader.reloadProfile(profilePath);
+
+    expect(result.status).toBe('failed');
+    expect(result.errors).toEqual(['Profile is not signed']);
+    expect(using.appliedBehaviorInstructions).toBe('old instructions');
+  });
+
+  it('should reload when a watched file changes', async () => {
+    reloader.start(20);
+    expect(reloader.getWatchedFiles().sort()).toEqual([configPath, profilePath].sort());
+    const reloaded = new Promise<ReloadResult>((resolve) => reloader.once('reloaded', resolve));
+
+    await rewrite(profilePath, '# Instructions\nWatch mode.\n');
+
+    const result = await reloaded;
+    expect(result.file).toBe(profilePath);
+    expect(result.profiles).toEqual(['review']);
+  });
+});
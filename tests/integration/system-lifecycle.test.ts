@@ -73,7 +73,8 @@ vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
     connect: vi.fn(),
     close: vi.fn(),
     listTools: vi.fn().mockResolvedValue({ tools: [] }),
-    listResources: vi.fn().mockResolvedValue({ resources: [] })
+    listResources: vi.fn().mockResolvedValue({ resources: [] }),
+    setNotificationHandler: vi.fn()
   }))
 }));
 
@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { MCPProxyClient } from '../../src/mcp-proxy/client.js';
+import { CapabilityCache, getCapabilityCacheKey } from '../../src/mcp-proxy/capability-cache.js';
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: vi.fn().mockImplementation(() => ({}))
+}));
+
+const mockClient: Record<string, any> = {
+  connect: vi.fn(),
+  close: vi.fn(),
+  listTools: vi.fn(),
+  listResources: vi.fn(),
+  listPrompts: vi.fn(),
+  callTool: vi.fn(),
+  setNotificationHandler: vi.fn(),
+  getServerCapabilities: vi.fn()
+};
+
+vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
+  Client: vi.fn().mockImplementation(() => mockClient)
+}));
+
+const tool = (name: string) => ({ name, description: name, inputSchema: { type: 'object' as const } });
+const docs = { name: 'docs', command: 'docs-server', args: ['--stdio'], env: { DOCS_TOKEN: 'secret' } };
+const key = getCapabilityCacheKey(docs);
+
+describe('Capability cache', () => {
+  let tempDir: string;
+  let cache: CapabilityCache;
+
+  const createClient = () => {
+    const client = new MCPProxyClient(docs);
+    client.capabilityCache = cache;
+    client.onCapabilitiesChanged = vi.fn();
+    return client;
+  };
+
+  const notify = async (schema: unknown) => {
+    const handler = mockClient.setNotificationHandler.mock.calls.find(([registered]: unknown[]) => registered === schema)[1];
+    await handler({});
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    delete mockClient.onclose;
+    mockClient.connect.mockResolvedValue(undefined);
+    mockClient.close.mockResolvedValue(undefined);
+    mockClient.listTools.mockResolvedValue({ tools: [tool('search')] });
+    mockClient.listResources.mockResolvedValue({ resources: [] });
+    mockClient.listPrompts.mockResolvedValue({ prompts: [{ name: 'summarize' }] });
+    mockClient.getServerCapabilities.mockReturnValue({ tools: {}, prompts: {} });
+
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'omni-capability-cache-'));
+    cache = new CapabilityCache(path.join(tempDir, 'capabilities.json'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should key entries by how the server is launched', () => {
+    expect(getCapabilityCacheKey({ ...docs, name: 'renamed' })).toBe(key);
+    expect(getCapabilityCacheKey({ ...docs, args: ['--http'] })).not.toBe(key);
+    expect(getCapabilityCacheKey({ ...docs, env: { DOCS_TOKEN: 'other' } })).not.toBe(key);
+    expect(getCapabilityCacheKey({ ...docs, command: 'docs-server-2' })).not.toBe(key);
+  });
+
+  it('should save tools, resources and prompts and ignore other file versions', async () => {
+    await createClient().connect();
+
+    expect(await cache.get(key)).toEqual(
+      expect.objectContaining({ server: 'docs', tools: [tool('search')], prompts: [{ name: 'summarize' }] })
+    );
+
+    await fs.writeFile(cache.getFilePath(), JSON.stringify({ version: 1, servers: { [key]: {} } }));
+    expect(await cache.get(key)).toBeUndefined();
+  });
+
+  it('should list cached tools as stale while an eager server starts', async () => {
+    await cache.set(key, { server: 'docs', tools: [tool('search')], resources: [], resourceTemplates: [], prompts: [] });
+    let started!: () => void;
+    mockClient.connect.mockReturnValue(new Promise<void>((resolve) => (started = resolve)));
+    mockClient.listTools.mockResolvedValue({ tools: [tool('search'), tool('fetch')] });
+    const client = createClient();
+
+    await client.connect();
+
+    expect(client.isConnected()).toBe(true);
+    expect(client.getTools()).toEqual([
+      expect.objectContaining({ name: 'docs__search', annotations: expect.objectContaining({ stale: true }) })
+    ]);
+
+    started();
+    await vi.waitFor(() => expect(client.onCapabilitiesChanged).toHaveBeenCalled());
+
+    expect(client.isStale()).toBe(false);
+    expect(client.getTools().map((entry) => [entry.name, entry.annotations])).toEqual([
+      ['docs__search', undefined],
+      ['docs__fetch', undefined]
+    ]);
+  });
+
+  it('should serve cached tools of a tools-only server while it starts', async () => {
+    mockClient.getServerCapabilities.mockReturnValue({ tools: {} });
+    mockClient.listResources.mockRejectedValue(new Error('MCP error -32601: Method not found'));
+    await createClient().connect();
+    let started!: () => void;
+    mockClient.connect.mockReturnValue(new Promise<void>((resolve) => (started = resolve)));
+
+    const client = createClient();
+    await client.connect();
+
+    expect(client.isStale()).toBe(true);
+    expect(client.getTools().map((entry) => entry.name)).toEqual(['docs__search']);
+
+    started();
+    await vi.waitFor(() => expect(client.isStale()).toBe(false));
+    expect(mockClient.listResources).not.toHaveBeenCalled();
+  });
+
+  it('should keep serving cached tools when the server fails to start', async () => {
+    await cache.set(key, { server: 'docs', tools: [tool('search')], resources: [], resourceTemplates: [], prompts: [] });
+    mockClient.connect.mockRejectedValue(new Error('spawn docs-server ENOENT'));
+    const client = createClient();
+
+    await client.connect();
+    await vi.waitFor(() => expect(mockClient.connect).toHaveBeenCalled());
+
+    expect(client.isConnected()).toBe(true);
+    expect(client.getTools()).toHaveLength(1);
+    await expect(client.callTool('docs__search', {})).rejects.toThrow('ENOENT');
+  });
+
+  it('should mark tools stale while a crashed server is restarted by the next call', async () => {
+    mockClient.callTool.mockResolvedValue({ content: [] });
+    const client = createClient();
+    await client.connect();
+
+    mockClient.onclose();
+
+    expect(client.isConnected()).toBe(true);
+    expect(client.isStale()).toBe(true);
+    expect(client.onCapabilitiesChanged).toHaveBeenCalledTimes(1);
+
+    await client.callTool('docs__search', {});
+
+    expect(mockClient.connect).toHaveBeenCalledTimes(2);
+    expect(client.isStale()).toBe(false);
+    expect(client.onCapabilitiesChanged).toHaveBeenCalledTimes(2);
+  });
+
+  it('should invalidate the entry when the server reports list_changed', async () => {
+    const client = createClient();
+    await client.connect();
+    mockClient.listTools.mockResolvedValue({ tools: [tool('fetch')] });
+
+    await notify(ToolListChangedNotificationSchema);
+
+    expect((await cache.get(key))?.tools).toEqual([tool('fetch')]);
+    expect(client.getTools().map((entry) => entry.name)).toEqual(['docs__fetch']);
+    expect(client.onCapabilitiesChanged).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  EnhancedMCPProxyManager,
+  isResilienceEnabled,
+  toEnhancedManagerConfig,
+  toStatsServerConfig,
+} from '../../src/mcp-proxy/enhanced-manager.js';
+import { LoadBalancingStrategy } from '../../src/mcp-proxy/resilience-manager.js';
+import { mergeConfig } from '../../src/mcp-proxy/resilience.js';
+import { MonitoringServer } from '../../src/monitoring/monitoring-server.js';
+import { MetricsCollector } from '../../src/monitoring/metrics-collector.js';
+import { SilentLogger } from '../../src/utils/logger.js';
+
+vi.mock('../../src/mcp-proxy/client.js', () => ({
+  MCPProxyClient: vi.fn().mockImplementation((config) => {
+    let connected = false;
+    return {
+      config,
+      connect: vi.fn(async () => {
+        connected = true;
+      }),
+      disconnect: vi.fn(async () => {
+        connected = false;
+      }),
+      isConnected: () => connected,
+      getTools: () => [{ name: `${config.name}__search`, description: 'Search', inputSchema: { type: 'object' } }],
+      getResources: () => [],
+      getResourceTemplates: () => [],
+      getPrompts: () => [],
+      getServerName: () => config.name,
+      callTool: vi.fn(async () => ({ content: [{ type: 'text', text: config.url ?? config.command }] })),
+      readResource: vi.fn(),
+      subscribeResource: vi.fn(),
+      unsubscribeResource: vi.fn(),
+    };
+  }),
+}));
+
+describe('EnhancedMCPProxyManager', () => {
+  let manager: EnhancedMCPProxyManager;
+
+  const create = (settings = {}) =>
+    new EnhancedMCPProxyManager(undefined, new SilentLogger(), toEnhancedManagerConfig(settings));
+
+  afterEach(async () => {
+    await manager?.cleanup();
+  });
+
+  describe('configuration', () => {
+    beforeEach(() => {
+      manager = create({
+        loadBalancing: { strategy: 'round_robin' },
+        serverDefaults: { circuitBreaker: { failureThreshold: 2 } },
+        migration: { fallbackToLegacy: true },
+        statsServer: { port: 3100 },
+      });
+    });
+
+    it('should map the YAML section and keep defaults for omitted settings', () => {
+      const config = (manager as any).config;
+
+      expect(config.resilience.loadBalancing).toEqual(
+        expect.objectContaining({ strategy: LoadBalancingStrategy.ROUND_ROBIN, maxConcurrentRequests: 50 })
+      );
+      expect(config.resilience.statsServer).toBeUndefined();
+      expect(config.serverDefaults.circuitBreaker).toEqual({ failureThreshold: 2 });
+      expect(config.serverDefaults.healthCheck.intervalMs).toBe(30000);
+      expect(config.migration).toEqual({ enableGradualRollout: false, rolloutPercentage: 100, fallbackToLegacy: true });
+      expect((manager as any).resilienceManager.config.resourceManagement.maxQueueSize).toBe(1000);
+    });
+
+    it('should be enabled by the presence of the section', () => {
+      expect(isResilienceEnabled(undefined)).toBe(false);
+      expect(isResilienceEnabled({})).toBe(true);
+      expect(isResilienceEnabled({ enabled: false })).toBe(false);
+    });
+
+    it('should merge nested sections and replace arrays', () => {
+      expect(
+        mergeConfig(
+          { retry: { attempts: 3, delayMs: 100 }, strategies: ['a', 'b'] },
+          { retry: { attempts: 5 }, strategies: ['c'] }
+        )
+      ).toEqual({ retry: { attempts: 5, delayMs: 100 }, strategies: ['c'] });
+    });
+
+    it('should serve stats on the loopback interface by default', () => {
+      expect(toStatsServerConfig({ port: 3100 })).toEqual({ port: 3100, host: '127.0.0.1' });
+      expect(toStatsServerConfig({ host: '::1' })).toEqual({ host: '::1' });
+    });
+
+    it('should require an auth token for other hosts', () => {
+      expect(() => toStatsServerConfig({ host: '0.0.0.0' })).toThrow(
+        'statsServer.authToken is required to serve stats on 0.0.0.0'
+      );
+      expect(toStatsServerConfig({ host: '0.0.0.0', authToken: 'secret' })).toEqual({
+        host: '0.0.0.0',
+        authToken: 'secret',
+      });
+    });
+  });
+
+  describe('servers', () => {
+    beforeEach(async () => {
+      manager = create({ loadBalancing: { strategy: 'round_robin' } });
+      await manager.addServer({
+        name: 'docs',
+        transport: 'http',
+        replicas: [{ url: 'https://docs-a/mcp' }, { url: 'https://docs-b/mcp' }],
+        resilience: { healthCheck: { intervalMs: 60000 } },
+      });
+    });
+
+    it('should aggregate the tools of enhanced servers', () => {
+      expect(manager.getAggregatedTools().map((tool) => tool.name)).toEqual(['docs__search']);
+      expect(manager.getToolServer('docs__search')).toBe('docs');
+      expect(manager.getConnectedServers()).toEqual(['docs']);
+    });
+
+    it('should call tools through the replicas with per-server overrides', async () => {
+      const served = async () => ((await manager.callTool('docs__search', {})) as any).content[0].text;
+
+      expect([await served(), await served()]).toEqual(['https://docs-a/mcp', 'https://docs-b/mcp']);
+      const replica = (manager as any).resilienceManager.connections.get('docs#1');
+      expect(replica.config.healthCheck).toEqual(expect.objectContaining({ intervalMs: 60000, timeoutMs: 5000 }));
+    });
+
+    it('should report running enhanced servers to the reload diff', async () => {
+      expect((manager as any).getRunningServerConfigs().map((config: any) => config.name)).toEqual(['docs']);
+
+      await manager.removeServer('docs');
+
+      expect(manager.getAggregatedTools()).toEqual([]);
+      expect((manager as any).getRunningServerConfigs()).toEqual([]);
+    });
+
+    it('should expose operational insights through the stats endpoint', async () => {
+      const collector = new MetricsCollector({}, new SilentLogger());
+      const stats = new MonitoringServer(collector, {}, new SilentLogger());
+      stats.registerStatsSource('externalServers', () => manager.getOperationalInsights());
+      const res = { writeHead: vi.fn(), end: vi.fn() };
+
+      await (stats as any).handleStats({ url: '/stats' }, res);
+      collector.stop();
+
+      const body = JSON.parse(res.end.mock.calls[0][0]);
+      expect(body.externalServers.migration.enhancedServers).toEqual(['docs']);
+      expect(body.externalServers.migration.migrationDecisions).toEqual({ docs: 'enhanced' });
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { MCPProxyClient } from '../../src/mcp-proxy/client.js';
+import { CapabilityCache, getCapabilityCacheKey } from '../../src/mcp-proxy/capability-cache.js';
+import { ResilientMCPConnection } from '../../src/mcp-proxy/resilience.js';
+
+vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
+  StdioClientTransport: vi.fn().mockImplementation(() => ({}))
+}));
+
+const mockClient = {
+  connect: vi.fn(),
+  close: vi.fn(),
+  listTools: vi.fn(),
+  listResources: vi.fn(),
+  callTool: vi.fn(),
+  readResource: vi.fn(),
+  setNotificationHandler: vi.fn(),
+  getServerCapabilities: vi.fn(),
+  subscribeResource: vi.fn(),
+  unsubscribeResource: vi.fn()
+};
+
+vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
+  Client: vi.fn().mockImplementation(() => mockClient)
+}));
+
+const search = { name: 'search', description: 'Search', inputSchema: { type: 'object' as const } };
+const docs = { name: 'docs', command: 'docs-server', args: [] };
+const key = getCapabilityCacheKey(docs);
+const cached = { server: 'docs', tools: [search], resources: [], resourceTemplates: [], prompts: [] };
+
+describe('Lazy start and idle shutdown', () => {
+  let tempDir: string;
+  let cache: CapabilityCache;
+
+  const createClient = (config: Record<string, unknown> = {}) => {
+    const client = new MCPProxyClient({ ...docs, ...config });
+    client.capabilityCache = cache;
+    return client;
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    mockClient.connect.mockResolvedValue(undefined);
+    mockClient.close.mockResolvedValue(undefined);
+    mockClient.listTools.mockResolvedValue({ tools: [search] });
+    mockClient.listResources.mockResolvedValue({ resources: [] });
+    mockClient.callTool.mockResolvedValue({ content: [{ type: 'text', text: 'found' }] });
+    mockClient.getServerCapabilities.mockReturnValue({ tools: {}, resources: { subscribe: true } });
+
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'omni-lazy-start-'));
+    cache = new CapabilityCache(path.join(tempDir, 'capabilities.json'));
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should save the capabilities of every start', async () => {
+    await createClient().connect();
+
+    expect(await cache.get(key)).toEqual(expect.objectContaining(cached));
+  });
+
+  it('should advertise cached tools without starting a lazy server', async () => {
+    await cache.set(key, cached);
+    const client = createClient({ startPolicy: 'lazy', alias: 'd' });
+
+    await client.connect();
+
+    expect(mockClient.connect).not.toHaveBeenCalled();
+    expect(client.isConnected()).toBe(true);
+    expect(client.isRunning()).toBe(false);
+    expect(client.getTools().map((tool) => tool.name)).toEqual(['d__search']);
+  });
+
+  it('should start a lazy server once on its first calls', async () => {
+    await cache.set(key, cached);
+    const client = createClient({ startPolicy: 'lazy' });
+    await client.connect();
+
+    await Promise.all([client.callTool('docs__search', {}), client.callTool('docs__search', {})]);
+
+    expect(mockClient.connect).toHaveBeenCalledTimes(1);
+    expect(mockClient.callTool).toHaveBeenCalledWith({ name: 'search', arguments: {} });
+    expect(client.isRunning()).toBe(true);
+  });
+
+  it('should start a lazy server at boot when nothing is cached', async () => {
+    const client = createClient({ startPolicy: 'lazy' });
+
+    await client.connect();
+
+    expect(mockClient.connect).toHaveBeenCalledTimes(1);
+    expect(await cache.get(key)).toBeDefined();
+  });
+
+  it('should cache a tools-only server and not start it on the next boot', async () => {
+    mockClient.getServerCapabilities.mockReturnValue({ tools: {} });
+    mockClient.listResources.mockRejectedValue(new Error('MCP error -32601: Method not found'));
+    await createClient({ startPolicy: 'lazy' }).connect();
+
+    expect(mockClient.listResources).not.toHaveBeenCalled();
+    expect(await cache.get(key)).toEqual(expect.objectContaining(cached));
+
+    mockClient.connect.mockClear();
+    const client = createClient({ startPolicy: 'lazy' });
+    await client.connect();
+
+    expect(mockClient.connect).not.toHaveBeenCalled();
+    expect(client.getTools().map((tool) => tool.name)).toEqual(['docs__search']);
+  });
+
+  it('should stop an on-demand server after each call and restart it transparently', async () => {
+    const client = createClient({ startPolicy: 'on-demand' });
+    await client.connect();
+    await vi.waitFor(() => expect(client.isRunning()).toBe(false));
+
+    const result = await client.callTool('docs__search', {});
+    await vi.waitFor(() => expect(mockClient.close).toHaveBeenCalledTimes(2));
+
+    expect(result.content).toEqual([{ type: 'text', text: 'found' }]);
+    expect(mockClient.connect).toHaveBeenCalledTimes(2);
+    expect(client.isConnected()).toBe(true);
+  });
+
+  it('should stop an idle server after idleTimeoutMs but not while subscribed', async () => {
+    vi.useFakeTimers();
+    const client = createClient({ idleTimeoutMs: 60000 });
+    await client.connect();
+    await client.subscribeResource('docs://readme');
+
+    await vi.advanceTimersByTimeAsync(120000);
+    expect(client.isRunning()).toBe(true);
+
+    await client.unsubscribeResource('docs://readme');
+    await vi.advanceTimersByTimeAsync(59999);
+    expect(client.isRunning()).toBe(true);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(client.isRunning()).toBe(false);
+    expect(client.getTools()).toHaveLength(1);
+  });
+
+  it('should only apply the default idle timeout to lazy servers', async () => {
+    vi.useFakeTimers();
+    const eager = new ResilientMCPConnection(docs).getClient();
+    const lazy = new ResilientMCPConnection({ ...docs, startPolicy: 'lazy' }).getClient();
+    await eager.connect();
+    await lazy.connect();
+
+    await vi.advanceTimersByTimeAsync(300000);
+
+    expect(eager.isRunning()).toBe(true);
+    expect(lazy.isRunning()).toBe(false);
+  });
+
+  it('should pass a changed idle timeout to a running client', async () => {
+    vi.useFakeTimers();
+    const connection = new ResilientMCPConnection({ ...docs, startPolicy: 'lazy' });
+    await connection.getClient().connect();
+
+    connection.updateConfig({ connection: { idleTimeoutMs: 1000 } });
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(connection.getClient().isRunning()).toBe(false);
+  });
+
+  it('should keep remote servers connected regardless of idleTimeoutMs', async () => {
+    vi.useFakeTimers();
+    const client = createClient({ transport: 'http', url: 'https://docs/mcp', startPolicy: 'on-demand' });
+    await client.connect();
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(client.isRunning()).toBe(true);
+  });
+});
@@ -21,8 +21,13 @@ const mockClient = {
   close: vi.fn(),
   listTools: vi.fn(),
   listResources: vi.fn(),
+  listPrompts: vi.fn(),
   callTool: vi.fn(),
-  readResource: vi.fn()
+  readResource: vi.fn(),
+  setNotificationHandler: vi.fn(),
+  getServerCapabilities: vi.fn(),
+  subscribeResource: vi.fn(),
+  unsubscribeResource: vi.fn()
 };
 
 vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
@@ -39,6 +44,7 @@ describe('MCPProxyClient', () => {
     mockClient.close.mockResolvedValue(undefined);
     mockClient.listTools.mockResolvedValue({ tools: [] });
     mockClient.listResources.mockResolvedValue({ resources: [] });
+    mockClient.getServerCapabilities.mockReturnValue({ tools: {} });
   });
 
   afterEach(() => {
@@ -223,6 +229,36 @@ describe('MCPProxyClient', () => {
     });
   });
 
+  describe('capabilities', () => {
+    it('should list the prompts of a server that declares only prompts', async () => {
+      const client = new MCPProxyClient({ name: 'writer', command: 'node' });
+      mockClient.getServerCapabilities.mockReturnValue({ prompts: {} });
+      mockClient.listTools.mockRejectedValue(new Error('MCP error -32601: Method not found'));
+      mockClient.listPrompts.mockResolvedValue({ prompts: [{ name: 'summarize' }] });
+
+      await client.connect();
+
+      expect(mockClient.listTools).not.toHaveBeenCalled();
+      expect(mockClient.listResources).not.toHaveBeenCalled();
+      expect(client.getTools()).toEqual([]);
+      expect(client.getPrompts().map((prompt) => prompt.name)).toEqual(['writer__summarize']);
+    });
+
+    it('should keep the other lists when one of them fails', async () => {
+      const client = new MCPProxyClient({ name: 'docs', command: 'node' });
+      mockClient.getServerCapabilities.mockReturnValue({ tools: {}, resources: {}, prompts: {} });
+      mockClient.listTools.mockRejectedValue(new Error('tools/list failed'));
+      mockClient.listResources.mockResolvedValue({ resources: [{ uri: 'docs://readme', name: 'readme' }] });
+      mockClient.listPrompts.mockResolvedValue({ prompts: [{ name: 'summarize' }] });
+
+      await client.connect();
+
+      expect(client.getTools()).toEqual([]);
+      expect(client.getResources()).toHaveLength(1);
+      expect(client.getPrompts()).toHaveLength(1);
+    });
+  });
+
   describe('callTool', () => {
     it('should call tool on server', async () => {
       const config = {
@@ -280,6 +316,7 @@ describe('MCPProxyClient', () => {
         { uri: 'test://resource', name: 'Test Resource' }
       ];
       mockClient.listResources.mockResolvedValue({ resources: mockResources });
+      mockClient.getServerCapabilities.mockReturnValue({ resources: {} });
       
       await client.connect();
       
@@ -343,6 +380,83 @@ describe('MCPProxyClient', () => {
     });
   });
 
+  describe('resource subscriptions', () => {
+    const config = { name: 'docs', command: 'node' };
+
+    it('should subscribe with the upstream URI when the server supports it', async () => {
+      const client = new MCPProxyClient(config);
+      mockClient.getServerCapabilities.mockReturnValue({ resources: { subscribe: true } });
+      await client.connect();
+
+      await expect(client.subscribeResource('docs://readme')).resolves.toBe(true);
+      await client.unsubscribeResource('docs://readme');
+
+      expect(mockClient.subscribeResource).toHaveBeenCalledWith({ uri: 'readme' });
+      expect(mockClient.unsubscribeResource).toHaveBeenCalledWith({ uri: 'readme' });
+    });
+
+    it('should not subscribe when the server does not support it', async () => {
+      const client = new MCPProxyClient(config);
+      mockClient.getServerCapabilities.mockReturnValue({ resources: {} });
+      await client.connect();
+
+      await expect(client.subscribeResource('docs://readme')).resolves.toBe(false);
+      expect(mockClient.subscribeResource).not.toHaveBeenCalled();
+    });
+
+    it('should report upstream updates under the exposed URI', () => {
+      const client = new MCPProxyClient(config);
+      const updated = vi.fn();
+      client.onResourceUpdated = updated;
+      const [, handler] = mockClient.setNotificationHandler.mock.calls.at(-1)!;
+
+      handler({ method: 'notifications/resources/updated', params: { uri: 'readme' } });
+
+      expect(updated).toHaveBeenCalledWith('docs://readme');
+    });
+  });
+
+  describe('namespacing', () => {
+    it('should expose tools under the alias and route calls back to upstream names', async () => {
+      const client = new MCPProxyClient({
+        name: 'serena',
+        command: 'uvx',
+        alias: 'sr',
+        rename: { search: 'code_search' }
+      });
+      mockClient.listTools.mockResolvedValue({
+        tools: [{ name: 'find_symbol' }, { name: 'search' }]
+      });
+      mockClient.callTool.mockResolvedValue({ content: [] });
+
+      await client.connect();
+
+      expect(client.getTools().map(t => t.name)).toEqual(['sr__find_symbol', 'code_search']);
+
+      await client.callTool('sr__find_symbol', {});
+      expect(mockClient.callTool).toHaveBeenLastCalledWith({ name: 'find_symbol', arguments: {} });
+
+      await client.callTool('code_search', {});
+      expect(mockClient.callTool).toHaveBeenLastCalledWith({ name: 'search', arguments: {} });
+    });
+
+    it('should expose bare names when namespacing is none', async () => {
+      const client = new MCPProxyClient({ name: 'fs', command: 'node', namespacing: 'none' });
+      mockClient.getServerCapabilities.mockReturnValue({ tools: {}, resources: {} });
+      mockClient.listTools.mockResolvedValue({ tools: [{ name: 'read_file' }] });
+      mockClient.listResources.mockResolvedValue({ resources: [{ uri: 'file:///a.txt', name: 'a' }] });
+      mockClient.readResource.mockResolvedValue({ contents: [] });
+
+      await client.connect();
+
+      expect(client.getTools()[0].name).toBe('read_file');
+      expect(client.getResources()[0].uri).toBe('file:///a.txt');
+
+      await client.readResource('file:///a.txt');
+      expect(mockClient.readResource).toHaveBeenCalledWith({ uri: 'file:///a.txt' });
+    });
+  });
+
   describe('isConnected', () => {
     it('should return false when not connected', () => {
       const config = {
@@ -13,9 +13,13 @@ vi.mock('../../src/mcp-proxy/client.js', () => ({
     isConnected: vi.fn().mockReturnValue(false),
     getTools: vi.fn().mockReturnValue([]),
     getResources: vi.fn().mockReturnValue([]),
+    getResourceTemplates: vi.fn().mockReturnValue([]),
+    getPrompts: vi.fn().mockReturnValue([]),
     callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'mock result' }] }),
     readResource: vi.fn().mockResolvedValue({ contents: [{ type: 'text', text: 'mock resource' }] }),
-    getServerName: vi.fn().mockReturnValue(config.name)
+    getServerName: vi.fn().mockReturnValue(config.name),
+    subscribeResource: vi.fn().mockResolvedValue(true),
+    unsubscribeResource: vi.fn().mockResolvedValue(undefined)
   }))
 }));
 
@@ -72,6 +76,8 @@ describe('MCPProxyManager', () => {
       getTools: vi.fn().mockReturnValue([]),
       callTool: vi.fn(),
       getResources: vi.fn().mockReturnValue([]),
+      getResourceTemplates: vi.fn().mockReturnValue([]),
+      getPrompts: vi.fn().mockReturnValue([]),
       readResource: vi.fn(),
       getServerName: vi.fn().mockReturnValue('test-server'),
       config: {
@@ -124,6 +130,17 @@ describe('MCPProxyManager', () => {
 
       expect(MCPProxyClient).toHaveBeenCalledTimes(1);
     });
+
+    it('should warn that only the first replica is used', async () => {
+      const logger = new SilentLogger();
+      const warn = vi.spyOn(logger, 'warn');
+      const manager = new MCPProxyManager(yamlConfigManager, logger);
+
+      await manager.addServer({ name: 'test-server', command: 'node', replicas: 2 });
+
+      expect(MCPProxyClient).toHaveBeenCalledWith({ name: 'test-server', command: 'node' }, logger);
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('has 2 replicas but only test-server#1 is used'));
+    });
   });
 
   describe('connectAll', () => {
@@ -162,6 +179,8 @@ describe('MCPProxyManager', () => {
         isConnected: vi.fn().mockReturnValue(false),
         getTools: vi.fn().mockReturnValue([]),
         getResources: vi.fn().mockReturnValue([]),
+        getResourceTemplates: vi.fn().mockReturnValue([]),
+        getPrompts: vi.fn().mockReturnValue([]),
         callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'mock result' }] }),
         readResource: vi.fn().mockResolvedValue({ contents: [{ type: 'text', text: 'mock resource' }] }),
         getServerName: vi.fn().mockReturnValue(config.name)
@@ -193,6 +212,8 @@ describe('MCPProxyManager', () => {
         isConnected: vi.fn().mockReturnValue(false),
         getTools: vi.fn().mockReturnValue([]),
         getResources: vi.fn().mockReturnValue([]),
+        getResourceTemplates: vi.fn().mockReturnValue([]),
+        getPrompts: vi.fn().mockReturnValue([]),
         callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'mock result' }] }),
         readResource: vi.fn().mockResolvedValue({ contents: [{ type: 'text', text: 'mock resource' }] }),
         getServerName: vi.fn().mockReturnValue(config.name)
@@ -224,6 +245,8 @@ describe('MCPProxyManager', () => {
         isConnected: vi.fn().mockReturnValue(false),
         getTools: vi.fn().mockReturnValue([]),
         getResources: vi.fn().mockReturnValue([]),
+        getResourceTemplates: vi.fn().mockReturnValue([]),
+        getPrompts: vi.fn().mockReturnValue([]),
         callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'mock result' }] }),
         readResource: vi.fn().mockResolvedValue({ contents: [{ type: 'text', text: 'mock resource' }] }),
         getServerName: vi.fn().mockReturnValue(config.name)
@@ -271,6 +294,8 @@ describe('MCPProxyManager', () => {
           { name: `${config.name}__test_tool`, description: 'Test tool' }
         ]),
         getResources: vi.fn().mockReturnValue([]),
+        getResourceTemplates: vi.fn().mockReturnValue([]),
+        getPrompts: vi.fn().mockReturnValue([]),
         callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'mock result' }] }),
         readResource: vi.fn().mockResolvedValue({ contents: [{ type: 'text', text: 'mock resource' }] }),
         getServerName: vi.fn().mockReturnValue(config.name)
@@ -338,6 +363,8 @@ describe('MCPProxyManager', () => {
         getResources: vi.fn().mockReturnValue([
           { uri: `${config.name}://test://resource`, name: 'Test Resource' }
         ]),
+        getResourceTemplates: vi.fn().mockReturnValue([]),
+        getPrompts: vi.fn().mockReturnValue([]),
         callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'Result' }] }),
         readResource: vi.fn().mockResolvedValue({ contents: [{ type: 'text', text: 'mock resource' }] }),
         getServerName: vi.fn().mockReturnValue(config.name)
@@ -405,6 +432,8 @@ describe('MCPProxyManager', () => {
           { name: `${config.name}__test_tool`, description: 'Test tool' }
         ]),
         getResources: vi.fn().mockReturnValue([]),
+        getResourceTemplates: vi.fn().mockReturnValue([]),
+        getPrompts: vi.fn().mockReturnValue([]),
         callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'Result' }] }),
         readResource: vi.fn().mockResolvedValue({ contents: [{ type: 'text', text: 'mock resource' }] }),
         getServerName: vi.fn().mockReturnValue(config.name)
@@ -460,6 +489,8 @@ describe('MCPProxyManager', () => {
         getResources: vi.fn().mockReturnValue([
           { uri: `${config.name}://test://resource`, name: 'Test Resource' }
         ]),
+        getResourceTemplates: vi.fn().mockReturnValue([]),
+        getPrompts: vi.fn().mockReturnValue([]),
         callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'Result' }] }),
         readResource: vi.fn().mockResolvedValue({ 
           contents: [{ uri: 'test://resource', mimeType: 'text/plain', text: 'Content' }] 
@@ -650,6 +681,107 @@ describe('MCPProxyManager', () => {
     });
   });
 
+  describe('reloadFromYamlConfig', () => {
+    function useServers(servers: Array<{ name: string; command: string; args: string[] }>) {
+      yamlConfigManager.getConfig = vi.fn().mockReturnValue({
+        externalServers: { enabled: true, servers }
+      });
+    }
+
+    it('should only restart servers whose configuration changed', async () => {
+      useServers([
+        { name: 'keep', command: 'node', args: ['keep.js'] },
+        { name: 'change', command: 'node', args: ['v1.js'] },
+        { name: 'drop', command: 'node', args: ['drop.js'] }
+      ]);
+      const manager = new MCPProxyManager(yamlConfigManager);
+      await manager.initializeFromYamlConfig();
+      const addServer = vi.spyOn(manager, 'addServer');
+      const removeServer = vi.spyOn(manager, 'removeServer');
+
+      useServers([
+        { name: 'keep', command: 'node', args: ['keep.js'] },
+        { name: 'change', command: 'node', args: ['v2.js'] },
+        { name: 'new', command: 'node', args: ['new.js'] }
+      ]);
+      const changes = await manager.reloadFromYamlConfig();
+
+      expect(changes.map((change) => `${change.type}:${change.serverName}`).sort()).toEqual([
+        'added:new',
+        'modified:change',
+        'removed:drop'
+      ]);
+      expect(removeServer.mock.calls.map(([name]) => name).sort()).toEqual(['change', 'drop']);
+      expect(addServer.mock.calls.map(([config]) => config.name).sort()).toEqual(['change', 'new']);
+      expect(Object.keys(manager.getServerStatus()).sort()).toEqual(['change', 'keep', 'new']);
+    });
+
+    it('should stop every server when external servers are disabled', async () => {
+      useServers([{ name: 'only', command: 'node', args: ['only.js'] }]);
+      const manager = new MCPProxyManager(yamlConfigManager);
+      await manager.initializeFromYamlConfig();
+
+      yamlConfigManager.getConfig = vi.fn().mockReturnValue({ externalServers: { enabled: false } });
+      const changes = await manager.reloadFromYamlConfig();
+
+      expect(changes).toEqual([expect.objectContaining({ type: 'removed', serverName: 'only' })]);
+      expect(manager.getServerStatus()).toEqual({});
+    });
+  });
+
+  describe('resource subscriptions', () => {
+    const docsServer = { name: 'docs', command: 'node', args: ['docs.js'] };
+
+    function mockDocsClient() {
+      vi.mocked(MCPProxyClient).mockImplementationOnce((config: any) => ({
+        config,
+        connect: vi.fn().mockResolvedValue(undefined),
+        disconnect: vi.fn().mockResolvedValue(undefined),
+        isConnected: vi.fn().mockReturnValue(true),
+        getTools: vi.fn().mockReturnValue([]),
+        getResources: vi.fn().mockReturnValue([{ uri: 'docs://readme', name: 'readme' }]),
+        getResourceTemplates: vi.fn().mockReturnValue([]),
+        getPrompts: vi.fn().mockReturnValue([]),
+        getServerName: vi.fn().mockReturnValue(config.name),
+        subscribeResource: vi.fn().mockResolvedValue(true),
+        unsubscribeResource: vi.fn().mockResolvedValue(undefined)
+      }) as any);
+    }
+
+    it('should forward subscriptions to the server providing the resource', async () => {
+      mockDocsClient();
+      const manager = new MCPProxyManager();
+      await manager.addServer(docsServer);
+      const client = vi.mocked(MCPProxyClient).mock.results.at(-1)!.value;
+
+      await expect(manager.subscribeResource('docs://readme')).resolves.toBe(true);
+      await manager.unsubscribeResource('docs://readme');
+
+      expect(client.subscribeResource).toHaveBeenCalledWith('docs://readme');
+      expect(client.unsubscribeResource).toHaveBeenCalledWith('docs://readme');
+      await expect(manager.subscribeResource('docs://missing')).rejects.toThrow('not found');
+    });
+
+    it('should relay upstream updates and resubscribe after a restart', async () => {
+      mockDocsClient();
+      const manager = new MCPProxyManager();
+      await manager.addServer(docsServer);
+      await manager.subscribeResource('docs://readme');
+      const updated = vi.fn();
+      manager.on('resourceUpdated', updated);
+
+      const first = vi.mocked(MCPProxyClient).mock.results.at(-1)!.value;
+      first.onResourceUpdated('docs://readme');
+      expect(updated).toHaveBeenCalledWith('docs://readme');
+
+      await manager.removeServer('docs');
+      mockDocsClient();
+      await manager.addServer(docsServer);
+      const second = vi.mocked(MCPProxyClient).mock.results.at(-1)!.value;
+      expect(second.subscribeResource).toHaveBeenCalledWith('docs://readme');
+    });
+  });
+
   describe('Advanced Tool Operations', () => {
     it('should handle tool calls with complex arguments', async () => {
       const manager = new MCPProxyManager(yamlConfigManager);
@@ -960,6 +1092,151 @@ describe('MCPProxyManager', () => {
     });
   });
 
+  describe('Collision Detection', () => {
+    const createConnectedClient = (name: string, tools: string[], resources: string[] = []) => ({
+      ...mockClient,
+      isConnected: vi.fn().mockReturnValue(true),
+      getTools: vi.fn().mockReturnValue(tools.map(tool => ({ name: tool, inputSchema: { type: 'object' } }))),
+      getResources: vi.fn().mockReturnValue(resources.map(uri => ({ uri, name: uri }))),
+      getResourceTemplates: vi.fn().mockReturnValue([]),
+      getPrompts: vi.fn().mockReturnValue([]),
+      callTool: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: name }] }),
+      getServerName: vi.fn().mockReturnValue(name)
+    });
+
+    it('should keep the first server and report collisions', async () => {
+      const manager = new MCPProxyManager(yamlConfigManager);
+      const first = createConnectedClient('first', ['search'], ['file:///a']);
+      const second = createConnectedClient('second', ['search', 'other'], ['file:///a']);
+
+      vi.mocked(MCPProxyClient)
+        .mockReturnValueOnce(first as any)
+        .mockReturnValueOnce(second as any);
+
+      await manager.addServer({ name: 'first', command: 'node', namespacing: 'none' });
+      await manager.addServer({ name: 'second', command: 'node', namespacing: 'none' });
+
+      expect(manager.getAggregatedTools().map(t => t.name)).toEqual(['search', 'other']);
+      expect(manager.getCollisions()).toEqual([
+        { kind: 'tool', name: 'search', owner: 'first', shadowed: ['second'] },
+        { kind: 'resource', name: 'file:///a', owner: 'first', shadowed: ['second'] }
+      ]);
+
+      await manager.callTool('search', {});
+      expect(first.callTool).toHaveBeenCalledWith('search', {});
+      expect(second.callTool).not.toHaveBeenCalled();
+    });
+
+    it('should include collisions in the toolsChanged event and detailed health', async () => {
+      const manager = new MCPProxyManager(yamlConfigManager);
+      vi.mocked(MCPProxyClient)
+        .mockReturnValueOnce(createConnectedClient('a', ['dup']) as any)
+        .mockReturnValueOnce(createConnectedClient('b', ['dup']) as any);
+
+      const events: unknown[] = [];
+      manager.on('toolsChanged', (payload) => events.push(payload));
+
+      await manager.addServer({ name: 'a', command: 'node' });
+      await manager.addServer({ name: 'b', command: 'node' });
+
+      expect(events[events.length - 1]).toEqual({
+        collisions: [{ kind: 'tool', name: 'dup', owner: 'a', shadowed: ['b'] }]
+      });
+
+      const health = await manager.getDetailedServerHealth();
+      expect((health.b as any).collisions).toHaveLength(1);
+      expect((health.a as any).collisions).toHaveLength(1);
+    });
+
+    it('should apply the default namespacing mode from YAML config', async () => {
+      vi.mocked(yamlConfigManager.getConfig).mockReturnValue({
+        externalServers: {
+          enabled: true,
+          namespacing: 'none',
+          servers: [
+            { name: 'a', command: 'node' },
+            { name: 'b', command: 'node', namespacing: 'prefix' }
+          ]
+        }
+      } as any);
+
+      const manager = new MCPProxyManager(yamlConfigManager);
+      await manager.initializeFromYamlConfig();
+
+      expect(MCPProxyClient).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'a', namespacing: 'none' }),
+        expect.anything()
+      );
+      expect(MCPProxyClient).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'b', namespacing: 'prefix' }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('Prompts and Resource Templates', () => {
+    const createClient = (name: string) => ({
+      ...mockClient,
+      isConnected: vi.fn().mockReturnValue(true),
+      getResourceTemplates: vi.fn().mockReturnValue([
+        { uriTemplate: `${name}://issues/{id}`, name: 'issue' }
+      ]),
+      getPrompts: vi.fn().mockReturnValue([{ name: `${name}__summarize` }, { name: 'shared' }]),
+      getPrompt: vi.fn().mockResolvedValue({ messages: [] }),
+      complete: vi.fn().mockResolvedValue({ completion: { values: [name] } }),
+      readResource: vi.fn().mockResolvedValue({ contents: [] }),
+      getServerName: vi.fn().mockReturnValue(name)
+    });
+
+    it('should aggregate prompts and templates and route by name and URI', async () => {
+      const manager = new MCPProxyManager(yamlConfigManager);
+      const docs = createClient('docs');
+      const wiki = createClient('wiki');
+      vi.mocked(MCPProxyClient)
+        .mockReturnValueOnce(docs as any)
+        .mockReturnValueOnce(wiki as any);
+
+      await manager.addServer({ name: 'docs', command: 'node' });
+      await manager.addServer({ name: 'wiki', command: 'node' });
+
+      expect(manager.getAggregatedPrompts().map(p => p.name)).toEqual([
+        'docs__summarize',
+        'shared',
+        'wiki__summarize'
+      ]);
+      expect(manager.getAggregatedResourceTemplates()).toHaveLength(2);
+      expect(manager.getCollisions()).toEqual([
+        { kind: 'prompt', name: 'shared', owner: 'docs', shadowed: ['wiki'] }
+      ]);
+
+      await manager.getPrompt('wiki__summarize', { topic: 'mcp' });
+      expect(wiki.getPrompt).toHaveBeenCalledWith('wiki__summarize', { topic: 'mcp' });
+      expect(manager.getPromptServer('shared')).toBe('docs');
+
+      await manager.readResource('wiki://issues/42');
+      expect(wiki.readResource).toHaveBeenCalledWith('wiki://issues/42');
+      expect(manager.getResourceServer('docs://issues/7')).toBe('docs');
+    });
+
+    it('should forward completions to the referenced server', async () => {
+      const manager = new MCPProxyManager(yamlConfigManager);
+      vi.mocked(MCPProxyClient)
+        .mockReturnValueOnce(createClient('docs') as any)
+        .mockReturnValueOnce(createClient('wiki') as any);
+      await manager.addServer({ name: 'docs', command: 'node' });
+      await manager.addServer({ name: 'wiki', command: 'node' });
+      const argument = { name: 'id', value: '4' };
+
+      const prompt = await manager.complete({ ref: { type: 'ref/prompt', name: 'wiki__summarize' }, argument });
+      const template = await manager.complete({ ref: { type: 'ref/resource', uri: 'docs://issues/{id}' }, argument });
+      const unknown = await manager.complete({ ref: { type: 'ref/prompt', name: 'missing' }, argument });
+
+      expect(prompt.completion.values).toEqual(['wiki']);
+      expect(template.completion.values).toEqual(['docs']);
+      expect(unknown.completion.values).toEqual([]);
+    });
+  });
+
   describe('Server State Management', () => {
     it('should track server connection states', async () => {
       const manager = new MCPProxyManager(yamlConfigManager);
@@ -33,7 +33,9 @@ vi.mock('@modelcontextprotocol/sdk/client/index.js', () => ({
   Client: vi.fn().mockImplementation(() => ({
     connect: vi.fn(),
     disconnect: vi.fn(),
-    request: vi.fn()
+    request: vi.fn(),
+    setNotificationHandler: vi.fn(),
+    getServerCapabilities: vi.fn()
   }))
 }));
 
@@ -20,7 +20,9 @@ const mockClient = {
   listTools: vi.fn(),
   listResources: vi.fn(),
   callTool: vi.fn(),
-  readResource: vi.fn()
+  readResource: vi.fn(),
+  setNotificationHandler: vi.fn(),
+  getServerCapabilities: vi.fn()
 };
 
 vi.mock('@modelcontextprotocol/sdk/client/stdio.js', () => ({
@@ -38,6 +40,7 @@ describe('MCP Proxy Stability Tests', () => {
     mockClient.close.mockResolvedValue(undefined);
     mockClient.listTools.mockResolvedValue({ tools: [] });
     mockClient.listResources.mockResolvedValue({ resources: [] });
+    mockClient.getServerCapabilities.mockReturnValue({ tools: {}, resources: {} });
   });
 
   afterEach(() => {
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getNamespacePrefix,
+  toExposedToolName,
+  toExposedResourceUri,
+  toUpstreamToolName,
+  toUpstreamResourceUri,
+  toExposedPromptName,
+  toUpstreamPromptName,
+  matchesUriTemplate
+} from '../../src/mcp-proxy/namespacing.js';
+
+describe('namespacing', () => {
+  describe('toExposedToolName', () => {
+    it('should prefix with the server name by default', () => {
+      expect(toExposedToolName({ name: 'serena' }, 'find_symbol')).toBe('serena__find_symbol');
+    });
+
+    it('should prefer the alias over the server name', () => {
+      expect(getNamespacePrefix({ name: 'serena', alias: 'sr' })).toBe('sr');
+      expect(toExposedToolName({ name: 'serena', alias: 'sr' }, 'find_symbol')).toBe('sr__find_symbol');
+    });
+
+    it('should expose bare names when namespacing is none', () => {
+      expect(toExposedToolName({ name: 'serena', namespacing: 'none' }, 'find_symbol')).toBe('find_symbol');
+    });
+
+    it('should apply explicit renames before prefixing', () => {
+      const options = { name: 'serena', rename: { find_symbol: 'symbol_search' } };
+      expect(toExposedToolName(options, 'find_symbol')).toBe('symbol_search');
+      expect(toExposedToolName(options, 'other')).toBe('serena__other');
+    });
+  });
+
+  describe('toExposedResourceUri', () => {
+    it('should prefix URIs with the namespace', () => {
+      expect(toExposedResourceUri({ name: 'fs' }, 'file:///a.txt')).toBe('fs://file:///a.txt');
+      expect(toExposedResourceUri({ name: 'fs', alias: 'files' }, 'file:///a.txt')).toBe('files://file:///a.txt');
+    });
+
+    it('should leave URIs untouched when namespacing is none', () => {
+      expect(toExposedResourceUri({ name: 'fs', namespacing: 'none' }, 'file:///a.txt')).toBe('file:///a.txt');
+    });
+  });
+
+  describe('reverse mapping', () => {
+    it('should strip only a leading prefix', () => {
+      expect(toUpstreamToolName({ name: 'srv' }, 'srv__tool__srv__x')).toBe('tool__srv__x');
+      expect(toUpstreamToolName({ name: 'srv' }, 'other__tool')).toBe('other__tool');
+    });
+
+    it('should resolve renamed tools', () => {
+      expect(
+        toUpstreamToolName({ name: 'serena', rename: { find_symbol: 'symbol_search' } }, 'symbol_search')
+      ).toBe('find_symbol');
+    });
+
+    it('should strip resource prefixes', () => {
+      expect(toUpstreamResourceUri({ name: 'fs' }, 'fs://file:///a.txt')).toBe('file:///a.txt');
+      expect(toUpstreamResourceUri({ name: 'fs', namespacing: 'none' }, 'fs://x')).toBe('fs://x');
+    });
+  });
+
+  describe('prompts', () => {
+    it('should prefix prompt names but ignore tool renames', () => {
+      const options = { name: 'docs', rename: { summarize: 'digest' } };
+      expect(toExposedPromptName(options, 'summarize')).toBe('docs__summarize');
+      expect(toUpstreamPromptName(options, 'docs__summarize')).toBe('summarize');
+      expect(toExposedPromptName({ name: 'docs', namespacing: 'none' }, 'summarize')).toBe('summarize');
+    });
+  });
+
+  describe('matchesUriTemplate', () => {
+    it('should match any value for template expressions', () => {
+      expect(matchesUriTemplate('docs://docs/{path}', 'docs://docs/guide/intro.md')).toBe(true);
+      expect(matchesUriTemplate('docs://issues/{id}.json', 'docs://issues/12.json')).toBe(true);
+      expect(matchesUriTemplate('docs://issues/{id}.json', 'docs://issues/12xjson')).toBe(false);
+      expect(matchesUriTemplate('docs://docs/{path}', 'other://docs/a')).toBe(false);
+    });
+  });
+});
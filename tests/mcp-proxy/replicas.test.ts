@@ -0,0 +1,185 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { expandReplicas } from '../../src/mcp-proxy/replicas.js';
+import {
+  FailoverStrategy,
+  LoadBalancingStrategy,
+  ResilienceManager,
+} from '../../src/mcp-proxy/resilience-manager.js';
+
+const connections: FakeConnection[] = [];
+
+class FakeConnection extends EventEmitter {
+  failing = false;
+  rejecting = false;
+  calls = 0;
+
+  constructor(public config: any) {
+    super();
+    connections.push(this);
+  }
+
+  connect = vi.fn().mockResolvedValue(undefined);
+  disconnect = vi.fn().mockResolvedValue(undefined);
+  isConnected = () => true;
+  isHealthy = () => true;
+  getStats = () => ({
+    serverName: this.config.name,
+    healthCheckStatus: 'healthy',
+    currentOperations: 0,
+    totalOperations: this.calls,
+    failedOperations: 0,
+    averageOperationTimeMs: 0,
+    consecutiveFailures: 0,
+  });
+
+  async callTool() {
+    this.calls++;
+    if (this.failing) {
+      throw Object.assign(new Error(`${this.config.url} is down`), { code: 'ECONNREFUSED' });
+    }
+    if (this.rejecting) {
+      throw new Error(`${this.config.url} rejected the call`);
+    }
+    return { content: [{ type: 'text', text: this.config.url }] };
+  }
+}
+
+vi.mock('../../src/mcp-proxy/resilience.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../src/mcp-proxy/resilience.js')>()),
+  ResilientMCPConnection: vi.fn().mockImplementation((config) => new FakeConnection(config)),
+}));
+
+const docs = {
+  name: 'docs',
+  transport: 'http' as const,
+  url: 'https://docs-a/mcp',
+  replicas: [{ url: 'https://docs-a/mcp' }, { url: 'https://docs-b/mcp' }, { url: 'https://docs-c/mcp' }],
+};
+
+describe('Replica groups', () => {
+  let manager: ResilienceManager;
+
+  const served = async (sessionId?: string, server = 'docs') =>
+    ((await manager.callTool('search', {}, server, sessionId)) as any).content[0].text;
+
+  beforeEach(() => {
+    connections.length = 0;
+    manager = new ResilienceManager({
+      loadBalancing: {
+        strategy: LoadBalancingStrategy.ROUND_ROBIN,
+        healthThreshold: 0.7,
+        maxConcurrentRequests: 10,
+        requestTimeoutMs: 1000,
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await manager.shutdown();
+  });
+
+  it('should expand a replica count or endpoint list into named instances', () => {
+    expect(expandReplicas({ name: 'search', command: 'search-server', replicas: 2 })).toEqual([
+      { id: 'search#1', group: 'search', config: { name: 'search', command: 'search-server' } },
+      { id: 'search#2', group: 'search', config: { name: 'search', command: 'search-server' } },
+    ]);
+    expect(expandReplicas(docs).map((replica) => [replica.id, replica.config.url])).toEqual([
+      ['docs#1', 'https://docs-a/mcp'],
+      ['docs#2', 'https://docs-b/mcp'],
+      ['docs#3', 'https://docs-c/mcp'],
+    ]);
+    expect(expandReplicas({ name: 'solo', command: 'solo' })).toEqual([
+      { id: 'solo', group: 'solo', config: { name: 'solo', command: 'solo' } },
+    ]);
+  });
+
+  it('should balance calls only between replicas of the named server', async () => {
+    await manager.addServer(docs);
+    await manager.addServer({ name: 'other', transport: 'http', url: 'https://other/mcp' });
+
+    expect(manager.getReplicas('docs')).toEqual(['docs#1', 'docs#2', 'docs#3']);
+    expect([await served(), await served(), await served(), await served()]).toEqual([
+      'https://docs-a/mcp',
+      'https://docs-b/mcp',
+      'https://docs-c/mcp',
+      'https://docs-a/mcp',
+    ]);
+    expect(await served(undefined, 'other')).toBe('https://other/mcp');
+    await expect(manager.callTool('search', {})).rejects.toThrow('Name the server to call');
+  });
+
+  it('should keep a session on one replica', async () => {
+    await manager.addServer(docs);
+
+    const first = await served('session-1');
+    const second = await served('session-2');
+
+    expect(second).not.toBe(first);
+    expect([await served('session-1'), await served('session-1')]).toEqual([first, first]);
+    expect(await served('session-2')).toBe(second);
+  });
+
+  it('should fail over to another replica and re-pin the session', async () => {
+    await manager.addServer(docs);
+    const first = await served('session-1');
+    connections.find((connection) => connection.config.url === first)!.failing = true;
+
+    const next = await served('session-1');
+
+    expect(next).not.toBe(first);
+    expect(await served('session-1')).toBe(next);
+  });
+
+  it('should not fail over errors returned by the server', async () => {
+    await manager.addServer(docs);
+    const first = await served('session-1');
+    connections.find((connection) => connection.config.url === first)!.rejecting = true;
+
+    await expect(served('session-1')).rejects.toThrow(`${first} rejected the call`);
+    expect(connections.reduce((calls, connection) => calls + connection.calls, 0)).toBe(2);
+  });
+
+  it('should release the replicas of a closed session', async () => {
+    await manager.addServer(docs);
+    const first = await served('session-1');
+    await served('session-2');
+
+    manager.releaseSession('session-1');
+
+    expect(await served('session-1')).not.toBe(first);
+    expect((manager as any).stickyRoutes.has('session-1\ndocs')).toBe(true);
+    expect((manager as any).stickyRoutes.size).toBe(2);
+  });
+
+  it('should not fail over when automatic failover is off', async () => {
+    manager.updateConfig({
+      failover: {
+        strategy: FailoverStrategy.MANUAL_ONLY,
+        enableAutoFailover: false,
+        failbackDelayMs: 0,
+        healthCheckBeforeFailback: false,
+      },
+    });
+    await manager.addServer(docs);
+    connections[0].failing = true;
+
+    await expect(served()).rejects.toThrow('https://docs-a/mcp is down');
+  });
+
+  it('should report stats per replica', async () => {
+    await manager.addServer(docs);
+    await served();
+    await served();
+
+    const stats = manager.getServerStats('docs');
+
+    expect(stats.map((entry) => [entry.serverName, entry.replica, entry.totalOperations])).toEqual([
+      ['docs', 'docs#1', 1],
+      ['docs', 'docs#2', 1],
+      ['docs', 'docs#3', 0],
+    ]);
+    expect(manager.getServerStats('docs#3')).toHaveLength(1);
+    expect(manager.getServerStats()).toHaveLength(3);
+  });
+});
@@ -0,0 +1,270 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID } from 'crypto';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ReadResourceRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  buildRequestHeaders,
+  createClientTransport,
+  getTransportType
+} from '../../src/mcp-proxy/transport.js';
+import { MCPProxyClient } from '../../src/mcp-proxy/client.js';
+import { ResilientMCPConnection, HealthCheckStrategy } from '../../src/mcp-proxy/resilience.js';
+
+function createUpstreamServer(): Server {
+  const server = new Server(
+    { name: 'http-upstream', version: '1.0.0' },
+    { capabilities: { tools: {}, resources: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'echo', description: 'Echo input', inputSchema: { type: 'object' } }]
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+    content: [{ type: 'text', text: `echo:${JSON.stringify(request.params.arguments)}` }]
+  }));
+  server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+    resources: [{ uri: 'mem://note', name: 'note' }]
+  }));
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+    contents: [{ uri: request.params.uri, text: 'note body' }]
+  }));
+  return server;
+}
+
+/**
+ * In-process stand-in for a remote MCP server speaking Streamable HTTP on /mcp
+ * and legacy SSE on /sse + /messages.
+ */
+async function startHttpUpstream(requiredAuth?: string) {
+  const httpTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+
+  const httpServer = http.createServer(async (req, res) => {
+    if (requiredAuth && req.headers.authorization !== requiredAuth) {
+      res.writeHead(401).end();
+      return;
+    }
+
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      const transport = new SSEServerTransport('/messages', res);
+      sseTransports.set(transport.sessionId, transport);
+      res.on('close', () => sseTransports.delete(transport.sessionId));
+      await createUpstreamServer().connect(transport);
+      return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const transport = sseTransports.get(url.searchParams.get('sessionId') || '');
+      if (!transport) {
+        res.writeHead(404).end();
+        return;
+      }
+      await transport.handlePostMessage(req, res);
+      return;
+    }
+
+    if (url.pathname === '/mcp') {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      let transport = sessionId ? httpTransports.get(sessionId) : undefined;
+      if (!transport) {
+        transport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            httpTransports.set(id, transport!);
+          }
+        });
+        await createUpstreamServer().connect(transport);
+      }
+      await transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(404).end();
+  });
+
+  await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    close: async () => {
+      for (const transport of httpTransports.values()) await transport.close();
+      for (const transport of sseTransports.values()) await transport.close();
+      httpServer.closeAllConnections();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    }
+  };
+}
+
+describe('transport', () => {
+  describe('getTransportType', () => {
+    it('should default to stdio', () => {
+      expect(getTransportType({ name: 'a' })).toBe('stdio');
+      expect(getTransportType({ name: 'a', transport: 'sse' })).toBe('sse');
+    });
+  });
+
+  describe('buildRequestHeaders', () => {
+    afterEach(() => {
+      delete process.env.TEST_MCP_TOKEN;
+    });
+
+    it('should merge custom headers with bearer auth from the environment', () => {
+      process.env.TEST_MCP_TOKEN = 'secret';
+      const headers = buildRequestHeaders({
+        name: 'remote',
+        headers: { 'X-Team': 'core' },
+        auth: { type: 'bearer', tokenEnv: 'TEST_MCP_TOKEN' }
+      });
+      expect(headers).toEqual({ 'X-Team': 'core', Authorization: 'Bearer secret' });
+    });
+
+    it('should encode basic auth credentials', () => {
+      const headers = buildRequestHeaders({
+        name: 'remote',
+        auth: { type: 'basic', username: 'user', password: 'pass' }
+      });
+      expect(headers.Authorization).toBe(`Basic ${Buffer.from('user:pass').toString('base64')}`);
+    });
+
+    it('should fail when a bearer token cannot be resolved', () => {
+      expect(() =>
+        buildRequestHeaders({ name: 'remote', auth: { type: 'bearer', tokenEnv: 'TEST_MCP_TOKEN' } })
+      ).toThrow('No bearer token available for remote');
+    });
+  });
+
+  describe('createClientTransport', () => {
+    it('should create transports for each type', () => {
+      expect(createClientTransport({ name: 'a', command: 'node', args: [] })).toBeInstanceOf(StdioClientTransport);
+      expect(
+        createClientTransport({ name: 'b', transport: 'http', url: 'http://localhost:1/mcp' })
+      ).toBeInstanceOf(StreamableHTTPClientTransport);
+      expect(
+        createClientTransport({ name: 'c', transport: 'sse', url: 'http://localhost:1/sse' })
+      ).toBeInstanceOf(SSEClientTransport);
+    });
+
+    it('should reject incomplete configurations', () => {
+      expect(() => createClientTransport({ name: 'a' })).toThrow('stdio server a requires a command');
+      expect(() => createClientTransport({ name: 'b', transport: 'http' })).toThrow('http server b requires a url');
+      expect(() =>
+        createClientTransport({ name: 'c', transport: 'ws' as any, url: 'ws://localhost' })
+      ).toThrow("Unsupported transport 'ws' for c");
+    });
+  });
+
+  describe('remote servers', () => {
+    let upstream: Awaited<ReturnType<typeof startHttpUpstream>>;
+
+    beforeAll(async () => {
+      upstream = await startHttpUpstream('Bearer hub-token');
+    });
+
+    afterAll(async () => {
+      await upstream.close();
+    });
+
+    it.each([
+      ['http', '/mcp'],
+      ['sse', '/sse']
+    ] as const)('should proxy tools and resources over %s', async (transport, endpoint) => {
+      const client = new MCPProxyClient({
+        name: 'remote',
+        transport,
+        url: `${upstream.baseUrl}${endpoint}`,
+        auth: { type: 'bearer', token: 'hub-token' }
+      });
+
+      await client.connect();
+      try {
+        expect(client.isConnected()).toBe(true);
+        expect(client.getTransportType()).toBe(transport);
+        expect(client.getTools().map((t) => t.name)).toEqual(['remote__echo']);
+        expect(client.getResources().map((r) => r.uri)).toEqual(['remote://mem://note']);
+
+        const result = await client.callTool('remote__echo', { value: 1 });
+        expect(result.content).toEqual([{ type: 'text', text: 'echo:{"value":1}' }]);
+
+        const resource = await client.readResource('remote://mem://note');
+        expect(resource.contents[0]).toMatchObject({ uri: 'mem://note', text: 'note body' });
+      } finally {
+        await client.disconnect();
+      }
+    });
+
+    it('should reconnect with a fresh transport after disconnecting', async () => {
+      const client = new MCPProxyClient({
+        name: 'remote',
+        transport: 'http',
+        url: `${upstream.baseUrl}/mcp`,
+        headers: { Authorization: 'Bearer hub-token' }
+      });
+
+      await client.connect();
+      await client.disconnect();
+      expect(client.isConnected()).toBe(false);
+
+      await client.connect();
+      expect(client.isConnected()).toBe(true);
+      expect(client.getTools()).toHaveLength(1);
+      await client.disconnect();
+    });
+
+    it('should surface authentication failures', async () => {
+      const client = new MCPProxyClient({
+        name: 'remote',
+        transport: 'http',
+        url: `${upstream.baseUrl}/mcp`
+      });
+
+      await expect(client.connect()).rejects.toThrow();
+      expect(client.isConnected()).toBe(false);
+    });
+
+    it('should work through ResilientMCPConnection', async () => {
+      const connection = new ResilientMCPConnection(
+        {
+          name: 'remote',
+          transport: 'http',
+          url: `${upstream.baseUrl}/mcp`,
+          auth: { type: 'bearer', token: 'hub-token' }
+        },
+        {
+          maxRetryAttempts: 1,
+          healthCheck: {
+            intervalMs: 60000,
+            timeoutMs: 1000,
+            strategy: HealthCheckStrategy.COMPREHENSIVE,
+            consecutiveFailureThreshold: 3,
+            recoveryCheckIntervalMs: 60000
+          }
+        }
+      );
+
+      await connection.connect();
+      try {
+        expect(connection.isConnected()).toBe(true);
+        expect(await connection.forceHealthCheck()).toBe(true);
+
+        const result = (await connection.callTool('remote__echo', {})) as any;
+        expect(result.content[0].text).toBe('echo:{}');
+      } finally {
+        await connection.disconnect();
+      }
+    });
+  });
+});
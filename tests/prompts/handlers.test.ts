@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { PromptHandlers } from '../../src/prompts/handlers.js';
+import { ResourceHandlers } from '../../src/resources/handlers.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { MCPProxyManager } from '../../src/mcp-proxy/manager.js';
+import { AccessPolicy } from '../../src/security/access-policy.js';
+import { parsePolicy } from '../../src/security/policy-file.js';
+
+const proxyManager = {
+  on: vi.fn(),
+  off: vi.fn(),
+  getAggregatedPrompts: vi.fn(),
+  getAggregatedResourceTemplates: vi.fn(),
+  getPromptServer: vi.fn(),
+  getResourceTemplateServer: vi.fn(),
+  getPrompt: vi.fn(),
+  complete: vi.fn()
+};
+
+describe('PromptHandlers', () => {
+  let sessions: SessionManager;
+  let accessPolicy: { run: ReturnType<typeof vi.fn>; isEnabled: ReturnType<typeof vi.fn> };
+  let client: Client;
+
+  async function connect(
+    manager?: typeof proxyManager,
+    policy: unknown = accessPolicy
+  ): Promise<Client> {
+    const server = new Server(
+      { name: 'hub', version: '1.0.0' },
+      { capabilities: { resources: {}, prompts: {}, completions: {} } }
+    );
+    new PromptHandlers(
+      server,
+      sessions,
+      manager as unknown as MCPProxyManager,
+      undefined,
+      policy as AccessPolicy
+    ).setupHandlers();
+    new ResourceHandlers(
+      server,
+      new Map(),
+      manager as unknown as MCPProxyManager,
+      undefined,
+      sessions
+    ).setupHandlers();
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    return client;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessions = new SessionManager(new Map());
+    accessPolicy = {
+      run: vi.fn((_caller, _access, run: () => unknown) => run()),
+      isEnabled: vi.fn().mockReturnValue(false)
+    };
+    proxyManager.getAggregatedPrompts.mockReturnValue([
+      { name: 'docs__summarize', arguments: [{ name: 'topic', required: true }] }
+    ]);
+    proxyManager.getAggregatedResourceTemplates.mockReturnValue([
+      { uriTemplate: 'docs://issues/{id}', name: 'issue' }
+    ]);
+    proxyManager.getPromptServer.mockReturnValue('docs');
+    proxyManager.getResourceTemplateServer.mockReturnValue('docs');
+    proxyManager.getPrompt.mockResolvedValue({
+      messages: [{ role: 'user', content: { type: 'text', text: 'Summarize mcp' } }]
+    });
+    proxyManager.complete.mockResolvedValue({ completion: { values: ['mcp', 'mcp-hub'] } });
+  });
+
+  afterEach(async () => {
+    await client?.close().catch(() => {});
+  });
+
+  it('should list proxied prompts and resource templates', async () => {
+    await connect(proxyManager);
+
+    expect((await client.listPrompts()).prompts.map((prompt) => prompt.name)).toEqual(['docs__summarize']);
+    expect((await client.listResourceTemplates()).resourceTemplates).toEqual([
+      { uriTemplate: 'docs://issues/{id}', name: 'issue' }
+    ]);
+  });
+
+  it('should get prompts through the access policy', async () => {
+    await connect(proxyManager);
+
+    const result = await client.getPrompt({ name: 'docs__summarize', arguments: { topic: 'mcp' } });
+
+    expect(result.messages).toHaveLength(1);
+    expect(proxyManager.getPrompt).toHaveBeenCalledWith('docs__summarize', { topic: 'mcp' });
+    expect(accessPolicy.run).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ method: 'prompts/get', target: 'docs__summarize', server: 'docs' }),
+      expect.any(Function)
+    );
+  });
+
+  it('should forward completions to the proxy manager', async () => {
+    await connect(proxyManager);
+    const params = { ref: { type: 'ref/prompt' as const, name: 'docs__summarize' }, argument: { name: 'topic', value: 'mc' } };
+
+    const result = await client.complete(params);
+
+    expect(result.completion.values).toEqual(['mcp', 'mcp-hub']);
+    expect(proxyManager.complete).toHaveBeenCalledWith(params);
+    expect(accessPolicy.run).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ method: 'prompts/get', target: 'docs__summarize', server: 'docs' }),
+      expect.any(Function)
+    );
+  });
+
+  it('should authorize resource template completions like reads', async () => {
+    await connect(proxyManager);
+
+    await client.complete({
+      ref: { type: 'ref/resource', uri: 'docs://issues/{id}' },
+      argument: { name: 'id', value: '4' }
+    });
+
+    expect(accessPolicy.run).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ method: 'resources/read', target: 'docs://issues/{id}', server: 'docs' }),
+      expect.any(Function)
+    );
+  });
+
+  describe('with a policy file', () => {
+    let policy: AccessPolicy;
+
+    beforeEach(() => {
+      policy = new AccessPolicy({ enabled: true }, undefined, { logEvent: vi.fn().mockResolvedValue(undefined) });
+      policy.setPolicy(parsePolicy('rules: [{ name: no-docs, effect: deny, resources: ["docs__*"] }]'));
+      proxyManager.getAggregatedPrompts.mockReturnValue([
+        { name: 'docs__summarize', arguments: [] },
+        { name: 'notes__draft', arguments: [] }
+      ]);
+      proxyManager.getPromptServer.mockImplementation((name: string) => name.split('__')[0]);
+    });
+
+    it('should list only the prompts the caller may get', async () => {
+      await connect(proxyManager, policy);
+
+      expect((await client.listPrompts()).prompts.map((prompt) => prompt.name)).toEqual(['notes__draft']);
+    });
+
+    it('should refuse completions for denied prompts', async () => {
+      await connect(proxyManager, policy);
+
+      await expect(
+        client.complete({ ref: { type: 'ref/prompt', name: 'docs__summarize' }, argument: { name: 'topic', value: '' } })
+      ).rejects.toThrow(/policy rule 'no-docs'/);
+      expect(proxyManager.complete).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should serve nothing without a proxy manager', async () => {
+    await connect();
+
+    expect((await client.listPrompts()).prompts).toEqual([]);
+    await expect(client.getPrompt({ name: 'missing' })).rejects.toThrow('Unknown prompt: missing');
+    expect(
+      (await client.complete({ ref: { type: 'ref/prompt', name: 'missing' }, argument: { name: 'a', value: '' } }))
+        .completion.values
+    ).toEqual([]);
+  });
+});
@@ -3,7 +3,6 @@ import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { ResourceHandlers } from "../../src/resources/handlers.js";
 import { ClaudeConfig } from "../../src/utils/claude-config.js";
 import { FileScanner } from "../../src/utils/file-scanner.js";
-import { ListResourcesRequestSchema, ReadResourceRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 
 // Mock FileScanner
 vi.mock('../../src/utils/file-scanner.js');
@@ -14,9 +13,7 @@ class MockServer {
   requestHandlers = new Map();
   
   setRequestHandler(schema: any, handler: any) {
-    // Use a known method name instead of schema.method which might be undefined
-    const methodName = schema === ListResourcesRequestSchema ? 'resources/list' : 'resources/read';
-    this.requestHandlers.set(methodName, handler);
+    this.requestHandlers.set(schema.shape.method.value, handler);
   }
 }
 
@@ -50,8 +47,8 @@ describe('ResourceHandlers', () => {
       
       expect(() => newResourceHandlers.setupHandlers()).not.toThrow();
       
-      // Verify that setRequestHandler was called for both list and read resources
-      expect(setupSpy).toHaveBeenCalledTimes(2);
+      // List, list templates, read, subscribe and unsubscribe
+      expect(setupSpy).toHaveBeenCalledTimes(5);
     });
 
     it('should have FileScanner instance', () => {
@@ -463,6 +460,28 @@ describe('ResourceHandlers', () => {
       expect(content).not.toContain('Normal');
     });
 
+    it('should fill in variables and skip auto-apply profiles that do not resolve', async () => {
+      activeProfiles.set('filled', {
+        title: 'Filled',
+        instructions: 'Work on {{projectName}}.',
+        variables: { projectName: 'hub' },
+        _autoApply: true
+      } as ClaudeConfig & { _autoApply: boolean });
+      activeProfiles.set('unresolved', {
+        title: 'Unresolved',
+        instructions: 'Deploy {{service}}.',
+        _autoApply: true
+      } as ClaudeConfig & { _autoApply: boolean });
+
+      const handler = server.requestHandlers.get('resources/read');
+      const result = await handler!({ params: { uri: 'config://auto-apply' } } as any);
+
+      const content = result.contents[0].text;
+      expect(content).toContain('Work on hub.');
+      expect(content).not.toContain('Profile: unresolved');
+      expect(content).not.toContain('{{service}}');
+    });
+
     it('should handle empty auto-apply profiles', async () => {
       activeProfiles.set('normal', { title: 'Normal Profile' } as ClaudeConfig);
       
@@ -0,0 +1,218 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { ResourceHandlers } from '../../src/resources/handlers.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { MCPProxyManager } from '../../src/mcp-proxy/manager.js';
+import { ClaudeConfig, ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { behaviorState } from '../../src/behavior/state.js';
+
+class FakeProxyManager extends EventEmitter {
+  subscribeResource = vi.fn().mockResolvedValue(true);
+  unsubscribeResource = vi.fn().mockResolvedValue(undefined);
+
+  getResourceServer(uri: string): string | undefined {
+    return uri.startsWith('docs://') ? 'docs' : undefined;
+  }
+
+  getAggregatedResources() {
+    return [];
+  }
+}
+
+describe('resource subscriptions', () => {
+  let sessions: SessionManager;
+  let proxyManager: FakeProxyManager;
+  let toolHandlers: ToolHandlers;
+  let resourceHandlers: ResourceHandlers;
+  const clients: Client[] = [];
+
+  async function connect(sessionId?: string): Promise<{ client: Client; updates: string[] }> {
+    if (sessionId) {
+      // The HTTP transport creates session state once a client initializes
+      sessions.createSession(sessionId);
+    }
+    const server = new Server(
+      { name: 'hub', version: '1.0.0' },
+      { capabilities: { tools: {}, resources: { subscribe: true } } }
+    );
+    toolHandlers.setupHandlers(server);
+    resourceHandlers.setupHandlers(server);
+
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const updates: string[] = [];
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+      updates.push(notification.params.uri);
+    });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    (serverTransport as InMemoryTransport & { sessionId?: string }).sessionId = sessionId;
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    clients.push(client);
+    return { client, updates };
+  }
+
+  beforeEach(() => {
+    const claudeConfigManager = new ClaudeConfigManager();
+    vi.spyOn(claudeConfigManager, 'loadClaudeConfig').mockImplementation(
+      async (filePath: string) => ({ title: filePath, content: filePath }) as unknown as ClaudeConfig
+    );
+    sessions = new SessionManager(new Map());
+    proxyManager = new FakeProxyManager();
+    const placeholder = new Server({ name: 'unused', version: '1.0.0' }, { capabilities: {} });
+    toolHandlers = new ToolHandlers(
+      placeholder,
+      claudeConfigManager,
+      new Map(),
+      undefined,
+      undefined,
+      undefined,
+      sessions
+    );
+    resourceHandlers = new ResourceHandlers(
+      placeholder,
+      new Map(),
+      proxyManager as unknown as MCPProxyManager,
+      undefined,
+      sessions
+    );
+    behaviorState.clear();
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.close().catch(() => {});
+    }
+    resourceHandlers.stop();
+    behaviorState.clear();
+  });
+
+  it('should notify a subscribed client when it applies a profile', async () => {
+    const { client, updates } = await connect();
+    await client.subscribeResource({ uri: 'config://profiles/active' });
+    await client.subscribeResource({ uri: 'config://profile/active/review' });
+
+    await client.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/review.md' } });
+
+    await vi.waitFor(() =>
+      expect(updates.sort()).toEqual(['config://profile/active/review', 'config://profiles/active'])
+    );
+  });
+
+  it('should only notify the session whose profiles changed', async () => {
+    const alice = await connect('alice');
+    const bob = await connect('bob');
+    await alice.client.subscribeResource({ uri: 'config://profiles/active' });
+    await bob.client.subscribeResource({ uri: 'config://profiles/active' });
+
+    await alice.client.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/review.md' } });
+
+    await vi.waitFor(() => expect(alice.updates).toEqual(['config://profiles/active']));
+    expect(bob.updates).toEqual([]);
+  });
+
+  it('should stop notifying after unsubscribe', async () => {
+    const { client, updates } = await connect();
+    await client.subscribeResource({ uri: 'config://profiles/active' });
+    await client.unsubscribeResource({ uri: 'config://profiles/active' });
+
+    sessions.notifyProfileChanged('review');
+
+    expect(sessions.getSubscribers('config://profiles/active')).toEqual([]);
+    expect(updates).toEqual([]);
+  });
+
+  it('should forward proxied subscriptions upstream once and release them with the last subscriber', async () => {
+    const alice = await connect('alice');
+    const bob = await connect('bob');
+
+    await alice.client.subscribeResource({ uri: 'docs://readme' });
+    await bob.client.subscribeResource({ uri: 'docs://readme' });
+    expect(proxyManager.subscribeResource).toHaveBeenCalledTimes(1);
+    expect(proxyManager.subscribeResource).toHaveBeenCalledWith('docs://readme');
+
+    proxyManager.emit('resourceUpdated', 'docs://readme');
+    await vi.waitFor(() => expect(bob.updates).toEqual(['docs://readme']));
+    expect(alice.updates).toEqual(['docs://readme']);
+
+    await alice.client.unsubscribeResource({ uri: 'docs://readme' });
+    expect(proxyManager.unsubscribeResource).not.toHaveBeenCalled();
+    sessions.removeSession('bob');
+    await vi.waitFor(() => expect(proxyManager.unsubscribeResource).toHaveBeenCalledWith('docs://readme'));
+  });
+
+  it('should keep the upstream subscription when the last subscriber leaves while another subscribes', async () => {
+    const alice = await connect('alice');
+    const bob = await connect('bob');
+    await alice.client.subscribeResource({ uri: 'docs://readme' });
+
+    await Promise.all([
+      bob.client.subscribeResource({ uri: 'docs://readme' }),
+      alice.client.unsubscribeResource({ uri: 'docs://readme' })
+    ]);
+
+    // Bob's pending subscribe holds the tracking, so nothing is released upstream
+    expect(proxyManager.subscribeResource).toHaveBeenCalledTimes(1);
+    expect(proxyManager.unsubscribeResource).not.toHaveBeenCalled();
+    expect(sessions.getSubscribers('docs://readme').map((session) => session.id)).toEqual(['bob']);
+
+    await bob.client.unsubscribeResource({ uri: 'docs://readme' });
+    expect(proxyManager.unsubscribeResource).toHaveBeenCalledTimes(1);
+  });
+
+  it('should undo an upstream subscribe whose session closed while it was pending', async () => {
+    const alice = await connect('alice');
+    let finishUpstream!: (forwarded: boolean) => void;
+    proxyManager.subscribeResource.mockImplementationOnce(
+      () => new Promise<boolean>((resolve) => (finishUpstream = resolve))
+    );
+
+    const subscribing = alice.client.subscribeResource({ uri: 'docs://readme' });
+    await vi.waitFor(() => expect(finishUpstream).toBeDefined());
+    sessions.removeSession('alice');
+    finishUpstream(true);
+    await subscribing;
+
+    await vi.waitFor(() => expect(proxyManager.unsubscribeResource).toHaveBeenCalledWith('docs://readme'));
+    expect(sessions.getSubscribers('docs://readme')).toEqual([]);
+  });
+
+  it('should notify subscribers when the scannable file list changes', async () => {
+    const scanForClaudeFiles = vi.fn().mockResolvedValue([{ path: '/a/CLAUDE.md' }]);
+    (resourceHandlers as any).fileScanner = { scanForClaudeFiles };
+    const { client, updates } = await connect();
+    await client.subscribeResource({ uri: 'config://files/scannable' });
+
+    await (resourceHandlers as any).rescanScannableFiles();
+    expect(updates).toEqual([]);
+
+    scanForClaudeFiles.mockResolvedValue([{ path: '/a/CLAUDE.md' }, { path: '/b/CLAUDE.md' }]);
+    await (resourceHandlers as any).rescanScannableFiles();
+    await vi.waitFor(() => expect(updates).toEqual(['config://files/scannable']));
+  });
+
+  it('should start one rescan timer for concurrent first subscribers', async () => {
+    const scanForClaudeFiles = vi.fn().mockResolvedValue([{ path: '/a/CLAUDE.md' }]);
+    (resourceHandlers as any).fileScanner = { scanForClaudeFiles };
+    const setIntervalSpy = vi.spyOn(global, 'setInterval');
+    const alice = await connect('alice');
+    const bob = await connect('bob');
+
+    await Promise.all([
+      alice.client.subscribeResource({ uri: 'config://files/scannable' }),
+      bob.client.subscribeResource({ uri: 'config://files/scannable' }),
+    ]);
+
+    expect(scanForClaudeFiles).toHaveBeenCalledTimes(1);
+    expect(setIntervalSpy).toHaveBeenCalledTimes(1);
+    setIntervalSpy.mockRestore();
+
+    await alice.client.unsubscribeResource({ uri: 'config://files/scannable' });
+    expect((resourceHandlers as any).scannableTimer).toBeDefined();
+    await bob.client.unsubscribeResource({ uri: 'config://files/scannable' });
+    expect((resourceHandlers as any).scannableTimer).toBeUndefined();
+  });
+});
@@ -0,0 +1,353 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  AccessPolicy,
+  AccessControlConfig,
+  AccessRequest,
+  CallerContext,
+  ACCESS_DENIED_ERROR_CODE,
+  QUOTA_EXCEEDED_ERROR_CODE,
+  getToolPermission
+} from '../../src/security/access-policy.js';
+import { RBACManager, RBACConfig } from '../../src/security/rbac.js';
+import { parsePolicy } from '../../src/security/policy-file.js';
+import { AuditEventType } from '../../src/security/audit-logging.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { HttpTransportServer } from '../../src/server/http-transport.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { ResourceHandlers } from '../../src/resources/handlers.js';
+import { ClaudeConfigManager } from '../../src/utils/claude-config.js';
+
+const config: AccessControlConfig = {
+  enabled: true,
+  anonymousRoles: ['read-only'],
+  identities: [
+    { id: 'ci-bot', roles: ['developer'], token: 'ci-secret' },
+    { id: 'reviewer', roles: ['serena-user'], certSubjects: ['reviewer.example.com'], quotas: { maxToolExecutions: 1 } }
+  ]
+};
+
+const rbacConfig: RBACConfig = {
+  roles: [{ name: 'serena-user', permissions: [{ resource: 'server:serena', action: 'execute' }] }]
+};
+
+function createPolicy(audit: { logEvent: ReturnType<typeof vi.fn> }): AccessPolicy {
+  const rbac = new RBACManager();
+  rbac.applyConfig(rbacConfig);
+  return new AccessPolicy(config, rbac, audit);
+}
+
+const http = (overrides: Partial<CallerContext> = {}): CallerContext => ({
+  transport: 'http',
+  sessionId: 'session-1',
+  ...overrides
+});
+
+const toolCall = (target: string, server?: string): AccessRequest => ({
+  method: 'tools/call',
+  target,
+  server,
+  permission: { resource: 'tools', action: 'execute' }
+});
+
+describe('AccessPolicy', () => {
+  let audit: { logEvent: ReturnType<typeof vi.fn> };
+  let policy: AccessPolicy;
+
+  beforeEach(() => {
+    audit = { logEvent: vi.fn().mockResolvedValue(undefined) };
+    policy = createPolicy(audit);
+  });
+
+  describe('identity resolution', () => {
+    it('should use the default identity for stdio', () => {
+      expect(policy.resolveIdentity({ transport: 'stdio' })).toEqual({
+        id: 'local',
+        source: 'stdio',
+        roles: ['admin']
+      });
+    });
+
+    it('should identify bearer tokens and reject unknown ones', () => {
+      expect(policy.resolveIdentity(http({ authorization: 'Bearer ci-secret' }))).toMatchObject({
+        id: 'ci-bot',
+        source: 'bearer'
+      });
+      expect(policy.resolveIdentity(http({ authorization: 'Bearer wrong' }))).toBeNull();
+    });
+
+    it('should read bearer tokens from the environment', () => {
+      process.env.TEST_ACCESS_TOKEN = 'from-env';
+      try {
+        const envPolicy = new AccessPolicy(
+          { enabled: true, identities: [{ id: 'env-bot', roles: [], tokenEnv: 'TEST_ACCESS_TOKEN' }] },
+          undefined,
+          audit
+        );
+        expect(envPolicy.resolveIdentity(http({ authorization: 'Bearer from-env' }))?.id).toBe('env-bot');
+      } finally {
+        delete process.env.TEST_ACCESS_TOKEN;
+      }
+    });
+
+    it('should identify mTLS subjects and fall back to anonymous', () => {
+      expect(policy.resolveIdentity(http({ clientCertSubject: 'reviewer.example.com' }))).toMatchObject({
+        id: 'reviewer',
+        source: 'mtls'
+      });
+      expect(policy.resolveIdentity(http({ clientCertSubject: 'stranger' }))).toEqual({
+        id: 'anonymous',
+        source: 'anonymous',
+        roles: ['read-only']
+      });
+    });
+  });
+
+  describe('enforcement', () => {
+    it('should run the handler and audit allowed requests', async () => {
+      const handler = vi.fn().mockResolvedValue('ok');
+
+      await expect(policy.run(http({ authorization: 'Bearer ci-secret' }), toolCall('echo'), handler)).resolves.toBe('ok');
+
+      expect(handler).toHaveBeenCalled();
+      expect(audit.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: AuditEventType.AUTHORIZATION,
+          userId: 'ci-bot',
+          sessionId: 'session-1',
+          resourceId: 'echo',
+          action: 'tools/call',
+          details: expect.objectContaining({ decision: 'allow', source: 'bearer' })
+        })
+      );
+    });
+
+    it('should deny missing permissions with an MCP error', async () => {
+      const handler = vi.fn();
+
+      const error = await policy.run(http(), toolCall('echo'), handler).catch((e) => e);
+
+      expect(error).toBeInstanceOf(McpError);
+      expect(error.code).toBe(ACCESS_DENIED_ERROR_CODE);
+      expect(error.data).toMatchObject({ identity: 'anonymous', permission: 'tools:execute', reason: 'permission' });
+      expect(handler).not.toHaveBeenCalled();
+      expect(audit.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ details: expect.objectContaining({ decision: 'deny', reason: 'permission' }) })
+      );
+    });
+
+    it('should deny unrecognized bearer tokens', async () => {
+      const error = await policy
+        .run(http({ authorization: 'Bearer wrong' }), toolCall('echo'), vi.fn())
+        .catch((e) => e);
+
+      expect(error.code).toBe(ACCESS_DENIED_ERROR_CODE);
+      expect(error.data.reason).toBe('invalid_token');
+    });
+
+    it('should grant tools per external server', async () => {
+      const reviewer = http({ clientCertSubject: 'reviewer.example.com' });
+
+      await expect(policy.run(reviewer, toolCall('serena__find', 'serena'), async () => 'ok')).resolves.toBe('ok');
+      await expect(policy.run(reviewer, toolCall('fs__write', 'filesystem'), async () => 'ok')).rejects.toMatchObject({
+        code: ACCESS_DENIED_ERROR_CODE
+      });
+    });
+
+    it('should enforce quotas', async () => {
+      const reviewer = http({ clientCertSubject: 'reviewer.example.com' });
+
+      await policy.run(reviewer, toolCall('serena__find', 'serena'), async () => 'ok');
+      const error = await policy.run(reviewer, toolCall('serena__find', 'serena'), async () => 'ok').catch((e) => e);
+
+      expect(error.code).toBe(QUOTA_EXCEEDED_ERROR_CODE);
+      expect(error.data.reason).toBe('quota');
+    });
+
+    it('should release concurrent request slots when the handler fails', async () => {
+      await expect(
+        policy.run(http({ authorization: 'Bearer ci-secret' }), toolCall('echo'), async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      expect(policy.getRBACManager().getUserUsageStats('ci-bot')?.concurrentRequests).toBe(0);
+    });
+
+    it('should pass requests through without auditing when disabled', async () => {
+      const disabled = new AccessPolicy({ enabled: false }, undefined, audit);
+
+      await expect(disabled.run(http(), toolCall('echo'), async () => 'ok')).resolves.toBe('ok');
+      expect(audit.logEvent).not.toHaveBeenCalled();
+    });
+
+    it('should let policy file rules decide before role permissions', async () => {
+      policy.setPolicy(
+        parsePolicy(`
+rules:
+  - name: no-deletes
+    effect: deny
+    tools: ["*delete*"]
+  - name: anonymous-echo
+    effect: allow
+    identities: ["anonymous"]
+    tools: ["echo"]
+`)
+      );
+      const bot = http({ authorization: 'Bearer ci-secret' });
+
+      expect(policy.decide('ci-bot', toolCall('serena__find', 'serena'))).toEqual({
+        allowed: true,
+        source: 'role',
+        rule: 'developer'
+      });
+      await expect(policy.run(http(), toolCall('echo'), async () => 'ok')).resolves.toBe('ok');
+
+      const error = await policy.run(bot, toolCall('serena__delete_lines', 'serena'), vi.fn()).catch((e) => e);
+      expect(error.code).toBe(ACCESS_DENIED_ERROR_CODE);
+      expect(error.data).toMatchObject({ reason: 'policy', rule: 'no-deletes' });
+      expect(audit.logEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ details: expect.objectContaining({ decision: 'deny', rule: 'no-deletes' }) })
+      );
+    });
+
+    it('should check profile rules for profile switches', () => {
+      policy.setPolicy(parsePolicy('rules: [{ name: no-prod, effect: deny, profiles: ["prod-*"] }]'));
+      const apply = (profile: string): AccessRequest => ({
+        method: 'tools/call',
+        target: 'apply_claude_config',
+        permission: { resource: 'profiles', action: 'switch' },
+        profile
+      });
+
+      expect(policy.decide('ci-bot', apply('prod-db'))).toMatchObject({ allowed: false, rule: 'no-prod' });
+      expect(policy.decide('ci-bot', apply('dev'))).toMatchObject({ allowed: true, source: 'role' });
+    });
+
+    it('should deny a profile stack when any layer is denied', () => {
+      policy.setPolicy(
+        parsePolicy(`
+rules:
+  - name: no-prod
+    effect: deny
+    profiles: ["prod-*"]
+  - name: team-profiles
+    effect: allow
+    profiles: ["team-*"]
+`)
+      );
+      const stack = (...profile: string[]): AccessRequest => ({
+        method: 'tools/call',
+        target: 'apply_claude_config',
+        permission: { resource: 'profiles', action: 'switch' },
+        profile
+      });
+
+      expect(policy.decide('ci-bot', stack('team-base', 'prod-db'))).toMatchObject({ allowed: false, rule: 'no-prod' });
+      expect(policy.decide('ci-bot', stack('team-base', 'team-ts'))).toMatchObject({
+        allowed: true,
+        rule: 'team-profiles'
+      });
+      expect(policy.decide('ci-bot', stack('team-base', 'dev'))).toMatchObject({ allowed: true, source: 'role' });
+    });
+
+    it('should give tools named like object members the proxied tool permission', () => {
+      expect(getToolPermission('apply_claude_config')).toEqual({ resource: 'profiles', action: 'switch' });
+      expect(getToolPermission('constructor')).toEqual({ resource: 'tools', action: 'execute' });
+      expect(getToolPermission('__proto__')).toEqual({ resource: 'tools', action: 'execute' });
+    });
+
+    it('should look up configured identities by id', () => {
+      expect(policy.getIdentity('ci-bot')).toEqual({ id: 'ci-bot', source: 'bearer', roles: ['developer'] });
+      expect(policy.getIdentity('reviewer')?.source).toBe('mtls');
+      expect(policy.getIdentity('local')?.roles).toEqual(['admin']);
+      expect(policy.getIdentity('nobody')).toBeUndefined();
+    });
+
+    it('should replace identities when reconfigured', () => {
+      policy.configure({ enabled: true, identities: [{ id: 'new-bot', roles: [], token: 'new' }] });
+
+      expect(policy.resolveIdentity(http({ authorization: 'Bearer ci-secret' }))).toBeNull();
+      expect(policy.getRBACManager().getUser('ci-bot')).toBeUndefined();
+      expect(policy.resolveIdentity(http({ authorization: 'Bearer new' }))?.id).toBe('new-bot');
+    });
+  });
+});
+
+describe('access control over HTTP', () => {
+  let hub: HttpTransportServer;
+  let baseUrl: string;
+  let audit: { logEvent: ReturnType<typeof vi.fn> };
+  const clients: Client[] = [];
+
+  async function connectClient(token?: string): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const requestInit = token ? { headers: { Authorization: `Bearer ${token}` } } : undefined;
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`), { requestInit }));
+    clients.push(client);
+    return client;
+  }
+
+  beforeEach(async () => {
+    audit = { logEvent: vi.fn().mockResolvedValue(undefined) };
+    const policy = createPolicy(audit);
+    const sessions = new SessionManager(new Map());
+    const placeholder = new Server({ name: 'unused', version: '1.0.0' }, { capabilities: {} });
+    const toolHandlers = new ToolHandlers(
+      placeholder,
+      new ClaudeConfigManager(),
+      new Map(),
+      undefined,
+      undefined,
+      undefined,
+      sessions,
+      policy
+    );
+    const resourceHandlers = new ResourceHandlers(placeholder, new Map(), undefined, undefined, sessions, policy);
+
+    hub = new HttpTransportServer(
+      (sessionId, peer) => {
+        sessions.createSession(sessionId, peer);
+        const server = new Server({ name: 'hub', version: '1.0.0' }, { capabilities: { tools: {}, resources: {} } });
+        toolHandlers.setupHandlers(server);
+        resourceHandlers.setupHandlers(server);
+        return server;
+      },
+      { host: '127.0.0.1', port: 0 }
+    );
+    const { port } = await hub.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.close().catch(() => {});
+    }
+    await hub.stop();
+  });
+
+  it('should refuse profile switches from anonymous clients', async () => {
+    const anonymous = await connectClient();
+
+    await expect(
+      anonymous.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/a.md' } })
+    ).rejects.toMatchObject({ code: ACCESS_DENIED_ERROR_CODE });
+
+    const active = await anonymous.readResource({ uri: 'config://profiles/active' });
+    expect(active.contents).toHaveLength(1);
+  });
+
+  it('should identify clients by bearer token', async () => {
+    const bot = await connectClient('ci-secret');
+
+    const result = await bot.callTool({ name: 'get_applied_config', arguments: {} });
+
+    expect(result.isError).toBeFalsy();
+    expect(audit.logEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'ci-bot', resourceId: 'get_applied_config' })
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { loadPolicyFile, parsePolicy, PolicyEvaluator } from '../../src/security/policy-file.js';
+
+const POLICY = `
+version: 1
+rules:
+  - name: no-deletes
+    effect: deny
+    tools: ["*delete*"]
+  - name: ci-serena
+    effect: allow
+    identities: ["ci-bot"]
+    tools: ["serena__*"]
+  - name: reviewers-read-only
+    effect: allow
+    roles: ["reviewer"]
+    tools: ["fs__*"]
+    conditions:
+      readOnlyMode: true
+  - name: review-profiles
+    effect: allow
+    roles: ["reviewer"]
+    profiles: ["review-*"]
+  - name: config-resources
+    effect: allow
+    resources: ["config://*"]
+`;
+
+describe('policy files', () => {
+  describe('parsePolicy', () => {
+    it('should parse rules in order', () => {
+      const policy = parsePolicy(POLICY);
+
+      expect(policy.version).toBe(1);
+      expect(policy.rules.map((rule) => rule.name)).toEqual([
+        'no-deletes',
+        'ci-serena',
+        'reviewers-read-only',
+        'review-profiles',
+        'config-resources'
+      ]);
+    });
+
+    it('should reject invalid rules with their location', () => {
+      expect(() => parsePolicy('rules: [{ name: a, effect: maybe }]', 'p.yaml')).toThrow(
+        "p.yaml: rules[0].effect must be 'allow' or 'deny'"
+      );
+      expect(() => parsePolicy('rules: [{ name: a, effect: allow, tools: serena__* }]')).toThrow(
+        'rules[0].tools must be a list of strings'
+      );
+      expect(() => parsePolicy('rules: [{ name: a, effect: allow }, { name: a, effect: deny }]')).toThrow(
+        "rules[1].name 'a' is already used"
+      );
+      expect(() => parsePolicy('version: 2\nrules: []')).toThrow("unsupported policy version '2'");
+      expect(() => parsePolicy('- just a list')).toThrow("expected a mapping with a 'rules' list");
+    });
+  });
+
+  describe('loadPolicyFile', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'policy-file-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should resolve paths against the base directory', async () => {
+      await fs.writeFile(path.join(dir, 'access.yaml'), POLICY);
+
+      const policy = await loadPolicyFile('access.yaml', dir);
+
+      expect(policy.rules).toHaveLength(5);
+    });
+
+    it('should report missing files', async () => {
+      await expect(loadPolicyFile('missing.yaml', dir)).rejects.toThrow('Cannot read policy file');
+    });
+  });
+
+  describe('PolicyEvaluator', () => {
+    const evaluator = new PolicyEvaluator(parsePolicy(POLICY));
+    const ciBot = { id: 'ci-bot', roles: ['developer', 'read-only'] };
+    const reviewer = { id: 'rita', roles: ['reviewer', 'read-only'] };
+
+    it('should let the first matching rule decide', () => {
+      expect(evaluator.evaluate(ciBot, { kind: 'tool', name: 'serena__find_symbol' })?.rule.name).toBe('ci-serena');
+      expect(evaluator.evaluate(ciBot, { kind: 'tool', name: 'serena__delete_lines' })).toMatchObject({
+        effect: 'deny',
+        rule: { name: 'no-deletes' }
+      });
+    });
+
+    it('should scope rules to identities and roles', () => {
+      expect(evaluator.evaluate(reviewer, { kind: 'tool', name: 'serena__find_symbol' })).toBeUndefined();
+      expect(evaluator.evaluate(reviewer, { kind: 'profile', name: 'review-strict' })?.rule.name).toBe(
+        'review-profiles'
+      );
+      expect(evaluator.evaluate(ciBot, { kind: 'profile', name: 'review-strict' })).toBeUndefined();
+    });
+
+    it('should only match rules whose conditions the request satisfies', () => {
+      expect(evaluator.evaluate(reviewer, { kind: 'tool', name: 'fs__read_file' })?.rule.name).toBe(
+        'reviewers-read-only'
+      );
+      expect(evaluator.evaluate(reviewer, { kind: 'tool', name: 'fs__write_file' })).toBeUndefined();
+    });
+
+    it('should match resource URIs separately from tools', () => {
+      expect(evaluator.evaluate(reviewer, { kind: 'resource', name: 'config://profiles/active' })?.rule.name).toBe(
+        'config-resources'
+      );
+      expect(evaluator.evaluate(reviewer, { kind: 'tool', name: 'config://profiles/active' })).toBeUndefined();
+    });
+
+    it('should apply rules without targets to everything', () => {
+      const lockdown = new PolicyEvaluator(parsePolicy('rules: [{ name: lockdown, effect: deny, identities: ["*"] }]'));
+
+      expect(lockdown.evaluate(ciBot, { kind: 'resource', name: 'file:///etc/hosts' })?.effect).toBe('deny');
+    });
+  });
+});
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  ProfileSignatureError,
+  ProfileSigning,
+  embedSignature,
+  extractEmbeddedSignature,
+  signProfileContent
+} from '../../src/security/profile-signing.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { ProfileInheritanceManager } from '../../src/utils/profile-inheritance.js';
+import { MCPProxyManager } from '../../src/mcp-proxy/manager.js';
+import { ILogger } from '../../src/utils/logger.js';
+
+const PROFILE = `# Review Profile
+
+## Instructions
+Review every change carefully.
+`;
+
+function generateKeys(type: 'ed25519' | 'rsa' = 'ed25519') {
+  const { publicKey, privateKey } =
+    type === 'rsa'
+      ? crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : crypto.generateKeyPairSync('ed25519');
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+  };
+}
+
+describe('profile signing', () => {
+  let keys: { publicKey: string; privateKey: string };
+  let dir: string;
+  let keysDir: string;
+  let profilePath: string;
+
+  beforeAll(() => {
+    keys = generateKeys();
+  });
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profile-signing-'));
+    keysDir = path.join(dir, 'keys');
+    await fs.mkdir(keysDir);
+    await fs.writeFile(path.join(keysDir, 'release.pub'), keys.publicKey);
+    profilePath = path.join(dir, 'review.md');
+    await fs.writeFile(profilePath, PROFILE);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  describe('embedded signatures', () => {
+    it('should round-trip and replace an existing signature', () => {
+      const signature = signProfileContent(PROFILE, keys.privateKey, 'release');
+      const signed = embedSignature(embedSignature(PROFILE, signature), signature);
+
+      expect(signed.match(/omni-signature/g)).toHaveLength(1);
+      expect(extractEmbeddedSignature(signed)).toEqual({ content: PROFILE, signature });
+      expect(extractEmbeddedSignature(PROFILE)).toEqual({ content: PROFILE });
+    });
+
+    it('should not change how the profile parses', () => {
+      const signed = embedSignature(PROFILE, signProfileContent(PROFILE, keys.privateKey, 'release'));
+      const manager = new ClaudeConfigManager();
+
+      expect(manager.parseClaude(signed)).toEqual(manager.parseClaude(PROFILE));
+    });
+  });
+
+  describe('verify', () => {
+    const signing = () => new ProfileSigning('enforce', keysDir);
+
+    it('should accept detached and embedded signatures from trusted keys', async () => {
+      const signature = signProfileContent(PROFILE, keys.privateKey, 'release');
+      await fs.writeFile(`${profilePath}.sig`, JSON.stringify(signature));
+      const embeddedPath = path.join(dir, 'embedded.md');
+      await fs.writeFile(embeddedPath, embedSignature(PROFILE, signature));
+
+      expect(await signing().verify(profilePath)).toMatchObject({ isValid: true, source: 'detached' });
+      expect(await signing().verify(embeddedPath)).toMatchObject({ isValid: true, source: 'embedded' });
+    });
+
+    it('should support RSA keys', async () => {
+      const rsa = generateKeys('rsa');
+      await fs.writeFile(path.join(keysDir, 'rsa.pub'), rsa.publicKey);
+      await fs.writeFile(profilePath, embedSignature(PROFILE, signProfileContent(PROFILE, rsa.privateKey, 'rsa')));
+
+      expect(await signing().verify(profilePath)).toMatchObject({
+        isValid: true,
+        metadata: { algorithm: 'RSA-SHA256', keyId: 'rsa' }
+      });
+    });
+
+    it('should reject tampered profiles and untrusted keys', async () => {
+      const signed = embedSignature(PROFILE, signProfileContent(PROFILE, keys.privateKey, 'release'));
+      await fs.writeFile(profilePath, signed.replace('carefully', 'quickly'));
+
+      expect(await signing().verify(profilePath)).toMatchObject({ isValid: false, error: 'Invalid signature' });
+
+      const other = generateKeys();
+      await fs.writeFile(profilePath, embedSignature(PROFILE, signProfileContent(PROFILE, other.privateKey, 'other')));
+
+      expect((await signing().verify(profilePath)).error).toContain('Public key not found');
+    });
+
+    it('should report unsigned profiles', async () => {
+      expect(await signing().verify(profilePath)).toMatchObject({ isValid: false, source: 'none' });
+    });
+  });
+
+  describe('check', () => {
+    let logger: ILogger;
+
+    beforeEach(() => {
+      logger = { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() } as unknown as ILogger;
+    });
+
+    it('should skip verification when off', async () => {
+      await expect(new ProfileSigning('off', keysDir).check(profilePath)).resolves.toBeUndefined();
+    });
+
+    it('should warn about unsigned profiles in warn mode', async () => {
+      const result = await new ProfileSigning('warn', keysDir, logger).check(profilePath);
+
+      expect(result?.isValid).toBe(false);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('is not signed'));
+    });
+
+    it('should refuse unsigned profiles in enforce mode', async () => {
+      await expect(new ProfileSigning('enforce', keysDir, logger).check(profilePath)).rejects.toThrow(
+        ProfileSignatureError
+      );
+    });
+
+    it('should reject unknown modes', () => {
+      expect(() => new ProfileSigning('strict' as 'enforce')).toThrow("Invalid profileSigning mode 'strict'");
+    });
+  });
+
+  describe('apply_claude_config', () => {
+    let client: Client;
+
+    beforeEach(async () => {
+      const claudeConfigManager = new ClaudeConfigManager();
+      claudeConfigManager.setProfileSigning(new ProfileSigning('enforce', keysDir));
+      const proxyManager = {
+        getConnectedServers: vi.fn().mockReturnValue([]),
+        getAggregatedTools: vi.fn().mockReturnValue([]),
+        getToolServer: vi.fn()
+      };
+      const server = new Server({ name: 'hub', version: '1.0.0' }, { capabilities: { tools: {} } });
+      new ToolHandlers(
+        server,
+        claudeConfigManager,
+        new Map(),
+        proxyManager as unknown as MCPProxyManager
+      ).setupHandlers();
+
+      client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+    });
+
+    afterEach(async () => {
+      await client.close();
+    });
+
+    it('should refuse unsigned profiles under enforce', async () => {
+      const result = await client.callTool({ name: 'apply_claude_config', arguments: { filePath: profilePath } });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as { text: string }[])[0].text).toContain(
+        `Profile ${profilePath} is not signed`
+      );
+    });
+
+    it('should apply signed profiles under enforce', async () => {
+      await fs.writeFile(profilePath, embedSignature(PROFILE, signProfileContent(PROFILE, keys.privateKey, 'release')));
+
+      const result = await client.callTool({ name: 'apply_claude_config', arguments: { filePath: profilePath } });
+
+      expect(result.isError).toBeFalsy();
+      expect((result.content as { text: string }[])[0].text).toContain('Successfully loaded');
+    });
+
+    it('should refuse signed profiles that include unsigned fragments under enforce', async () => {
+      const fragmentPath = path.join(dir, 'fragment.md');
+      await fs.writeFile(fragmentPath, '- Skip the tests.\n');
+      const content = `${PROFILE}@include fragment.md\n`;
+      await fs.writeFile(profilePath, embedSignature(content, signProfileContent(content, keys.privateKey, 'release')));
+
+      const result = await client.callTool({ name: 'apply_claude_config', arguments: { filePath: profilePath } });
+
+      expect(result.isError).toBe(true);
+      expect((result.content as { text: string }[])[0].text).toContain(`Profile ${fragmentPath} is not signed`);
+    });
+  });
+
+  describe('inheritance', () => {
+    const sign = (content: string) => embedSignature(content, signProfileContent(content, keys.privateKey, 'release'));
+    const CHILD = `# Child Profile
+
+## Inheritance
+enabled: true
+baseProfiles:
+  - base.md
+overrideStrategy: merge
+
+## Instructions
+- Child instruction
+`;
+
+    let inheritance: ProfileInheritanceManager;
+
+    beforeEach(() => {
+      const claudeConfigManager = new ClaudeConfigManager();
+      claudeConfigManager.setProfileSigning(new ProfileSigning('enforce', keysDir));
+      inheritance = new ProfileInheritanceManager(claudeConfigManager);
+    });
+
+    it('should refuse unsigned base profiles under enforce', async () => {
+      const basePath = path.join(dir, 'base.md');
+      await fs.writeFile(basePath, PROFILE);
+      await fs.writeFile(profilePath, sign(CHILD));
+
+      const result = await inheritance.resolveProfile(profilePath);
+
+      expect(result.errors).toEqual([
+        expect.stringContaining(`Failed to resolve base profile base.md: Profile ${basePath} is not signed`)
+      ]);
+    });
+
+    it('should resolve signed base profiles under enforce', async () => {
+      await fs.writeFile(path.join(dir, 'base.md'), sign(PROFILE));
+      await fs.writeFile(profilePath, sign(CHILD));
+
+      const result = await inheritance.resolveProfile(profilePath);
+
+      expect(result.errors).toEqual([]);
+      expect(result.config.instructions).toContain('- Child instruction');
+    });
+  });
+});
@@ -11,12 +11,10 @@ describe('RBAC Manager', () => {
   describe('Role Management', () => {
     it('should have default roles initialized', () => {
       const roles = rbac.listRoles();
-      expect(roles).toHaveLength(3);
+      expect(roles).toHaveLength(4);
       
       const roleNames = roles.map(r => r.name);
-      expect(roleNames).toContain('read-only');
-      expect(roleNames).toContain('developer');
-      expect(roleNames).toContain('admin');
+      expect(roleNames).toEqual(['read-only', 'reviewer', 'developer', 'admin']);
     });
 
     it('should add new roles', () => {
@@ -37,13 +35,18 @@ describe('RBAC Manager', () => {
     });
 
     it('should remove roles', () => {
-      const removed = rbac.removeRole('read-only');
+      const removed = rbac.removeRole('reviewer');
       expect(removed).toBe(true);
       
-      const retrieved = rbac.getRole('read-only');
+      const retrieved = rbac.getRole('reviewer');
       expect(retrieved).toBeUndefined();
     });
 
+    it('should refuse to remove protected roles', () => {
+      expect(() => rbac.removeRole('admin')).toThrow("Cannot delete protected role 'admin'");
+      expect(rbac.getRole('admin')).toBeDefined();
+    });
+
     it('should emit events when roles are modified', () => {
       const addedSpy = vi.fn();
       const removedSpy = vi.fn();
@@ -153,6 +156,96 @@ describe('RBAC Manager', () => {
     });
   });
 
+  describe('Policy Engine', () => {
+    it('should grant permissions inherited from parent roles', () => {
+      rbac.addRole({
+        name: 'serena-user',
+        inherits: ['read-only'],
+        permissions: [{ resource: 'server:serena', action: 'execute' }]
+      });
+      rbac.addUser({ id: 'inheritor', roles: ['serena-user'] });
+
+      expect(rbac.hasPermission('inheritor', 'resources', 'read')).toBe(true);
+      expect(rbac.hasPermission('inheritor', 'server:serena', 'execute')).toBe(true);
+      expect(rbac.hasPermission('inheritor', 'tools', 'execute')).toBe(false);
+    });
+
+    it('should tolerate inheritance cycles', () => {
+      rbac.addRole({ name: 'a', inherits: ['b'], permissions: [{ resource: 'a', action: 'read' }] });
+      rbac.addRole({ name: 'b', inherits: ['a'], permissions: [{ resource: 'b', action: 'read' }] });
+      rbac.addUser({ id: 'cyclic', roles: ['a'] });
+
+      expect(rbac.hasPermission('cyclic', 'b', 'read')).toBe(true);
+      expect(rbac.hasPermission('cyclic', 'c', 'read')).toBe(false);
+    });
+
+    it('should match resource patterns', () => {
+      rbac.addRole({
+        name: 'serena-tools',
+        permissions: [{ resource: 'tool:serena__*', action: 'execute' }]
+      });
+      rbac.addUser({ id: 'patterned', roles: ['serena-tools'] });
+
+      expect(rbac.hasPermission('patterned', 'tool:serena__find_symbol', 'execute')).toBe(true);
+      expect(rbac.hasPermission('patterned', 'tool:fs__write_file', 'execute')).toBe(false);
+      expect(rbac.hasPermission('patterned', 'tool:serena__find_symbol', 'read')).toBe(false);
+    });
+
+    it('should only grant conditional permissions when the context satisfies them', () => {
+      rbac.addUser({ id: 'reviewer1', roles: ['reviewer'] });
+
+      expect(rbac.hasPermission('reviewer1', 'tools', 'execute')).toBe(false);
+      expect(rbac.hasPermission('reviewer1', 'tools', 'execute', { toolName: 'read_file' })).toBe(true);
+      expect(rbac.hasPermission('reviewer1', 'tools', 'execute', { toolName: 'write_file' })).toBe(false);
+    });
+
+    it('should apply roles and users from configuration', () => {
+      const appliedSpy = vi.fn();
+      rbac.on('configurationApplied', appliedSpy);
+
+      rbac.applyConfig({
+        roles: [{ name: 'ops', inherits: ['developer'], permissions: [{ resource: 'server:*', action: 'execute' }] }],
+        users: [{ id: 'alice', roles: ['ops'], expiresAt: '2999-01-01T00:00:00Z' }]
+      });
+
+      expect(rbac.hasPermission('alice', 'server:github', 'execute')).toBe(true);
+      expect(rbac.hasPermission('alice', 'profiles', 'switch')).toBe(true);
+      expect(rbac.getUser('alice')?.expiresAt).toEqual(new Date('2999-01-01T00:00:00Z'));
+      expect(appliedSpy).toHaveBeenCalled();
+    });
+
+    it('should revoke roles and users removed from a re-applied configuration', () => {
+      rbac.applyConfig({
+        roles: [{ name: 'ops', permissions: [{ resource: 'server:*', action: 'execute' }] }],
+        users: [{ id: 'alice', roles: ['ops'] }]
+      });
+      rbac.addUser({ id: 'bob', roles: ['ops'] });
+      expect(rbac.hasPermission('bob', 'server:github', 'execute')).toBe(true);
+
+      rbac.applyConfig({ users: [{ id: 'carol', roles: ['read-only'] }] });
+
+      expect(rbac.getRole('ops')).toBeUndefined();
+      expect(rbac.hasPermission('bob', 'server:github', 'execute')).toBe(false);
+      expect(rbac.getUser('alice')).toBeUndefined();
+      expect(rbac.getUser('carol')).toBeDefined();
+      expect(rbac.getRole('admin')).toBeDefined();
+    });
+
+    it('should ignore users whose roles have expired', () => {
+      rbac.addUser({ id: 'temp', roles: ['developer'], expiresAt: new Date(Date.now() - 1000) });
+
+      expect(rbac.hasPermission('temp', 'tools', 'execute')).toBe(false);
+      expect(rbac.getUser('temp')).toBeUndefined();
+    });
+
+    it('should inherit quotas from parent roles', () => {
+      rbac.addRole({ name: 'junior', inherits: ['developer'], permissions: [] });
+      rbac.addUser({ id: 'junior1', roles: ['junior'] });
+
+      expect(rbac.getUserQuotas('junior1').maxRequestsPerMinute).toBe(120);
+    });
+  });
+
   describe('Quota Management', () => {
     beforeEach(() => {
       const user: User = { 
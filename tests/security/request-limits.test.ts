@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import {
+  RequestLimiter,
+  RequestLimitsConfig,
+  RATE_LIMITED_ERROR_CODE,
+  REJECTED_REQUESTS_METRIC,
+  getClientKey
+} from '../../src/security/request-limits.js';
+import { AccessPolicy, AccessRequest, CallerContext } from '../../src/security/access-policy.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { MCPProxyManager } from '../../src/mcp-proxy/manager.js';
+
+const alice: CallerContext = { transport: 'http', sessionId: 's1', authorization: 'Bearer alice' };
+const bob: CallerContext = { transport: 'http', sessionId: 's2', authorization: 'Bearer bob' };
+
+const toolCall = (target: string, server?: string): AccessRequest => ({
+  method: 'tools/call',
+  target,
+  server,
+  permission: { resource: 'tools', action: 'execute' }
+});
+
+const ok = async () => 'ok';
+
+const identities = new AccessPolicy({
+  identities: [
+    { id: 'alice', roles: [], token: 'alice' },
+    { id: 'bob', roles: [], token: 'bob' }
+  ]
+});
+
+describe('RequestLimiter', () => {
+  let limiter: RequestLimiter;
+  let metrics: { recordCounter: ReturnType<typeof vi.fn>; recordGauge: ReturnType<typeof vi.fn> };
+
+  function create(config: RequestLimitsConfig): RequestLimiter {
+    limiter = new RequestLimiter({ enabled: true, ...config }, metrics);
+    limiter.setIdentities(identities);
+    return limiter;
+  }
+
+  async function rejection(promise: Promise<unknown>): Promise<McpError> {
+    const error = await promise.catch((e) => e);
+    expect(error).toBeInstanceOf(McpError);
+    expect(error.code).toBe(RATE_LIMITED_ERROR_CODE);
+    return error;
+  }
+
+  beforeEach(() => {
+    metrics = { recordCounter: vi.fn(), recordGauge: vi.fn() };
+  });
+
+  afterEach(() => {
+    limiter?.destroy();
+  });
+
+  it('should pass requests through when disabled', async () => {
+    limiter = new RequestLimiter({ enabled: false });
+
+    expect(limiter.isEnabled()).toBe(false);
+    await expect(limiter.run(alice, toolCall('echo'), ok)).resolves.toBe('ok');
+  });
+
+  it('should limit each client separately', async () => {
+    create({ perClient: { maxRequests: 2 } });
+
+    await limiter.run(alice, toolCall('echo'), ok);
+    await limiter.run(alice, toolCall('echo'), ok);
+    const error = await rejection(limiter.run(alice, toolCall('echo'), ok));
+
+    expect(error.data).toMatchObject({ scope: 'client', target: 'echo' });
+    await expect(limiter.run(bob, toolCall('echo'), ok)).resolves.toBe('ok');
+  });
+
+  it('should limit tools by name pattern across clients', async () => {
+    create({ tools: { 'github__*': { maxRequests: 1 } } });
+
+    await limiter.run(alice, toolCall('github__create_issue'), ok);
+    const error = await rejection(limiter.run(bob, toolCall('github__create_issue'), ok));
+
+    expect(error.data).toMatchObject({ scope: 'tool', key: 'github__create_issue' });
+    await expect(limiter.run(bob, toolCall('github__list_issues'), ok)).resolves.toBe('ok');
+    await expect(limiter.run(bob, toolCall('echo'), ok)).resolves.toBe('ok');
+  });
+
+  it('should limit upstream servers', async () => {
+    create({ perServer: { maxRequests: 1 } });
+    const read: AccessRequest = {
+      method: 'resources/read',
+      target: 'serena://notes',
+      server: 'serena',
+      permission: { resource: 'resources', action: 'read' }
+    };
+
+    await limiter.run(alice, toolCall('serena__find', 'serena'), ok);
+    const error = await rejection(limiter.run(bob, read, ok));
+
+    expect(error.data).toMatchObject({ scope: 'server', key: 'serena' });
+    await expect(limiter.run(bob, toolCall('fs__read', 'fs'), ok)).resolves.toBe('ok');
+  });
+
+  it('should queue calls beyond the concurrency limit and reject when the queue is full', async () => {
+    create({ maxConcurrent: 1, maxQueueSize: 1 });
+    let release!: () => void;
+    const slow = limiter.run(alice, toolCall('slow'), () => new Promise<string>((resolve) => {
+      release = () => resolve('slow');
+    }));
+    const queued = limiter.run(bob, toolCall('echo'), ok);
+    await vi.waitFor(() => expect(release).toBeDefined());
+
+    const error = await rejection(limiter.run(bob, toolCall('echo'), ok));
+    expect(error.data).toMatchObject({ scope: 'queue' });
+
+    release();
+    await expect(slow).resolves.toBe('slow');
+    await expect(queued).resolves.toBe('ok');
+  });
+
+  it('should pass handler errors through unchanged', async () => {
+    create({});
+
+    await expect(
+      limiter.run(alice, toolCall('echo'), async () => {
+        throw new Error('Rate limit exceeded');
+      })
+    ).rejects.not.toBeInstanceOf(McpError);
+    expect(limiter.getRejections()).toEqual({});
+  });
+
+  it('should count rejections for Prometheus', async () => {
+    create({ perClient: { maxRequests: 1 } });
+
+    await limiter.run(alice, toolCall('echo'), ok);
+    await rejection(limiter.run(alice, toolCall('echo'), ok));
+    await rejection(limiter.run(alice, toolCall('echo'), ok));
+
+    expect(limiter.getRejections()).toEqual({ 'tools/call:client': 2 });
+    expect(metrics.recordCounter).toHaveBeenLastCalledWith(REJECTED_REQUESTS_METRIC, 2, {
+      method: 'tools/call',
+      scope: 'client'
+    });
+    expect(metrics.recordGauge).toHaveBeenCalled();
+  });
+
+  it('should key clients by authenticated identity or address', () => {
+    expect(getClientKey({ transport: 'stdio' })).toBe('stdio');
+    expect(getClientKey(alice, identities)).toBe('identity:alice');
+    expect(getClientKey({ ...alice, remoteAddress: '10.0.0.1' })).toBe('address:10.0.0.1');
+    expect(getClientKey({ transport: 'http', remoteAddress: '10.0.0.1' }, identities)).toBe('address:10.0.0.1');
+  });
+
+  it('should not give unverified tokens a fresh limit', async () => {
+    create({ perClient: { maxRequests: 1 } });
+    const forged = (token: string): CallerContext => ({
+      transport: 'http',
+      remoteAddress: '10.0.0.9',
+      authorization: `Bearer ${token}`
+    });
+
+    await limiter.run(forged('fake-1'), toolCall('echo'), ok);
+    const error = await rejection(limiter.run(forged('fake-2'), toolCall('echo'), ok));
+
+    expect(error.code).toBe(RATE_LIMITED_ERROR_CODE);
+  });
+});
+
+describe('rate limits on MCP requests', () => {
+  let client: Client;
+  let limiter: RequestLimiter;
+
+  beforeEach(async () => {
+    limiter = new RequestLimiter({ enabled: true, perClient: { maxRequests: 1 } });
+    const proxyManager = {
+      getConnectedServers: vi.fn().mockReturnValue([]),
+      getAggregatedTools: vi.fn().mockReturnValue([]),
+      getToolServer: vi.fn()
+    };
+    const server = new Server({ name: 'hub', version: '1.0.0' }, { capabilities: { tools: {} } });
+    new ToolHandlers(
+      server,
+      new ClaudeConfigManager(),
+      new Map(),
+      proxyManager as unknown as MCPProxyManager,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      limiter
+    ).setupHandlers();
+
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+  });
+
+  afterEach(async () => {
+    await client.close();
+    limiter.destroy();
+  });
+
+  it('should reject calls over the limit with an MCP error', async () => {
+    const first = await client.callTool({ name: 'get_applied_config', arguments: {} });
+    expect(first.isError).toBeFalsy();
+
+    await expect(client.callTool({ name: 'get_applied_config', arguments: {} })).rejects.toMatchObject({
+      code: RATE_LIMITED_ERROR_CODE
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { HttpTransportServer } from '../../src/server/http-transport.js';
+
+function createHubServer(sessionId: string): Server {
+  const server = new Server(
+    { name: 'hub', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [{ name: 'whoami', description: 'Session id', inputSchema: { type: 'object' } }]
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async () => ({
+    content: [{ type: 'text', text: sessionId }]
+  }));
+  return server;
+}
+
+describe('HttpTransportServer', () => {
+  let hub: HttpTransportServer;
+  let baseUrl: string;
+  const clients: Client[] = [];
+
+  async function connectClient(): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`));
+    await client.connect(transport);
+    clients.push(client);
+    return { client, transport };
+  }
+
+  beforeEach(async () => {
+    hub = new HttpTransportServer(createHubServer, { host: '127.0.0.1', port: 0, shutdownTimeoutMs: 1000 });
+    const { port } = await hub.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.close().catch(() => {});
+    }
+    await hub.stop();
+  });
+
+  it('should serve each client in its own session', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    expect(first.transport.sessionId).toBeDefined();
+    expect(first.transport.sessionId).not.toBe(second.transport.sessionId);
+    expect(hub.getSessions().map((s) => s.id).sort()).toEqual(
+      [first.transport.sessionId, second.transport.sessionId].sort()
+    );
+
+    const tools = await first.client.listTools();
+    expect(tools.tools.map((t) => t.name)).toEqual(['whoami']);
+
+    const result = await second.client.callTool({ name: 'whoami', arguments: {} });
+    expect(result.content).toEqual([{ type: 'text', text: second.transport.sessionId }]);
+  });
+
+  it('should remove sessions terminated by the client', async () => {
+    const { transport } = await connectClient();
+    expect(hub.getSessions()).toHaveLength(1);
+
+    await transport.terminateSession();
+
+    expect(hub.getSessions()).toHaveLength(0);
+  });
+
+  it('should report health', async () => {
+    await connectClient();
+
+    const response = await fetch(`${baseUrl}/health`);
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'healthy', sessions: 1 });
+  });
+
+  it('should reject unknown sessions and requests without a session', async () => {
+    const listRequest = JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' });
+    const headers = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json, text/event-stream'
+    };
+
+    const unknown = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...headers, 'mcp-session-id': 'missing' },
+      body: listRequest
+    });
+    expect(unknown.status).toBe(404);
+
+    const missing = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers, body: listRequest });
+    expect(missing.status).toBe(400);
+
+    const malformed = await fetch(`${baseUrl}/mcp`, { method: 'POST', headers, body: '{' });
+    expect(malformed.status).toBe(400);
+    expect((await malformed.json()).error.code).toBe(-32700);
+
+    const elsewhere = await fetch(`${baseUrl}/other`);
+    expect(elsewhere.status).toBe(404);
+
+    const admin = await fetch(`${baseUrl}/admin/sessions`);
+    expect(admin.status).toBe(404);
+  });
+
+  it('should serve Prometheus metrics to the admin token when a metrics view is provided', async () => {
+    const metricsHub = new HttpTransportServer(
+      createHubServer,
+      { host: '127.0.0.1', port: 0, adminToken: 'admin-secret' },
+      undefined,
+      undefined,
+      () => 'mcp_requests_rejected_total{method="tools/call",scope="client"} 2\n'
+    );
+    const { port } = await metricsHub.start();
+    try {
+      expect((await fetch(`http://127.0.0.1:${port}/metrics`)).status).toBe(401);
+
+      const response = await fetch(`http://127.0.0.1:${port}/metrics`, {
+        headers: { Authorization: 'Bearer admin-secret' }
+      });
+
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain('text/plain');
+      expect(await response.text()).toContain('mcp_requests_rejected_total');
+    } finally {
+      await metricsHub.stop();
+    }
+
+    expect((await fetch(`${baseUrl}/metrics`)).status).toBe(404);
+  });
+
+  it('should close sessions idle for longer than sessionIdleTimeoutMs', async () => {
+    const idleHub = new HttpTransportServer(createHubServer, {
+      host: '127.0.0.1',
+      port: 0,
+      sessionIdleTimeoutMs: 100
+    });
+    const events: string[] = [];
+    idleHub.on('session-closed', (id: string) => events.push(id));
+    const { port } = await idleHub.start();
+    try {
+      baseUrl = `http://127.0.0.1:${port}`;
+      const { transport } = await connectClient();
+      expect(idleHub.getSessions()).toHaveLength(1);
+
+      await vi.waitFor(() => expect(events).toEqual([transport.sessionId]), { timeout: 2000 });
+      expect(idleHub.getSessions()).toHaveLength(0);
+    } finally {
+      await idleHub.stop();
+    }
+  });
+
+  it('should close the server of a session whose initialize fails', async () => {
+    const servers: Server[] = [];
+    const closed: Server[] = [];
+    const failingHub = new HttpTransportServer((sessionId) => {
+      const server = createHubServer(sessionId);
+      server.onclose = () => closed.push(server);
+      servers.push(server);
+      return server;
+    }, { host: '127.0.0.1', port: 0 });
+    const { port } = await failingHub.start();
+    try {
+      // Without an Accept header the transport refuses the initialize
+      const response = await fetch(`http://127.0.0.1:${port}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'c', version: '1' } }
+        })
+      });
+
+      expect(response.status).toBe(406);
+      expect(failingHub.getSessions()).toHaveLength(0);
+      expect(closed).toEqual(servers);
+      expect(servers).toHaveLength(1);
+    } finally {
+      await failingHub.stop();
+    }
+  });
+
+  it('should close open sessions on stop', async () => {
+    const events: string[] = [];
+    hub.on('session-closed', (id: string) => events.push(id));
+    const { transport } = await connectClient();
+
+    await hub.stop();
+
+    expect(hub.isListening()).toBe(false);
+    expect(hub.getSessions()).toHaveLength(0);
+    expect(events).toEqual([transport.sessionId]);
+    await expect(fetch(`${baseUrl}/health`)).rejects.toThrow();
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_HTTP_OPTIONS,
+  parseServerArgs,
+  resolveServerOptions
+} from '../../src/server/server-options.js';
+
+describe('server-options', () => {
+  describe('parseServerArgs', () => {
+    it('should parse transport, port, host and path', () => {
+      expect(
+        parseServerArgs(['--transport', 'http', '--port', '8080', '--host=127.0.0.1', '--path', '/hub'])
+      ).toEqual({
+        transport: 'http',
+        http: { port: 8080, host: '127.0.0.1', path: '/hub' }
+      });
+    });
+
+    it('should ignore unrelated arguments', () => {
+      expect(parseServerArgs(['--verbose', 'extra'])).toEqual({});
+    });
+
+    it('should reject invalid values', () => {
+      expect(() => parseServerArgs(['--transport', 'ws'])).toThrow(
+        "Unsupported transport 'ws' (expected stdio or http)"
+      );
+      expect(() => parseServerArgs(['--port', 'abc'])).toThrow("Invalid port 'abc'");
+      expect(() => parseServerArgs(['--port'])).toThrow('Missing value for --port');
+    });
+  });
+
+  describe('resolveServerOptions', () => {
+    it('should default to stdio with default HTTP settings', () => {
+      expect(resolveServerOptions(undefined, {})).toEqual({
+        transport: 'stdio',
+        http: DEFAULT_HTTP_OPTIONS
+      });
+    });
+
+    it('should let command line options override the config file', () => {
+      const resolved = resolveServerOptions(
+        { transport: 'stdio', http: { port: 4000, path: '/custom' } },
+        { transport: 'http', http: { port: 5000 } }
+      );
+
+      expect(resolved.transport).toBe('http');
+      expect(resolved.http).toMatchObject({ port: 5000, path: '/custom', host: '0.0.0.0' });
+    });
+  });
+});
@@ -0,0 +1,204 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { DEFAULT_SESSION_ID, SessionManager, SessionPeerInfo } from '../../src/server/sessions.js';
+import { HttpTransportServer } from '../../src/server/http-transport.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { ResourceHandlers } from '../../src/resources/handlers.js';
+import { ClaudeConfigManager, ClaudeConfig } from '../../src/utils/claude-config.js';
+import { behaviorState } from '../../src/behavior/state.js';
+
+describe('SessionManager', () => {
+  let baseProfiles: Map<string, ClaudeConfig>;
+  let sessions: SessionManager;
+
+  beforeEach(() => {
+    baseProfiles = new Map([['base', { title: 'Base' } as ClaudeConfig]]);
+    sessions = new SessionManager(baseProfiles);
+    behaviorState.clear();
+  });
+
+  it('should back the default session with the startup profiles and global behavior state', () => {
+    const session = sessions.getSession();
+
+    expect(session.id).toBe(DEFAULT_SESSION_ID);
+    expect(session.activeProfiles).toBe(baseProfiles);
+    expect(session.behaviorState).toBe(behaviorState);
+  });
+
+  it('should seed new sessions with a copy of the startup profiles', () => {
+    const a = sessions.createSession('a', { remoteAddress: '10.0.0.1' });
+    const b = sessions.createSession('b');
+
+    a.activeProfiles.set('only-a', { title: 'A' } as ClaudeConfig);
+
+    expect([...a.activeProfiles.keys()]).toEqual(['base', 'only-a']);
+    expect([...b.activeProfiles.keys()]).toEqual(['base']);
+    expect([...baseProfiles.keys()]).toEqual(['base']);
+    expect(a.behaviorState).not.toBe(b.behaviorState);
+    expect(a.remoteAddress).toBe('10.0.0.1');
+  });
+
+  it('should remove sessions but never the default one', () => {
+    sessions.createSession('a');
+
+    expect(sessions.removeSession('a')).toBe(true);
+    expect(sessions.hasSession('a')).toBe(false);
+    expect(sessions.removeSession(DEFAULT_SESSION_ID)).toBe(false);
+    expect(sessions.getSessionCount()).toBe(1);
+  });
+
+  it('should refuse requests for unknown or removed sessions instead of creating them', () => {
+    sessions.createSession('a');
+    sessions.removeSession('a');
+
+    expect(() => sessions.getSession('a')).toThrow('Session a not found');
+    expect(() => sessions.getSession('never-created')).toThrow('Session never-created not found');
+    expect(sessions.hasSession('a')).toBe(false);
+  });
+
+  it('should summarize what each session has applied', () => {
+    const a = sessions.createSession('a');
+    a.lastAppliedProfile = 'base';
+    a.behaviorState.atomicSwapBehavior('be nice', { profile: 'base', hash: 'abc' });
+
+    const summaries = sessions.listSessions(false);
+
+    expect(summaries).toHaveLength(1);
+    expect(summaries[0]).toMatchObject({
+      id: 'a',
+      transport: 'http',
+      activeProfiles: ['base'],
+      lastAppliedProfile: 'base',
+      behavior: { currentProfileId: 'base', currentHash: 'abc' }
+    });
+    expect(sessions.listSessions().map((s) => s.id)).toEqual([DEFAULT_SESSION_ID, 'a']);
+  });
+
+  it('should swap a reloaded profile into sessions still holding the old version', () => {
+    const previous = baseProfiles.get('base')!;
+    const reloaded = { title: 'Base v2' } as ClaudeConfig;
+    const applied = sessions.createSession('applied');
+    applied.lastAppliedProfile = 'base';
+    const holding = sessions.createSession('holding');
+    const replaced = sessions.createSession('replaced');
+    replaced.activeProfiles.set('base', { title: 'Own' } as ClaudeConfig);
+
+    expect(sessions.replaceProfile('base', previous, reloaded)).toEqual([applied]);
+    expect(baseProfiles.get('base')).toBe(reloaded);
+    expect(applied.activeProfiles.get('base')).toBe(reloaded);
+    expect(holding.activeProfiles.get('base')).toBe(reloaded);
+    expect(replaced.activeProfiles.get('base')?.title).toBe('Own');
+  });
+});
+
+describe('per-session profile isolation over HTTP', () => {
+  let hub: HttpTransportServer;
+  let sessions: SessionManager;
+  let baseUrl: string;
+  const clients: Client[] = [];
+
+  async function connectClient(): Promise<Client> {
+    const client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`${baseUrl}/mcp`)));
+    clients.push(client);
+    return client;
+  }
+
+  function textOf(result: any): string {
+    return result.content?.[0]?.text ?? result.contents?.[0]?.text;
+  }
+
+  beforeEach(async () => {
+    const claudeConfigManager = new ClaudeConfigManager();
+    vi.spyOn(claudeConfigManager, 'loadClaudeConfig').mockImplementation(async (filePath: string) => ({
+      title: filePath,
+      _filePath: filePath
+    }) as unknown as ClaudeConfig);
+
+    sessions = new SessionManager(new Map());
+    const placeholder = new Server({ name: 'unused', version: '1.0.0' }, { capabilities: {} });
+    const toolHandlers = new ToolHandlers(
+      placeholder,
+      claudeConfigManager,
+      new Map(),
+      undefined,
+      undefined,
+      undefined,
+      sessions
+    );
+    const resourceHandlers = new ResourceHandlers(placeholder, new Map(), undefined, undefined, sessions);
+
+    hub = new HttpTransportServer(
+      () => {
+        const server = new Server(
+          { name: 'hub', version: '1.0.0' },
+          { capabilities: { tools: {}, resources: {} } }
+        );
+        toolHandlers.setupHandlers(server);
+        resourceHandlers.setupHandlers(server);
+        return server;
+      },
+      { host: '127.0.0.1', port: 0, adminToken: 'admin-secret' },
+      undefined,
+      () => sessions.listSessions(false)
+    );
+    hub.on('session-created', (id: string, peer: SessionPeerInfo) => sessions.createSession(id, peer));
+    hub.on('session-closed', (id: string) => sessions.removeSession(id));
+    const { port } = await hub.start();
+    baseUrl = `http://127.0.0.1:${port}`;
+  });
+
+  afterEach(async () => {
+    for (const client of clients.splice(0)) {
+      await client.close().catch(() => {});
+    }
+    await hub.stop();
+  });
+
+  it('should keep applied profiles separate per client', async () => {
+    const alice = await connectClient();
+    const bob = await connectClient();
+
+    await alice.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/alice.md' } });
+    await bob.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/bob.md' } });
+
+    expect(textOf(await alice.callTool({ name: 'get_applied_config', arguments: {} }))).toContain('"name": "alice"');
+    expect(textOf(await bob.callTool({ name: 'get_applied_config', arguments: {} }))).toContain('"name": "bob"');
+
+    const active = JSON.parse(textOf(await alice.readResource({ uri: 'config://profiles/active' })));
+    expect(active.activeProfiles).toEqual(['alice']);
+
+    expect(sessions.getDefaultSession().lastAppliedProfile).toBeNull();
+  });
+
+  it('should list sessions and their applied profiles for admins', async () => {
+    const alice = await connectClient();
+    await alice.callTool({ name: 'apply_claude_config', arguments: { filePath: '/profiles/alice.md' } });
+    await connectClient();
+
+    const unauthorized = await fetch(`${baseUrl}/admin/sessions`);
+    expect(unauthorized.status).toBe(401);
+
+    const response = await fetch(`${baseUrl}/admin/sessions`, {
+      headers: { Authorization: 'Bearer admin-secret' }
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.sessions).toHaveLength(2);
+    expect(body.sessions.map((s: any) => s.lastAppliedProfile).sort()).toEqual(['alice', null].sort());
+    expect(body.sessions[0].remoteAddress).toBe('127.0.0.1');
+  });
+
+  it('should drop session state when the client disconnects', async () => {
+    const client = await connectClient();
+    expect(sessions.getSessionCount()).toBe(2);
+
+    const transport = (client as any)._transport as StreamableHTTPClientTransport;
+    await transport.terminateSession();
+
+    expect(sessions.getSessionCount()).toBe(1);
+  });
+});
@@ -257,13 +257,19 @@ describe('ToolHandlers', () => {
       
       const result = await listToolsHandler();
       expect(result.tools).toBeDefined();
-      expect(result.tools.length).toBe(3);
+      expect(result.tools.length).toBe(9);
       
       // Verify all tools are registered
       const toolNames = result.tools.map((t: any) => t.name);
       expect(toolNames).toContain('apply_claude_config');
       expect(toolNames).toContain('list_claude_configs');
       expect(toolNames).toContain('get_applied_config');
+      expect(toolNames).toContain('push_profile_layer');
+      expect(toolNames).toContain('pop_profile_layer');
+      expect(toolNames).toContain('reorder_profile_layers');
+      expect(toolNames).toContain('set_profile_layer_enabled');
+      expect(toolNames).toContain('rollback_profile');
+      expect(toolNames).toContain('diff_claude_configs');
       
       setRequestHandlerSpy.mockRestore();
     });
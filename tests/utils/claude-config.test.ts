@@ -146,6 +146,14 @@ Some instructions.`;
       expect(content).toContain('# Memory');
       expect(content).toContain('Saved memory');
     });
+
+    it('should round-trip allowToolsAppend patterns', async () => {
+      await manager.saveClaude(testFile, { allowToolsAppend: ['serena__*', '!*delete*'] });
+
+      const parsed = manager.parseClaude(await fs.readFile(testFile, 'utf-8'));
+
+      expect(parsed.allowToolsAppend).toEqual(['serena__*', '!*delete*']);
+    });
   });
 
   describe('findClaudeFiles', () => {
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  FrontMatterError,
+  readFrontMatter,
+  splitFrontMatter,
+  validateFrontMatter,
+} from '../../src/utils/front-matter.js';
+import { ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { FailFastValidator } from '../../src/validation/fail-fast.js';
+import { SilentLogger } from '../../src/utils/logger.js';
+
+const PROFILE = `---
+name: code-review
+version: 1.2
+description: Careful reviews
+tags: [review, typescript]
+schemaVersion: 1.0.0
+inheritance:
+  baseProfiles: [./base.md]
+requiredTools: [serena__find_symbol]
+requiredServers: [serena]
+---
+# Instructions
+Read the diff first.
+Check every change.
+`;
+
+describe('front-matter', () => {
+  describe('splitFrontMatter', () => {
+    it('should return the body unchanged without a block', () => {
+      expect(splitFrontMatter('# Rules\n---\n')).toEqual({
+        body: '# Rules\n---\n',
+        bodyLine: 1,
+        keyLines: {},
+      });
+    });
+
+    it('should parse the block and strip it from the body', () => {
+      const { data, body, bodyLine, keyLines } = splitFrontMatter('---\nname: review\n---\n# Rules\n');
+
+      expect(data).toEqual({ name: 'review' });
+      expect(body).toBe('# Rules\n');
+      expect(bodyLine).toBe(4);
+      expect(keyLines).toEqual({ name: 2 });
+    });
+
+    it('should reject blocks that are not a mapping', () => {
+      expect(() => splitFrontMatter('---\n- a\n---\n')).toThrow(FrontMatterError);
+    });
+  });
+
+  describe('validateFrontMatter', () => {
+    it('should report schema violations', () => {
+      expect(() => validateFrontMatter({ name: 'bad name', tags: 'review', colour: 'red' })).toThrow(
+        /Invalid front-matter: .*\/name.*\/tags/
+      );
+    });
+
+    it('should accept numeric versions as strings', () => {
+      expect(validateFrontMatter({ version: 2 }).version).toBe('2');
+    });
+  });
+
+  describe('readFrontMatter', () => {
+    it('should read a block that is not a mapping as markdown', () => {
+      const content = '---\nIntro between rules.\n---\n# Rules\n- a\n';
+
+      expect(readFrontMatter(content)).toEqual({
+        body: content,
+        bodyLine: 1,
+        keyLines: {},
+        warnings: ['Invalid front-matter: expected a mapping; read as markdown'],
+      });
+    });
+
+    it('should drop unknown keys and keep the rest', () => {
+      const { metadata, body, warnings } = readFrontMatter('---\nname: review\nauthor: sam\n---\n# Rules\n');
+
+      expect(metadata).toEqual({ name: 'review' });
+      expect(body).toBe('# Rules\n');
+      expect(warnings).toEqual(["Ignoring unknown front-matter key 'author'"]);
+    });
+
+    it('should ignore a block that fails the schema', () => {
+      const { metadata, body, warnings } = readFrontMatter('---\ntags: review\n---\n# Rules\n');
+
+      expect(metadata).toBeUndefined();
+      expect(body).toBe('# Rules\n');
+      expect(warnings[0]).toMatch(/\/tags .*; front-matter ignored$/);
+    });
+  });
+
+  describe('profiles', () => {
+    let dir: string;
+    let profilePath: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'front-matter-'));
+      profilePath = path.join(dir, 'review.md');
+      await fs.writeFile(profilePath, PROFILE);
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should parse metadata before the markdown body', async () => {
+      const config = await new ClaudeConfigManager().loadClaudeConfig(profilePath);
+
+      expect(config.profileName).toBe('code-review');
+      expect(config.metadata).toMatchObject({
+        name: 'code-review',
+        version: '1.2',
+        tags: ['review', 'typescript'],
+        requiredTools: ['serena__find_symbol'],
+        requiredServers: ['serena'],
+      });
+      expect(config.description).toBe('Careful reviews');
+      expect(config.$version).toBe('1.0.0');
+      expect(config.inheritance).toEqual({
+        enabled: true,
+        overrideStrategy: 'merge',
+        baseProfiles: ['./base.md'],
+      });
+      expect(config.instructions).toEqual(['Read the diff first.', 'Check every change.']);
+    });
+
+    it('should round-trip the front-matter through saveClaude', async () => {
+      const manager = new ClaudeConfigManager();
+      const config = manager.parseClaude(PROFILE);
+      const copy = path.join(dir, 'copy.md');
+
+      await manager.saveClaude(copy, config);
+      const saved = await fs.readFile(copy, 'utf-8');
+
+      expect(saved.startsWith('---\nname: code-review\n')).toBe(true);
+      expect(saved).not.toContain('Description: Careful reviews');
+      expect(saved).not.toContain('# Inheritance Configuration');
+      const reparsed = manager.parseClaude(saved);
+      expect(reparsed.metadata).toEqual(config.metadata);
+      expect(reparsed.instructions).toEqual(config.instructions);
+    });
+
+    it('should load a profile with invalid front-matter without its metadata', async () => {
+      await fs.writeFile(profilePath, '---\ntags: review\n---\n# Rules\n- a\n');
+
+      const config = await new ClaudeConfigManager().loadClaudeConfig(profilePath);
+
+      expect(config.metadata).toBeUndefined();
+      expect(config.rules).toEqual(['- a']);
+    });
+
+    it('should load a profile that starts with a horizontal rule', async () => {
+      await fs.writeFile(profilePath, '---\nShared review setup.\n---\n# Rules\n- a\n');
+
+      const config = await new ClaudeConfigManager().loadClaudeConfig(profilePath);
+
+      expect(config.metadata).toBeUndefined();
+      expect(config.rules).toEqual(['- a']);
+    });
+
+    it('should include the front-matter in getConfigMetadata', async () => {
+      const metadata = await new ClaudeConfigManager().getConfigMetadata(profilePath);
+
+      expect(metadata?.frontMatter).toMatchObject({ name: 'code-review', requiredServers: ['serena'] });
+    });
+
+    it('should show metadata in list_claude_configs', async () => {
+      const manager = new ClaudeConfigManager();
+      const config = await manager.loadClaudeConfig(profilePath);
+      const sessions = new SessionManager(new Map([['code-review', config]]));
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+      const handlers = new ToolHandlers(server, manager, new Map(), undefined, undefined, undefined, sessions);
+
+      const result = await (handlers as any).doHandleListClaudeConfigs({}, sessions.getDefaultSession());
+      const listed = JSON.parse(result.content[0].text.replace('CLAUDE.md configs:\n\n', ''));
+
+      expect(listed.loaded[0].metadata).toMatchObject({
+        name: 'code-review',
+        description: 'Careful reviews',
+        tags: ['review', 'typescript'],
+      });
+    });
+
+    it('should fail config-doctor validation for invalid front-matter', async () => {
+      await fs.writeFile(profilePath, '---\nrequiredTools: serena\n---\n# Rules\n- a\n');
+      const configPath = path.join(dir, 'omni-config.yaml');
+      await fs.writeFile(
+        configPath,
+        `mode: standard\nautoLoad:\n  profiles:\n    - name: review\n      path: "./review.md"\n`
+      );
+
+      const result = await new FailFastValidator(new SilentLogger()).validateOnly(configPath);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatchObject({ field: 'autoLoad.profiles.review', file: profilePath, line: 2 });
+      expect(result.errors[0].message).toContain('/requiredTools');
+    });
+  });
+});
@@ -364,6 +364,26 @@ describe('ProcessErrorHandler', () => {
       
       expect(mockLogger.error).toHaveBeenCalledWith('[CLEANUP] Cleanup error:', cleanupError);
     });
+
+    it('should await shutdown hooks before emitting beforeExit', async () => {
+      const order: string[] = [];
+      mockTimer.setTimeout = vi.fn().mockImplementation((callback) => {
+        callback();
+        return Symbol('timeout') as any;
+      });
+      mockProcess.emit = vi.fn().mockImplementation(() => {
+        order.push('beforeExit');
+      });
+
+      handler.onShutdown(async () => {
+        await new Promise((resolve) => setImmediate(resolve));
+        order.push('hook');
+      });
+
+      await (handler as any).performCleanup();
+
+      expect(order).toEqual(['hook', 'beforeExit']);
+    });
   });
 
   describe('Health Check Endpoint', () => {
@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { diffProfiles, formatProfileDiff, unifiedDiff } from '../../src/utils/profile-diff.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { ClaudeConfig, ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { SilentLogger } from '../../src/utils/logger.js';
+import { AccessPolicy } from '../../src/security/access-policy.js';
+import { parsePolicy } from '../../src/security/policy-file.js';
+
+const strict: ClaudeConfig = {
+  instructions: ['- Review every change', '- Be concise'],
+  rules: ['No secrets in code', 'Write tests'],
+  tools: ['git'],
+  inheritance: { enabled: true, baseProfiles: ['base.md'] },
+  content: '# Strict',
+  filePath: '/profiles/strict.md',
+};
+
+const relaxed: ClaudeConfig = {
+  instructions: ['Review every change', 'Be friendly'],
+  rules: ['No secrets in code'],
+  knowledge: ['The team uses pnpm'],
+  inheritance: { enabled: true, baseProfiles: ['base.md', 'team.md'] },
+  content: '# Relaxed',
+  filePath: '/profiles/relaxed.md',
+};
+
+describe('Profile diff', () => {
+  it('should report added, removed and changed items per section', () => {
+    const { sections } = diffProfiles(strict, relaxed);
+
+    expect(sections).toEqual([
+      {
+        section: 'instructions',
+        status: 'changed',
+        added: [],
+        removed: [],
+        changed: [{ from: 'Be concise', to: 'Be friendly' }],
+      },
+      { section: 'rules', status: 'changed', added: [], removed: ['Write tests'], changed: [] },
+      { section: 'knowledge', status: 'added', added: ['The team uses pnpm'], removed: [], changed: [] },
+      { section: 'tools', status: 'removed', added: [], removed: ['git'], changed: [] },
+      {
+        section: 'inheritance.baseProfiles',
+        status: 'changed',
+        added: ['team.md'],
+        removed: [],
+        changed: [],
+      },
+    ]);
+  });
+
+  it('should ignore where profiles came from', () => {
+    expect(diffProfiles(strict, { ...strict, content: 'other', filePath: '/elsewhere.md' }).sections).toEqual([]);
+    expect(formatProfileDiff(strict, strict, { from: 'a', to: 'b' })).toBe("No differences between 'a' and 'b'.");
+  });
+
+  it('should render text, json and unified output', () => {
+    const names = { from: 'strict', to: 'relaxed' };
+
+    const text = formatProfileDiff(strict, relaxed, names);
+    expect(text).toContain('Profile diff: strict -> relaxed');
+    expect(text).toContain('  ~ Be concise -> Be friendly');
+    expect(text).toContain('  + The team uses pnpm');
+
+    expect(JSON.parse(formatProfileDiff(strict, relaxed, names, 'json')).sections).toHaveLength(5);
+
+    const unified = formatProfileDiff(strict, relaxed, names, 'unified');
+    expect(unified.split('\n').slice(0, 2)).toEqual(['--- strict', '+++ relaxed']);
+    expect(unified).toContain('-- Be concise\n+- Be friendly');
+    expect(unified).toContain('+# knowledge');
+  });
+
+  it('should produce hunks with context lines', () => {
+    const from = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j'].join('\n');
+    const to = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k'].join('\n');
+
+    expect(unifiedDiff(from, to, 'old', 'new', 1)).toBe(
+      ['--- old', '+++ new', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c', '@@ -10,1 +10,2 @@', ' j', '+k'].join('\n')
+    );
+    expect(unifiedDiff(from, from, 'old', 'new')).toBe('');
+  });
+
+  it('should diff large changes as a replacement', () => {
+    const lines = (prefix: string) => Array.from({ length: 1500 }, (_, i) => `${prefix}${i}`);
+    const from = ['same', ...lines('x'), 'end'].join('\n');
+    const to = ['same', ...lines('y'), 'end'].join('\n');
+
+    const diff = unifiedDiff(from, to, 'old', 'new', 1).split('\n');
+
+    expect(diff.slice(0, 5)).toEqual(['--- old', '+++ new', '@@ -1,1502 +1,1502 @@', ' same', '-x0']);
+    expect(diff.indexOf('+y0')).toBe(diff.indexOf('-x1499') + 1);
+    expect(diff[diff.length - 1]).toBe(' end');
+  });
+
+  describe('diff_claude_configs', () => {
+    let dir: string;
+    let sessions: SessionManager;
+    let handlers: ToolHandlers;
+
+    const call = (args: unknown) =>
+      (handlers as any).dispatchToolCall('diff_claude_configs', args, sessions.getDefaultSession());
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profile-diff-'));
+      await fs.writeFile(path.join(dir, 'base.md'), '# Rules\n- No secrets in code\n');
+      await fs.writeFile(
+        path.join(dir, 'child.md'),
+        '---\ninheritance:\n  baseProfiles: [base.md]\n---\n# Instructions\n- Review every change\n'
+      );
+      sessions = new SessionManager(
+        new Map<string, ClaudeConfig>([
+          ['child', { instructions: ['Review every change'], filePath: path.join(dir, 'child.md') }],
+          ['plain', { instructions: ['Be friendly'] }],
+        ])
+      );
+      handlers = new ToolHandlers(
+        new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} }),
+        new ClaudeConfigManager(),
+        new Map(),
+        undefined,
+        new SilentLogger(),
+        undefined,
+        sessions
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should diff the applied profile against another after inheritance resolution', async () => {
+      await (handlers as any).dispatchToolCall(
+        'apply_claude_config',
+        { profileName: 'plain' },
+        sessions.getDefaultSession()
+      );
+
+      const result = await call({ to: 'child', format: 'json' });
+
+      const diff = JSON.parse(result.content[0].text);
+      expect(diff.from).toBe('applied (plain)');
+      expect(diff.sections).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ section: 'instructions', changed: [{ from: 'Be friendly', to: 'Review every change' }] }),
+          expect.objectContaining({ section: 'rules', status: 'added', added: ['No secrets in code'] }),
+        ])
+      );
+    });
+
+    it('should report errors for missing profiles and bad formats', async () => {
+      const unapplied = await call({ to: 'child' });
+      expect(unapplied.isError).toBe(true);
+      expect(unapplied.content[0].text).toContain('No configuration is currently applied');
+
+      const format = await call({ from: 'plain', to: 'child', format: 'html' });
+      expect(format.isError).toBe(true);
+      expect(format.content[0].text).toContain('format must be one of: text, unified, json');
+    });
+
+    it('should refuse profile files outside the allowed directories', async () => {
+      const result = await call({ from: 'plain', to: '/etc/hostname' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        "Profile '/etc/hostname' is not a loaded profile or a profile file in an allowed directory"
+      );
+    });
+
+    it('should check the policy profile rules for both sides', async () => {
+      const accessPolicy = new AccessPolicy({ enabled: true }, undefined, {
+        logEvent: vi.fn().mockResolvedValue(undefined)
+      });
+      accessPolicy.setPolicy(parsePolicy('rules: [{ name: no-child, effect: deny, profiles: ["child"] }]'));
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: { tools: {} } });
+      new ToolHandlers(
+        server,
+        new ClaudeConfigManager(),
+        new Map(),
+        undefined,
+        new SilentLogger(),
+        undefined,
+        sessions,
+        accessPolicy
+      ).setupHandlers();
+      const client = new Client({ name: 'test-client', version: '1.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await Promise.all([client.connect(clientTransport), server.connect(serverTransport)]);
+
+      await expect(
+        client.callTool({ name: 'diff_claude_configs', arguments: { from: 'plain', to: 'child' } })
+      ).rejects.toThrow(/policy rule 'no-child'/);
+      await client.close();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ProfileIncludeError,
+  describeIncludeTree,
+  hasIncludeDirectives,
+  resolveIncludes,
+} from '../../src/utils/profile-includes.js';
+import { ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { applyClaudeConfig } from '../../src/behavior/apply.js';
+import { BehaviorStateManager } from '../../src/behavior/state.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+
+describe('profile includes', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profile-includes-'));
+    await fs.mkdir(path.join(dir, 'shared'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  async function write(name: string, content: string): Promise<string> {
+    const file = path.join(dir, name);
+    await fs.writeFile(file, content);
+    return file;
+  }
+
+  /** Rewrite a file with a later mtime so cached profiles are re-read */
+  async function rewrite(file: string, content: string): Promise<void> {
+    await fs.writeFile(file, content);
+    const later = new Date(Date.now() + 2000);
+    await fs.utimes(file, later, later);
+  }
+
+  describe('resolveIncludes', () => {
+    it('should splice a fragment in place of the directive', async () => {
+      const fragment = await write('shared/style.md', '- Use tabs\n');
+      const profile = await write('profile.md', '# Rules\n- Be kind\n@include shared/style.md\n- Be brief\n');
+
+      const resolved = await resolveIncludes(await fs.readFile(profile, 'utf-8'), profile);
+
+      expect(resolved.content).toBe('# Rules\n- Be kind\n- Use tabs\n- Be brief\n');
+      expect(resolved.files).toEqual([fragment]);
+      expect(resolved.tree).toEqual([{ path: fragment, includes: [] }]);
+    });
+
+    it('should expand globs in sorted order and resolve nested includes', async () => {
+      const a = await write('shared/a.md', '- A\n@include ../common.md\n');
+      const b = await write('shared/b.md', '- B\n');
+      const common = await write('common.md', '- Common\n');
+      const profile = await write('profile.md', '# Rules\n@include shared/*.md\n');
+
+      const resolved = await resolveIncludes(await fs.readFile(profile, 'utf-8'), profile);
+
+      expect(resolved.content).toBe('# Rules\n- A\n- Common\n- B\n');
+      expect(resolved.files).toEqual([a, common, b]);
+      expect(describeIncludeTree(resolved.tree, profile)).toEqual([
+        { file: path.join('shared', 'a.md'), includes: [{ file: 'common.md' }] },
+        { file: path.join('shared', 'b.md') },
+      ]);
+    });
+
+    it('should include nothing for a glob without matches', async () => {
+      const profile = await write('profile.md', '# Rules\n@include missing/*.md\n');
+
+      const resolved = await resolveIncludes(await fs.readFile(profile, 'utf-8'), profile);
+
+      expect(resolved.content).toBe('# Rules\n');
+      expect(resolved.files).toEqual([]);
+    });
+
+    it('should report include cycles', async () => {
+      await write('shared/a.md', '@include b.md\n');
+      await write('shared/b.md', '@include a.md\n');
+      const profile = await write('profile.md', '@include shared/a.md\n');
+
+      await expect(resolveIncludes(await fs.readFile(profile, 'utf-8'), profile)).rejects.toThrow(
+        /Include cycle: .*profile\.md -> .*a\.md -> .*b\.md -> .*a\.md/
+      );
+    });
+
+    it('should refuse includes outside the allowed roots', async () => {
+      const profile = await write('profile.md', '@include ../../etc/passwd\n');
+
+      await expect(
+        resolveIncludes(await fs.readFile(profile, 'utf-8'), profile, [dir])
+      ).rejects.toBeInstanceOf(ProfileIncludeError);
+    });
+
+    it('should fail when an included file is missing', async () => {
+      const profile = await write('profile.md', '@include shared/missing.md\n');
+
+      await expect(resolveIncludes(await fs.readFile(profile, 'utf-8'), profile)).rejects.toThrow(
+        /Cannot read 'shared\/missing\.md'/
+      );
+    });
+
+    it('should leave directives inside code fences alone', async () => {
+      const content = '# Knowledge\n```\n@include shared/style.md\n```\n';
+
+      expect(hasIncludeDirectives(content)).toBe(false);
+      const resolved = await resolveIncludes(content, path.join(dir, 'profile.md'));
+      expect(resolved.content).toBe(content);
+    });
+  });
+
+  describe('integration', () => {
+    it('should parse included sections and reload when a fragment changes', async () => {
+      const fragment = await write('shared/rules.md', '- Never force push\n');
+      const profile = await write('profile.md', '# Rules\n- Review first\n@include shared/rules.md\n');
+      const manager = new ClaudeConfigManager();
+
+      const config = await manager.loadClaudeConfig(profile);
+      expect(config.rules).toEqual(['- Review first', '- Never force push']);
+      expect(config.content).toContain('@include shared/rules.md');
+      expect(config.includes).toEqual([fragment]);
+
+      await rewrite(fragment, '- Always rebase\n');
+      const reloaded = await manager.loadClaudeConfig(profile);
+      expect(reloaded.rules).toEqual(['- Review first', '- Always rebase']);
+    });
+
+    it('should re-apply a profile when an included fragment changes', async () => {
+      const fragment = await write('shared/rules.md', '- Never force push\n');
+      const profile = await write('profile.md', '# Rules\n@include shared/rules.md\n');
+      const state = new BehaviorStateManager();
+
+      expect((await applyClaudeConfig(profile, 'test', { state })).status).toBe('applied');
+      expect((await applyClaudeConfig(profile, 'test', { state })).status).toBe('noop');
+
+      await rewrite(fragment, '- Always rebase\n');
+      expect((await applyClaudeConfig(profile, 'test', { state })).status).toBe('applied');
+    });
+
+    it('should show the include tree in list_claude_configs', async () => {
+      await write('shared/rules.md', '- Never force push\n');
+      const profile = await write('profile.md', '# Rules\n@include shared/rules.md\n');
+      const manager = new ClaudeConfigManager();
+      const config = await manager.loadClaudeConfig(profile);
+      const sessions = new SessionManager(new Map([['review', config]]));
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+      const handlers = new ToolHandlers(server, manager, new Map(), undefined, undefined, undefined, sessions);
+
+      const result = await (handlers as any).doHandleListClaudeConfigs({}, sessions.getDefaultSession());
+      const listed = JSON.parse(result.content[0].text.replace('CLAUDE.md configs:\n\n', ''));
+
+      expect(listed.loaded).toEqual([
+        {
+          name: 'review',
+          status: 'loaded',
+          file: 'profile.md',
+          includes: [{ file: path.join('shared', 'rules.md') }],
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { parseProfileMarkdown } from '../../src/utils/profile-markdown.js';
+import { ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { FailFastValidator } from '../../src/validation/fail-fast.js';
+import { SilentLogger } from '../../src/utils/logger.js';
+
+const PROFILE = `---
+description: Reviews
+---
+# Review Profile
+
+Version: 2.0.0
+
+## Instructions
+- Read the diff
+  - then the tests
+- Severity: high for security issues
+
+\`\`\`sh
+# run before reviewing
+
+npm test
+\`\`\`
+
+### Style
+Prefer small functions.
+
+## Rules
+<!-- team rules -->
+- Be kind
+`;
+
+describe('profile markdown', () => {
+  describe('parseProfileMarkdown', () => {
+    it('should nest sections by heading depth with source positions', () => {
+      const document = parseProfileMarkdown('Intro\n\n# A\ntext\n\n## B\n  - item\n# C\n', 3);
+
+      expect(document.preamble).toEqual([{ type: 'paragraph', raw: 'Intro', line: 3, column: 1 }]);
+      expect(document.sections.map((section) => section.title)).toEqual(['A', 'C']);
+      const [a, c] = document.sections;
+      expect(a).toMatchObject({ depth: 1, line: 5, column: 1 });
+      expect(a.children[0]).toMatchObject({ title: 'B', depth: 2, line: 8 });
+      expect(a.children[0].blocks[0]).toMatchObject({ type: 'list', line: 9, column: 3 });
+      expect(c.line).toBe(10);
+    });
+
+    it('should keep headings inside code fences as code', () => {
+      const document = parseProfileMarkdown('# A\n```\n# not a heading\n```\n');
+
+      expect(document.sections).toHaveLength(1);
+      expect(document.sections[0].blocks[0]).toMatchObject({ type: 'code', raw: '```\n# not a heading\n```' });
+    });
+  });
+
+  describe('parseClaude', () => {
+    it('should keep code fences, nested lists and sub-sections in their field', () => {
+      const config = new ClaudeConfigManager().parseClaude(PROFILE);
+
+      expect(config.instructions).toEqual([
+        '- Read the diff',
+        '  - then the tests',
+        '- Severity: high for security issues',
+        '```sh',
+        '# run before reviewing',
+        '',
+        'npm test',
+        '```',
+        '### Style',
+        'Prefer small functions.',
+      ]);
+      expect(config.rules).toEqual(['- Be kind']);
+      expect(config.version).toBe('2.0.0');
+      expect(config.severity).toBeUndefined();
+      expect(config.style).toBeUndefined();
+    });
+
+    it('should only read known fields from key-value paragraphs', () => {
+      const config = new ClaudeConfigManager().parseClaude(`# Review Profile
+
+Project Name: Reviews
+Description: Code review
+
+## Context
+Note: keep this prose
+
+Version: 1.0.0
+Owner: platform team
+`);
+
+      expect(config).toMatchObject({ project_name: 'Reviews', description: 'Code review' });
+      expect(config.context).toEqual(['Note: keep this prose', 'Version: 1.0.0', 'Owner: platform team']);
+      expect(config.note).toBeUndefined();
+      expect(config.version).toBeUndefined();
+      expect(config.owner).toBeUndefined();
+    });
+
+    it('should record where each field starts', () => {
+      const config = new ClaudeConfigManager().parseClaude(PROFILE);
+
+      expect(config.sourceMap).toMatchObject({
+        metadata: { line: 1, column: 1 },
+        version: { line: 6, column: 1 },
+        instructions: { line: 8, column: 1 },
+        rules: { line: 22, column: 1 },
+      });
+    });
+  });
+
+  describe('saveClaude', () => {
+    let dir: string;
+    let profilePath: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profile-markdown-'));
+      profilePath = path.join(dir, 'review.md');
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should write an unchanged profile back byte-for-byte', async () => {
+      const original = PROFILE.replace(/\n/g, '\r\n') + '\r\n\r\n';
+      await fs.writeFile(profilePath, original);
+      const manager = new ClaudeConfigManager();
+
+      await manager.saveClaude(profilePath, (await manager.loadClaudeConfig(profilePath))!);
+      expect(await fs.readFile(profilePath, 'utf-8')).toBe(original);
+
+      const copy = path.join(dir, 'copy.md');
+      await manager.saveClaude(copy, manager.parseClaude(original));
+      expect(await fs.readFile(copy, 'utf-8')).toBe(original);
+    });
+
+    it('should regenerate a profile that was changed', async () => {
+      await fs.writeFile(profilePath, PROFILE);
+      const manager = new ClaudeConfigManager();
+      const config = manager.parseClaude(PROFILE);
+      config.rules = ['- Be brief'];
+
+      await manager.saveClaude(profilePath, config);
+
+      const saved = manager.parseClaude(await fs.readFile(profilePath, 'utf-8'));
+      expect(saved.rules).toEqual(['- Be brief']);
+      expect(saved.instructions).toEqual(config.instructions);
+    });
+
+    it('should read back a saved inheritance section', async () => {
+      const manager = new ClaudeConfigManager();
+
+      await manager.saveClaude(profilePath, {
+        instructions: ['- Review'],
+        inheritance: { enabled: true, baseProfiles: ['base.md'], mergeArrays: true },
+      });
+
+      expect(manager.parseClaude(await fs.readFile(profilePath, 'utf-8')).inheritance).toEqual({
+        enabled: true,
+        baseProfiles: ['base.md'],
+        mergeArrays: true,
+      });
+    });
+  });
+
+  describe('config-doctor', () => {
+    it('should point at the line of an unresolved variable', async () => {
+      const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profile-markdown-'));
+      try {
+        const profilePath = path.join(dir, 'review.md');
+        await fs.writeFile(profilePath, '# Instructions\n\n- Work on {{ project }}\n');
+        const configPath = path.join(dir, 'omni-config.yaml');
+        await fs.writeFile(
+          configPath,
+          `mode: standard\nautoLoad:\n  profiles:\n    - name: review\n      path: "./review.md"\n`
+        );
+
+        const result = await new FailFastValidator(new SilentLogger()).validateOnly(configPath);
+
+        expect(result.errors).toContainEqual(
+          expect.objectContaining({ file: profilePath, line: 3, column: 11 })
+        );
+      } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ProfileTemplateError,
+  findTemplateVariables,
+  renderTemplate,
+  resolveSecretVariables,
+  toSecretReference,
+} from '../../src/utils/profile-template.js';
+import { ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { BehaviorGenerator } from '../../src/utils/behavior-generator.js';
+import { SecretManager } from '../../src/security/secret-manager.js';
+import { ToolHandlers } from '../../src/tools/handlers.js';
+import { SessionManager } from '../../src/server/sessions.js';
+import { FailFastValidator } from '../../src/validation/fail-fast.js';
+import { SilentLogger } from '../../src/utils/logger.js';
+
+const PROFILE = `---
+variables:
+  projectName: omni
+  testCommand: npm test
+---
+# Instructions
+Work on {{projectName}} in {{language}}.
+Run \`{{testCommand}}\` before committing.
+`;
+
+describe('profile templates', () => {
+  describe('renderTemplate', () => {
+    it('should substitute variables and report missing ones', () => {
+      const rendered = renderTemplate('{{ name }} uses {{language}} {{name}}', { name: 'omni' });
+
+      expect(rendered.text).toBe('omni uses {{language}} omni');
+      expect(rendered.missing).toEqual(['language']);
+    });
+
+    it('should read env variables from the environment unless given explicitly', () => {
+      const env = { CI: 'true' };
+
+      expect(renderTemplate('ci={{env.CI}}', {}, env).text).toBe('ci=true');
+      expect(renderTemplate('ci={{env.CI}}', { 'env.CI': 'false' }, env).text).toBe('ci=false');
+      expect(renderTemplate('{{env.HOME_DIR}}', {}, env).missing).toEqual(['env.HOME_DIR']);
+    });
+
+    it('should treat inherited object keys as missing variables', () => {
+      const rendered = renderTemplate('{{constructor}} {{toString}} {{env.hasOwnProperty}}', {}, {});
+
+      expect(rendered.text).toBe('{{constructor}} {{toString}} {{env.hasOwnProperty}}');
+      expect(rendered.missing).toEqual(['constructor', 'toString', 'env.hasOwnProperty']);
+    });
+
+    it('should write out escaped placeholders as written without the backslash', () => {
+      const rendered = renderTemplate('ref: $\\{{ github.ref }} for {{name}}', { name: 'omni' });
+
+      expect(rendered).toEqual({ text: 'ref: ${{ github.ref }} for omni', missing: [] });
+      expect(findTemplateVariables('$\\{{ github.ref }} {{name}}')).toEqual(['name']);
+    });
+
+    it('should list variables in order of first use', () => {
+      expect(findTemplateVariables('{{b}} {{a}} {{b}} {{secret:vault://kv/x}}')).toEqual([
+        'b',
+        'a',
+        'secret:vault://kv/x',
+      ]);
+    });
+  });
+
+  describe('secrets', () => {
+    it('should map provider URIs to secret references', () => {
+      expect(toSecretReference('vault://kv/ci')).toBe('${VAULT:kv/ci}');
+      expect(toSecretReference('vault://kv/ci#token')).toBe('${VAULT:kv/ci:token}');
+      expect(toSecretReference('plain-name')).toBe('plain-name');
+    });
+
+    it('should resolve secret variables through the secret manager', async () => {
+      const secretManager = new SecretManager();
+      const resolveSecret = vi.spyOn(secretManager, 'resolveSecret').mockResolvedValue('s3cr3t');
+
+      const secrets = await resolveSecretVariables(
+        'token={{secret:vault://kv/ci#token}} {{name}}',
+        {},
+        secretManager
+      );
+
+      expect(secrets).toEqual({ 'secret:vault://kv/ci#token': 's3cr3t' });
+      expect(resolveSecret).toHaveBeenCalledWith('${VAULT:kv/ci:token}');
+    });
+
+    it('should fail when a secret cannot be resolved', async () => {
+      await expect(resolveSecretVariables('{{secret:vault://kv/ci}}', {})).rejects.toBeInstanceOf(
+        ProfileTemplateError
+      );
+    });
+  });
+
+  describe('profiles', () => {
+    let dir: string;
+    let profilePath: string;
+
+    beforeEach(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profile-template-'));
+      profilePath = path.join(dir, 'review.md');
+      await fs.writeFile(profilePath, PROFILE);
+    });
+
+    afterEach(async () => {
+      await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    it('should read defaults from the front-matter and render at generation time', async () => {
+      const config = await new ClaudeConfigManager().loadClaudeConfig(profilePath);
+
+      expect(config.variables).toEqual({ projectName: 'omni', testCommand: 'npm test' });
+      expect(config.instructions).toEqual([
+        'Work on {{projectName}} in {{language}}.',
+        'Run `{{testCommand}}` before committing.',
+      ]);
+      const instructions = BehaviorGenerator.generateInstructions(config, {
+        language: 'TypeScript',
+        testCommand: 'npm run test:unit',
+      });
+      expect(instructions).toContain('Work on omni in TypeScript.');
+      expect(instructions).toContain('Run `npm run test:unit` before committing.');
+    });
+
+    it('should keep the defaults when the profile is saved', async () => {
+      const manager = new ClaudeConfigManager();
+      const config = await manager.loadClaudeConfig(profilePath);
+      const copy = path.join(dir, 'copy.md');
+
+      await manager.saveClaude(copy, config);
+
+      expect(manager.parseClaude(await fs.readFile(copy, 'utf-8')).variables).toEqual(config.variables);
+    });
+
+    it('should apply with variables and refuse unresolved ones', async () => {
+      const sessions = new SessionManager(new Map());
+      const server = new Server({ name: 'test', version: '1.0.0' }, { capabilities: {} });
+      const handlers = new ToolHandlers(
+        server,
+        new ClaudeConfigManager(),
+        new Map(),
+        undefined,
+        undefined,
+        undefined,
+        sessions
+      );
+      const session = sessions.getDefaultSession();
+
+      const refused = await (handlers as any).doHandleApplyClaudeConfig({ filePath: profilePath }, session);
+      expect(refused.isError).toBe(true);
+      expect(refused.content[0].text).toContain('unresolved variables: language');
+      expect(session.lastAppliedProfile).toBeNull();
+
+      await (handlers as any).doHandleApplyClaudeConfig(
+        { filePath: profilePath, variables: { language: 'Go' } },
+        session
+      );
+      expect(session.lastAppliedProfile).toBe('review');
+      expect(session.appliedBehaviorInstructions).toContain('Work on omni in Go.');
+      expect(session.appliedVariables).toEqual({ language: 'Go' });
+    });
+
+    it('should apply profiles with escaped placeholders', async () => {
+      await fs.writeFile(profilePath, '# Instructions\nCheck out $\\{{ github.ref }} in CI.\n');
+      const config = await new ClaudeConfigManager().loadClaudeConfig(profilePath);
+
+      const instructions = await BehaviorGenerator.renderInstructions('review', config);
+
+      expect(instructions).toContain('Check out ${{ github.ref }} in CI.');
+    });
+
+    it('should fail config-doctor validation for unresolved variables', async () => {
+      const configPath = path.join(dir, 'omni-config.yaml');
+      await fs.writeFile(
+        configPath,
+        `mode: standard\nautoLoad:\n  profiles:\n    - name: review\n      path: "./review.md"\n`
+      );
+
+      const result = await new FailFastValidator(new SilentLogger()).validateOnly(configPath);
+
+      expect(result.valid).toBe(false);
+      expect(result.errors).toContainEqual(
+        expect.objectContaining({
+          field: 'autoLoad.profiles.review',
+          message: 'Unresolved variables: language',
+        })
+      );
+    });
+  });
+});
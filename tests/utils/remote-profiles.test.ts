@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ClaudeConfigManager } from '../../src/utils/claude-config.js';
+import { ProfileInheritanceManager } from '../../src/utils/profile-inheritance.js';
+import {
+  GitHubProfileLoader,
+  HttpsProfileLoader,
+  MAX_REMOTE_PROFILE_BYTES,
+  NpmProfileLoader,
+  RemoteProfileOptions,
+  RemoteProfileResolver,
+} from '../../src/utils/remote-profiles.js';
+import { embedSignature, signProfileContent } from '../../src/security/profile-signing.js';
+
+describe('Remote base profiles', () => {
+  let dir: string;
+  let remote: Record<string, string>;
+  let fetchFile: ReturnType<typeof vi.fn>;
+
+  const writeChild = (baseProfile: string) =>
+    fs.writeFile(
+      path.join(dir, 'child.md'),
+      `---\ninheritance:\n  baseProfiles:\n    - "${baseProfile}"\n---\n# Instructions\n- Review every change\n`
+    );
+
+  const resolve = (options: RemoteProfileOptions = {}) => {
+    const configManager = new ClaudeConfigManager();
+    configManager.setRemoteProfiles(
+      new RemoteProfileResolver(
+        {
+          lockFile: path.join(dir, 'omni-profiles.lock.json'),
+          cacheDir: path.join(dir, 'cache'),
+          trustedKeysDir: path.join(dir, 'keys'),
+          ...options,
+        },
+        undefined,
+        [new GitHubProfileLoader({ fetchFile } as any), new NpmProfileLoader()]
+      )
+    );
+    return new ProfileInheritanceManager(configManager).resolveProfile(path.join(dir, 'child.md'));
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'remote-profiles-'));
+    await fs.mkdir(path.join(dir, 'keys'));
+    remote = {
+      'profiles/base.md': '---\ninheritance:\n  baseProfiles: [org.md]\n---\n# Rules\n- No secrets in code\n',
+      'profiles/org.md': '# Knowledge\n- The org uses pnpm\n',
+    };
+    fetchFile = vi.fn(async (_config, filePath: string) =>
+      remote[filePath] === undefined
+        ? null
+        : { name: path.basename(filePath), path: filePath, content: remote[filePath], sha: 'abc', size: 1, type: 'file' }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it('should inherit GitHub profiles and their relative bases, and lock them', async () => {
+    await writeChild('github:acme/shared/profiles/base.md@v1');
+
+    const result = await resolve();
+
+    expect(result.errors).toEqual([]);
+    expect(result.config.instructions).toEqual(['- Review every change']);
+    expect(result.config.rules).toEqual(['- No secrets in code']);
+    expect(result.config.knowledge).toEqual(['- The org uses pnpm']);
+    expect(fetchFile).toHaveBeenCalledWith(expect.objectContaining({ owner: 'acme', repo: 'shared', branch: 'v1' }), 'profiles/org.md');
+
+    const lock = JSON.parse(await fs.readFile(path.join(dir, 'omni-profiles.lock.json'), 'utf-8'));
+    expect(Object.keys(lock.profiles)).toEqual([
+      'github:acme/shared/profiles/base.md@v1',
+      'github:acme/shared/profiles/org.md@v1',
+    ]);
+    expect(lock.profiles['github:acme/shared/profiles/base.md@v1'].integrity).toBe(
+      `sha256-${crypto.createHash('sha256').update(remote['profiles/base.md']).digest('hex')}`
+    );
+  });
+
+  it('should resolve locked profiles offline from the cache', async () => {
+    await writeChild('github:acme/shared/profiles/base.md@v1');
+    await resolve();
+    fetchFile.mockClear();
+
+    const result = await resolve({ offline: true });
+
+    expect(result.errors).toEqual([]);
+    expect(result.config.knowledge).toEqual(['- The org uses pnpm']);
+    expect(fetchFile).not.toHaveBeenCalled();
+  });
+
+  it('should refuse content that no longer matches the lockfile', async () => {
+    await writeChild('github:acme/shared/profiles/base.md@v1');
+    await resolve();
+    await fs.rm(path.join(dir, 'cache'), { recursive: true });
+    remote['profiles/base.md'] = '# Rules\n- Anything goes\n';
+
+    const result = await resolve();
+
+    expect(result.errors[0]).toContain('does not match');
+  });
+
+  it('should fail offline when a profile is not cached', async () => {
+    await writeChild('github:acme/shared/profiles/base.md');
+
+    const result = await resolve({ offline: true });
+
+    expect(result.errors[0]).toContain('is not in the profile cache');
+    expect(fetchFile).not.toHaveBeenCalled();
+  });
+
+  it('should read packaged profiles from node_modules', async () => {
+    const packageDir = path.join(dir, 'node_modules', '@acme', 'profiles');
+    await fs.mkdir(packageDir, { recursive: true });
+    await fs.writeFile(path.join(packageDir, 'base.md'), '# Rules\n- Use strict mode\n');
+    await writeChild('npm:@acme/profiles/base.md');
+
+    const result = await resolve();
+
+    expect(result.config.rules).toEqual(['- Use strict mode']);
+  });
+
+  it('should verify embedded signatures with the trusted keys', async () => {
+    const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519', {
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+    });
+    await fs.writeFile(path.join(dir, 'keys', 'acme.pub'), publicKey);
+    const content = '# Rules\n- No secrets in code\n';
+    remote['profiles/signed.md'] = embedSignature(content, signProfileContent(content, privateKey, 'acme'));
+    remote['profiles/tampered.md'] = remote['profiles/signed.md'].replace('No secrets', 'Secrets');
+
+    await writeChild('github:acme/shared/profiles/signed.md');
+    expect((await resolve()).config.rules).toEqual(['- No secrets in code']);
+
+    await writeChild('github:acme/shared/profiles/tampered.md');
+    expect((await resolve()).errors[0]).toContain('failed signature verification');
+  });
+
+  it('should refuse unsigned profiles under enforce without caching them', async () => {
+    await writeChild('github:acme/shared/profiles/org.md');
+
+    const result = await resolve({ profileSigning: 'enforce' });
+
+    expect(result.errors[0]).toContain("is not signed and security.profileSigning is 'enforce'");
+    await expect(fs.access(path.join(dir, 'omni-profiles.lock.json'))).rejects.toThrow();
+    await expect(fs.access(path.join(dir, 'cache'))).rejects.toThrow();
+  });
+
+  it('should refuse remote references without a configured resolver', async () => {
+    await writeChild('github:acme/shared/profiles/base.md');
+
+    const result = await new ProfileInheritanceManager(new ClaudeConfigManager()).resolveProfile(
+      path.join(dir, 'child.md')
+    );
+
+    expect(result.errors[0]).toContain('needs profileManagement.remoteProfiles to be configured');
+    expect(fetchFile).not.toHaveBeenCalled();
+  });
+
+  it('should reject schemes without a loader', async () => {
+    await writeChild('ftp://example.com/base.md');
+
+    const result = await resolve();
+
+    expect(result.errors[0]).toContain("No loader for 'ftp://example.com/base.md'");
+  });
+
+  describe('HttpsProfileLoader', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      server = http.createServer((req, res) => {
+        if (req.url === '/redirect.md') {
+          res.writeHead(302, { location: '/base.md' }).end();
+        } else if (req.url === '/large.md') {
+          res.end('x'.repeat(MAX_REMOTE_PROFILE_BYTES + 1));
+        } else {
+          res.end('# Rules\n- No secrets in code\n');
+        }
+      });
+      await new Promise<void>((done) => server.listen(0, '127.0.0.1', done));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+      await new Promise((done) => server.close(done));
+    });
+
+    it('should fetch profiles', async () => {
+      expect(await new HttpsProfileLoader().load(`${baseUrl}/base.md`)).toEqual({
+        content: '# Rules\n- No secrets in code\n',
+        resolved: `${baseUrl}/base.md`,
+      });
+    });
+
+    it('should not follow redirects', async () => {
+      await expect(new HttpsProfileLoader().load(`${baseUrl}/redirect.md`)).rejects.toThrow('could not be fetched');
+    });
+
+    it('should refuse oversized profiles', async () => {
+      await expect(new HttpsProfileLoader().load(`${baseUrl}/large.md`)).rejects.toThrow(
+        `is larger than ${MAX_REMOTE_PROFILE_BYTES} bytes`
+      );
+    });
+  });
+});
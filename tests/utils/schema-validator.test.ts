@@ -546,6 +546,46 @@ externalServers:
       expect(emptyServersWarning).toBeDefined();
       expect(emptyServersWarning?.suggestedFix).toContain('Add at least one server');
     });
+
+    it('should warn when servers share a namespace prefix', async () => {
+      mockFs.readFile.mockImplementation(async (filePath: any) => {
+        if (filePath.toString().includes('shared-alias.yaml')) {
+          return `
+externalServers:
+  enabled: true
+  servers:
+    - name: serena
+      command: uvx
+      args: []
+      alias: code
+    - name: code
+      command: node
+      args: []
+    - name: bare
+      command: node
+      args: []
+      alias: code
+      namespacing: none
+`;
+        }
+        if (filePath.toString().includes('omni-config.schema.json')) {
+          return JSON.stringify({
+            "$schema": "http://json-schema.org/draft-07/schema#",
+            "type": "object"
+          });
+        }
+        return '';
+      });
+
+      const result = await validator.validateConfig('shared-alias.yaml');
+      const prefixWarnings = result.warnings.filter(w =>
+        w.message.includes('share the namespace prefix')
+      );
+
+      expect(prefixWarnings).toHaveLength(1);
+      expect(prefixWarnings[0].message).toContain('code');
+      expect(prefixWarnings[0].suggestedFix).toContain('unique alias');
+    });
   });
 
   describe('findLineNumber', () => {